@@ -5,3 +5,8 @@ export { convertTypeToVoterWeightAction } from './lib/utils'
 export { useHeliumClient } from './useHeliumClient'
 export { useNftClient } from './useNftClient'
 export { useVsrClient } from './useVsrClient'
+export { diagnoseVoterWeight } from './lib/diagnoseVoterWeight'
+export type {
+  VoterWeightDiagnostics,
+  VoterWeightPluginDiagnostic,
+} from './lib/diagnoseVoterWeight'
@@ -0,0 +1,116 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import { ProgramAccount, TokenOwnerRecord } from '@solana/spl-governance'
+import BN from 'bn.js'
+import { PluginName } from '@constants/plugins'
+import { calculateVoterWeight } from './calculateVoterWeights'
+import { CalculatedWeight, VoterWeightPluginInfo } from './types'
+
+export type VoterWeightPluginDiagnostic = {
+  name: PluginName
+  programId: PublicKey
+  registrarPublicKey: PublicKey
+  voterWeightRecordPublicKey: PublicKey | undefined
+  inputWeight: BN | null // the weight passed in by the previous plugin, or the deposited tokens for the first one
+  outputWeight: BN | null // null if the plugin failed or was not reached
+  onChainWeight: BN | undefined // undefined if the voter weight record does not exist
+  expirySlot: BN | null | undefined // null if the record never expires, undefined if unknown
+  error: Error | null
+}
+
+export type VoterWeightDiagnostics = {
+  calculatedWeight: CalculatedWeight
+  plugins: VoterWeightPluginDiagnostic[]
+  currentSlot: number
+}
+
+type DiagnoseVoterWeightParams = {
+  connection: Connection
+  walletPublicKey: PublicKey
+  realmPublicKey: PublicKey
+  governanceMintPublicKey: PublicKey
+  plugins: VoterWeightPluginInfo[]
+  tokenOwnerRecord?: ProgramAccount<TokenOwnerRecord>
+}
+
+const getOnChainRecord = async (
+  plugin: VoterWeightPluginInfo,
+  realmPublicKey: PublicKey,
+  governanceMintPublicKey: PublicKey,
+  walletPublicKey: PublicKey,
+) => {
+  try {
+    const { voterWeightPk } = await plugin.client.getVoterWeightRecordPDA(
+      realmPublicKey,
+      governanceMintPublicKey,
+      walletPublicKey,
+    )
+    // some plugins (e.g. VSR) do not expose the expiry of their records
+    const record = (await plugin.client.getVoterWeightRecord(
+      realmPublicKey,
+      governanceMintPublicKey,
+      walletPublicKey,
+    )) as { voterWeight: BN; voterWeightExpiry?: BN | null } | null
+    return { voterWeightPk, record }
+  } catch {
+    return { voterWeightPk: undefined, record: null }
+  }
+}
+
+/**
+ * Follows a wallet through the voter weight plugin chain, comparing the weight calculated by each plugin
+ * with the voter weight record it currently has on-chain.
+ */
+export const diagnoseVoterWeight = async ({
+  connection,
+  walletPublicKey,
+  realmPublicKey,
+  governanceMintPublicKey,
+  plugins,
+  tokenOwnerRecord,
+}: DiagnoseVoterWeightParams): Promise<VoterWeightDiagnostics> => {
+  const [calculatedWeight, records, currentSlot] = await Promise.all([
+    calculateVoterWeight({
+      walletPublicKey,
+      realmPublicKey,
+      governanceMintPublicKey,
+      plugins,
+      tokenOwnerRecord,
+    }),
+    Promise.all(
+      plugins.map((plugin) =>
+        getOnChainRecord(
+          plugin,
+          realmPublicKey,
+          governanceMintPublicKey,
+          walletPublicKey,
+        ),
+      ),
+    ),
+    connection.getSlot(),
+  ])
+
+  return {
+    calculatedWeight,
+    currentSlot,
+    plugins: plugins.map((plugin, i) => {
+      // the calculation stops at the first failing plugin, so later plugins have no details
+      const detail = calculatedWeight.details[i]
+      const previous = calculatedWeight.details[i - 1]
+      const { voterWeightPk, record } = records[i]
+      return {
+        name: plugin.name,
+        programId: plugin.programId,
+        registrarPublicKey: plugin.registrarPublicKey,
+        voterWeightRecordPublicKey: voterWeightPk,
+        inputWeight:
+          i === 0
+            ? calculatedWeight.initialValue
+            : previous?.pluginWeight ?? null,
+        outputWeight: detail?.pluginWeight ?? null,
+        onChainWeight: record?.voterWeight,
+        expirySlot: record ? record.voterWeightExpiry : undefined,
+        error: detail?.error ?? null,
+      }
+    }),
+  }
+}
@@ -146,7 +146,13 @@ export const useVoterWeightPlugins = (
     }
 
     return queryClient.fetchQuery({
-      queryKey: ['updateVoterWeightRecords', ...queryKeys(queryArgs), action],
+      // the instructions of plugins scoped to a proposal depend on the target
+      queryKey: [
+        'updateVoterWeightRecords',
+        ...queryKeys(queryArgs),
+        action,
+        target?.toBase58(),
+      ],
       queryFn: () =>
         updateVoterWeight({
           walletPublicKey,
@@ -62,7 +62,78 @@ const getVetoTokenMint = (
   return vetoTokenMint
 }
 
-const createDelegatorVote = async ({
+/** The vote for a proposal, voteWeights are the indexes of the approved options of a multiple choice proposal */
+export const buildVote = (
+  proposal: ProgramAccount<Proposal>,
+  voteKind: VoteKind,
+  voteWeights?: number[],
+) => {
+  const isMulti =
+    proposal.account.voteType !== VoteType.SINGLE_CHOICE &&
+    proposal.account.accountType === GovernanceAccountType.ProposalV2
+
+  // It is not clear that defining these extraneous fields, `deny` and `veto`, is actually necessary.
+  // See:  https://discord.com/channels/910194960941338677/910630743510777926/1044741454175674378
+  return isMulti
+    ? new Vote({
+        voteType: VoteKind.Approve,
+        approveChoices: proposal.account.options.map((_o, index) => {
+          if (voteWeights?.includes(index)) {
+            return new VoteChoice({ rank: 0, weightPercentage: 100 })
+          } else {
+            return new VoteChoice({ rank: 0, weightPercentage: 0 })
+          }
+        }),
+        deny: undefined,
+        veto: undefined,
+      })
+    : voteKind === VoteKind.Approve
+    ? new Vote({
+        voteType: VoteKind.Approve,
+        approveChoices: [new VoteChoice({ rank: 0, weightPercentage: 100 })],
+        deny: undefined,
+        veto: undefined,
+      })
+    : voteKind === VoteKind.Deny
+    ? new Vote({
+        voteType: VoteKind.Deny,
+        approveChoices: undefined,
+        deny: true,
+        veto: undefined,
+      })
+    : voteKind == VoteKind.Veto
+    ? new Vote({
+        voteType: VoteKind.Veto,
+        veto: true,
+        deny: undefined,
+        approveChoices: undefined,
+      })
+    : new Vote({
+        voteType: VoteKind.Abstain,
+        veto: undefined,
+        deny: undefined,
+        approveChoices: undefined,
+      })
+}
+
+/** The instructions of a delegator vote, split in the transactions its plugin needs */
+export interface DelegatorVote {
+  tokenOwnerRecordPk: PublicKey
+  // nft action tickets, created before the vote
+  ticketIxs: TransactionInstruction[]
+  // weight counting which does not fit in the vote transaction, sent in order
+  countingIxs: TransactionInstruction[]
+  voteIxs: TransactionInstruction[]
+}
+
+export interface DelegatorVoteError {
+  tokenOwnerRecordPk: PublicKey
+  // owner of the token owner record, when it could be fetched
+  walletPk?: PublicKey
+  error: unknown
+}
+
+export const createDelegatorVote = async ({
   connection,
   realmPk,
   proposalPk,
@@ -78,7 +149,7 @@ const createDelegatorVote = async ({
   delegatePk: PublicKey
   vote: Vote
   votingPlugin: VotingClient | undefined
-}) => {
+}): Promise<DelegatorVote> => {
   //
   const realm = (await fetchRealmByPubkey(connection, realmPk)).result
   if (!realm) throw new Error()
@@ -95,13 +166,15 @@ const createDelegatorVote = async ({
 
   const programVersion = await fetchProgramVersion(connection, realm.owner)
 
+  const ticketIxs: TransactionInstruction[] = []
+  const pluginCastVoteIxs: TransactionInstruction[] = []
   const castVoteIxs: TransactionInstruction[] = []
 
   const pluginAddresses = await votingPlugin?.withCastPluginVote(
-    castVoteIxs,
+    pluginCastVoteIxs,
     proposal,
     tokenOwnerRecordPk,
-    //createCastNftVoteTicketIxs
+    ticketIxs,
   )
   await withCastVote(
     castVoteIxs,
@@ -120,10 +193,129 @@ const createDelegatorVote = async ({
     pluginAddresses?.maxVoterWeightRecord,
   )
 
-  return castVoteIxs
+  // nft and helium count the weight over several instructions, only the last one has to be next to the vote
+  const isCountedOverTransactions =
+    votingPlugin?.client instanceof NftVoterClient ||
+    votingPlugin?.client instanceof HeliumVsrClient
+  return {
+    tokenOwnerRecordPk,
+    ticketIxs,
+    countingIxs: isCountedOverTransactions
+      ? pluginCastVoteIxs.slice(0, -1)
+      : [],
+    voteIxs: [
+      ...(isCountedOverTransactions
+        ? pluginCastVoteIxs.slice(-1)
+        : pluginCastVoteIxs),
+      ...castVoteIxs,
+    ],
+  }
+}
+
+/** Builds the votes of the delegators which have not voted yet, a failing delegator does not stop the others */
+export const createDelegatorVotes = async ({
+  connection,
+  realm,
+  proposal,
+  tokenOwnerRecords,
+  delegatePk,
+  vote,
+  votingPlugin,
+}: {
+  connection: Connection
+  realm: ProgramAccount<Realm>
+  proposal: ProgramAccount<Proposal>
+  tokenOwnerRecords: PublicKey[]
+  delegatePk: PublicKey
+  vote: Vote
+  votingPlugin: VotingClient | undefined
+}) => {
+  const votes: DelegatorVote[] = []
+  const errors: DelegatorVoteError[] = []
+
+  if (
+    !DELEGATOR_BATCH_VOTE_SUPPORT_BY_PLUGIN[
+      findPluginName(votingPlugin?.client?.program.programId)
+    ]
+  )
+    return { votes, errors }
+
+  await Promise.all(
+    tokenOwnerRecords.map(async (tokenOwnerRecordPk) => {
+      let walletPk: PublicKey | undefined
+      try {
+        // Skip vote if already voted
+        const voteRecordPk = await getVoteRecordAddress(
+          realm.owner,
+          proposal.pubkey,
+          tokenOwnerRecordPk,
+        )
+        const voteRecord = await fetchVoteRecordByPubkey(
+          connection,
+          voteRecordPk,
+        )
+        if (voteRecord.found) return
+
+        walletPk = (await getTokenOwnerRecord(connection, tokenOwnerRecordPk))
+          .account.governingTokenOwner
+
+        votes.push(
+          await createDelegatorVote({
+            connection,
+            realmPk: realm.pubkey,
+            proposalPk: proposal.pubkey,
+            tokenOwnerRecordPk,
+            delegatePk,
+            vote,
+            votingPlugin: votingPlugin?.for(walletPk, delegatePk),
+          }),
+        )
+      } catch (error) {
+        errors.push({ tokenOwnerRecordPk, walletPk, error })
+      }
+    }),
+  )
+
+  return { votes, errors }
+}
+
+/** One transaction per two plain delegator votes, delegators counting their weight over several transactions get their own */
+export const delegatorVotesToTransactionInstructions = (
+  votes: DelegatorVote[],
+) => {
+  const toTransaction = (
+    ixs: TransactionInstruction[],
+    sequenceType: SequenceType,
+  ) => ({
+    instructionsSet: ixs.map((ix) => ({ transactionInstruction: ix })),
+    sequenceType,
+  })
+  const isPlain = (x: DelegatorVote) =>
+    !x.ticketIxs.length && !x.countingIxs.length
+
+  return [
+    // chunk size chosen conservatively. "Atoms" refers to atomic clusters of instructions (namely, updatevoterweight? + vote)
+    ...chunks(votes.filter(isPlain), 2).map((x) =>
+      toTransaction(
+        x.flatMap((vote) => vote.voteIxs),
+        SequenceType.Parallel,
+      ),
+    ),
+    ...votes
+      .filter((x) => !isPlain(x))
+      .flatMap((x) => [
+        ...chunks(x.ticketIxs, 1).map((ixs) =>
+          toTransaction(ixs, SequenceType.Parallel),
+        ),
+        ...chunks(x.countingIxs, 2).map((ixs) =>
+          toTransaction(ixs, SequenceType.Sequential),
+        ),
+        toTransaction(x.voteIxs, SequenceType.Sequential),
+      ]),
+  ]
 }
 
-const createTokenOwnerRecordIfNeeded = async ({
+export const createTokenOwnerRecordIfNeeded = async ({
   connection,
   realmPk,
   tokenOwnerRecordPk,
@@ -184,52 +376,7 @@ export async function castVote(
   // the version for RealmInfo
   const programVersion = await fetchProgramVersion(connection, programId)
 
-  const isMulti =
-    proposal.account.voteType !== VoteType.SINGLE_CHOICE &&
-    proposal.account.accountType === GovernanceAccountType.ProposalV2
-
-  // It is not clear that defining these extraneous fields, `deny` and `veto`, is actually necessary.
-  // See:  https://discord.com/channels/910194960941338677/910630743510777926/1044741454175674378
-  const vote = isMulti
-    ? new Vote({
-        voteType: VoteKind.Approve,
-        approveChoices: proposal.account.options.map((_o, index) => {
-          if (voteWeights?.includes(index)) {
-            return new VoteChoice({ rank: 0, weightPercentage: 100 })
-          } else {
-            return new VoteChoice({ rank: 0, weightPercentage: 0 })
-          }
-        }),
-        deny: undefined,
-        veto: undefined,
-      })
-    : voteKind === VoteKind.Approve
-    ? new Vote({
-        voteType: VoteKind.Approve,
-        approveChoices: [new VoteChoice({ rank: 0, weightPercentage: 100 })],
-        deny: undefined,
-        veto: undefined,
-      })
-    : voteKind === VoteKind.Deny
-    ? new Vote({
-        voteType: VoteKind.Deny,
-        approveChoices: undefined,
-        deny: true,
-        veto: undefined,
-      })
-    : voteKind == VoteKind.Veto
-    ? new Vote({
-        voteType: VoteKind.Veto,
-        veto: true,
-        deny: undefined,
-        approveChoices: undefined,
-      })
-    : new Vote({
-        voteType: VoteKind.Abstain,
-        veto: undefined,
-        deny: undefined,
-        approveChoices: undefined,
-      })
+  const vote = buildVote(proposal, voteKind, voteWeights)
 
   const tokenMint =
     voteKind === VoteKind.Veto
@@ -266,43 +413,19 @@ export async function castVote(
     )
   }
 
-  const delegatorCastVoteAtoms =
-    additionalTokenOwnerRecords &&
-    DELEGATOR_BATCH_VOTE_SUPPORT_BY_PLUGIN[
-      findPluginName(votingPlugin?.client?.program.programId)
-    ]
-      ? (
-          await Promise.all(
-            additionalTokenOwnerRecords.map(async (tokenOwnerRecordPk) => {
-              // Skip vote if already voted
-              const voteRecordPk = await getVoteRecordAddress(
-                realm.owner,
-                proposal.pubkey,
-                tokenOwnerRecordPk,
-              )
-              const voteRecord = await fetchVoteRecordByPubkey(
-                connection,
-                voteRecordPk,
-              )
-              if (voteRecord.found) return undefined
-
-              const torOwnerPk = (
-                await getTokenOwnerRecord(connection, tokenOwnerRecordPk)
-              ).account.governingTokenOwner
-
-              return createDelegatorVote({
-                connection,
-                realmPk: realm.pubkey,
-                proposalPk: proposal.pubkey,
-                tokenOwnerRecordPk,
-                delegatePk: walletPubkey,
-                vote,
-                votingPlugin: votingPlugin?.for(torOwnerPk),
-              })
-            }),
-          )
-        ).filter((x): x is NonNullable<typeof x> => x !== undefined)
-      : []
+  const delegatorVotes = additionalTokenOwnerRecords
+    ? await createDelegatorVotes({
+        connection,
+        realm,
+        proposal,
+        tokenOwnerRecords: additionalTokenOwnerRecords,
+        delegatePk: walletPubkey,
+        vote,
+        votingPlugin,
+      })
+    : { votes: [], errors: [] }
+  const delegatorTransactionInstructions =
+    delegatorVotesToTransactionInstructions(delegatorVotes.votes)
 
   const pluginPostMessageIxs: TransactionInstruction[] = []
   const postMessageIxs: TransactionInstruction[] = []
@@ -370,21 +493,20 @@ export async function castVote(
       ...pluginPostMessageIxs,
       ...postMessageIxs,
     ]
-    // chunk size chosen conservatively. "Atoms" refers to atomic clusters of instructions (namely, updatevoterweight? + vote)
-    const delegatorBatches = chunks(delegatorCastVoteAtoms, 2).map((x) =>
-      x.flat(),
-    )
-    const actions = [batch1, ...delegatorBatches].map((ixs) => ({
-      instructionsSet: ixs.map((ix) => ({
-        transactionInstruction: ix,
-        signers: chatMessageSigners.filter((kp) =>
-          ix.keys.find(
-            (key) => key.isSigner && key.pubkey.equals(kp.publicKey),
+    const actions = [
+      {
+        instructionsSet: batch1.map((ix) => ({
+          transactionInstruction: ix,
+          signers: chatMessageSigners.filter((kp) =>
+            ix.keys.find(
+              (key) => key.isSigner && key.pubkey.equals(kp.publicKey),
+            ),
           ),
-        ),
-      })),
-      sequenceType: SequenceType.Parallel,
-    }))
+        })),
+        sequenceType: SequenceType.Parallel,
+      },
+      ...delegatorTransactionInstructions,
+    ]
 
     await postComment({
       connection,
@@ -413,16 +535,19 @@ export async function castVote(
       2,
     )
 
-    const ixsChunks = chunkerz.map((txBatch, batchIdx) => {
-      return {
-        instructionsSet: txBatchesToInstructionSetWithSigners(
-          txBatch,
-          message ? [[], chatMessageSigners] : [], // seeing signer related bugs when posting chat? This is likely culprit
-          batchIdx,
-        ),
-        sequenceType: SequenceType.Sequential,
-      }
-    })
+    const ixsChunks = [
+      ...chunkerz.map((txBatch, batchIdx) => {
+        return {
+          instructionsSet: txBatchesToInstructionSetWithSigners(
+            txBatch,
+            message ? [[], chatMessageSigners] : [], // seeing signer related bugs when posting chat? This is likely culprit
+            batchIdx,
+          ),
+          sequenceType: SequenceType.Sequential,
+        }
+      }),
+      ...delegatorTransactionInstructions,
+    ]
 
     await postComment({
       connection,
@@ -452,7 +577,7 @@ export async function castVote(
     const last = pluginCastVoteIxs[pluginCastVoteIxs.length - 1]
     // everything except last element of pluginCastVoteIxs
     const nftCountingChunks = pluginCastVoteIxs.slice(0, -1)
-    const voteChunk = [last, ...castVoteIxs] // the final nft-voter.CastNftVote instruction has to in same tx as the vote
+    const voteChunk = castVoteIxs.length ? [last, ...castVoteIxs] : [] // the final nft-voter.CastNftVote instruction has to in same tx as the vote
     const chunkedIxs = [...chunks(nftCountingChunks, 2), voteChunk].filter(
       (x) => x.length > 0,
     )
@@ -480,6 +605,7 @@ export async function castVote(
           sequenceType: SequenceType.Sequential,
         }
       }),
+      ...delegatorTransactionInstructions,
     ]
     const totalVoteCost = await calcCostOfNftVote(
       connection,
@@ -520,4 +646,6 @@ export async function castVote(
       },
     })
   }
+
+  return delegatorVotes.errors
 }
@@ -0,0 +1,286 @@
+import { Keypair, PublicKey, TransactionInstruction } from '@solana/web3.js'
+import {
+  ChatMessageBody,
+  GOVERNANCE_CHAT_PROGRAM_ID,
+  ProgramAccount,
+  Proposal,
+  Realm,
+  RpcContext,
+  VoteKind,
+  withCastVote,
+  withPostChatMessage,
+} from '@solana/spl-governance'
+import { Wallet } from '@solana/wallet-adapter-react'
+import { BN } from '@coral-xyz/anchor'
+import { VOTER_WEIGHT_REUSE_SUPPORT_BY_PLUGIN } from '@constants/flags'
+import { findPluginName } from '@constants/plugins'
+import { getBallotRole, groupBallots } from '@models/proposal/groupBallots'
+import { fetchProgramVersion } from '@hooks/queries/useProgramVersionQuery'
+import { getEphemeralSigners } from '@utils/ephemeral-signers'
+import { withPostChatMessageEphSigner } from '@utils/ephemeral-signers/postMessageWithEphSigner'
+import { SequenceType } from '@utils/sendTransactions'
+import { NftVoterClient } from '@utils/uiTypes/NftVoterClient'
+import { VotingClient } from '@utils/uiTypes/VotePlugin'
+import { HeliumVsrClient } from 'HeliumVotePlugin/sdk/client'
+import { GovernanceRole } from '../@types/types'
+import {
+  buildVote,
+  castVote,
+  createDelegatorVotes,
+  createTokenOwnerRecordIfNeeded,
+  DelegatorVote,
+  DelegatorVoteError,
+  delegatorVotesToTransactionInstructions,
+} from './castVote'
+import { postComment } from './chat/postMessage'
+
+// conservative, a vote with a comment and the voter weight update has to fit in a transaction
+const VOTES_PER_TRANSACTION = 3
+
+export interface Ballot {
+  proposal: ProgramAccount<Proposal>
+  // vetoes are not batched
+  voteKind: Exclude<VoteKind, VoteKind.Veto>
+  // indexes of the approved options of a multiple choice proposal
+  voteWeights?: number[]
+  message?: ChatMessageBody
+  // token owner record of the wallet, or of the selected delegator
+  tokenOwnerRecord: PublicKey
+  // the own vote is skipped without voter weight, delegators still vote
+  voterWeight: BN | null
+  // token owner records delegated to the wallet, voting along
+  delegatorTokenOwnerRecords?: PublicKey[]
+}
+
+interface TransactionAtom {
+  instructions: TransactionInstruction[]
+  signers: Keypair[]
+}
+
+// plugins counting nfts or positions per proposal need their own transactions and tickets
+const hasOwnVoteFlow = (votingClient: VotingClient) =>
+  votingClient.client instanceof NftVoterClient ||
+  votingClient.client instanceof HeliumVsrClient
+
+const canReuseVoterWeight = (votingClient: VotingClient) =>
+  VOTER_WEIGHT_REUSE_SUPPORT_BY_PLUGIN[
+    findPluginName(votingClient.client?.program.programId)
+  ] &&
+  (votingClient.voterWeightPluginDetails.plugins?.voterWeight.length ?? 0) <= 1
+
+/**
+ * Casts the votes of several proposals with as few transactions as possible.
+ * When the plugin allows it, a single voter weight update is shared by the votes of a transaction.
+ * Returns the delegators whose vote could not be built, the other votes are still cast.
+ */
+export async function castVotes(
+  rpcContext: RpcContext,
+  walletContext: Wallet,
+  realm: ProgramAccount<Realm>,
+  ballots: Ballot[],
+  votingClients: (role: GovernanceRole) => VotingClient,
+  runAfterConfirmation?: () => void,
+) {
+  const { connection, wallet, programId, walletPubkey } = rpcContext
+  const programVersion = await fetchProgramVersion(connection, programId)
+
+  const withComment = async (
+    instructions: TransactionInstruction[],
+    signers: Keypair[],
+    ballot: Ballot,
+    voterWeightPk: PublicKey | undefined,
+  ) => {
+    if (!ballot.message) return
+    // Check if the connected wallet is not SquadsX
+    if (walletContext.adapter.name !== 'SquadsX') {
+      await withPostChatMessage(
+        instructions,
+        signers,
+        GOVERNANCE_CHAT_PROGRAM_ID,
+        programId,
+        realm.pubkey,
+        ballot.proposal.account.governance,
+        ballot.proposal.pubkey,
+        ballot.tokenOwnerRecord,
+        walletPubkey,
+        walletPubkey,
+        undefined,
+        ballot.message,
+        voterWeightPk,
+      )
+    } else {
+      const chatMessage = await getEphemeralSigners(walletContext, 1)
+      await withPostChatMessageEphSigner(
+        instructions,
+        signers,
+        GOVERNANCE_CHAT_PROGRAM_ID,
+        programId,
+        realm.pubkey,
+        ballot.proposal.account.governance,
+        ballot.proposal.pubkey,
+        ballot.tokenOwnerRecord,
+        walletPubkey,
+        walletPubkey,
+        undefined,
+        ballot.message,
+        chatMessage[0], // Executing a chat message ix in Squads requires subbing in a custom ephemeral signer
+        voterWeightPk,
+      )
+    }
+  }
+
+  const { transactions, delegatorBallots, ownFlowBallots } = groupBallots(
+    realm,
+    ballots,
+    (role) => ({
+      ownVoteFlow: hasOwnVoteFlow(votingClients(role)),
+      reuseVoterWeight: canReuseVoterWeight(votingClients(role)),
+    }),
+    VOTES_PER_TRANSACTION,
+  )
+
+  const tokenOwnerRecordIxs: TransactionInstruction[] = []
+  const voteAtoms: TransactionAtom[] = []
+  const delegatorVotes: DelegatorVote[] = []
+  const delegatorErrors: DelegatorVoteError[] = []
+
+  for (const transaction of transactions) {
+    if (transaction.type === 'createTokenOwnerRecords') {
+      for (const record of transaction.records) {
+        tokenOwnerRecordIxs.push(
+          ...(await createTokenOwnerRecordIfNeeded({
+            connection,
+            realmPk: realm.pubkey,
+            tokenOwnerRecordPk: record.tokenOwnerRecord,
+            payer: walletPubkey,
+            governingTokenMint: record.governingTokenMint,
+          })),
+        )
+      }
+      continue
+    }
+
+    const { role, reuseVoterWeight } = transaction
+    const votingClient = votingClients(role)
+    const atom: TransactionAtom = { instructions: [], signers: [] }
+    let plugin: Awaited<ReturnType<VotingClient['withCastPluginVote']>>
+    for (const [i, ballot] of transaction.ballots.entries()) {
+      //will run only if any plugin is connected with realm
+      if (i === 0 || !reuseVoterWeight) {
+        plugin = await votingClient.withCastPluginVote(
+          atom.instructions,
+          ballot.proposal,
+          ballot.tokenOwnerRecord,
+        )
+      }
+      await withCastVote(
+        atom.instructions,
+        programId,
+        programVersion,
+        realm.pubkey,
+        ballot.proposal.account.governance,
+        ballot.proposal.pubkey,
+        ballot.proposal.account.tokenOwnerRecord,
+        ballot.tokenOwnerRecord,
+        walletPubkey,
+        ballot.proposal.account.governingTokenMint,
+        buildVote(ballot.proposal, ballot.voteKind, ballot.voteWeights),
+        walletPubkey,
+        plugin?.voterWeightPk,
+        plugin?.maxVoterWeightRecord,
+      )
+      if (ballot.message) {
+        const commentPlugin = reuseVoterWeight
+          ? plugin
+          : await votingClient.withUpdateVoterWeightRecord(
+              atom.instructions,
+              'commentProposal',
+            )
+        await withComment(
+          atom.instructions,
+          atom.signers,
+          ballot,
+          commentPlugin?.voterWeightPk,
+        )
+      }
+    }
+    voteAtoms.push(atom)
+  }
+
+  for (const { role, ballot } of delegatorBallots) {
+    const { votes, errors } = await createDelegatorVotes({
+      connection,
+      realm,
+      proposal: ballot.proposal,
+      tokenOwnerRecords: ballot.delegatorTokenOwnerRecords ?? [],
+      delegatePk: walletPubkey,
+      vote: buildVote(ballot.proposal, ballot.voteKind, ballot.voteWeights),
+      votingPlugin: votingClients(role),
+    })
+    delegatorVotes.push(...votes)
+    delegatorErrors.push(...errors)
+  }
+
+  const voteTransactionInstructions = [
+    ...voteAtoms.map(({ instructions, signers }) => ({
+      instructionsSet: instructions.map((ix) => ({
+        transactionInstruction: ix,
+        signers: signers.filter((kp) =>
+          ix.keys.find(
+            (key) => key.isSigner && key.pubkey.equals(kp.publicKey),
+          ),
+        ),
+      })),
+      sequenceType: SequenceType.Parallel,
+    })),
+    ...delegatorVotesToTransactionInstructions(delegatorVotes),
+  ]
+  const actions = [
+    // token owner records have to exist before the votes
+    ...(tokenOwnerRecordIxs.length
+      ? [
+          {
+            instructionsSet: tokenOwnerRecordIxs.map((ix) => ({
+              transactionInstruction: ix,
+            })),
+            sequenceType: SequenceType.Sequential,
+          },
+        ]
+      : []),
+    ...voteTransactionInstructions,
+  ]
+
+  if (voteTransactionInstructions.length) {
+    await postComment({
+      connection,
+      wallet,
+      transactionInstructions: actions,
+      callbacks: {
+        afterAllTxConfirmed: () => {
+          if (!ownFlowBallots.length) runAfterConfirmation?.()
+        },
+      },
+    })
+  }
+
+  for (const ballot of ownFlowBallots) {
+    const errors = await castVote(
+      rpcContext,
+      walletContext,
+      realm,
+      ballot.proposal,
+      ballot.tokenOwnerRecord,
+      ballot.voteKind,
+      ballot.message,
+      votingClients(getBallotRole(realm, ballot.proposal)),
+      null,
+      ballot.voteWeights,
+      ballot.delegatorTokenOwnerRecords,
+      ballot.voterWeight,
+    )
+    delegatorErrors.push(...errors)
+  }
+  if (ownFlowBallots.length) runAfterConfirmation?.()
+
+  return delegatorErrors
+}
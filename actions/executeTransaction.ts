@@ -19,6 +19,10 @@ import {
   ProgramAccount,
 } from '@solana/spl-governance'
 import { fetchProgramVersion } from '@hooks/queries/useProgramVersionQuery'
+import {
+  exportOfflineTransactions,
+  isOfflineSigner,
+} from '@utils/offlineSigning'
 
 /**
  * Executes a proposal transaction
@@ -74,7 +78,12 @@ export const executeTransaction = async (
   }
 
   // Some proposals require additional adjacent transactions due to tx size limits
-  if (adjacentTransaction) {
+  if (adjacentTransaction && isOfflineSigner(wallet)) {
+    await exportOfflineTransactions(connection, wallet.publicKey, [
+      { instructions: adjacentTransaction.instructions },
+      { instructions: proposalTransaction.instructions },
+    ])
+  } else if (adjacentTransaction) {
     const [signedProposalTx, signedAdjacentTx] = await signTransactions({
       transactionsAndSigners: [
         { transaction: proposalTransaction },
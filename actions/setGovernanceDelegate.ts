@@ -0,0 +1,48 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js'
+import {
+  ProgramAccount,
+  Realm,
+  RpcContext,
+  TokenOwnerRecord,
+  withSetGovernanceDelegate,
+} from '@solana/spl-governance'
+import { fetchProgramVersion } from '@hooks/queries/useProgramVersionQuery'
+import { SequenceType, sendTransactionsV3 } from '@utils/sendTransactions'
+
+/** Sets the delegate of all the given token owner records of the wallet in one transaction, null to undelegate */
+export const setGovernanceDelegate = async (
+  { connection, wallet, programId, walletPubkey }: RpcContext,
+  realm: ProgramAccount<Realm>,
+  tokenOwnerRecords: ProgramAccount<TokenOwnerRecord>[],
+  delegate: PublicKey | null,
+) => {
+  const instructions: TransactionInstruction[] = []
+  const programVersion = await fetchProgramVersion(connection, programId)
+
+  for (const tokenOwnerRecord of tokenOwnerRecords) {
+    await withSetGovernanceDelegate(
+      instructions,
+      programId,
+      programVersion,
+      realm.pubkey,
+      tokenOwnerRecord.account.governingTokenMint,
+      walletPubkey,
+      walletPubkey,
+      // null clears the delegate, borsh only encodes None from null despite the declared type
+      delegate as PublicKey | undefined,
+    )
+  }
+
+  await sendTransactionsV3({
+    connection,
+    wallet,
+    transactionInstructions: [
+      {
+        instructionsSet: instructions.map((x) => ({
+          transactionInstruction: x,
+        })),
+        sequenceType: SequenceType.Sequential,
+      },
+    ],
+  })
+}
@@ -0,0 +1,372 @@
+import {
+  getNativeTreasuryAddress,
+  InstructionData,
+  ProgramAccount,
+  ProposalTransaction,
+} from '@solana/spl-governance'
+import {
+  AccountInfo,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js'
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token-new'
+import BN from 'bn.js'
+import {
+  getMultipleAccountInfoChunked,
+  parseMintAccountData,
+  TOKEN_PROGRAM_ID,
+} from '@utils/tokens'
+import { parseTokenAccountData } from '@utils/parseTokenAccountData'
+
+const MAX_COMPUTE_UNITS = 1_400_000
+// base fee for the single (fake) signature of the simulated transaction
+const MIN_FEE_PAYER_LAMPORTS = 5000
+
+export interface SimulatedInstruction {
+  // index of the ProposalTransaction (instructionIndex on chain)
+  transactionIndex: number
+  // index of the instruction inside the ProposalTransaction
+  instructionIndex: number
+  programId: PublicKey
+  status: 'success' | 'failed' | 'skipped'
+  unitsConsumed?: number
+  logs: string[]
+}
+
+export interface SimulatedBalanceChange {
+  address: PublicKey
+  // wallet owning the account: the account itself for SOL, the token owner for SPL tokens
+  owner: PublicKey
+  // undefined for SOL balances
+  mint?: PublicKey
+  decimals: number
+  before: BN
+  after: BN
+}
+
+export interface SimulatedTransaction {
+  // index of the ProposalTransaction (instructionIndex on chain)
+  transactionIndex: number
+  err: TransactionError | string | null
+  logs: string[]
+  unitsConsumed?: number
+  transaction: VersionedTransaction
+}
+
+export interface ProposalSimulationResult {
+  // error of the first transaction which failed
+  err: TransactionError | string | null
+  feePayer: PublicKey
+  transactions: SimulatedTransaction[]
+  instructions: SimulatedInstruction[]
+  balanceChanges: SimulatedBalanceChange[]
+}
+
+const isTokenProgram = (owner: PublicKey) =>
+  owner.equals(TOKEN_PROGRAM_ID) || owner.equals(TOKEN_2022_PROGRAM_ID)
+
+// token accounts are 165 bytes, token 2022 accounts with extensions are longer but share the base layout
+const tryParseTokenAccount = (
+  address: PublicKey,
+  account: AccountInfo<Buffer> | null,
+) => {
+  if (!account || !isTokenProgram(account.owner) || account.data.length < 165)
+    return undefined
+  try {
+    return parseTokenAccountData(address, account.data.subarray(0, 165))
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Splits the simulation logs by top level instruction and reads the compute units consumed by each.
+ * Programs are matched in order, so builtins that don't log their invocation are skipped over.
+ */
+export function attributeLogs(logs: string[], programIds: PublicKey[]) {
+  const perInstruction = programIds.map(() => ({
+    logs: [] as string[],
+    unitsConsumed: undefined as number | undefined,
+  }))
+  let current = -1
+  let depth = 0
+  for (const log of logs) {
+    const invoke = log.match(/^Program (\w+) invoke \[(\d+)\]$/)
+    if (invoke) {
+      depth = Number(invoke[2])
+      if (depth === 1) {
+        const next = programIds.findIndex(
+          (p, i) => i > current && p.toBase58() === invoke[1],
+        )
+        current = next === -1 ? current : next
+      }
+    }
+    if (current >= 0) {
+      perInstruction[current].logs.push(log)
+    }
+    const consumed = log.match(
+      /^Program (\w+) consumed (\d+) of \d+ compute units$/,
+    )
+    if (consumed && depth === 1 && current >= 0) {
+      perInstruction[current].unitsConsumed = Number(consumed[2])
+    }
+    if (/^Program \w+ (success|failed)/.test(log)) {
+      depth = Math.max(depth - 1, 0)
+    }
+  }
+  return perInstruction
+}
+
+// InstructionError is [index of the instruction, error of the instruction]
+const getFailedInstructionIndex = (err: TransactionError | string | null) => {
+  if (!err || typeof err !== 'object' || !('InstructionError' in err)) {
+    return undefined
+  }
+  const { InstructionError } = err
+  return Array.isArray(InstructionError) &&
+    typeof InstructionError[0] === 'number'
+    ? InstructionError[0]
+    : undefined
+}
+
+// errors outside of an instruction (e.g. fees) mean nothing ran
+export const getInstructionStatus = (
+  indexInTransaction: number,
+  err: TransactionError | string | null,
+): SimulatedInstruction['status'] => {
+  if (!err) return 'success'
+  const failedIndex = getFailedInstructionIndex(err)
+  if (failedIndex === undefined) return 'skipped'
+  if (indexInTransaction < failedIndex) return 'success'
+  return indexInTransaction === failedIndex ? 'failed' : 'skipped'
+}
+
+// every transaction is simulated against the current state, so their changes add up
+export const mergeBalanceChanges = (changes: SimulatedBalanceChange[]) => {
+  const merged = new Map<string, SimulatedBalanceChange>()
+  for (const change of changes) {
+    const key = `${change.address.toBase58()}-${change.mint?.toBase58()}`
+    const existing = merged.get(key)
+    merged.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            after: existing.after.add(change.after.sub(change.before)),
+          }
+        : change,
+    )
+  }
+  return [...merged.values()].filter((x) => !x.before.eq(x.after))
+}
+
+/**
+ * Simulates the not yet executed transactions of a proposal one by one, in order, as they are executed on chain.
+ * Signer flags of the instructions are kept, which works for the governance and treasury PDAs since
+ * signatures aren't verified in simulation. The native treasury pays the fee when it holds SOL,
+ * otherwise the fallback fee payer (usually the connected wallet) is used.
+ * Each transaction runs against the current state of the chain, one relying on the effects of an
+ * earlier transaction of the proposal can fail here even though it succeeds when executed.
+ */
+export async function simulateProposal(
+  connection: Connection,
+  programId: PublicKey,
+  governance: PublicKey,
+  proposalTransactions: ProgramAccount<ProposalTransaction>[],
+  fallbackFeePayer?: PublicKey,
+): Promise<ProposalSimulationResult> {
+  const pending = [...proposalTransactions]
+    .filter(
+      (x) => !x.account.executedAt && x.account.getAllInstructions().length,
+    )
+    .sort((a, b) => a.account.instructionIndex - b.account.instructionIndex)
+  if (!pending.length) {
+    throw new Error('Proposal has no transactions left to simulate')
+  }
+
+  const treasury = await getNativeTreasuryAddress(programId, governance)
+  const treasuryLamports = await connection.getBalance(treasury)
+  const feePayer =
+    treasuryLamports >= MIN_FEE_PAYER_LAMPORTS ? treasury : fallbackFeePayer
+  if (!feePayer) {
+    throw new Error(
+      'Treasury has no SOL to pay for the simulation, connect a wallet to use as fee payer',
+    )
+  }
+
+  const transactions: SimulatedTransaction[] = []
+  const instructions: SimulatedInstruction[] = []
+  const balanceChanges: SimulatedBalanceChange[] = []
+  for (const proposalTransaction of pending) {
+    const simulated = await simulateProposalTransaction(
+      connection,
+      feePayer,
+      proposalTransaction.account,
+    )
+    transactions.push(simulated.transaction)
+    instructions.push(...simulated.instructions)
+    balanceChanges.push(...simulated.balanceChanges)
+  }
+
+  return {
+    err: transactions.find((x) => x.err)?.err ?? null,
+    feePayer,
+    transactions,
+    instructions,
+    balanceChanges: mergeBalanceChanges(balanceChanges),
+  }
+}
+
+async function simulateProposalTransaction(
+  connection: Connection,
+  feePayer: PublicKey,
+  proposalTransaction: ProposalTransaction,
+) {
+  const { instructionIndex: transactionIndex } = proposalTransaction
+  const instructions = proposalTransaction.getAllInstructions()
+  const writableKeys = [
+    feePayer,
+    ...instructions.flatMap((ix) =>
+      ix.accounts.filter((a) => a.isWritable).map((a) => a.pubkey),
+    ),
+  ].filter((k, i, all) => all.findIndex((x) => x.equals(k)) === i)
+
+  const transaction = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: feePayer,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+        ...instructions.map(
+          (ix) =>
+            new TransactionInstruction({
+              keys: ix.accounts,
+              programId: ix.programId,
+              data: Buffer.from(ix.data),
+            }),
+        ),
+      ],
+    }).compileToV0Message(),
+  )
+
+  const preAccounts = await getMultipleAccountInfoChunked(
+    connection,
+    writableKeys,
+  )
+  const simulation = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    accounts: {
+      encoding: 'base64',
+      addresses: writableKeys.map((k) => k.toBase58()),
+    },
+  })
+  const { err, logs, unitsConsumed } = simulation.value
+  const postAccounts: (AccountInfo<Buffer> | null)[] = (
+    simulation.value.accounts ?? []
+  ).map((a) =>
+    a
+      ? {
+          ...a,
+          owner: new PublicKey(a.owner),
+          data: Buffer.from(a.data[0], 'base64'),
+        }
+      : null,
+  )
+
+  const attributed = attributeLogs(
+    logs ?? [],
+    instructions.map((ix) => ix.programId),
+  )
+  return {
+    transaction: {
+      transactionIndex,
+      err,
+      logs: logs ?? [],
+      unitsConsumed,
+      transaction,
+    },
+    // the compute budget instruction sits at index 0 of the transaction
+    instructions: instructions.map(
+      (ix: InstructionData, i): SimulatedInstruction => ({
+        transactionIndex,
+        instructionIndex: i,
+        programId: ix.programId,
+        status: getInstructionStatus(i + 1, err),
+        ...attributed[i],
+      }),
+    ),
+    balanceChanges: err
+      ? []
+      : await getBalanceChanges(
+          connection,
+          writableKeys,
+          preAccounts,
+          postAccounts,
+        ),
+  }
+}
+
+async function getBalanceChanges(
+  connection: Connection,
+  addresses: PublicKey[],
+  preAccounts: (AccountInfo<Buffer> | null)[],
+  postAccounts: (AccountInfo<Buffer> | null)[],
+) {
+  const changes: SimulatedBalanceChange[] = []
+  addresses.forEach((address, i) => {
+    const pre = preAccounts[i]
+    const post = postAccounts[i]
+    const lamportsBefore = new BN(pre?.lamports ?? 0)
+    const lamportsAfter = new BN(post?.lamports ?? 0)
+    if (!lamportsBefore.eq(lamportsAfter)) {
+      changes.push({
+        address,
+        owner: address,
+        decimals: 9,
+        before: lamportsBefore,
+        after: lamportsAfter,
+      })
+    }
+
+    const preToken = tryParseTokenAccount(address, pre)
+    const postToken = tryParseTokenAccount(address, post)
+    const tokenAccount = postToken ?? preToken
+    const amountBefore = new BN(preToken?.amount.toString() ?? 0)
+    const amountAfter = new BN(postToken?.amount.toString() ?? 0)
+    if (tokenAccount && !amountBefore.eq(amountAfter)) {
+      changes.push({
+        address,
+        owner: tokenAccount.owner,
+        mint: tokenAccount.mint,
+        decimals: 0,
+        before: amountBefore,
+        after: amountAfter,
+      })
+    }
+  })
+
+  const mints = changes
+    .map((c) => c.mint)
+    .filter((m): m is PublicKey => !!m)
+    .filter((m, i, all) => all.findIndex((x) => x.equals(m)) === i)
+  const mintAccounts = await getMultipleAccountInfoChunked(connection, mints)
+  const decimalsByMint = Object.fromEntries(
+    mints.map((m, i) => {
+      const data = mintAccounts[i]?.data
+      return [
+        m.toBase58(),
+        data ? parseMintAccountData(data.subarray(0, 82)).decimals : 0,
+      ]
+    }),
+  )
+
+  return changes.map((c) =>
+    c.mint ? { ...c, decimals: decimalsByMint[c.mint.toBase58()] } : c,
+  )
+}
@@ -0,0 +1,342 @@
+import {
+  getGovernance,
+  GovernanceAccountParser,
+  getNativeTreasuryAddress,
+  getRealm,
+  getSignatoryRecordAddress,
+  getTokenOwnerRecordAddress,
+  MultiChoiceType,
+  ProgramAccount,
+  Realm,
+  TokenOwnerRecord,
+  VoteType,
+  VoterWeightAction,
+  withAddSignatory,
+  withInsertTransaction,
+  withSignOffProposal,
+} from '@solana/spl-governance'
+import { withCreateProposal } from '@realms-today/spl-governance'
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import { AnchorProvider, Wallet } from '@coral-xyz/anchor'
+import BN from 'bn.js'
+import { chunk } from 'lodash'
+import { sendSignAndConfirmTransactions } from '@blockworks-foundation/mangolana/lib/transactions'
+import { SequenceType } from '@blockworks-foundation/mangolana/lib/globalTypes'
+import { fetchProgramVersion } from '@hooks/queries/useProgramVersionQuery'
+import { getPlugins } from '../../VoterWeightPlugins/lib/getPlugins'
+import { updateVoterWeight } from '../../VoterWeightPlugins/lib/updateVoterWeight'
+import {
+  buildOfflineTransactions,
+  serializeOfflineTransaction,
+} from '@utils/offlineSigning'
+import { ProposalSpec } from './proposalSpec'
+import { buildSpecInstructions } from './specInstructions'
+
+// same packing as the ui, see actions/createProposal
+const INSERT_CHUNK_SIZE = 2
+
+export interface UnsignedProposalTransactions {
+  proposal: string
+  feePayer: string
+  // set when the transactions use the latest blockhash, they expire about a minute after it
+  recentBlockhash?: string
+  // durable nonce accounts, one per transaction, in order
+  nonceAccounts: string[]
+  // base64 serialized, unsigned legacy transactions, to be signed and sent in order
+  transactions: string[]
+}
+
+/** A wallet that can't sign, used to build transactions for an external signer */
+export class ReadonlyWallet implements Wallet {
+  constructor(readonly publicKey: PublicKey) {}
+  get payer(): Keypair {
+    throw new Error('ReadonlyWallet has no keypair')
+  }
+  async signTransaction<T>(): Promise<T> {
+    throw new Error('ReadonlyWallet cannot sign')
+  }
+  async signAllTransactions<T>(): Promise<T[]> {
+    throw new Error('ReadonlyWallet cannot sign')
+  }
+}
+
+// the proposer may only have one of the community and council records
+async function tryGetTokenOwnerRecord(
+  connection: Connection,
+  pubkey: PublicKey,
+) {
+  const account = await connection.getAccountInfo(pubkey)
+  return account
+    ? GovernanceAccountParser(TokenOwnerRecord)(pubkey, account)
+    : undefined
+}
+
+/** Prefers the council record when it holds enough tokens to propose, like useCreateProposal */
+async function getProposerTokenOwnerRecord(
+  connection: Connection,
+  realm: ProgramAccount<Realm>,
+  minCouncilTokensToCreateProposal: BN,
+  proposer: PublicKey,
+) {
+  const getRecord = async (mint: PublicKey) =>
+    tryGetTokenOwnerRecord(
+      connection,
+      await getTokenOwnerRecordAddress(
+        realm.owner,
+        realm.pubkey,
+        mint,
+        proposer,
+      ),
+    )
+
+  const councilMint = realm.account.config.councilMint
+  const council = councilMint ? await getRecord(councilMint) : undefined
+  if (
+    council &&
+    council.account.governingTokenDepositAmount.gte(
+      minCouncilTokensToCreateProposal,
+    )
+  ) {
+    return council
+  }
+  const community = await getRecord(realm.account.communityMint)
+  const record = community ?? council
+  if (!record) {
+    throw new Error(`${proposer.toBase58()} has no token owner record in realm`)
+  }
+  return record
+}
+
+async function getVoterWeightInstructions(
+  connection: Connection,
+  wallet: Wallet,
+  realm: PublicKey,
+  governingTokenMint: PublicKey,
+  governance: PublicKey,
+) {
+  const provider = new AnchorProvider(
+    connection,
+    wallet,
+    AnchorProvider.defaultOptions(),
+  )
+  const plugins = await getPlugins({
+    realmPublicKey: realm,
+    governanceMintPublicKey: governingTokenMint,
+    provider,
+    type: 'voterWeight',
+    wallets: [wallet.publicKey],
+    signer: wallet,
+  })
+  if (!plugins.length) {
+    return { pre: [], post: [], voterWeightPk: undefined }
+  }
+
+  const { pre, post } = await updateVoterWeight({
+    walletPublicKey: wallet.publicKey,
+    realmPublicKey: realm,
+    governanceMintPublicKey: governingTokenMint,
+    plugins,
+    action: VoterWeightAction.CreateProposal,
+    target: governance,
+  })
+  const { voterWeightPk } = await plugins[
+    plugins.length - 1
+  ].client.getVoterWeightRecordPDA(realm, governingTokenMint, wallet.publicKey)
+
+  return { pre, post, voterWeightPk }
+}
+
+/**
+ * Builds all transactions needed to create the proposal described by the spec: prerequisite instructions,
+ * voter weight plugin updates, proposal creation, inserted transactions and (unless draft) sign off.
+ */
+export async function buildProposalFromSpec(
+  connection: Connection,
+  wallet: Wallet,
+  spec: ProposalSpec,
+  realmPk: PublicKey,
+) {
+  const proposer = wallet.publicKey
+  const realm = await getRealm(connection, realmPk)
+  const programId = realm.owner
+  const governance = await getGovernance(
+    connection,
+    new PublicKey(spec.governance),
+  )
+  const programVersion = await fetchProgramVersion(connection, programId)
+  const treasury = await getNativeTreasuryAddress(programId, governance.pubkey)
+
+  const tokenOwnerRecord = await getProposerTokenOwnerRecord(
+    connection,
+    realm,
+    governance.account.config.minCouncilTokensToCreateProposal,
+    proposer,
+  )
+  const governingTokenMint =
+    spec.voteByCouncil && realm.account.config.councilMint
+      ? realm.account.config.councilMint
+      : realm.account.communityMint
+
+  const built = await buildSpecInstructions(
+    {
+      connection,
+      programId,
+      programVersion,
+      realm,
+      governance,
+      treasury,
+      proposer,
+    },
+    spec.instructions,
+  )
+
+  // plugins follow the token the proposer proposes with, not the voting token
+  const plugin = await getVoterWeightInstructions(
+    connection,
+    wallet,
+    realm.pubkey,
+    tokenOwnerRecord.account.governingTokenMint,
+    governance.pubkey,
+  )
+
+  const isMulti = spec.options.length > 1
+  const voteType = isMulti
+    ? VoteType.MULTI_CHOICE(
+        MultiChoiceType.FullWeight,
+        1,
+        spec.options.length,
+        spec.options.length,
+      )
+    : VoteType.SINGLE_CHOICE
+
+  const createInstructions: TransactionInstruction[] = [...plugin.pre]
+  const proposalSeed = Keypair.generate().publicKey
+  const proposalAddress = await withCreateProposal(
+    createInstructions,
+    programId,
+    programVersion,
+    realm.pubkey,
+    governance.pubkey,
+    tokenOwnerRecord.pubkey,
+    spec.name,
+    spec.descriptionLink,
+    governingTokenMint,
+    proposer,
+    governance.account.proposalCount,
+    voteType,
+    spec.options,
+    !isMulti,
+    proposer,
+    plugin.voterWeightPk,
+    proposalSeed,
+  )
+  await withAddSignatory(
+    createInstructions,
+    programId,
+    programVersion,
+    proposalAddress,
+    tokenOwnerRecord.pubkey,
+    proposer,
+    proposer,
+    proposer,
+  )
+  createInstructions.push(...plugin.post)
+
+  const insertInstructions: TransactionInstruction[] = []
+  for (const [index, ix] of built.entries()) {
+    await withInsertTransaction(
+      insertInstructions,
+      programId,
+      programVersion,
+      governance.pubkey,
+      proposalAddress,
+      tokenOwnerRecord.pubkey,
+      proposer,
+      index,
+      0,
+      ix.holdUpTime,
+      [ix.data],
+      proposer,
+    )
+  }
+  if (!spec.draft) {
+    withSignOffProposal(
+      insertInstructions,
+      programId,
+      programVersion,
+      realm.pubkey,
+      governance.pubkey,
+      proposalAddress,
+      proposer,
+      await getSignatoryRecordAddress(programId, proposalAddress, proposer),
+      undefined,
+    )
+  }
+
+  const prerequisiteInstructions = built.flatMap(
+    (x) => x.prerequisiteInstructions,
+  )
+  const batches = [
+    ...chunk(prerequisiteInstructions, INSERT_CHUNK_SIZE),
+    createInstructions,
+    ...chunk(insertInstructions, INSERT_CHUNK_SIZE),
+  ].filter((batch) => batch.length)
+
+  return { proposalAddress, batches }
+}
+
+export async function sendProposalBatches(
+  connection: Connection,
+  wallet: Wallet,
+  batches: TransactionInstruction[][],
+) {
+  await sendSignAndConfirmTransactions({
+    connection,
+    wallet,
+    transactionInstructions: batches.map((batch) => ({
+      instructionsSet: batch.map((transactionInstruction) => ({
+        signers: [],
+        transactionInstruction,
+      })),
+      sequenceType: SequenceType.Sequential,
+    })),
+  })
+}
+
+/**
+ * Without nonce accounts the transactions use the latest blockhash and have to be signed and sent within
+ * about a minute, with one durable nonce account per transaction (the fee payer as authority) they stay valid
+ */
+export async function serializeProposalBatches(
+  connection: Connection,
+  feePayer: PublicKey,
+  proposalAddress: PublicKey,
+  batches: TransactionInstruction[][],
+  nonceAccounts: PublicKey[] = [],
+): Promise<UnsignedProposalTransactions> {
+  const transactions = await buildOfflineTransactions(
+    connection,
+    feePayer,
+    batches.map((instructions) => ({ instructions })),
+    nonceAccounts,
+  )
+
+  return {
+    proposal: proposalAddress.toBase58(),
+    feePayer: feePayer.toBase58(),
+    recentBlockhash: nonceAccounts.length
+      ? undefined
+      : transactions[0]?.recentBlockhash,
+    nonceAccounts: nonceAccounts
+      .slice(0, transactions.length)
+      .map((x) => x.toBase58()),
+    transactions: transactions.map(
+      (x) => serializeOfflineTransaction(x).base64,
+    ),
+  }
+}
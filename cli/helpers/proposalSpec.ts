@@ -0,0 +1,147 @@
+import { readFileSync } from 'fs'
+import { extname } from 'path'
+import yaml from 'js-yaml'
+import { EndpointTypes } from '@models/types'
+
+export type SpecInstruction = {
+  // seconds, defaults to the governance's minInstructionHoldUpTime
+  holdUpTime?: number
+} & (
+  | { type: 'base64'; data: string }
+  | {
+      type: 'tokenTransfer'
+      // mint address, or SOL for a native transfer from the treasury
+      mint: string
+      destination: string
+      // ui amount, e.g. "1000.5"
+      amount: string
+      // token account to send from, defaults to the treasury's associated token account
+      source?: string
+    }
+  | {
+      type: 'programUpgrade'
+      program: string
+      buffer: string
+      // receives the buffer's lamports, defaults to the proposer
+      spill?: string
+    }
+  | {
+      type: 'setGovernanceConfig'
+      // only the proposal's governance can sign for its config, any other one is rejected
+      governance?: string
+      config: GovernanceConfigChanges
+    }
+)
+
+export type VoteTippingName = 'strict' | 'early' | 'disabled'
+
+// only the listed fields change, the rest is copied from the current on-chain config
+export interface GovernanceConfigChanges {
+  communityYesVoteThresholdPct?: number
+  councilYesVoteThresholdPct?: number
+  councilVetoVoteThresholdPct?: number
+  communityVoteTipping?: VoteTippingName
+  councilVoteTipping?: VoteTippingName
+  baseVotingTimeSeconds?: number
+  votingCoolOffTimeSeconds?: number
+  minInstructionHoldUpTimeSeconds?: number
+  depositExemptProposalCount?: number
+  // ui amounts
+  minCommunityTokensToCreateProposal?: string
+  minCouncilTokensToCreateProposal?: string
+}
+
+export interface ProposalSpec {
+  cluster: EndpointTypes
+  rpcUrl?: string
+  // realm address, or symbol from the certified registry
+  realm: string
+  governance: string
+  name: string
+  descriptionLink: string
+  // more than one option makes it a multiple choice proposal
+  options: string[]
+  voteByCouncil: boolean
+  draft: boolean
+  instructions: SpecInstruction[]
+}
+
+const INSTRUCTION_TYPES: SpecInstruction['type'][] = [
+  'base64',
+  'tokenTransfer',
+  'programUpgrade',
+  'setGovernanceConfig',
+]
+
+const REQUIRED_FIELDS: Record<SpecInstruction['type'], string[]> = {
+  base64: ['data'],
+  tokenTransfer: ['mint', 'destination', 'amount'],
+  programUpgrade: ['program', 'buffer'],
+  setGovernanceConfig: ['config'],
+}
+
+export function parseProposalSpec(raw: any): ProposalSpec {
+  for (const field of ['realm', 'governance', 'name']) {
+    if (!raw?.[field]) {
+      throw new Error(`Proposal spec is missing '${field}'`)
+    }
+  }
+  const instructions: SpecInstruction[] = raw.instructions ?? []
+  instructions.forEach((ix, i) => {
+    if (!INSTRUCTION_TYPES.includes(ix?.type)) {
+      throw new Error(
+        `Instruction ${
+          i + 1
+        } has unknown type '${ix?.type}', expected one of ${INSTRUCTION_TYPES.join(
+          ', ',
+        )}`,
+      )
+    }
+    const missing = REQUIRED_FIELDS[ix.type].filter((f) => ix[f] === undefined)
+    if (missing.length) {
+      throw new Error(
+        `Instruction ${i + 1} (${ix.type}) is missing ${missing.join(', ')}`,
+      )
+    }
+    if (
+      ix.type === 'setGovernanceConfig' &&
+      ix.governance !== undefined &&
+      ix.governance !== String(raw.governance)
+    ) {
+      throw new Error(
+        `Instruction ${
+          i + 1
+        } (setGovernanceConfig) can only change the config of the proposal's governance ${
+          raw.governance
+        }`,
+      )
+    }
+  })
+  const options: string[] = raw.options ?? ['Approve']
+  if (!options.length) {
+    throw new Error('Proposal spec needs at least one option')
+  }
+
+  return {
+    cluster: raw.cluster ?? 'mainnet',
+    rpcUrl: raw.rpcUrl,
+    realm: String(raw.realm),
+    governance: String(raw.governance),
+    name: String(raw.name),
+    descriptionLink: raw.descriptionLink ?? '',
+    options,
+    voteByCouncil: !!raw.voteByCouncil,
+    draft: !!raw.draft,
+    instructions,
+  }
+}
+
+export function loadProposalSpec(path: string) {
+  const contents = readFileSync(path, 'utf-8')
+  const ext = extname(path).toLowerCase()
+  const raw =
+    ext === '.yaml' || ext === '.yml'
+      ? yaml.load(contents)
+      : JSON.parse(contents)
+  return parseProposalSpec(raw)
+}
@@ -0,0 +1,262 @@
+import {
+  createSetGovernanceConfig,
+  getInstructionDataFromBase64,
+  getProgramDataAccount,
+  Governance,
+  GovernanceConfig,
+  InstructionData,
+  ProgramAccount,
+  Realm,
+  serializeInstructionToBase64,
+  VoteThreshold,
+  VoteThresholdType,
+  VoteTipping,
+} from '@solana/spl-governance'
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token-new'
+import { parseMintNaturalAmountFromDecimalAsBN } from '@tools/sdk/units'
+import { createUpgradeInstruction } from '@tools/sdk/bpfUpgradeableLoader/createUpgradeInstruction'
+import { parseMintAccountData, tryGetTokenAccount } from '@utils/tokens'
+import {
+  GovernanceConfigChanges,
+  SpecInstruction,
+  VoteTippingName,
+} from './proposalSpec'
+
+export interface SpecInstructionContext {
+  connection: Connection
+  programId: PublicKey
+  programVersion: number
+  realm: ProgramAccount<Realm>
+  governance: ProgramAccount<Governance>
+  treasury: PublicKey
+  proposer: PublicKey
+}
+
+export interface BuiltSpecInstruction {
+  data: InstructionData
+  holdUpTime: number
+  // executed by the proposer before the proposal is created, e.g. creating the recipient's token account
+  prerequisiteInstructions: TransactionInstruction[]
+}
+
+const VOTE_TIPPING: Record<VoteTippingName, VoteTipping> = {
+  strict: VoteTipping.Strict,
+  early: VoteTipping.Early,
+  disabled: VoteTipping.Disabled,
+}
+
+const yesVoteThreshold = (pct: number) =>
+  new VoteThreshold({ type: VoteThresholdType.YesVotePercentage, value: pct })
+
+const getMintDecimals = async (connection: Connection, mint: PublicKey) => {
+  const account = await connection.getAccountInfo(mint)
+  if (!account) throw new Error(`Mint ${mint.toBase58()} not found`)
+  return {
+    decimals: parseMintAccountData(account.data.subarray(0, 82)).decimals,
+    tokenProgram: account.owner,
+  }
+}
+
+async function buildTokenTransfer(
+  ctx: SpecInstructionContext,
+  ix: Extract<SpecInstruction, { type: 'tokenTransfer' }>,
+) {
+  const destination = new PublicKey(ix.destination)
+  if (ix.mint.toUpperCase() === 'SOL') {
+    const transfer = SystemProgram.transfer({
+      fromPubkey: ix.source ? new PublicKey(ix.source) : ctx.treasury,
+      toPubkey: destination,
+      lamports: BigInt(
+        parseMintNaturalAmountFromDecimalAsBN(ix.amount, 9).toString(),
+      ),
+    })
+    return { instruction: transfer, prerequisiteInstructions: [] }
+  }
+
+  const mint = new PublicKey(ix.mint)
+  const { decimals, tokenProgram } = await getMintDecimals(ctx.connection, mint)
+  const source = ix.source
+    ? new PublicKey(ix.source)
+    : getAssociatedTokenAddressSync(mint, ctx.treasury, true, tokenProgram)
+  const sourceAccount = await tryGetTokenAccount(ctx.connection, source)
+  // token 2022 accounts aren't parsed by tryGetTokenAccount, those are owned by the treasury
+  const authority = sourceAccount?.account.owner ?? ctx.treasury
+  const destinationAta = getAssociatedTokenAddressSync(
+    mint,
+    destination,
+    true,
+    tokenProgram,
+  )
+
+  return {
+    instruction: createTransferCheckedInstruction(
+      source,
+      mint,
+      destinationAta,
+      authority,
+      BigInt(
+        parseMintNaturalAmountFromDecimalAsBN(ix.amount, decimals).toString(),
+      ),
+      decimals,
+      [],
+      tokenProgram,
+    ),
+    prerequisiteInstructions: [
+      createAssociatedTokenAccountIdempotentInstruction(
+        ctx.proposer,
+        destinationAta,
+        destination,
+        mint,
+        tokenProgram,
+      ),
+    ],
+  }
+}
+
+async function buildProgramUpgrade(
+  ctx: SpecInstructionContext,
+  ix: Extract<SpecInstruction, { type: 'programUpgrade' }>,
+) {
+  const program = new PublicKey(ix.program)
+  const programData = await getProgramDataAccount(ctx.connection, program)
+  if (!programData.authority) {
+    throw new Error(`Program ${ix.program} is not upgradeable`)
+  }
+  return createUpgradeInstruction(
+    program,
+    new PublicKey(ix.buffer),
+    programData.authority,
+    ix.spill ? new PublicKey(ix.spill) : ctx.proposer,
+  )
+}
+
+export function applyConfigChanges(
+  current: GovernanceConfig,
+  changes: GovernanceConfigChanges,
+  mintDecimals: { community: number; council: number },
+) {
+  const next = new GovernanceConfig({ ...current })
+  if (changes.communityYesVoteThresholdPct !== undefined)
+    next.communityVoteThreshold = yesVoteThreshold(
+      changes.communityYesVoteThresholdPct,
+    )
+  if (changes.councilYesVoteThresholdPct !== undefined)
+    next.councilVoteThreshold = yesVoteThreshold(
+      changes.councilYesVoteThresholdPct,
+    )
+  if (changes.councilVetoVoteThresholdPct !== undefined)
+    next.councilVetoVoteThreshold = yesVoteThreshold(
+      changes.councilVetoVoteThresholdPct,
+    )
+  if (changes.communityVoteTipping)
+    next.communityVoteTipping = VOTE_TIPPING[changes.communityVoteTipping]
+  if (changes.councilVoteTipping)
+    next.councilVoteTipping = VOTE_TIPPING[changes.councilVoteTipping]
+  if (changes.baseVotingTimeSeconds !== undefined)
+    next.baseVotingTime = changes.baseVotingTimeSeconds
+  if (changes.votingCoolOffTimeSeconds !== undefined)
+    next.votingCoolOffTime = changes.votingCoolOffTimeSeconds
+  if (changes.minInstructionHoldUpTimeSeconds !== undefined)
+    next.minInstructionHoldUpTime = changes.minInstructionHoldUpTimeSeconds
+  if (changes.depositExemptProposalCount !== undefined)
+    next.depositExemptProposalCount = changes.depositExemptProposalCount
+  if (changes.minCommunityTokensToCreateProposal !== undefined)
+    next.minCommunityTokensToCreateProposal =
+      parseMintNaturalAmountFromDecimalAsBN(
+        changes.minCommunityTokensToCreateProposal,
+        mintDecimals.community,
+      )
+  if (changes.minCouncilTokensToCreateProposal !== undefined)
+    next.minCouncilTokensToCreateProposal =
+      parseMintNaturalAmountFromDecimalAsBN(
+        changes.minCouncilTokensToCreateProposal,
+        mintDecimals.council,
+      )
+  return next
+}
+
+async function buildSetGovernanceConfig(
+  ctx: SpecInstructionContext,
+  ix: Extract<SpecInstruction, { type: 'setGovernanceConfig' }>,
+) {
+  // the proposal's governance, checked by parseProposalSpec
+  const { governance } = ctx
+  const { communityMint, config } = ctx.realm.account
+  const community = await getMintDecimals(ctx.connection, communityMint)
+  const council = config.councilMint
+    ? await getMintDecimals(ctx.connection, config.councilMint)
+    : { decimals: 0 }
+
+  return createSetGovernanceConfig(
+    ctx.programId,
+    ctx.programVersion,
+    governance.pubkey,
+    applyConfigChanges(governance.account.config, ix.config, {
+      community: community.decimals,
+      council: council.decimals,
+    }),
+  )
+}
+
+async function buildInstruction(
+  ctx: SpecInstructionContext,
+  ix: SpecInstruction,
+): Promise<{
+  instruction: TransactionInstruction | InstructionData
+  prerequisiteInstructions: TransactionInstruction[]
+}> {
+  switch (ix.type) {
+    case 'base64':
+      return {
+        instruction: getInstructionDataFromBase64(ix.data),
+        prerequisiteInstructions: [],
+      }
+    case 'tokenTransfer':
+      return buildTokenTransfer(ctx, ix)
+    case 'programUpgrade':
+      return {
+        instruction: await buildProgramUpgrade(ctx, ix),
+        prerequisiteInstructions: [],
+      }
+    case 'setGovernanceConfig':
+      return {
+        instruction: await buildSetGovernanceConfig(ctx, ix),
+        prerequisiteInstructions: [],
+      }
+  }
+}
+
+export async function buildSpecInstructions(
+  ctx: SpecInstructionContext,
+  instructions: SpecInstruction[],
+): Promise<BuiltSpecInstruction[]> {
+  const built: BuiltSpecInstruction[] = []
+  for (const ix of instructions) {
+    const { instruction, prerequisiteInstructions } = await buildInstruction(
+      ctx,
+      ix,
+    )
+    built.push({
+      data:
+        instruction instanceof TransactionInstruction
+          ? getInstructionDataFromBase64(
+              serializeInstructionToBase64(instruction),
+            )
+          : instruction,
+      holdUpTime:
+        ix.holdUpTime ?? ctx.governance.account.config.minInstructionHoldUpTime,
+      prerequisiteInstructions,
+    })
+  }
+  return built
+}
@@ -0,0 +1,139 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js'
+import NodeWallet from '@coral-xyz/anchor/dist/cjs/nodewallet'
+import { Wallet } from '@coral-xyz/anchor'
+import chalk from 'chalk'
+import { readFileSync, writeFileSync } from 'fs'
+import { homedir } from 'os'
+import { join } from 'path'
+import { getCertifiedRealmInfo } from '@models/registry/api'
+import { tryParseKey } from '@tools/validators/pubkey'
+import { getConnectionContext } from 'utils/connection'
+import { loadProposalSpec } from './helpers/proposalSpec'
+import {
+  buildProposalFromSpec,
+  ReadonlyWallet,
+  sendProposalBatches,
+  serializeProposalBatches,
+} from './helpers/createProposalFromSpec'
+
+const USAGE = `Usage: yarn realms-cli proposal create --spec <proposal.yaml|json> [options]
+
+Options:
+  --keypair <path>    keypair used to sign and pay, defaults to ~/.config/solana/id.json
+  --unsigned <path>   don't send, write unsigned base64 transactions to <path> for an external signer
+  --wallet <address>  proposer address when using --unsigned without a keypair
+  --nonce <addresses> comma separated durable nonce accounts for --unsigned, one per transaction, with the
+                      proposer as authority. Without them the transactions expire about a minute after writing
+  --rpc <url>         overrides the spec's rpcUrl / cluster endpoint`
+
+const parseArgs = (argv: string[]) => {
+  const positional: string[] = []
+  const flags: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      flags[argv[i].slice(2)] = argv[i + 1]
+      i++
+    } else {
+      positional.push(argv[i])
+    }
+  }
+  return { positional, flags }
+}
+
+const loadWalletFromFile = (walletPath: string): Keypair => {
+  const walletJSON = readFileSync(walletPath, 'utf-8')
+  const walletData = JSON.parse(walletJSON)
+  return Keypair.fromSecretKey(new Uint8Array(walletData))
+}
+
+const resolveRealm = (realm: string, cluster: string) =>
+  getCertifiedRealmInfo(realm, getConnectionContext(cluster))?.realmId ??
+  tryParseKey(realm)
+
+async function createProposalCommand(flags: Record<string, string>) {
+  if (!flags.spec) {
+    throw new Error('--spec is required')
+  }
+  const spec = loadProposalSpec(flags.spec)
+  const endpoint =
+    flags.rpc ?? spec.rpcUrl ?? getConnectionContext(spec.cluster).endpoint
+  const connection = new Connection(endpoint, 'confirmed')
+
+  const realmPk = resolveRealm(spec.realm, spec.cluster)
+  if (!realmPk) {
+    throw new Error(`Unknown realm ${spec.realm}`)
+  }
+
+  let wallet: Wallet
+  if (flags.unsigned && flags.wallet) {
+    wallet = new ReadonlyWallet(new PublicKey(flags.wallet))
+  } else {
+    wallet = new NodeWallet(
+      loadWalletFromFile(
+        flags.keypair ?? join(homedir(), '.config', 'solana', 'id.json'),
+      ),
+    )
+  }
+
+  console.log(
+    `Creating proposal '${spec.name}' with ${
+      spec.instructions.length
+    } instruction(s) as ${wallet.publicKey.toBase58()}`,
+  )
+  const { proposalAddress, batches } = await buildProposalFromSpec(
+    connection,
+    wallet,
+    spec,
+    realmPk,
+  )
+
+  if (flags.unsigned) {
+    const unsigned = await serializeProposalBatches(
+      connection,
+      wallet.publicKey,
+      proposalAddress,
+      batches,
+      flags.nonce?.split(',').map((x) => new PublicKey(x.trim())),
+    )
+    writeFileSync(flags.unsigned, JSON.stringify(unsigned, null, 2))
+    console.log(
+      chalk.green(
+        `Wrote ${unsigned.transactions.length} unsigned transaction(s) for proposal ${unsigned.proposal} to ${flags.unsigned}`,
+      ),
+    )
+    if (unsigned.recentBlockhash) {
+      console.log(
+        chalk.yellow(
+          'The transactions use the latest blockhash, sign and send them within about a minute or pass --nonce',
+        ),
+      )
+    }
+    return
+  }
+
+  await sendProposalBatches(connection, wallet, batches)
+  console.log(
+    chalk.green(
+      `Success proposal created url: https://realms.today/dao/${realmPk.toBase58()}/proposal/${proposalAddress.toBase58()}${
+        spec.cluster === 'devnet' ? '?cluster=devnet' : ''
+      }`,
+    ),
+  )
+}
+
+async function run() {
+  const { positional, flags } = parseArgs(process.argv.slice(2))
+  const [command, subcommand] = positional
+
+  if (command === 'proposal' && subcommand === 'create') {
+    await createProposalCommand(flags)
+    return
+  }
+  console.log(USAGE)
+  process.exitCode = 1
+}
+
+run().catch((e) => {
+  console.error(chalk.red('ERROR: '), e instanceof Error ? e.message : e)
+  process.exit(1)
+})
@@ -13,6 +13,7 @@ import NavBar from '@components/NavBar'
 import PageBodyContainer from '@components/PageBodyContainer'
 import tokenPriceService from '@utils/services/tokenPrice'
 import TransactionLoader from '@components/TransactionLoader'
+import OfflineTransactionsExportModal from '@components/OfflineTransactionsExportModal'
 import useDepositStore from 'VoteStakeRegistry/stores/useDepositStore'
 import useRealm from '@hooks/useRealm'
 import NftVotingCountingModal from '@components/NftVotingCountingModal'
@@ -38,6 +39,7 @@ import { useAsync } from 'react-async-hook'
 import { useVsrClient } from '../VoterWeightPlugins/useVsrClient'
 import { useRealmVoterWeightPlugins } from '@hooks/useRealmVoterWeightPlugins'
 import TermsPopupModal from './TermsPopup'
+import { checkClusterHealth, createFailoverFetch } from '@utils/rpcEndpoints'
 
 const Notifications = dynamic(() => import('../components/Notification'), {
   ssr: false,
@@ -63,6 +65,8 @@ const GoogleTag = React.memo(
   () => true,
 )
 
+const HEALTH_CHECK_INTERVAL = 60 * 1000
+
 interface Props {
   children: React.ReactNode
 }
@@ -77,6 +81,23 @@ export function App(props: Props) {
     [cluster],
   )
 
+  // requests go to the healthiest endpoint of the cluster, the endpoint only names the connection
+  const connectionConfig = useMemo(
+    () => ({
+      commitment: 'confirmed' as const,
+      fetch: createFailoverFetch(cluster === 'devnet' ? 'devnet' : 'mainnet'),
+    }),
+    [cluster],
+  )
+
+  useEffect(() => {
+    const check = () =>
+      checkClusterHealth(cluster === 'devnet' ? 'devnet' : 'mainnet')
+    check()
+    const id = setInterval(check, HEALTH_CHECK_INTERVAL)
+    return () => clearInterval(id)
+  }, [cluster])
+
   const supportedWallets = useMemo(
     () =>
       detectEmbeddedInSquadsIframe()
@@ -86,7 +107,7 @@ export function App(props: Props) {
   )
 
   return (
-    <ConnectionProvider endpoint={endpoint}>
+    <ConnectionProvider endpoint={endpoint} config={connectionConfig}>
       <WalletProvider wallets={supportedWallets}>
         <AppContents {...props} />{' '}
       </WalletProvider>
@@ -326,6 +347,7 @@ export function AppContents(props: Props) {
             <NavBar />
             <Notifications />
             <TransactionLoader></TransactionLoader>
+            <OfflineTransactionsExportModal />
             <NftVotingCountingModal />
             <PageBodyContainer>{props.children}</PageBodyContainer>
             <TermsPopupModal />
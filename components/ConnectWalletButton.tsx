@@ -14,9 +14,12 @@ import { Profile, ProfileImage } from '@components/Profile'
 import Loading from './Loading'
 import { WalletName, WalletReadyState } from '@solana/wallet-adapter-base'
 import { useWallet } from '@solana/wallet-adapter-react'
-import { ExternalLinkIcon } from '@heroicons/react/outline'
+import { ExternalLinkIcon, KeyIcon, ServerIcon } from '@heroicons/react/outline'
 import { DEFAULT_PROVIDER } from '../utils/wallet-adapters'
 import useViewAsWallet from '@hooks/useViewAsWallet'
+import useOfflineSignerWallet from '@hooks/useOfflineSignerWallet'
+import useQueryContext from '@hooks/useQueryContext'
+import Link from 'next/link'
 import { ProfileName } from '@components/Profile/ProfileName'
 
 const StyledWalletProviderLabel = styled.p`
@@ -28,6 +31,8 @@ const ConnectWalletButton = (props) => {
   const { pathname, query, replace } = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const debugAdapter = useViewAsWallet()
+  const offlineAdapter = useOfflineSignerWallet()
+  const { fmtUrlWithCluster } = useQueryContext()
 
   const {
     wallets,
@@ -39,7 +44,8 @@ const ConnectWalletButton = (props) => {
     connected,
   } = useWallet()
 
-  const publicKey = debugAdapter?.publicKey ?? realPublicKey
+  const publicKey =
+    debugAdapter?.publicKey ?? offlineAdapter?.publicKey ?? realPublicKey
 
   useEffect(() => {
     if (wallet === null) select(DEFAULT_PROVIDER.name as WalletName)
@@ -106,6 +112,10 @@ const ConnectWalletButton = (props) => {
             <div className="absolute -left-4 h-full text-red-400 opacity-90 pointer-events-none text-2xl drop-shadow-[0_1.2px_1.2px_rgba(0,0,0,0.8)] -rotate-45">
               DEBUG
             </div>
+          ) : offlineAdapter ? (
+            <div className="absolute -left-4 h-full text-primary-light opacity-90 pointer-events-none text-xs drop-shadow-[0_1.2px_1.2px_rgba(0,0,0,0.8)] -rotate-45">
+              OFFLINE
+            </div>
           ) : null}
           {connected && publicKey ? (
             <div className="hidden w-12 pr-2 sm:block">
@@ -193,6 +203,22 @@ const ConnectWalletButton = (props) => {
                       />
                     </div>
                   </Menu.Item>
+                  <Menu.Item key={'offline-signing'}>
+                    <Link href={fmtUrlWithCluster('/tools/offline-signing')}>
+                      <a className="flex items-center w-full p-2 font-normal default-transition h-9 hover:bg-bkg-3 hover:cursor-pointer hover:rounded focus:outline-none">
+                        <KeyIcon className="w-4 h-4 mr-2" />
+                        <span className="text-sm">Offline signing</span>
+                      </a>
+                    </Link>
+                  </Menu.Item>
+                  <Menu.Item key={'rpc-endpoints'}>
+                    <Link href={fmtUrlWithCluster('/tools/rpc-endpoints')}>
+                      <a className="flex items-center w-full p-2 font-normal default-transition h-9 hover:bg-bkg-3 hover:cursor-pointer hover:rounded focus:outline-none">
+                        <ServerIcon className="w-4 h-4 mr-2" />
+                        <span className="text-sm">RPC endpoints</span>
+                      </a>
+                    </Link>
+                  </Menu.Item>
                   {wallet && publicKey && (
                     <>
                       <hr
@@ -24,11 +24,16 @@ import { useRealmQuery } from '@hooks/queries/realm'
 import { useConnection } from '@solana/wallet-adapter-react'
 import { fetchProgramVersion } from '@hooks/queries/useProgramVersionQuery'
 import { ProfileName } from '@components/Profile'
+import Link from 'next/link'
+import useQueryContext from '@hooks/useQueryContext'
+import useRealm from '@hooks/useRealm'
 
 const DelegateCard = () => {
   const ownTokenRecord = useUserCommunityTokenOwnerRecord().data?.result
   const ownCouncilTokenRecord = useUserCouncilTokenOwnerRecord().data?.result
   const realm = useRealmQuery().data?.result
+  const { symbol } = useRealm()
+  const { fmtUrlWithCluster } = useQueryContext()
 
   const [isLoading, setLoading] = useState<boolean>(false)
   const wallet = useWalletOnePointOh()
@@ -141,7 +146,14 @@ const DelegateCard = () => {
 
   return (
     <div className="bg-bkg-2 p-4 md:p-6 rounded-lg">
-      <h3 className="mb-4">Delegate tokens</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="mb-0">Delegate tokens</h3>
+        <Link href={fmtUrlWithCluster(`/dao/${symbol}/delegates`)}>
+          <a className="text-sm text-primary-light hover:text-primary-dark">
+            Browse delegates
+          </a>
+        </Link>
+      </div>
       {wallet &&
       wallet.publicKey &&
       (ownTokenRecord || ownCouncilTokenRecord) ? (
@@ -0,0 +1,282 @@
+import { useMemo, useState } from 'react'
+import { Disclosure } from '@headlessui/react'
+import { ChevronDownIcon } from '@heroicons/react/solid'
+import { ExternalLinkIcon } from '@heroicons/react/outline'
+import { PublicKey } from '@solana/web3.js'
+import { RpcContext, VoteKind } from '@solana/spl-governance'
+import cx from 'classnames'
+import { setGovernanceDelegate } from 'actions/setGovernanceDelegate'
+import { SecondaryButton } from '@components/Button'
+import InlineNotification from '@components/InlineNotification'
+import Modal from '@components/Modal'
+import { ProfileName } from '@components/Profile'
+import { useDelegateProfilesQuery } from '@hooks/queries/delegateProfiles'
+import {
+  useRealmCommunityMintInfoQuery,
+  useRealmCouncilMintInfoQuery,
+} from '@hooks/queries/mintInfo'
+import { useRealmProposalsQuery } from '@hooks/queries/proposal'
+import { useRealmQuery } from '@hooks/queries/realm'
+import {
+  useTokenOwnerRecordsForRealmQuery,
+  useUserCommunityTokenOwnerRecord,
+  useUserCouncilTokenOwnerRecord,
+} from '@hooks/queries/tokenOwnerRecord'
+import { useRealmVoteRecordsQuery } from '@hooks/queries/voteRecord'
+import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import useRealm from '@hooks/useRealm'
+import useWalletOnePointOh from '@hooks/useWalletOnePointOh'
+import { buildDelegateStats } from '@models/delegates/buildDelegateStats'
+import { getProgramVersionForRealm } from '@models/registry/api'
+import { formatNumber } from '@utils/formatNumber'
+import { notify } from '@utils/notifications'
+import DelegateProfileForm from './DelegateProfileForm'
+
+const VOTE_LABELS = {
+  [VoteKind.Approve]: 'Yes',
+  [VoteKind.Deny]: 'No',
+  [VoteKind.Abstain]: 'Abstain',
+  [VoteKind.Veto]: 'Veto',
+}
+
+const fmtPercent = (value: number) =>
+  `${formatNumber(value * 100, undefined, { maximumFractionDigits: 0 })}%`
+
+export default function DelegateDirectory() {
+  const { realmInfo } = useRealm()
+  const connection = useLegacyConnectionContext()
+  const wallet = useWalletOnePointOh()
+  const realm = useRealmQuery().data?.result
+  const profiles = useDelegateProfilesQuery()
+  const proposals = useRealmProposalsQuery()
+  const tokenOwnerRecords = useTokenOwnerRecordsForRealmQuery()
+  const voteRecords = useRealmVoteRecordsQuery()
+  const communityMintInfo = useRealmCommunityMintInfoQuery().data?.result
+  const councilMintInfo = useRealmCouncilMintInfoQuery().data?.result
+  const ownCommunityRecord = useUserCommunityTokenOwnerRecord().data?.result
+  const ownCouncilRecord = useUserCouncilTokenOwnerRecord().data?.result
+
+  const [pendingDelegate, setPendingDelegate] = useState<string>()
+  const [isEditingProfile, setIsEditingProfile] = useState(false)
+
+  const ownRecords = [ownCommunityRecord, ownCouncilRecord].flatMap((x) =>
+    x ? [x] : [],
+  )
+  const walletAddress = wallet?.publicKey?.toBase58()
+  const ownProfile = profiles.data?.find((x) => x.wallet === walletAddress)
+
+  const delegates = useMemo(
+    () =>
+      realm &&
+      profiles.data &&
+      proposals.data &&
+      tokenOwnerRecords.data &&
+      voteRecords.data
+        ? buildDelegateStats({
+            profileWallets: profiles.data.map((x) => x.wallet),
+            proposals: proposals.data,
+            tokenOwnerRecords: tokenOwnerRecords.data,
+            voteRecords: voteRecords.data.voteRecords,
+            communityMint: realm.account.communityMint,
+            councilMint: realm.account.config.councilMint,
+            communityDecimals: communityMintInfo?.decimals ?? 0,
+            councilDecimals: councilMintInfo?.decimals ?? 0,
+          }).sort((a, b) =>
+            b.communityPower
+              .plus(b.councilPower)
+              .comparedTo(a.communityPower.plus(a.councilPower)),
+          )
+        : undefined,
+    [
+      realm,
+      profiles.data,
+      proposals.data,
+      tokenOwnerRecords.data,
+      voteRecords.data,
+      communityMintInfo,
+      councilMintInfo,
+    ],
+  )
+
+  const isDelegatedTo = (delegate: string) =>
+    ownRecords.length > 0 &&
+    ownRecords.every(
+      (x) => x.account.governanceDelegate?.toBase58() === delegate,
+    )
+
+  const handleDelegate = async (delegate: string) => {
+    if (!realm || !wallet?.publicKey) return
+    setPendingDelegate(delegate)
+    try {
+      const rpcContext = new RpcContext(
+        realm.owner,
+        getProgramVersionForRealm(realmInfo!),
+        wallet,
+        connection.current,
+        connection.endpoint,
+      )
+      await setGovernanceDelegate(
+        rpcContext,
+        realm,
+        ownRecords,
+        isDelegatedTo(delegate) ? null : new PublicKey(delegate),
+      )
+    } catch (e) {
+      notify({
+        type: 'error',
+        message: 'Could not update the delegation',
+        description: `${e}`,
+      })
+    }
+    setPendingDelegate(undefined)
+  }
+
+  if (!delegates) {
+    return <div className="h-64 rounded-md bg-bkg-1 animate-pulse" />
+  }
+
+  return (
+    <div className="space-y-4">
+      {isEditingProfile && (
+        <Modal
+          sizeClassName="sm:max-w-2xl"
+          onClose={() => setIsEditingProfile(false)}
+          isOpen={isEditingProfile}
+        >
+          <h2 className="mb-4">Delegate profile</h2>
+          <DelegateProfileForm
+            profile={ownProfile}
+            onPublished={() => setIsEditingProfile(false)}
+          />
+        </Modal>
+      )}
+      {!!voteRecords.data?.failedProposals.length && (
+        <InlineNotification
+          desc={`The votes of ${voteRecords.data.failedProposals.length} proposals could not be loaded, the agreement with outcomes is incomplete`}
+          type="warning"
+        />
+      )}
+      <div className="flex items-center justify-between">
+        <p className="text-fgd-3 text-sm">{delegates.length} Delegates</p>
+        <SecondaryButton
+          small
+          disabled={!walletAddress}
+          tooltipMessage={
+            !walletAddress ? 'Connect your wallet to publish a profile' : ''
+          }
+          onClick={() => setIsEditingProfile(true)}
+        >
+          {ownProfile ? 'Edit my delegate profile' : 'Become a delegate'}
+        </SecondaryButton>
+      </div>
+      {!delegates.length && (
+        <div className="bg-bkg-1 px-8 py-4 rounded text-center text-sm text-fgd-3">
+          No delegates yet
+        </div>
+      )}
+      {delegates.map((delegate) => {
+        const profile = profiles.data?.find((x) => x.wallet === delegate.wallet)
+        const delegatedTo = isDelegatedTo(delegate.wallet)
+        return (
+          <div className="bg-bkg-1 rounded-md p-4" key={delegate.wallet}>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="space-y-1">
+                <ProfileName
+                  publicKey={new PublicKey(delegate.wallet)}
+                  height="16px"
+                  width="120px"
+                />
+                <div className="flex flex-wrap gap-x-4 text-xs text-fgd-3">
+                  <span>Community {formatNumber(delegate.communityPower)}</span>
+                  {realm?.account.config.councilMint && (
+                    <span>Council {formatNumber(delegate.councilPower)}</span>
+                  )}
+                  <span>{delegate.delegators.length} delegators</span>
+                  <span>
+                    Agreement with outcome{' '}
+                    {delegate.agreementRate === undefined
+                      ? '-'
+                      : fmtPercent(delegate.agreementRate)}
+                  </span>
+                </div>
+              </div>
+              <SecondaryButton
+                small
+                isLoading={pendingDelegate === delegate.wallet}
+                disabled={
+                  !ownRecords.length ||
+                  delegate.wallet === walletAddress ||
+                  pendingDelegate !== undefined
+                }
+                tooltipMessage={
+                  !ownRecords.length
+                    ? 'Deposit governance tokens to delegate'
+                    : ''
+                }
+                onClick={() => handleDelegate(delegate.wallet)}
+              >
+                {delegatedTo ? 'Undelegate' : 'Delegate'}
+              </SecondaryButton>
+            </div>
+            {profile && (
+              <div className="mt-3 space-y-2">
+                <p className="text-sm whitespace-pre-line">
+                  {profile.statement}
+                </p>
+                <div className="flex flex-wrap gap-x-4">
+                  {profile.links.map((link) => (
+                    <a
+                      className="flex items-center text-xs text-primary-light"
+                      href={link}
+                      key={link}
+                      rel="noopener noreferrer"
+                      target="_blank"
+                    >
+                      {new URL(link).hostname}
+                      <ExternalLinkIcon className="h-3 ml-1 w-3" />
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
+            {delegate.votes.length > 0 && (
+              <Disclosure>
+                {({ open }) => (
+                  <>
+                    <Disclosure.Button className="flex items-center mt-3 text-xs text-fgd-3 hover:text-fgd-2">
+                      Voting record ({delegate.votes.length})
+                      <ChevronDownIcon
+                        className={cx('h-4 w-4', open && 'rotate-180')}
+                      />
+                    </Disclosure.Button>
+                    <Disclosure.Panel className="mt-2 space-y-1">
+                      {delegate.votes.map((vote) => (
+                        <div
+                          className="flex justify-between text-xs"
+                          key={vote.proposal}
+                        >
+                          <span className="truncate mr-4">{vote.name}</span>
+                          <span
+                            className={cx(
+                              'whitespace-nowrap',
+                              vote.agreed === true && 'text-green',
+                              vote.agreed === false && 'text-red',
+                            )}
+                          >
+                            {vote.vote === undefined
+                              ? '-'
+                              : VOTE_LABELS[vote.vote]}
+                          </span>
+                        </div>
+                      ))}
+                    </Disclosure.Panel>
+                  </>
+                )}
+              </Disclosure>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import { useState } from 'react'
+import { useWallet } from '@solana/wallet-adapter-react'
+import * as sig from '@hub/lib/signature'
+import Button from '@components/Button'
+import Textarea from '@components/inputs/Textarea'
+import { postDelegateProfile } from '@hooks/queries/delegateProfiles'
+import { useRealmQuery } from '@hooks/queries/realm'
+import {
+  DelegateProfile,
+  getDelegateProfileMessage,
+  MAX_LINKS,
+  MAX_STATEMENT_LENGTH,
+} from '@models/delegates/DelegateProfile'
+import { notify } from '@utils/notifications'
+
+interface Props {
+  profile?: DelegateProfile
+  onPublished?: () => void
+}
+
+export default function DelegateProfileForm(props: Props) {
+  const realm = useRealmQuery().data?.result
+  const { publicKey, signMessage } = useWallet()
+  const [statement, setStatement] = useState(props.profile?.statement ?? '')
+  const [links, setLinks] = useState(props.profile?.links.join('\n') ?? '')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const parsedLinks = links
+    .split('\n')
+    .map((x) => x.trim())
+    .filter(Boolean)
+  const error =
+    statement.length > MAX_STATEMENT_LENGTH
+      ? `The statement is limited to ${MAX_STATEMENT_LENGTH} characters`
+      : parsedLinks.length > MAX_LINKS
+      ? `At most ${MAX_LINKS} links`
+      : ''
+
+  const handlePublish = async () => {
+    if (!realm || !publicKey || !signMessage) return
+    setIsLoading(true)
+    try {
+      const content = {
+        realm: realm.pubkey.toBase58(),
+        wallet: publicKey.toBase58(),
+        statement: statement.trim(),
+        links: parsedLinks,
+        signedAt: Math.floor(Date.now() / 1000),
+      }
+      const signature = await signMessage(
+        sig.toUint8Array(getDelegateProfileMessage(content)),
+      )
+      await postDelegateProfile({ ...content, signature: sig.toHex(signature) })
+      notify({ type: 'success', message: 'Delegate profile published' })
+      props.onPublished?.()
+    } catch (e) {
+      notify({
+        type: 'error',
+        message: 'Could not publish the delegate profile',
+        description: e instanceof Error ? e.message : undefined,
+      })
+    }
+    setIsLoading(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <Textarea
+        label="Delegate statement"
+        subtitle="Why members should delegate to you and how you intend to vote"
+        value={statement}
+        onChange={(evt) => setStatement(evt.target.value)}
+        rows={6}
+      />
+      <Textarea
+        label="Links"
+        subtitle="One per line, e.g. a forum post or a social profile"
+        value={links}
+        onChange={(evt) => setLinks(evt.target.value)}
+        rows={3}
+        error={error}
+      />
+      <Button
+        onClick={handlePublish}
+        isLoading={isLoading}
+        disabled={!statement.trim() || !!error || !signMessage}
+        tooltipMessage={
+          !signMessage ? 'Your wallet does not support signing messages' : ''
+        }
+      >
+        Sign and publish
+      </Button>
+    </div>
+  )
+}
@@ -44,6 +44,19 @@ const VanillaDeposit = ({ role }: { role: 'community' | 'council' }) => {
   return kind === 'vanilla' ? <Deposit role={role} /> : <></>
 } */
 
+const VotingPowerDiagnosticsLink = () => {
+  const { symbol } = useRouter().query
+  const { fmtUrlWithCluster } = useQueryContext()
+
+  return (
+    <Link href={fmtUrlWithCluster(`/dao/${symbol}/voter-weight`)}>
+      <a className="default-transition mt-2 text-fgd-3 text-xs hover:text-fgd-2">
+        Voting power not what you expected? Diagnose it
+      </a>
+    </Link>
+  )
+}
+
 const GovernancePowerCard = () => {
   const connected = useWalletOnePointOh()?.connected ?? false
 
@@ -81,6 +94,7 @@ const GovernancePowerCard = () => {
               }
             />
           )}
+          <VotingPowerDiagnosticsLink />
         </div>
       )}
     </div>
@@ -0,0 +1,259 @@
+import { useMemo, useRef, useState } from 'react'
+import cx from 'classnames'
+import { ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/solid'
+import { SecondaryButton } from '@components/Button'
+import InlineNotification from '@components/InlineNotification'
+import Checkbox from '@components/inputs/Checkbox'
+import Input from '@components/inputs/Input'
+import PaginationComponent from '@components/Pagination'
+import { useRealmQuery } from '@hooks/queries/realm'
+import { useRealmProposalsQuery } from '@hooks/queries/proposal'
+import { useTokenOwnerRecordsForRealmQuery } from '@hooks/queries/tokenOwnerRecord'
+import { useRealmVoteRecordsQuery } from '@hooks/queries/voteRecord'
+import {
+  useRealmCommunityMintInfoQuery,
+  useRealmCouncilMintInfoQuery,
+} from '@hooks/queries/mintInfo'
+import {
+  buildMemberStats,
+  filterMemberStats,
+  MemberStats,
+  memberStatsToCsv,
+} from '@models/members/buildMemberStats'
+import { downloadFile } from '@utils/download'
+import { abbreviateAddress } from '@utils/formatting'
+import { formatNumber } from '@utils/formatNumber'
+
+const MEMBERS_PER_PAGE = 20
+
+type SortKey =
+  | 'walletAddress'
+  | 'communityPower'
+  | 'councilPower'
+  | 'participationRate'
+  | 'lastVoteAt'
+  | 'yesVotes'
+  | 'noVotes'
+  | 'abstainVotes'
+  | 'proposalsAuthored'
+  | 'delegatedFrom'
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'walletAddress', label: 'Wallet' },
+  { key: 'communityPower', label: 'Community' },
+  { key: 'councilPower', label: 'Council' },
+  { key: 'participationRate', label: 'Participation' },
+  { key: 'lastVoteAt', label: 'Last vote' },
+  { key: 'yesVotes', label: 'Yes' },
+  { key: 'noVotes', label: 'No' },
+  { key: 'abstainVotes', label: 'Abstain' },
+  { key: 'proposalsAuthored', label: 'Authored' },
+  { key: 'delegatedFrom', label: 'Delegations' },
+]
+
+const getSortValue = (member: MemberStats, key: SortKey) => {
+  const value = member[key]
+  return typeof value === 'string' || typeof value === 'number'
+    ? value
+    : Array.isArray(value)
+    ? value.length
+    : value?.toNumber() ?? -1
+}
+
+const fmtDate = (unixTime: number | undefined) =>
+  unixTime ? new Date(unixTime * 1000).toLocaleDateString() : 'Never'
+
+const fmtDelegations = (member: MemberStats) =>
+  [
+    member.delegatedFrom.length && `from ${member.delegatedFrom.length}`,
+    member.delegatedTo.length &&
+      `to ${member.delegatedTo.map((x) => abbreviateAddress(x)).join(', ')}`,
+  ]
+    .filter(Boolean)
+    .join(', ') || '-'
+
+export default function MemberDirectory() {
+  const realm = useRealmQuery().data?.result
+  const proposals = useRealmProposalsQuery()
+  const tokenOwnerRecords = useTokenOwnerRecordsForRealmQuery()
+  const voteRecords = useRealmVoteRecordsQuery()
+  const communityMintInfo = useRealmCommunityMintInfoQuery().data?.result
+  const councilMintInfo = useRealmCouncilMintInfoQuery().data?.result
+
+  const pagination = useRef<{ setPage: (val) => void }>(null)
+  const [page, setPage] = useState(0)
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: 'participationRate',
+    descending: true,
+  })
+  const [inactiveDays, setInactiveDays] = useState('')
+  const [neverVoted, setNeverVoted] = useState(false)
+
+  const stats = useMemo(
+    () =>
+      realm && proposals.data && tokenOwnerRecords.data && voteRecords.data
+        ? buildMemberStats({
+            proposals: proposals.data,
+            tokenOwnerRecords: tokenOwnerRecords.data,
+            voteRecords: voteRecords.data.voteRecords,
+            communityMint: realm.account.communityMint,
+            councilMint: realm.account.config.councilMint,
+            communityDecimals: communityMintInfo?.decimals ?? 0,
+            councilDecimals: councilMintInfo?.decimals ?? 0,
+          })
+        : undefined,
+    [
+      realm,
+      proposals.data,
+      tokenOwnerRecords.data,
+      voteRecords.data,
+      communityMintInfo,
+      councilMintInfo,
+    ],
+  )
+
+  const members = useMemo(() => {
+    const filtered = filterMemberStats(stats ?? [], {
+      inactiveDays: inactiveDays ? Number(inactiveDays) : undefined,
+      neverVoted,
+    })
+    return filtered.sort((a, b) => {
+      const x = getSortValue(a, sort.key)
+      const y = getSortValue(b, sort.key)
+      const order = x < y ? -1 : x > y ? 1 : 0
+      return sort.descending ? -order : order
+    })
+  }, [stats, inactiveDays, neverVoted, sort])
+
+  const resetPage = () => {
+    setPage(0)
+    pagination.current?.setPage(0)
+  }
+
+  const handleSort = (key: SortKey) => {
+    setSort((prev) => ({
+      key,
+      descending: prev.key === key ? !prev.descending : true,
+    }))
+    resetPage()
+  }
+
+  const handleExport = () => {
+    downloadFile(
+      `${realm?.account.name ?? 'realm'}-members.csv`,
+      memberStatsToCsv(members),
+      'text/csv',
+    )
+  }
+
+  if (!stats) {
+    return <div className="h-64 rounded-md bg-bkg-1 animate-pulse" />
+  }
+
+  return (
+    <div className="space-y-4">
+      {!!voteRecords.data?.failedProposals.length && (
+        <InlineNotification
+          desc={`The votes of ${voteRecords.data.failedProposals.length} proposals could not be loaded, participation and vote counts are incomplete`}
+          type="warning"
+        />
+      )}
+      <div className="flex flex-wrap items-end gap-4">
+        <Input
+          label="Inactive for (days)"
+          type="number"
+          min={0}
+          value={inactiveDays}
+          onChange={(evt) => {
+            setInactiveDays(evt.target.value)
+            resetPage()
+          }}
+          wrapperClassName="w-48"
+        />
+        <div className="pb-2">
+          <Checkbox
+            checked={neverVoted}
+            label="Never voted"
+            onChange={(evt) => {
+              setNeverVoted(evt.target.checked)
+              resetPage()
+            }}
+          />
+        </div>
+        <div className="ml-auto flex items-center gap-4">
+          <p className="text-fgd-3 text-sm">{members.length} Members</p>
+          <SecondaryButton small onClick={handleExport}>
+            Export CSV
+          </SecondaryButton>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-fgd-3">
+              {COLUMNS.map((column) => (
+                <th
+                  className="pb-2 pr-4 cursor-pointer whitespace-nowrap"
+                  key={column.key}
+                  onClick={() => handleSort(column.key)}
+                >
+                  <div className="flex items-center">
+                    {column.label}
+                    {sort.key === column.key &&
+                      (sort.descending ? (
+                        <ChevronDownIcon className="h-4 w-4" />
+                      ) : (
+                        <ChevronUpIcon className="h-4 w-4" />
+                      ))}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {members
+              .slice(page * MEMBERS_PER_PAGE, (page + 1) * MEMBERS_PER_PAGE)
+              .map((member) => (
+                <tr
+                  className="border-t border-fgd-4"
+                  key={member.walletAddress}
+                >
+                  <td className="py-2 pr-4">
+                    {abbreviateAddress(member.walletAddress)}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {formatNumber(member.communityPower)}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {formatNumber(member.councilPower)}
+                  </td>
+                  <td
+                    className={cx(
+                      'py-2 pr-4',
+                      member.participationRate < 0.5 && 'text-fgd-3',
+                    )}
+                  >
+                    {formatNumber(member.participationRate * 100, undefined, {
+                      maximumFractionDigits: 0,
+                    })}
+                    % of {member.eligibleProposals}
+                  </td>
+                  <td className="py-2 pr-4">{fmtDate(member.lastVoteAt)}</td>
+                  <td className="py-2 pr-4">{member.yesVotes}</td>
+                  <td className="py-2 pr-4">{member.noVotes}</td>
+                  <td className="py-2 pr-4">{member.abstainVotes}</td>
+                  <td className="py-2 pr-4">{member.proposalsAuthored}</td>
+                  <td className="py-2 pr-4">{fmtDelegations(member)}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+      <PaginationComponent
+        ref={pagination}
+        totalPages={Math.ceil(members.length / MEMBERS_PER_PAGE)}
+        onPageChange={setPage}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from 'react'
+import type QRCodeStyling from 'qr-code-styling'
+import { DuplicateIcon } from '@heroicons/react/outline'
+import Button, { LinkButton, SecondaryButton } from '@components/Button'
+import Modal from '@components/Modal'
+import { abbreviateAddress } from '@utils/formatting'
+import { downloadFile } from '@utils/download'
+import { notify } from '@utils/notifications'
+import { OfflineTransaction, toQrChunks } from '@utils/offlineSigning'
+import useOfflineSigningStore from 'stores/useOfflineSigningStore'
+
+const QR_SIZE = 280
+
+const ChunkQRCode = ({ data }: { data: string }) => {
+  const container = useRef<HTMLDivElement>(null)
+  const [code, setCode] = useState<QRCodeStyling | null>(null)
+
+  useEffect(() => {
+    import('qr-code-styling').then((m) => {
+      const QRCodeStyling = m.default
+      setCode(
+        new QRCodeStyling({
+          backgroundOptions: { color: '#F6F5F3' },
+          dotsOptions: { color: '#101010', type: 'square' },
+          height: QR_SIZE,
+          type: 'svg',
+          width: QR_SIZE,
+        }),
+      )
+    })
+  }, [])
+
+  useEffect(() => {
+    if (container.current && code) {
+      code.append(container.current)
+    }
+  }, [container, code])
+
+  useEffect(() => {
+    code?.update({ data })
+  }, [code, data])
+
+  return <div className="rounded overflow-hidden" ref={container} />
+}
+
+const copy = (text: string) => {
+  navigator.clipboard.writeText(text)
+  notify({ type: 'success', message: 'Copied to clipboard' })
+}
+
+const ExportedTransaction = ({
+  transaction,
+  index,
+  count,
+}: {
+  transaction: OfflineTransaction
+  index: number
+  count: number
+}) => {
+  const [showQr, setShowQr] = useState(false)
+  const [chunk, setChunk] = useState(0)
+  const chunks = toQrChunks(transaction, index, count)
+
+  return (
+    <div className="border border-fgd-4 p-3 rounded-md space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-fgd-1">Transaction {index + 1}</span>
+        <div className="flex items-center space-x-3">
+          <LinkButton
+            className="flex items-center"
+            onClick={() => copy(transaction.base64)}
+          >
+            <DuplicateIcon className="h-4 mr-1 w-4" />
+            base64
+          </LinkButton>
+          <LinkButton
+            className="flex items-center"
+            onClick={() => copy(transaction.base58)}
+          >
+            <DuplicateIcon className="h-4 mr-1 w-4" />
+            base58
+          </LinkButton>
+          <LinkButton onClick={() => setShowQr(!showQr)}>
+            {showQr ? 'Hide QR' : 'QR'}
+          </LinkButton>
+        </div>
+      </div>
+      <div className="break-all font-mono text-fgd-3 text-xs">
+        {transaction.base64}
+      </div>
+      {showQr && (
+        <div className="flex flex-col items-center space-y-2">
+          <ChunkQRCode data={chunks[chunk]} />
+          {chunks.length > 1 && (
+            <div className="flex items-center space-x-4 text-sm">
+              <LinkButton
+                disabled={chunk === 0}
+                onClick={() => setChunk(chunk - 1)}
+              >
+                Previous
+              </LinkButton>
+              <span>
+                {chunk + 1} / {chunks.length}
+              </span>
+              <LinkButton
+                disabled={chunk === chunks.length - 1}
+                onClick={() => setChunk(chunk + 1)}
+              >
+                Next
+              </LinkButton>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Shows the transactions built for the offline signer, see utils/offlineSigning */
+const OfflineTransactionsExportModal = () => {
+  const { bundle, clearBundle } = useOfflineSigningStore()
+
+  if (!bundle) {
+    return null
+  }
+
+  return (
+    <Modal isOpen={!!bundle} onClose={clearBundle} sizeClassName="sm:max-w-2xl">
+      <h2>Sign offline</h2>
+      <p className="mb-4 text-fgd-3 text-sm">
+        {bundle.transactions.length} transaction(s) paid by{' '}
+        {abbreviateAddress(bundle.signer)} have to be signed by the offline
+        signer, then imported and broadcast from the offline signing page, in
+        order.{' '}
+        {bundle.nonceAccounts.length
+          ? 'They use durable nonces and stay valid until the nonces advance.'
+          : 'They use a recent blockhash and expire about a minute from now, configure durable nonce accounts to sign at your own pace.'}
+      </p>
+      <div className="max-h-[50vh] overflow-y-auto space-y-3">
+        {bundle.transactions.map((transaction, i) => (
+          <ExportedTransaction
+            key={transaction.base64}
+            transaction={transaction}
+            index={i}
+            count={bundle.transactions.length}
+          />
+        ))}
+      </div>
+      <div className="flex justify-end mt-6 space-x-4">
+        <SecondaryButton onClick={clearBundle}>Close</SecondaryButton>
+        <Button
+          onClick={() =>
+            downloadFile(
+              `transactions-${bundle.createdAt}.json`,
+              JSON.stringify(bundle, null, 2),
+            )
+          }
+        >
+          Download bundle
+        </Button>
+      </div>
+    </Modal>
+  )
+}
+
+export default OfflineTransactionsExportModal
@@ -0,0 +1,293 @@
+import { useMemo, useState } from 'react'
+import {
+  getTokenOwnerRecordAddress,
+  Governance,
+  ProgramAccount,
+  Proposal,
+  VoteKind,
+} from '@solana/spl-governance'
+import { PublicKey } from '@solana/web3.js'
+import { XIcon } from '@heroicons/react/solid'
+import cx from 'classnames'
+import { SecondaryButton } from '@components/Button'
+import Input from '@components/inputs/Input'
+import {
+  useRealmCommunityMintInfoQuery,
+  useRealmCouncilMintInfoQuery,
+} from '@hooks/queries/mintInfo'
+import { useRealmQuery } from '@hooks/queries/realm'
+import { fetchTokenOwnerRecordByPubkey } from '@hooks/queries/tokenOwnerRecord'
+import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import { useMaxVoteRecord } from '@hooks/useMaxVoteRecord'
+import { useRealmVoterWeightPlugins } from '@hooks/useRealmVoterWeightPlugins'
+import {
+  SimulatedVoteKind,
+  simulateProposalVote,
+  VoterDisplayData,
+  VoteType,
+} from '@models/proposal'
+import { getProposalMaxVoteWeight } from '@models/voteWeights'
+import {
+  getMintDecimalAmount,
+  parseMintNaturalAmountFromDecimalAsBN,
+} from '@tools/sdk/units'
+import { calculateVoterWeight } from '../VoterWeightPlugins/lib/calculateVoterWeights'
+
+const VOTE_CHOICES = [
+  { voteKind: VoteKind.Approve, label: 'Yes' },
+  { voteKind: VoteKind.Deny, label: 'No' },
+  { voteKind: VoteKind.Abstain, label: 'Abstain' },
+] as const
+
+const OUTCOME_LABELS = {
+  succeeded: 'Succeeded',
+  defeated: 'Defeated',
+}
+
+interface HypotheticalVote {
+  wallet: string
+  voteKind: SimulatedVoteKind
+  // ui amount
+  amount: string
+}
+
+interface Props {
+  className?: string
+  // current votes, replaced by the hypothetical vote of the same wallet
+  data: VoterDisplayData[]
+  governance: ProgramAccount<Governance>
+  proposal: ProgramAccount<Proposal>
+}
+
+export default function ProposalVoteSimulator(props: Props) {
+  const connection = useLegacyConnectionContext()
+  const realm = useRealmQuery().data?.result
+  const communityMint = useRealmCommunityMintInfoQuery().data?.result
+  const councilMint = useRealmCouncilMintInfoQuery().data?.result
+  const maxVoteRecord = useMaxVoteRecord()
+  const [votes, setVotes] = useState<HypotheticalVote[]>([])
+  const [wallet, setWallet] = useState('')
+  const [error, setError] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+
+  const proposal = props.proposal.account
+  const isCommunityVote = !!realm?.account.communityMint.equals(
+    proposal.governingTokenMint,
+  )
+  const mint = isCommunityVote ? communityMint : councilMint
+  const { plugins } = useRealmVoterWeightPlugins(
+    isCommunityVote ? 'community' : 'council',
+  )
+
+  const config = props.governance.account.config
+  const thresholdPct =
+    proposal.voteThreshold?.value ??
+    (isCommunityVote
+      ? config.communityVoteThreshold.value
+      : config.councilVoteThreshold.value) ??
+    0
+  const voteTipping = isCommunityVote
+    ? config.communityVoteTipping
+    : config.councilVoteTipping
+
+  const simulation = useMemo(() => {
+    if (!realm || !mint) return undefined
+    const maxVoteWeight =
+      isCommunityVote && maxVoteRecord
+        ? maxVoteRecord.account.maxVoterWeight
+        : getProposalMaxVoteWeight(realm.account, proposal, mint)
+
+    return simulateProposalVote({
+      yesVotes: proposal.getYesVoteCount(),
+      noVotes: proposal.getNoVoteCount(),
+      castVotes: props.data.flatMap((x) =>
+        x.voteType === VoteType.Undecided
+          ? []
+          : [
+              {
+                wallet: x.key,
+                voteKind:
+                  x.voteType === VoteType.Yes
+                    ? VoteKind.Approve
+                    : VoteKind.Deny,
+                weight: x.votesCast,
+              },
+            ],
+      ),
+      hypotheticalVotes: votes.map((x) => ({
+        wallet: x.wallet,
+        voteKind: x.voteKind,
+        weight: parseMintNaturalAmountFromDecimalAsBN(
+          x.amount || 0,
+          mint.decimals,
+        ),
+      })),
+      maxVoteWeight,
+      thresholdPct,
+      voteTipping,
+    })
+  }, [
+    realm,
+    mint,
+    isCommunityVote,
+    maxVoteRecord,
+    proposal,
+    props.data,
+    votes,
+    thresholdPct,
+    voteTipping,
+  ])
+
+  const addVote = async () => {
+    if (!realm || !mint) return
+    let walletPk: PublicKey
+    try {
+      walletPk = new PublicKey(wallet.trim())
+    } catch {
+      setError('Invalid wallet address')
+      return
+    }
+    setError('')
+    setIsAdding(true)
+    try {
+      const tokenOwnerRecordPk = await getTokenOwnerRecordAddress(
+        realm.owner,
+        realm.pubkey,
+        proposal.governingTokenMint,
+        walletPk,
+      )
+      const tokenOwnerRecord = await fetchTokenOwnerRecordByPubkey(
+        connection.current,
+        tokenOwnerRecordPk,
+      )
+      const voterWeight = await calculateVoterWeight({
+        walletPublicKey: walletPk,
+        realmPublicKey: realm.pubkey,
+        governanceMintPublicKey: proposal.governingTokenMint,
+        plugins: plugins?.voterWeight ?? [],
+        tokenOwnerRecord: tokenOwnerRecord.result,
+      })
+      setVotes((x) => [
+        ...x.filter((v) => v.wallet !== walletPk.toBase58()),
+        {
+          wallet: walletPk.toBase58(),
+          voteKind: VoteKind.Approve,
+          amount: voterWeight.value
+            ? getMintDecimalAmount(mint, voterWeight.value).toString()
+            : '0',
+        },
+      ])
+      setWallet('')
+    } catch (e) {
+      setError(`Could not calculate the voter weight, ${e}`)
+    }
+    setIsAdding(false)
+  }
+
+  const updateVote = (index: number, vote: Partial<HypotheticalVote>) =>
+    setVotes((x) => x.map((v, i) => (i === index ? { ...v, ...vote } : v)))
+
+  const fmtAmount = (amount: Parameters<typeof getMintDecimalAmount>[1]) =>
+    mint ? getMintDecimalAmount(mint, amount).toFormat(0) : '-'
+
+  return (
+    <div className={props.className}>
+      <h3 className="mb-1">What if</h3>
+      <p className="mb-4 text-sm text-fgd-3">
+        Add hypothetical votes to see how the proposal would end. The weight
+        defaults to the current voter weight of the wallet.
+      </p>
+      <div className="flex items-start space-x-2">
+        <Input
+          type="text"
+          placeholder="Wallet address"
+          value={wallet}
+          noMaxWidth
+          error={error}
+          onChange={(e) => setWallet(e.target.value)}
+        />
+        <SecondaryButton
+          className="whitespace-nowrap"
+          isLoading={isAdding}
+          disabled={!wallet.trim() || !mint}
+          onClick={addVote}
+        >
+          Add vote
+        </SecondaryButton>
+      </div>
+      <div className="mt-4 space-y-2">
+        {votes.map((vote, index) => (
+          <div
+            className="bg-bkg-1 flex flex-wrap gap-2 items-center p-3 rounded-md"
+            key={vote.wallet}
+          >
+            <span className="flex-1 font-mono text-xs truncate">
+              {vote.wallet}
+            </span>
+            {VOTE_CHOICES.map(({ voteKind, label }) => (
+              <SecondaryButton
+                small
+                key={voteKind}
+                className={cx(
+                  vote.voteKind === voteKind &&
+                    'bg-primary-light text-bkg-2 hover:text-bkg-2',
+                )}
+                onClick={() => updateVote(index, { voteKind })}
+              >
+                {label}
+              </SecondaryButton>
+            ))}
+            <Input
+              className="w-32"
+              type="number"
+              min={0}
+              value={vote.amount}
+              onChange={(e) => updateVote(index, { amount: e.target.value })}
+            />
+            <button
+              className="text-fgd-3 hover:text-fgd-1"
+              onClick={() => setVotes((x) => x.filter((_v, i) => i !== index))}
+            >
+              <XIcon className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      {simulation && (
+        <div className="grid grid-cols-2 gap-4 mt-6 md:grid-cols-4">
+          <div>
+            <p className="text-xs text-fgd-3">Yes votes</p>
+            <p className="font-bold">{fmtAmount(simulation.yesVotes)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-fgd-3">No votes</p>
+            <p className="font-bold">{fmtAmount(simulation.noVotes)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-fgd-3">
+              Yes votes required ({thresholdPct}%)
+            </p>
+            <p className="font-bold">{fmtAmount(simulation.minimumYesVotes)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-fgd-3">Outcome</p>
+            <p
+              className={cx(
+                'font-bold',
+                simulation.finalOutcome === 'succeeded'
+                  ? 'text-green'
+                  : 'text-red',
+              )}
+            >
+              {simulation.tippedOutcome
+                ? `${OUTCOME_LABELS[simulation.tippedOutcome]} early`
+                : `${
+                    OUTCOME_LABELS[simulation.finalOutcome]
+                  } at the end of voting`}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
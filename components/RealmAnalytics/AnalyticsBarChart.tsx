@@ -0,0 +1,48 @@
+import { ResponsiveBar } from '@nivo/bar'
+
+interface Props {
+  data: { label: string; value: number }[]
+  fmtValue: (value: number) => string
+}
+
+const AnalyticsBarChart = ({ data, fmtValue }: Props) => (
+  <ResponsiveBar
+    data={data}
+    keys={['value']}
+    indexBy="label"
+    margin={{ bottom: 40, left: 56, right: 24, top: 8 }}
+    padding={0.3}
+    valueScale={{ type: 'linear' }}
+    indexScale={{ type: 'band', round: true }}
+    borderRadius={4}
+    colors={['var(--primary-light)']}
+    theme={{
+      axis: {
+        ticks: {
+          line: {
+            stroke: 'var(--bkg-2)',
+          },
+          text: {
+            fill: 'var(--fgd-3)',
+          },
+        },
+      },
+      grid: {
+        line: { stroke: 'var(--bkg-4)' },
+      },
+      tooltip: {
+        container: { background: 'var(--bkg-1)', color: 'var(--fgd-1)' },
+      },
+    }}
+    tooltip={({ indexValue, value }) => (
+      <div className="bg-bkg-1 px-2 py-1 rounded text-xs">
+        {indexValue}: {fmtValue(value)}
+      </div>
+    )}
+    enableLabel={false}
+    axisBottom={data.length > 12 ? null : { tickSize: 0, tickPadding: 8 }}
+    axisLeft={{ format: (v) => fmtValue(v) }}
+    role="application"
+  />
+)
+export default AnalyticsBarChart
@@ -1,6 +1,11 @@
 import { useEffect, useState } from 'react'
 import useRealm from 'hooks/useRealm'
-import { ChartPieIcon, CogIcon, UsersIcon } from '@heroicons/react/outline'
+import {
+  ChartBarIcon,
+  ChartPieIcon,
+  CogIcon,
+  UsersIcon,
+} from '@heroicons/react/outline'
 import { ChevronLeftIcon, IdentificationIcon } from '@heroicons/react/solid'
 import Link from 'next/link'
 import useQueryContext from 'hooks/useQueryContext'
@@ -89,6 +94,12 @@ const RealmHeader = () => {
               </a>
             </Link> 
           : null}
+          <Link href={fmtUrlWithCluster(`/dao/${symbol}/analytics`)}>
+            <a className="flex items-center text-sm cursor-pointer default-transition text-fgd-2 hover:text-fgd-3">
+              <ChartBarIcon className="flex-shrink-0 w-5 h-5 mr-1" />
+              Analytics
+            </a>
+          </Link>
           <Link href={fmtUrlWithCluster(`/dao/${symbol}/members`)}>
             <a className="flex items-center text-sm cursor-pointer default-transition text-fgd-2 hover:text-fgd-3">
               <UsersIcon className="flex-shrink-0 w-5 h-5 mr-1" />
@@ -0,0 +1,210 @@
+import { useState } from 'react'
+import {
+  GovernanceAccountType,
+  ProgramAccount,
+  Proposal,
+  VoteKind,
+  VoteType,
+} from '@solana/spl-governance'
+import cx from 'classnames'
+import Button, { SecondaryButton } from '@components/Button'
+import Modal from '@components/Modal'
+import Checkbox from '@components/inputs/Checkbox'
+import Input from '@components/inputs/Input'
+import { useSelectedRealmInfo } from '@hooks/selectedRealm/useSelectedRealmRegistryEntry'
+import { QueuedVote, useSubmitVotes } from '@hooks/useSubmitVotes'
+import { notify } from '@utils/notifications'
+
+const NOTA = '$$_NOTA_$$'
+
+const VOTE_CHOICES = [
+  { voteKind: VoteKind.Approve, label: 'Yes' },
+  { voteKind: VoteKind.Deny, label: 'No' },
+  { voteKind: VoteKind.Abstain, label: 'Abstain' },
+] as const
+
+interface Choice {
+  voteKind?: QueuedVote['voteKind']
+  // selected options of a multiple choice proposal
+  voteWeights: number[]
+  comment: string
+}
+
+const isMultiChoice = (proposal: Proposal) =>
+  proposal.voteType !== VoteType.SINGLE_CHOICE &&
+  proposal.accountType === GovernanceAccountType.ProposalV2
+
+const toggleOption = (
+  proposal: Proposal,
+  selected: number[],
+  index: number,
+) => {
+  if (selected.includes(index)) return selected.filter((x) => x !== index)
+  const last = proposal.options.length - 1
+  // none of the above excludes every other option
+  if (proposal.options[last].label === NOTA) {
+    if (index === last) return [index]
+    return [...selected.filter((x) => x !== last), index]
+  }
+  return [...selected, index]
+}
+
+interface Props {
+  isOpen: boolean
+  onClose: () => void
+  proposals: ProgramAccount<Proposal>[]
+  onSubmitted?: () => void
+}
+
+export default function VotingQueueModal(props: Props) {
+  const realmInfo = useSelectedRealmInfo()
+  const allowDiscussion = realmInfo?.allowDiscussion ?? true
+  const { submitting, submitVotes } = useSubmitVotes()
+  const [choices, setChoices] = useState<Record<string, Choice>>({})
+
+  const getChoice = (
+    proposal: ProgramAccount<Proposal>,
+    current = choices,
+  ): Choice =>
+    current[proposal.pubkey.toBase58()] ?? { voteWeights: [], comment: '' }
+
+  const setChoice = (
+    proposal: ProgramAccount<Proposal>,
+    choice: Partial<Choice>,
+  ) =>
+    setChoices((x) => ({
+      ...x,
+      [proposal.pubkey.toBase58()]: { ...getChoice(proposal, x), ...choice },
+    }))
+
+  const votes = props.proposals.flatMap((proposal): QueuedVote[] => {
+    const choice = getChoice(proposal)
+    const comment = choice.comment.trim() || undefined
+    if (isMultiChoice(proposal.account)) {
+      return choice.voteWeights.length
+        ? [
+            {
+              proposal,
+              voteKind: VoteKind.Approve,
+              voteWeights: choice.voteWeights,
+              comment,
+            },
+          ]
+        : []
+    }
+    return choice.voteKind !== undefined
+      ? [{ proposal, voteKind: choice.voteKind, comment }]
+      : []
+  })
+  const pendingCount = props.proposals.length - votes.length
+
+  const handleSubmit = async () => {
+    try {
+      await submitVotes(votes)
+      notify({
+        message: `Voted on ${votes.length} proposal${
+          votes.length === 1 ? '' : 's'
+        }`,
+        type: 'success',
+      })
+      props.onSubmitted?.()
+    } catch (e) {
+      console.error(e)
+      notify({ type: 'error', message: `Something went wrong, ${e}` })
+    }
+  }
+
+  return (
+    <Modal
+      sizeClassName="sm:max-w-2xl"
+      isOpen={props.isOpen}
+      onClose={props.onClose}
+    >
+      <h2 className="mb-4">Voting queue</h2>
+      <div className="max-h-[60vh] overflow-y-auto space-y-3 text-left">
+        {props.proposals.map((proposal) => {
+          const choice = getChoice(proposal)
+          const options = proposal.account.options
+          return (
+            <div
+              className="bg-bkg-1 p-4 rounded-md space-y-3"
+              key={proposal.pubkey.toBase58()}
+            >
+              <p className="font-bold">{proposal.account.name}</p>
+              {isMultiChoice(proposal.account) ? (
+                <div className="space-y-2">
+                  {options.map((option, index) => (
+                    <Checkbox
+                      key={index}
+                      checked={choice.voteWeights.includes(index)}
+                      label={
+                        option.label === NOTA && index === options.length - 1
+                          ? 'None of the Above'
+                          : option.label
+                      }
+                      onChange={() =>
+                        setChoice(proposal, {
+                          voteWeights: toggleOption(
+                            proposal.account,
+                            choice.voteWeights,
+                            index,
+                          ),
+                        })
+                      }
+                    />
+                  ))}
+                </div>
+              ) : (
+                <div className="flex space-x-2">
+                  {VOTE_CHOICES.map(({ voteKind, label }) => (
+                    <SecondaryButton
+                      small
+                      key={voteKind}
+                      className={cx(
+                        choice.voteKind === voteKind &&
+                          'bg-primary-light text-bkg-2 hover:text-bkg-2',
+                      )}
+                      onClick={() => setChoice(proposal, { voteKind })}
+                    >
+                      {label}
+                    </SecondaryButton>
+                  ))}
+                </div>
+              )}
+              {allowDiscussion && (
+                <Input
+                  type="text"
+                  placeholder="Comment (optional)"
+                  value={choice.comment}
+                  onChange={(e) =>
+                    setChoice(proposal, { comment: e.target.value })
+                  }
+                />
+              )}
+            </div>
+          )
+        })}
+      </div>
+      <div className="flex items-center justify-center mt-6 space-x-4">
+        <SecondaryButton className="w-44" onClick={props.onClose}>
+          Cancel
+        </SecondaryButton>
+        <Button
+          className="w-44"
+          onClick={handleSubmit}
+          isLoading={submitting}
+          disabled={!votes.length || pendingCount > 0 || submitting}
+          tooltipMessage={
+            pendingCount > 0
+              ? `Pick a vote for ${pendingCount} more proposal${
+                  pendingCount === 1 ? '' : 's'
+                }`
+              : ''
+          }
+        >
+          Submit {votes.length} vote{votes.length === 1 ? '' : 's'}
+        </Button>
+      </div>
+    </Modal>
+  )
+}
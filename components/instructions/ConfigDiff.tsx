@@ -0,0 +1,60 @@
+/** Side by side view of an on-chain config and the config set by an instruction, changed fields are highlighted */
+const ConfigDiff = ({
+  current,
+  proposed,
+}: {
+  // formatted values keyed by field name
+  current: Record<string, string>
+  proposed: Record<string, string>
+}) => {
+  const rows = Object.keys(current).map((label) => ({
+    label,
+    current: current[label],
+    proposed: proposed[label],
+  }))
+  const changedCount = rows.filter((x) => x.current !== x.proposed).length
+
+  return (
+    <div className="space-y-3">
+      <p className="text-fgd-3 text-sm">
+        {changedCount
+          ? `${changedCount} field(s) changed`
+          : 'The proposed config matches the current config'}
+      </p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-fgd-3">
+            <th className="pb-2 pr-2">Field</th>
+            <th className="pb-2 pr-2">Current</th>
+            <th className="pb-2">Proposed</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ label, current, proposed }) => {
+            const isChanged = current !== proposed
+            return (
+              <tr
+                key={label}
+                className={`border-t border-fgd-4 ${
+                  isChanged ? 'bg-bkg-3' : ''
+                }`}
+              >
+                <td className="py-2 pr-2 text-fgd-3">{label}</td>
+                <td className="break-all py-2 pr-2">{current}</td>
+                <td
+                  className={`break-all py-2 ${
+                    isChanged ? 'font-bold text-orange' : ''
+                  }`}
+                >
+                  {proposed}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default ConfigDiff
@@ -0,0 +1,311 @@
+import { Disclosure } from '@headlessui/react'
+import { ChevronDownIcon } from '@heroicons/react/solid'
+import { useState } from 'react'
+import BigNumber from 'bignumber.js'
+import Button, { SecondaryButton } from '@components/Button'
+import Loading from '@components/Loading'
+import {
+  getExplorerInspectorUrl,
+  getExplorerUrl,
+} from '@components/explorer/tools'
+import { useRouteProposalQuery } from '@hooks/queries/proposal'
+import { useSelectedProposalTransactions } from '@hooks/queries/proposalTransaction'
+import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import useWalletOnePointOh from '@hooks/useWalletOnePointOh'
+import { notify } from '@utils/notifications'
+import { abbreviateAddress } from '@utils/formatting'
+import tokenPriceService from '@utils/services/tokenPrice'
+import {
+  ProposalSimulationResult,
+  SimulatedBalanceChange,
+  SimulatedInstruction,
+  SimulatedTransaction,
+  simulateProposal,
+} from 'actions/simulateProposal'
+import { getProgramName } from './programs/names'
+
+const STATUS_CLASS: Record<SimulatedInstruction['status'], string> = {
+  success: 'text-green',
+  failed: 'text-red',
+  skipped: 'text-fgd-3',
+}
+
+const fmtBalance = (amount: BigNumber) =>
+  amount.toFormat(amount.decimalPlaces() ?? 0)
+
+function BalanceChangeRow({
+  change,
+  endpoint,
+}: {
+  change: SimulatedBalanceChange
+  endpoint: string
+}) {
+  const before = new BigNumber(change.before.toString()).shiftedBy(
+    -change.decimals,
+  )
+  const after = new BigNumber(change.after.toString()).shiftedBy(
+    -change.decimals,
+  )
+  const diff = after.minus(before)
+  const symbol = change.mint
+    ? tokenPriceService.getTokenInfo(change.mint.toBase58())?.symbol ??
+      abbreviateAddress(change.mint)
+    : 'SOL'
+
+  return (
+    <tr className="border-t border-fgd-4">
+      <td className="py-2 pr-2">
+        <a
+          className="text-primary-light hover:underline"
+          href={getExplorerUrl(endpoint, change.owner)}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          {abbreviateAddress(change.owner)}
+        </a>
+      </td>
+      <td className="py-2 pr-2">{symbol}</td>
+      <td className="py-2 pr-2 text-right">{fmtBalance(before)}</td>
+      <td className="py-2 pr-2 text-right">{fmtBalance(after)}</td>
+      <td
+        className={`py-2 text-right ${
+          diff.isNegative() ? 'text-red' : 'text-green'
+        }`}
+      >
+        {diff.isPositive() ? '+' : ''}
+        {fmtBalance(diff)}
+      </td>
+    </tr>
+  )
+}
+
+export function ProposalSimulationPanel() {
+  const proposal = useRouteProposalQuery().data?.result
+  const { data: transactions } = useSelectedProposalTransactions()
+  const connection = useLegacyConnectionContext()
+  const wallet = useWalletOnePointOh()
+  const [isPending, setIsPending] = useState(false)
+  const [result, setResult] = useState<ProposalSimulationResult | null>(null)
+
+  const pendingTransactions = (transactions ?? []).filter(
+    (x) => !x.account.executedAt,
+  )
+
+  const handleSimulate = async () => {
+    if (!proposal) return
+    try {
+      setIsPending(true)
+      const simulation = await simulateProposal(
+        connection.current,
+        proposal.owner,
+        proposal.account.governance,
+        pendingTransactions,
+        wallet?.publicKey ?? undefined,
+      )
+      setResult(simulation)
+    } catch (e) {
+      notify({
+        type: 'error',
+        message: `Can't simulate proposal`,
+        description: `${e}`,
+      })
+      console.error('Simulation error', e)
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  const onInspect = async ({ transaction }: SimulatedTransaction) => {
+    const inspectUrl = await getExplorerInspectorUrl(connection, transaction)
+    window.open(inspectUrl, '_blank')
+  }
+
+  if (!proposal || pendingTransactions.length === 0) {
+    return null
+  }
+
+  return (
+    <div>
+      <Disclosure>
+        {({ open }) => (
+          <>
+            <Disclosure.Button
+              className={`border border-fgd-4 font-bold px-4 md:px-6 py-4 text-fgd-1 rounded-lg transition-all w-full hover:bg-bkg-3 focus:outline-none ${
+                open && 'rounded-b-none'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <h2 className="mb-0">Simulation</h2>
+                <ChevronDownIcon
+                  className={`h-6 text-primary-light transition-all w-6 ${
+                    open ? 'transform rotate-180' : 'transform rotate-360'
+                  }`}
+                />
+              </div>
+            </Disclosure.Button>
+            <Disclosure.Panel
+              className={`border border-fgd-4 border-t-0 p-4 md:p-6 rounded-b-md space-y-6`}
+            >
+              <div className="flex items-center justify-between">
+                <p className="mb-0 text-sm text-fgd-3">
+                  Replays the {pendingTransactions.length} pending
+                  transaction(s) one by one, in order, signed by the governance
+                  treasury. Each one runs against the current state, so
+                  transactions relying on earlier ones can fail here.
+                </p>
+                <Button small onClick={handleSimulate} disabled={isPending}>
+                  {isPending ? <Loading /> : 'Simulate entire proposal'}
+                </Button>
+              </div>
+
+              {result && (
+                <>
+                  <h3
+                    className={`mb-0 ${result.err ? 'text-red' : 'text-green'}`}
+                  >
+                    {result.err
+                      ? `Simulation failed: ${JSON.stringify(result.err)}`
+                      : 'Simulation successful'}
+                  </h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-fgd-3">
+                        <th className="pb-2">Transaction</th>
+                        <th className="pb-2">Status</th>
+                        <th className="pb-2 text-right">Compute units</th>
+                        <th className="pb-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.transactions.map((tx) => (
+                        <tr
+                          className="border-t border-fgd-4"
+                          key={tx.transactionIndex}
+                        >
+                          <td className="py-2 pr-2">
+                            Transaction {tx.transactionIndex + 1}
+                          </td>
+                          <td
+                            className={`py-2 pr-2 ${
+                              tx.err ? 'text-red' : 'text-green'
+                            }`}
+                          >
+                            {tx.err ? JSON.stringify(tx.err) : 'success'}
+                          </td>
+                          <td className="py-2 pr-2 text-right">
+                            {tx.unitsConsumed ?? '-'}
+                          </td>
+                          <td className="py-2 text-right">
+                            <SecondaryButton
+                              small
+                              onClick={() => onInspect(tx)}
+                            >
+                              Inspect
+                            </SecondaryButton>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-fgd-3">
+                        <th className="pb-2">Instruction</th>
+                        <th className="pb-2">Program</th>
+                        <th className="pb-2">Status</th>
+                        <th className="pb-2 text-right">Compute units</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.instructions.map((ix) => (
+                        <tr
+                          className="border-t border-fgd-4"
+                          key={`${ix.transactionIndex}-${ix.instructionIndex}`}
+                        >
+                          <td className="py-2 pr-2">
+                            Transaction {ix.transactionIndex + 1} #
+                            {ix.instructionIndex + 1}
+                          </td>
+                          <td className="py-2 pr-2">
+                            {getProgramName(ix.programId) ??
+                              abbreviateAddress(ix.programId)}
+                          </td>
+                          <td
+                            className={`py-2 pr-2 ${STATUS_CLASS[ix.status]}`}
+                          >
+                            {ix.status}
+                          </td>
+                          <td className="py-2 text-right">
+                            {ix.unitsConsumed ?? '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  {result.balanceChanges.length > 0 && (
+                    <div>
+                      <h3>Balance changes</h3>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-fgd-3">
+                            <th className="pb-2">Owner</th>
+                            <th className="pb-2">Token</th>
+                            <th className="pb-2 text-right">Before</th>
+                            <th className="pb-2 text-right">After</th>
+                            <th className="pb-2 text-right">Change</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {result.balanceChanges.map((change) => (
+                            <BalanceChangeRow
+                              key={`${change.address.toBase58()}-${
+                                change.mint?.toBase58() ?? 'SOL'
+                              }`}
+                              change={change}
+                              endpoint={connection.endpoint}
+                            />
+                          ))}
+                        </tbody>
+                      </table>
+                      <p className="mt-2 text-xs text-fgd-3">
+                        The SOL balance of {abbreviateAddress(result.feePayer)}{' '}
+                        includes the simulated transaction fees.
+                      </p>
+                    </div>
+                  )}
+
+                  <Disclosure>
+                    <Disclosure.Button className="text-sm text-primary-light">
+                      Show logs
+                    </Disclosure.Button>
+                    <Disclosure.Panel>
+                      <ul className="break-all instruction-log-list text-xs mt-2">
+                        {result.transactions.flatMap((tx) => [
+                          <li
+                            className="mb-1 text-fgd-3"
+                            key={tx.transactionIndex}
+                          >
+                            Transaction {tx.transactionIndex + 1}
+                          </li>,
+                          ...tx.logs.map((log, i) => (
+                            <li
+                              className="mb-1"
+                              key={`${tx.transactionIndex}-${i}`}
+                            >
+                              {log}
+                            </li>
+                          )),
+                        ])}
+                      </ul>
+                    </Disclosure.Panel>
+                  </Disclosure>
+                </>
+              )}
+            </Disclosure.Panel>
+          </>
+        )}
+      </Disclosure>
+    </div>
+  )
+}
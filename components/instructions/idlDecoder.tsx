@@ -0,0 +1,101 @@
+import { BorshInstructionCoder, Idl } from '@coral-xyz/anchor'
+import { AccountMetaData } from '@solana/spl-governance'
+import { Connection, PublicKey } from '@solana/web3.js'
+import { DEFAULT_NFT_VOTER_PLUGIN_V2 } from '@tools/constants'
+import { NFT_PLUGINS_PKS, VSR_PLUGIN_PKS } from '@constants/plugins'
+import { fetchAnchorIdl } from '@hooks/queries/anchorIdl'
+import { IDL as VSR_IDL } from 'VoteStakeRegistry/sdk/voter_stake_registry'
+import { IDL as NFT_VOTER_IDL } from '../../idls/nft_voter'
+import { IDLV2 as NFT_VOTER_V2_IDL } from '../../idls/nft_voter_v2'
+import { InstructionDescriptor } from './tools'
+
+const ANCHOR_DISCRIMINATOR_LENGTH = 8
+
+// IDLs shipped with the app, used before falling back to the program's on-chain IDL account
+export const BUNDLED_IDLS: Record<string, Idl> = {
+  ...Object.fromEntries(VSR_PLUGIN_PKS.map((pk) => [pk, VSR_IDL as Idl])),
+  ...Object.fromEntries(
+    NFT_PLUGINS_PKS.map((pk) => [pk, NFT_VOTER_IDL as Idl]),
+  ),
+  [DEFAULT_NFT_VOTER_PLUGIN_V2]: NFT_VOTER_V2_IDL as Idl,
+}
+
+const coders = new Map<Idl, BorshInstructionCoder | null>()
+
+const getCoder = (idl: Idl) => {
+  if (!coders.has(idl)) {
+    try {
+      coders.set(idl, new BorshInstructionCoder(idl))
+    } catch {
+      // idls using types the coder doesn't understand, e.g. the 0.30 spec format
+      coders.set(idl, null)
+    }
+  }
+  return coders.get(idl)!
+}
+
+export const getProgramIdl = async (
+  connection: Connection,
+  programId: PublicKey,
+) =>
+  BUNDLED_IDLS[programId.toBase58()] ??
+  (await fetchAnchorIdl(connection, programId))
+
+const titleCase = (name: string) =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/^./, (c) => c.toUpperCase())
+
+/**
+ * Decodes an instruction of any anchor program with a known IDL, matching the 8 byte discriminator
+ * and labeling args and accounts by their IDL names. Returns undefined when the program has no IDL
+ * or the data doesn't match any of its instructions
+ */
+export async function getIdlInstructionDescriptor(
+  connection: Connection,
+  programId: PublicKey,
+  data: Uint8Array,
+  accounts: AccountMetaData[],
+): Promise<InstructionDescriptor | undefined> {
+  if (data.length < ANCHOR_DISCRIMINATOR_LENGTH) {
+    return undefined
+  }
+  // failed fetches aren't cached, the idl is fetched again the next time
+  const idl = await getProgramIdl(connection, programId).catch(() => null)
+  const coder = idl && getCoder(idl)
+  if (!coder) {
+    return undefined
+  }
+
+  try {
+    const decoded = coder.decode(Buffer.from(data))
+    if (!decoded) {
+      return undefined
+    }
+    const formatted = coder.format(decoded, accounts)
+
+    return {
+      name: `${idl.name}: ${titleCase(decoded.name)}`,
+      accounts:
+        formatted?.accounts.map((account) => ({
+          name: account.name ?? 'Remaining account',
+        })) ?? [],
+      dataUI: (
+        <div className="space-y-3">
+          {formatted?.args.map((arg) => (
+            <div key={arg.name}>
+              <span className="text-fgd-3">
+                {titleCase(arg.name)} ({arg.type}):
+              </span>{' '}
+              <span className="break-all">{arg.data}</span>
+            </div>
+          ))}
+          {!formatted && <div>{JSON.stringify(decoded.data)}</div>}
+        </div>
+      ),
+    }
+  } catch {
+    // the data doesn't match the layout the idl describes
+    return undefined
+  }
+}
@@ -1,4 +1,3 @@
-import Loading from '@components/Loading'
 import { fetchMintInfoByPubkey } from '@hooks/queries/mintInfo'
 import {
   AccountMetaData,
@@ -8,22 +7,27 @@ import {
   getGovernance,
   getGovernanceInstructionSchema,
   getRealm,
-  GovernanceAccountParser,
-  InstructionData,
-  ProgramAccount,
-  RealmConfigAccount,
+  GovernanceConfig,
+  GoverningTokenType,
+  MintMaxVoteWeightSource,
+  PROGRAM_VERSION_V3,
+  RealmConfigArgs,
   RevokeGoverningTokensArgs,
   SetRealmAuthorityAction,
   SetRealmAuthorityArgs,
   tryGetRealmConfig,
+  VoteThreshold,
   VoteTipping,
 } from '@solana/spl-governance'
 import {
   SetGovernanceConfigArgs,
   SetRealmConfigArgs,
 } from '@solana/spl-governance'
+import { MintInfo } from '@solana/spl-token'
 import { Connection, PublicKey } from '@solana/web3.js'
-import { DISABLED_VOTER_WEIGHT, SIMULATION_WALLET } from '@tools/constants'
+import BN from 'bn.js'
+import ConfigDiff from '@components/instructions/ConfigDiff'
+import { DISABLED_VOTER_WEIGHT } from '@tools/constants'
 import { fmtVoterWeightThresholdMintAmount } from '@tools/governance/units'
 import {
   fmtBNAmount,
@@ -32,7 +36,6 @@ import {
   getDaysFromTimestamp,
   getHoursFromTimestamp,
 } from '@tools/sdk/units'
-import { dryRunInstruction } from 'actions/dryRunInstruction'
 import { tryGetMint } from '../../../utils/tokens'
 import { fetchProgramVersion } from '@hooks/queries/useProgramVersionQuery'
 import { fetchTokenAccountByPubkey } from '@hooks/queries/tokenAccount'
@@ -40,6 +43,160 @@ import { fetchTokenAccountByPubkey } from '@hooks/queries/tokenAccount'
 const TOKEN_TYPES = { 0: 'Liquid', 1: 'Membership', 2: 'Disabled' }
 const governanceProgramId = 'GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw'
 
+const fmtThreshold = (threshold: VoteThreshold) =>
+  threshold.value ? `${threshold.value.toLocaleString()}%` : 'Disabled'
+
+const fmtMinTokens = (mint: MintInfo | undefined, amount: BN) =>
+  amount.toString() === DISABLED_VOTER_WEIGHT.toString()
+    ? 'Disabled'
+    : `${fmtMintAmount(mint, amount)} (${amount.toString()})`
+
+const fmtAddin = (addin: PublicKey | undefined) => addin?.toBase58() ?? 'None'
+
+/** Formatted governance config keyed by field, programs before v3 only have the first fields */
+const getGovernanceConfigFields = (
+  config: GovernanceConfig,
+  programVersion: number,
+  communityMint: MintInfo | undefined,
+  councilMint: MintInfo | undefined,
+): Record<string, string> => {
+  const fields = {
+    communityVoteThreshold: fmtThreshold(config.communityVoteThreshold),
+    minCommunityTokensToCreateProposal: fmtMinTokens(
+      communityMint,
+      config.minCommunityTokensToCreateProposal,
+    ),
+    minCouncilTokensToCreateProposal: fmtMinTokens(
+      councilMint,
+      config.minCouncilTokensToCreateProposal,
+    ),
+    minInstructionHoldUpTime: `${getDaysFromTimestamp(
+      config.minInstructionHoldUpTime,
+    )} day(s) (${config.minInstructionHoldUpTime} secs)`,
+    baseVotingTime: `${getDaysFromTimestamp(config.baseVotingTime)} day(s) (${
+      config.baseVotingTime
+    } secs)`,
+    communityVoteTipping: VoteTipping[config.communityVoteTipping],
+  }
+  if (programVersion < PROGRAM_VERSION_V3) {
+    return fields
+  }
+  return {
+    ...fields,
+    councilVoteThreshold: fmtThreshold(config.councilVoteThreshold),
+    communityVetoVoteThreshold: fmtThreshold(config.communityVetoVoteThreshold),
+    councilVetoVoteThreshold: fmtThreshold(config.councilVetoVoteThreshold),
+    votingCoolOffTime: `${getHoursFromTimestamp(
+      config.votingCoolOffTime,
+    )} hour(s) (${config.votingCoolOffTime} secs)`,
+    depositExemptProposalCount: `${config.depositExemptProposalCount}`,
+    councilVoteTipping: VoteTipping[config.councilVoteTipping],
+  }
+}
+
+interface TokenConfigFields {
+  voterWeightAddin: PublicKey | undefined
+  maxVoterWeightAddin: PublicKey | undefined
+  tokenType: GoverningTokenType
+}
+
+export interface RealmConfigFields {
+  minCommunityTokensToCreateGovernance: BN
+  communityMintMaxVoteWeightSource: MintMaxVoteWeightSource
+  councilMint: PublicKey | undefined
+  // undefined for realms without a RealmConfig account
+  communityTokenConfig: TokenConfigFields | undefined
+  councilTokenConfig: TokenConfigFields | undefined
+}
+
+/** Formatted realm config keyed by field, token types and council plugins are only set from v3 */
+export const getRealmConfigFields = (
+  config: RealmConfigFields,
+  programVersion: number,
+  communityMint: MintInfo | undefined,
+): Record<string, string> => {
+  const fields = {
+    minCommunityTokensToCreateGovernance: `${fmtVoterWeightThresholdMintAmount(
+      communityMint,
+      config.minCommunityTokensToCreateGovernance,
+    )} (${fmtBNAmount(config.minCommunityTokensToCreateGovernance)})`,
+    communityMintMaxVoteWeightSource: `${config.communityMintMaxVoteWeightSource.fmtSupplyFractionPercentage()}% supply (${fmtBNAmount(
+      config.communityMintMaxVoteWeightSource.value,
+    )})`,
+    councilMint: fmtAddin(config.councilMint),
+    communityVoterWeightAddin: fmtAddin(
+      config.communityTokenConfig?.voterWeightAddin,
+    ),
+    communityMaxVoterWeightAddin: fmtAddin(
+      config.communityTokenConfig?.maxVoterWeightAddin,
+    ),
+  }
+  if (programVersion < PROGRAM_VERSION_V3) {
+    return fields
+  }
+  return {
+    ...fields,
+    communityTokenType:
+      TOKEN_TYPES[config.communityTokenConfig?.tokenType ?? 0],
+    councilTokenType: TOKEN_TYPES[config.councilTokenConfig?.tokenType ?? 0],
+    councilVoterWeightAddin: fmtAddin(
+      config.councilTokenConfig?.voterWeightAddin,
+    ),
+    councilMaxVoterWeightAddin: fmtAddin(
+      config.councilTokenConfig?.maxVoterWeightAddin,
+    ),
+  }
+}
+
+/**
+ * Realm config set by a SetRealmConfig instruction. The plugin addresses follow the realm config
+ * account in the instruction accounts, in the order of the use* flags
+ */
+export const getProposedRealmConfig = (
+  configArgs: RealmConfigArgs,
+  accounts: AccountMetaData[],
+): RealmConfigFields => {
+  const councilMint = configArgs.useCouncilMint ? accounts[2].pubkey : undefined
+  // realm, realm authority, council mint and holding, system program and realm config
+  let addinIndex = (configArgs.useCouncilMint ? 4 : 2) + 2
+  const nextAddin = (isUsed: boolean) =>
+    isUsed ? accounts[addinIndex++]?.pubkey : undefined
+
+  // the v2 instruction only has the community flags
+  const communityTokenConfig = {
+    voterWeightAddin: nextAddin(
+      !!configArgs.communityTokenConfigArgs?.useVoterWeightAddin ||
+        !!configArgs.useCommunityVoterWeightAddin,
+    ),
+    maxVoterWeightAddin: nextAddin(
+      !!configArgs.communityTokenConfigArgs?.useMaxVoterWeightAddin ||
+        !!configArgs.useMaxCommunityVoterWeightAddin,
+    ),
+    tokenType:
+      configArgs.communityTokenConfigArgs?.tokenType ??
+      GoverningTokenType.Liquid,
+  }
+  const councilTokenConfig = configArgs.councilTokenConfigArgs && {
+    voterWeightAddin: nextAddin(
+      !!configArgs.councilTokenConfigArgs.useVoterWeightAddin,
+    ),
+    maxVoterWeightAddin: nextAddin(
+      !!configArgs.councilTokenConfigArgs.useMaxVoterWeightAddin,
+    ),
+    tokenType: configArgs.councilTokenConfigArgs.tokenType,
+  }
+
+  return {
+    minCommunityTokensToCreateGovernance:
+      configArgs.minCommunityTokensToCreateGovernance,
+    communityMintMaxVoteWeightSource:
+      configArgs.communityMintMaxVoteWeightSource,
+    councilMint,
+    communityTokenConfig,
+    councilTokenConfig,
+  }
+}
+
 export const GOVERNANCE_INSTRUCTIONS = {
   [governanceProgramId]: {
     1: {
@@ -143,7 +300,7 @@ export const GOVERNANCE_INSTRUCTIONS = {
         ) {
           try {
             args = deserializeBorsh(
-              getGovernanceInstructionSchema(programVersion),
+              getGovernanceInstructionSchema(propProgVersion),
               SetGovernanceConfigArgs,
               Buffer.from(data),
             ) as SetGovernanceConfigArgs
@@ -161,292 +318,20 @@ export const GOVERNANCE_INSTRUCTIONS = {
         const councilMint = realm.account.config.councilMint
           ? await tryGetMint(connection, realm.account.config.councilMint)
           : undefined
-        const isMaxNumber =
-          args.config.minCommunityTokensToCreateProposal.toString() ===
-          DISABLED_VOTER_WEIGHT.toString()
-        const isCurrentGovernanceMinCommMax =
-          governance.account.config.minCommunityTokensToCreateProposal.toString() ===
-          DISABLED_VOTER_WEIGHT.toString()
-
-        return proposalProgramVersion >= 3 ? (
-          <>
-            <h1>Current config</h1>
-            <div className="space-y-3">
-              <p>
-                communityVoteThreshold:{' '}
-                {governance.account.config.communityVoteThreshold.value
-                  ? governance.account.config.communityVoteThreshold.value?.toLocaleString() +
-                    '%'
-                  : 'Disabled'}
-              </p>
-              <p>
-                councilVoteThreshold:{' '}
-                {governance.account.config.councilVoteThreshold.value
-                  ? governance.account.config.councilVoteThreshold.value?.toLocaleString() +
-                    '%'
-                  : 'Disabled'}
-              </p>
-              <p>
-                communityVetoVoteThreshold:{' '}
-                {governance.account.config.communityVetoVoteThreshold.value
-                  ? governance.account.config.communityVetoVoteThreshold.value?.toLocaleString() +
-                    '%'
-                  : 'Disabled'}
-              </p>
-              <p>
-                councilVetoVoteThreshold:{' '}
-                {governance.account.config.councilVetoVoteThreshold.value
-                  ? governance.account.config.councilVetoVoteThreshold.value?.toLocaleString() +
-                    '%'
-                  : 'Disabled'}
-              </p>
-              {governance.account.config.minCommunityTokensToCreateProposal.toString() ===
-              DISABLED_VOTER_WEIGHT.toString() ? (
-                <p>minCommunityTokensToCreateProposal: Disabled</p>
-              ) : (
-                <p>
-                  minCommunityTokensToCreateProposal:{' '}
-                  {fmtMintAmount(
-                    communityMint?.account,
-                    governance.account.config
-                      .minCommunityTokensToCreateProposal,
-                  )}{' '}
-                  (
-                  {governance.account.config.minCommunityTokensToCreateProposal.toString()}
-                  )
-                </p>
-              )}
-              {governance.account.config.minCouncilTokensToCreateProposal.toString() ===
-              DISABLED_VOTER_WEIGHT.toString() ? (
-                <p>minCouncilTokensToCreateProposal: Disabled</p>
-              ) : (
-                <p>
-                  minCouncilTokensToCreateProposal:{' '}
-                  {fmtMintAmount(
-                    councilMint?.account,
-                    governance.account.config.minCouncilTokensToCreateProposal,
-                  )}{' '}
-                  (
-                  {governance.account.config.minCouncilTokensToCreateProposal.toString()}
-                  )
-                </p>
-              )}
-              <p>
-                {`minInstructionHoldUpTime:
-          ${getDaysFromTimestamp(
-            governance.account.config.minInstructionHoldUpTime,
-          )} day(s) | raw arg: ${
-            governance.account.config.minInstructionHoldUpTime
-          } secs`}
-              </p>
-              <p>
-                {`baseVotingTime:
-          ${getDaysFromTimestamp(
-            governance.account.config.baseVotingTime,
-          )} days(s) | raw arg: ${
-            governance.account.config.baseVotingTime
-          } secs`}
-              </p>
-              <p>
-                {`votingCoolOffTime:
-          ${getHoursFromTimestamp(
-            governance.account.config.votingCoolOffTime,
-          )} hour(s) | raw arg: ${
-            governance.account.config.votingCoolOffTime
-          } secs`}
-              </p>
-              <p>
-                {`depositExemptProposalCount:
-          ${governance.account.config.depositExemptProposalCount}`}
-              </p>
-              <p>
-                {`communityVoteTipping:
-          ${VoteTipping[governance.account.config.communityVoteTipping]}`}
-              </p>
-              <p>
-                {`councilVoteTipping:
-          ${VoteTipping[governance.account.config.councilVoteTipping]}`}
-              </p>
-            </div>
-
-            {/* --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- --- */}
-
-            <h1 className="mt-10">Proposed config</h1>
-            <div className="space-y-3">
-              <p>
-                communityVoteThreshold:
-                {args.config.communityVoteThreshold.value
-                  ? args.config.communityVoteThreshold.value?.toLocaleString() +
-                    '%'
-                  : 'Disabled'}
-              </p>
-              <p>
-                councilVoteThreshold:{' '}
-                {args.config.councilVoteThreshold.value
-                  ? args.config.councilVoteThreshold.value?.toLocaleString() +
-                    '%'
-                  : 'Disabled'}
-              </p>
-              <p>
-                communityVetoVoteThreshold:{' '}
-                {args.config.communityVetoVoteThreshold.value
-                  ? args.config.communityVetoVoteThreshold.value?.toLocaleString() +
-                    '%'
-                  : 'Disabled'}
-              </p>
-              <p>
-                councilVetoVoteThreshold:{' '}
-                {args.config.councilVetoVoteThreshold.value
-                  ? args.config.councilVetoVoteThreshold.value?.toLocaleString() +
-                    '%'
-                  : 'Disabled'}
-              </p>
-              {args.config.minCommunityTokensToCreateProposal.toString() ===
-              DISABLED_VOTER_WEIGHT.toString() ? (
-                <p>minCommunityTokensToCreateProposal: Disabled</p>
-              ) : (
-                <p>
-                  minCommunityTokensToCreateProposal:{' '}
-                  {fmtMintAmount(
-                    communityMint?.account,
-                    args.config.minCommunityTokensToCreateProposal,
-                  )}{' '}
-                  ({args.config.minCommunityTokensToCreateProposal.toString()})
-                </p>
-              )}
-              {args.config.minCouncilTokensToCreateProposal.toString() ===
-              DISABLED_VOTER_WEIGHT.toString() ? (
-                <p>minCouncilTokensToCreateProposal: Disabled</p>
-              ) : (
-                <p>
-                  minCouncilTokensToCreateProposal:{' '}
-                  {fmtMintAmount(
-                    councilMint?.account,
-                    args.config.minCouncilTokensToCreateProposal,
-                  )}{' '}
-                  ({args.config.minCouncilTokensToCreateProposal.toString()})
-                </p>
-              )}
-              <p>
-                {`minInstructionHoldUpTime:
-          ${getDaysFromTimestamp(
-            args.config.minInstructionHoldUpTime,
-          )} day(s) | raw arg: ${args.config.minInstructionHoldUpTime} secs`}
-              </p>
-              <p>
-                {`baseVotingTime:
-          ${getDaysFromTimestamp(
-            args.config.baseVotingTime,
-          )} days(s) | raw arg: ${args.config.baseVotingTime} secs`}
-              </p>
-              <p>
-                {`votingCoolOffTime:
-          ${getHoursFromTimestamp(
-            args.config.votingCoolOffTime,
-          )} hour(s) | raw arg: ${args.config.votingCoolOffTime} secs`}
-              </p>
-              <p>
-                {`depositExemptProposalCount:
-          ${args.config.depositExemptProposalCount}`}
-              </p>
-              <p>
-                {`communityVoteTipping:
-          ${VoteTipping[args.config.communityVoteTipping]}`}
-              </p>
-              <p>
-                {`councilVoteTipping:
-          ${VoteTipping[args.config.councilVoteTipping]}`}
-              </p>
-            </div>
-          </>
-        ) : (
-          <>
-            <h1>Current config</h1>
-            <div className="space-y-3">
-              <p>
-                {`voteThresholdPercentage:
-              ${governance.account.config.communityVoteThreshold.value?.toLocaleString()}%`}
-              </p>
-              {isCurrentGovernanceMinCommMax ? (
-                <div>minCommunityTokensToCreateProposal: Disabled</div>
-              ) : (
-                <div>
-                  {`minCommunityTokensToCreateProposal:
-              ${fmtMintAmount(
-                communityMint?.account,
-                governance.account.config.minCommunityTokensToCreateProposal,
-              )}`}{' '}
-                  (
-                  {governance.account.config.minCommunityTokensToCreateProposal.toNumber()}
-                  )
-                </div>
-              )}
-              <p>
-                {`minCouncilTokensToCreateProposal:
-              ${fmtMintAmount(
-                councilMint?.account,
-                governance.account.config.minCouncilTokensToCreateProposal,
-              )}`}
-              </p>
-              <p>
-                {`minInstructionHoldUpTime:
-              ${getDaysFromTimestamp(
-                governance.account.config.minInstructionHoldUpTime,
-              )} day(s)`}
-              </p>
-              <p>
-                {`baseVotingTime:
-              ${getDaysFromTimestamp(
-                governance.account.config.baseVotingTime,
-              )} days(s)`}
-              </p>
-              <p>
-                {`voteTipping:
-              ${VoteTipping[governance.account.config.communityVoteTipping]}`}
-              </p>
-            </div>
-            <h1 className="mt-10">Proposed config</h1>
-            <div className="space-y-3">
-              <p>
-                {`voteThresholdPercentage:
-              ${args.config.communityVoteThreshold.value?.toLocaleString()}%`}
-              </p>
-              {isMaxNumber ? (
-                <div>minCommunityTokensToCreateProposal: Disabled</div>
-              ) : (
-                <div>
-                  {`minCommunityTokensToCreateProposal:
-              ${fmtMintAmount(
-                communityMint?.account,
-                args.config.minCommunityTokensToCreateProposal,
-              )}`}{' '}
-                  ({args.config.minCommunityTokensToCreateProposal.toNumber()})
-                </div>
-              )}
-              <p>
-                {`minCouncilTokensToCreateProposal:
-              ${fmtMintAmount(
-                councilMint?.account,
-                args.config.minCouncilTokensToCreateProposal,
-              )}`}
-              </p>
-              <p>
-                {`minInstructionHoldUpTime:
-              ${getDaysFromTimestamp(
-                args.config.minInstructionHoldUpTime,
-              )} day(s)`}
-              </p>
-              <p>
-                {`baseVotingTime:
-              ${getDaysFromTimestamp(args.config.baseVotingTime)} days(s)`}
-              </p>
-              <p>
-                {`voteTipping:
-              ${VoteTipping[args.config.communityVoteTipping]}`}
-              </p>
-            </div>
-          </>
+        const currentFields = getGovernanceConfigFields(
+          governance.account.config,
+          proposalProgramVersion,
+          communityMint?.account,
+          councilMint?.account,
+        )
+        const proposedFields = getGovernanceConfigFields(
+          args.config,
+          proposalProgramVersion,
+          communityMint?.account,
+          councilMint?.account,
         )
+
+        return <ConfigDiff current={currentFields} proposed={proposedFields} />
       },
     },
     21: {
@@ -527,30 +412,13 @@ export const GOVERNANCE_INSTRUCTIONS = {
         data: Uint8Array,
         accounts: AccountMetaData[],
       ) => {
-        let isLoading = true
         const realm = await getRealm(connection, accounts[0].pubkey)
-        // The wallet can be any existing account for the simulation
-        // Note: when running a local validator ensure the account is copied from devnet: --clone ENmcpFCpxN1CqyUjuog9yyUVfdXBKF3LVCwLr7grJZpk -ud
-        const walletPk = new PublicKey(SIMULATION_WALLET)
-        const walletMoq: any = {
-          publicKey: walletPk,
-        }
-        const instructionMoq = new InstructionData({
-          programId: realm.owner,
-          accounts: accounts,
-          data: data,
-        })
-        const [
-          programVersion,
-          communityMint,
-          currentRealmConfig,
-          simulationResults,
-        ] = await Promise.all([
-          fetchProgramVersion(connection, realm.owner),
-          tryGetMint(connection, realm.account.communityMint),
-          tryGetRealmConfig(connection, realm.owner, realm.pubkey),
-          dryRunInstruction(connection, walletMoq, instructionMoq),
-        ])
+        const [programVersion, communityMint, currentRealmConfig] =
+          await Promise.all([
+            fetchProgramVersion(connection, realm.owner),
+            tryGetMint(connection, realm.account.communityMint),
+            tryGetRealmConfig(connection, realm.owner, realm.pubkey),
+          ])
         let args: SetRealmConfigArgs = {} as SetRealmConfigArgs
         let proposalProgramVersion = programVersion
         for (
@@ -571,219 +439,27 @@ export const GOVERNANCE_INSTRUCTIONS = {
           }
         }
 
-        const possibleRealmConfigsAccounts =
-          simulationResults.response.accounts?.filter(
-            (x) => x?.owner === realm.owner.toBase58(),
-          )
-        let parsedRealmConfig: null | ProgramAccount<RealmConfigAccount> = null
-        if (possibleRealmConfigsAccounts) {
-          for (const acc of possibleRealmConfigsAccounts) {
-            try {
-              const account = GovernanceAccountParser(RealmConfigAccount)(
-                PublicKey.default,
-                //moq for accountInfo
-                {
-                  data: Buffer.from(acc!.data[0], 'base64'),
-                  owner: realm.owner,
-                } as any,
-              )
-              parsedRealmConfig = account as ProgramAccount<RealmConfigAccount>
-              // eslint-disable-next-line no-empty
-            } catch {}
-          }
-        }
-        const proposedPluginPk =
-          parsedRealmConfig?.account?.communityTokenConfig?.voterWeightAddin?.toBase58()
-        const proposedMaxVoterWeightPk =
-          parsedRealmConfig?.account?.communityTokenConfig?.maxVoterWeightAddin?.toBase58()
-        isLoading = false
-
-        return isLoading ? (
-          <Loading></Loading>
-        ) : proposalProgramVersion >= 3 ? (
-          <>
-            <p>
-              {`minCommunityTokensToCreateGovernance:
-              ${fmtVoterWeightThresholdMintAmount(
-                communityMint?.account,
-                args.configArgs.minCommunityTokensToCreateGovernance,
-              )}`}{' '}
-              (
-              {fmtBNAmount(
-                args.configArgs.minCommunityTokensToCreateGovernance,
-              )}
-              )
-            </p>
-            <p>
-              {`useCouncilMint:
-               ${args.configArgs.useCouncilMint}`}
-            </p>
-            <p>
-              {`communityMintMaxVoteWeightSource:
-               ${args.configArgs.communityMintMaxVoteWeightSource.fmtSupplyFractionPercentage()}% supply`}{' '}
-              (
-              {fmtBNAmount(
-                args.configArgs.communityMintMaxVoteWeightSource.value,
-              )}
-              )
-            </p>
-            <p>
-              {`communityTokenConfigArgs.tokenType:
-               ${
-                 TOKEN_TYPES[args.configArgs.communityTokenConfigArgs.tokenType]
-               }`}{' '}
-              ({args.configArgs.communityTokenConfigArgs.tokenType})
-            </p>
-            <p>
-              {`communityTokenConfigArgs.useVoterWeightAddin:
-               ${
-                 // note that the !! should do nothing, but the typing is inaccurate and the value is actually 0 or 1
-                 !!args.configArgs.communityTokenConfigArgs.useVoterWeightAddin
-               }`}
-            </p>
-            <p>
-              {`communityTokenConfigArgs.useMaxVoterWeightAddin:
-               ${
-                 // note that the !! should do nothing, but the typing is inaccurate and the value is actually 0 or 1
-                 !!args.configArgs.communityTokenConfigArgs
-                   .useMaxVoterWeightAddin
-               }`}
-            </p>
-            <p>
-              {`councilTokenConfigArgs.tokenType:
-               ${
-                 TOKEN_TYPES[args.configArgs.councilTokenConfigArgs.tokenType]
-               }`}{' '}
-              ({args.configArgs.councilTokenConfigArgs.tokenType})
-            </p>
-            <p>
-              {`councilTokenConfigArgs.useVoterWeightAddin:
-               ${
-                 // note that the !! should do nothing, but the typing is inaccurate and the value is actually 0 or 1
-                 !!args.configArgs.councilTokenConfigArgs.useVoterWeightAddin
-               }`}
-            </p>
-            <p>
-              {`councilTokenConfigArgs.useMaxVoterWeightAddin:
-               ${
-                 // note that the !! should do nothing, but the typing is inaccurate and the value is actually 0 or 1
-                 !!args.configArgs.councilTokenConfigArgs.useMaxVoterWeightAddin
-               }`}
-            </p>
-          </>
-        ) : (
-          <>
-            <h1>Current config</h1>
-            <div className="space-y-3">
-              <p>
-                {`minCommunityTokensToCreateGovernance:
-              ${fmtVoterWeightThresholdMintAmount(
-                communityMint?.account,
-                realm.account.config.minCommunityTokensToCreateGovernance,
-              )}`}{' '}
-                (
-                {fmtBNAmount(
-                  realm.account.config.minCommunityTokensToCreateGovernance,
-                )}
-                )
-              </p>
-              <p>
-                {`communityMintMaxVoteWeightSource:
-               ${realm.account.config.communityMintMaxVoteWeightSource.fmtSupplyFractionPercentage()}% supply`}{' '}
-                (
-                {fmtBNAmount(
-                  realm.account.config.communityMintMaxVoteWeightSource.value,
-                )}
-                )
-              </p>
-              <p>
-                {`useCouncilMint:
-               ${!!realm.account.config.councilMint}`}
-              </p>
-              <p>
-                {`useCommunityVoterWeightAddin:
-               ${!!realm.account.config.useCommunityVoterWeightAddin}`}
-              </p>
-              <p>
-                {`useMaxCommunityVoterWeightAddin:
-               ${!!realm.account.config.useMaxCommunityVoterWeightAddin}`}
-              </p>
-              <p>
-                {currentRealmConfig?.account.communityTokenConfig
-                  .voterWeightAddin && (
-                  <div>
-                    {`communityVoterWeightAddin :
-               ${currentRealmConfig?.account.communityTokenConfig.voterWeightAddin?.toBase58()}`}
-                  </div>
-                )}
-                {currentRealmConfig?.account.communityTokenConfig
-                  .maxVoterWeightAddin && (
-                  <div>
-                    {`maxCommunityVoterWeightAddin:
-               ${currentRealmConfig?.account.communityTokenConfig.maxVoterWeightAddin?.toBase58()}`}
-                  </div>
-                )}
-              </p>
-            </div>
-            <h1 className="mt-10">Proposed config</h1>
-            <div className="space-y-3">
-              <p>
-                {`minCommunityTokensToCreateGovernance:
-              ${fmtVoterWeightThresholdMintAmount(
-                communityMint?.account,
-                args.configArgs.minCommunityTokensToCreateGovernance,
-              )}`}{' '}
-                (
-                {fmtBNAmount(
-                  args.configArgs.minCommunityTokensToCreateGovernance,
-                )}
-                )
-              </p>
-              <p>
-                {`communityMintMaxVoteWeightSource:
-               ${args.configArgs.communityMintMaxVoteWeightSource.fmtSupplyFractionPercentage()}% supply`}{' '}
-                (
-                {fmtBNAmount(
-                  args.configArgs.communityMintMaxVoteWeightSource.value,
-                )}
-                )
-              </p>
-              <p>
-                {`useCouncilMint:
-               ${args.configArgs.useCouncilMint}`}
-              </p>
-              <p>
-                {`useCommunityVoterWeightAddin:
-               ${
-                 !!args.configArgs.useCommunityVoterWeightAddin ||
-                 !!args.configArgs.communityTokenConfigArgs?.useVoterWeightAddin
-               }`}
-              </p>
-              <p>
-                {`useMaxCommunityVoterWeightAddin:
-               ${
-                 !!args.configArgs.useMaxCommunityVoterWeightAddin ||
-                 !!args.configArgs.communityTokenConfigArgs
-                   ?.useMaxVoterWeightAddin
-               }`}
-              </p>
-              <p>
-                {proposedPluginPk && (
-                  <div>
-                    {`communityVoterWeightAddin :
-               ${proposedPluginPk}`}
-                  </div>
-                )}
-                {proposedMaxVoterWeightPk && (
-                  <div>
-                    {`maxCommunityVoterWeightAddin:
-               ${proposedMaxVoterWeightPk}`}
-                  </div>
-                )}
-              </p>
-            </div>
-          </>
+        const currentFields = getRealmConfigFields(
+          {
+            minCommunityTokensToCreateGovernance:
+              realm.account.config.minCommunityTokensToCreateGovernance,
+            communityMintMaxVoteWeightSource:
+              realm.account.config.communityMintMaxVoteWeightSource,
+            councilMint: realm.account.config.councilMint,
+            communityTokenConfig:
+              currentRealmConfig?.account.communityTokenConfig,
+            councilTokenConfig: currentRealmConfig?.account.councilTokenConfig,
+          },
+          proposalProgramVersion,
+          communityMint?.account,
+        )
+        const proposedFields = getRealmConfigFields(
+          getProposedRealmConfig(args.configArgs, accounts),
+          proposalProgramVersion,
+          communityMint?.account,
         )
+
+        return <ConfigDiff current={currentFields} proposed={proposedFields} />
       },
     },
     26: {
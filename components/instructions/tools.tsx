@@ -39,6 +39,8 @@ import { STAKE_SANCTUM_INSTRUCTIONS } from './programs/stakeSanctum'
 import { SYMMETRY_V2_INSTRUCTIONS } from './programs/symmetryV2'
 import { TOKEN_2022_INST } from './programs/token2022'
 import { MANIFEST_INSTRUCTIONS } from './programs/manifest'
+import { getIdlInstructionDescriptor } from './idlDecoder'
+import { MANGO_INSTRUCTION_FORWARDER } from '@tools/constants'
 
 /**
  * Default governance program id instance
@@ -48,8 +50,7 @@ export const DEFAULT_GOVERNANCE_PROGRAM_ID =
 export const DEFAULT_GOVERNANCE_PROGRAM_VERSION = 3
 
 export const MANGO_DAO_TREASURY = '9RGoboEjmaAjSCXsKi6p6zJucnwF3Eg5NUN9jPS6ziL3'
-export const MANGO_INSTRUCTION_FORWARDER =
-  'ixFPGCPYEp5GzhoahhHFVL8VVzkq1kc2eeFZh3qpYca'
+export { MANGO_INSTRUCTION_FORWARDER }
 
 // Well known account names displayed on the instruction card
 export const ACCOUNT_NAMES = {
@@ -611,6 +612,16 @@ export async function getInstructionDescriptor(
       ]
     : descriptors
 
+  // No hand written decoder, try the program's anchor idl before showing raw bytes
+  const idlDescriptor = !descriptor?.getDataUI
+    ? await getIdlInstructionDescriptor(
+        connection.current,
+        instructionToDecode.programId,
+        instructionToDecode.data,
+        instructionToDecode.accounts,
+      )
+    : undefined
+
   const dataUI = (descriptor?.getDataUI &&
     (await descriptor?.getDataUI(
       connection.current,
@@ -618,7 +629,8 @@ export async function getInstructionDescriptor(
       instructionToDecode.accounts,
       instructionToDecode.programId,
       connection.cluster,
-    ))) ?? <>{JSON.stringify(instructionToDecode.data)}</>
+    ))) ??
+    idlDescriptor?.dataUI ?? <>{JSON.stringify(instructionToDecode.data)}</>
 
   const dataUiWithAdditionalInfo = (
     <>
@@ -631,8 +643,8 @@ export async function getInstructionDescriptor(
     </>
   )
   return {
-    name: descriptor?.name,
-    accounts: descriptor?.accounts,
+    name: descriptor?.name ?? idlDescriptor?.name,
+    accounts: descriptor?.accounts ?? idlDescriptor?.accounts,
     dataUI: dataUiWithAdditionalInfo,
   }
 }
@@ -0,0 +1,157 @@
+import React, { useState } from 'react'
+import cx from 'classnames'
+import type { BigNumber } from 'bignumber.js'
+import { TrashIcon } from '@heroicons/react/outline'
+
+import { SecondaryButton } from '@components/Button'
+import Input from '@components/inputs/Input'
+import Select from '@components/inputs/Select'
+import { WSOL_MINT } from '@components/instructions/tools'
+import { useRealmQuery } from '@hooks/queries/realm'
+import useTreasuryBudgets from '@hooks/useTreasuryBudgets'
+import { AssetType } from '@models/treasury/Asset'
+import { BudgetStatus } from '@models/treasury/Budget'
+import { Wallet } from '@models/treasury/Wallet'
+import { abbreviateAddress } from '@utils/formatting'
+import { formatNumber } from '@utils/formatNumber'
+import useTreasuryBudgetsStore from 'stores/useTreasuryBudgetsStore'
+
+interface Props {
+  className?: string
+  wallet: Wallet
+}
+
+const fmtRunway = (status: Pick<BudgetStatus, 'runwayMonths'>) =>
+  status.runwayMonths === undefined
+    ? 'No burn'
+    : `${formatNumber(status.runwayMonths, undefined, {
+        maximumFractionDigits: 1,
+      })} months`
+
+export default function Budget(props: Props) {
+  const realm = useRealmQuery().data?.result
+  const { setBudget, removeBudget } = useTreasuryBudgetsStore()
+  const { statuses, isLoading } = useTreasuryBudgets(
+    props.wallet.governanceAddress,
+    props.wallet,
+  )
+  const [mint, setMint] = useState<string>()
+  const [allowance, setAllowance] = useState('')
+
+  const symbols = props.wallet.assets.reduce(
+    (acc, asset) =>
+      asset.type === AssetType.Sol
+        ? { ...acc, [WSOL_MINT]: 'SOL' }
+        : asset.type === AssetType.Token && asset.mintAddress
+        ? { ...acc, [asset.mintAddress]: asset.symbol }
+        : acc,
+    {} as Record<string, string>,
+  )
+  const getSymbol = (mint: string) => symbols[mint] ?? abbreviateAddress(mint)
+  const fmtAmount = (amount: BigNumber, mint: string) =>
+    `${formatNumber(amount)} ${getSymbol(mint)}`
+
+  if (!props.wallet.governanceAddress || !realm) {
+    return null
+  }
+  const realmPk = realm.pubkey.toBase58()
+  const governance = props.wallet.governanceAddress
+
+  const handleSave = () => {
+    if (!mint || !(Number(allowance) > 0)) return
+    setBudget(realmPk, governance, { mint, monthlyAllowance: allowance })
+    setMint(undefined)
+    setAllowance('')
+  }
+
+  return (
+    <div className={cx(props.className, 'space-y-4')}>
+      <div className="text-fgd-1 text-lg font-bold">Budget</div>
+      {isLoading ? (
+        <div className="h-24 rounded bg-bkg-1 animate-pulse" />
+      ) : !statuses.length ? (
+        <div className="bg-bkg-2 px-8 py-4 rounded text-center text-sm text-white/50">
+          No budget, set a monthly allowance to track spend and runway
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-fgd-3">
+              <th className="pb-2 pr-2">Token</th>
+              <th className="pb-2 pr-2 text-right">Monthly allowance</th>
+              <th className="pb-2 pr-2 text-right">Spent this month</th>
+              <th className="pb-2 pr-2 text-right">Remaining</th>
+              <th className="pb-2 pr-2 text-right">Burn / month</th>
+              <th className="pb-2 pr-2 text-right">Runway</th>
+              <th className="pb-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {statuses.map((status) => (
+              <tr className="border-t border-fgd-4" key={status.mint}>
+                <td className="py-2 pr-2">{getSymbol(status.mint)}</td>
+                <td className="py-2 pr-2 text-right">
+                  {fmtAmount(status.allowance, status.mint)}
+                </td>
+                <td className="py-2 pr-2 text-right">
+                  {fmtAmount(status.spent, status.mint)}
+                </td>
+                <td
+                  className={cx(
+                    'py-2 pr-2 text-right',
+                    status.remaining.isZero() && 'text-red',
+                  )}
+                >
+                  {fmtAmount(status.remaining, status.mint)}
+                </td>
+                <td className="py-2 pr-2 text-right">
+                  {fmtAmount(status.monthlyBurn, status.mint)}
+                </td>
+                <td className="py-2 pr-2 text-right">{fmtRunway(status)}</td>
+                <td className="py-2 text-right">
+                  <button
+                    onClick={() =>
+                      removeBudget(realmPk, governance, status.mint)
+                    }
+                  >
+                    <TrashIcon className="h-4 w-4 text-fgd-3 hover:text-red" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className="flex items-end gap-4">
+        <Select
+          label="Token"
+          value={mint ? getSymbol(mint) : undefined}
+          placeholder="Select a token"
+          onChange={setMint}
+          wrapperClassNames="w-48"
+        >
+          {Object.entries(symbols).map(([mint, symbol]) => (
+            <Select.Option key={mint} value={mint}>
+              {symbol}
+            </Select.Option>
+          ))}
+        </Select>
+        <Input
+          label="Monthly allowance"
+          type="number"
+          min={0}
+          value={allowance}
+          onChange={(evt) => setAllowance(evt.target.value)}
+          wrapperClassName="w-48"
+        />
+        <SecondaryButton
+          small
+          disabled={!mint || !(Number(allowance) > 0)}
+          onClick={handleSave}
+        >
+          Save budget
+        </SecondaryButton>
+      </div>
+    </div>
+  )
+}
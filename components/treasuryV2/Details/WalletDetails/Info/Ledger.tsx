@@ -0,0 +1,218 @@
+import React, { useState } from 'react'
+import Link from 'next/link'
+import cx from 'classnames'
+import BigNumber from 'bignumber.js'
+import { ExternalLinkIcon } from '@heroicons/react/outline'
+
+import { LinkButton, SecondaryButton } from '@components/Button'
+import Input from '@components/inputs/Input'
+import { getExplorerUrl } from '@components/explorer/tools'
+import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import useQueryContext from '@hooks/useQueryContext'
+import useRealm from '@hooks/useRealm'
+import { useTreasuryLedgerQuery } from '@hooks/queries/treasuryLedger'
+import { AssetType } from '@models/treasury/Asset'
+import {
+  isLedgerEntryInPeriod,
+  LEDGER_SOL_MINT,
+  LedgerChange,
+  LedgerEntry,
+  ledgerToCsv,
+} from '@models/treasury/Ledger'
+import { Wallet } from '@models/treasury/Wallet'
+import { downloadFile } from '@utils/download'
+import { abbreviateAddress, fmtUnixTime } from '@utils/formatting'
+import { notify } from '@utils/notifications'
+
+interface Props {
+  className?: string
+  wallet: Wallet
+}
+
+const toUnixTime = (date: string) =>
+  date ? new Date(date).getTime() / 1000 : undefined
+
+const fmtChange = (change: LedgerChange, symbol: string) => {
+  const amount = new BigNumber(change.amount.toString()).shiftedBy(
+    -change.decimals,
+  )
+  return `${amount.isPositive() ? '+' : ''}${amount.toFormat()} ${symbol}`
+}
+
+export default function Ledger(props: Props) {
+  const { symbol } = useRealm()
+  const { fmtUrlWithCluster } = useQueryContext()
+  const cluster = useLegacyConnectionContext().cluster
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [isExporting, setIsExporting] = useState(false)
+
+  const tokenAccounts = props.wallet.assets.flatMap((asset) =>
+    asset.type === AssetType.Token ? [asset.address] : [],
+  )
+  const addresses = [
+    props.wallet.address,
+    ...(props.wallet.governanceAddress ? [props.wallet.governanceAddress] : []),
+    ...tokenAccounts,
+  ]
+  const symbols = props.wallet.assets.reduce(
+    (acc, asset) =>
+      asset.type === AssetType.Token && asset.mintAddress
+        ? { ...acc, [asset.mintAddress]: asset.symbol }
+        : acc,
+    { [LEDGER_SOL_MINT]: 'SOL' } as Record<string, string>,
+  )
+
+  const ledger = useTreasuryLedgerQuery(addresses)
+  const entries = ledger.data?.pages.flatMap((x) => x.entries) ?? []
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const fromTime = toUnixTime(from)
+      const toTime = toUnixTime(to)
+      // the ledger is loaded newest first, keep going until the start of the period
+      let loaded: LedgerEntry[] = entries
+      let hasNextPage = ledger.hasNextPage
+      while (
+        hasNextPage &&
+        (fromTime === undefined ||
+          (loaded[loaded.length - 1]?.blockTime ?? Infinity) >= fromTime)
+      ) {
+        const result = await ledger.fetchNextPage()
+        loaded = result.data?.pages.flatMap((x) => x.entries) ?? []
+        hasNextPage = !!result.hasNextPage
+      }
+      downloadFile(
+        `ledger-${abbreviateAddress(props.wallet.address)}${
+          from ? `-${from}` : ''
+        }${to ? `-${to}` : ''}.csv`,
+        ledgerToCsv(
+          loaded.filter((x) => isLedgerEntryInPeriod(x, fromTime, toTime)),
+          symbols,
+        ),
+        'text/csv',
+      )
+    } catch (e) {
+      notify({ type: 'error', message: `Could not export the ledger: ${e}` })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className={cx(props.className, 'space-y-4')}>
+      <header className="flex flex-wrap items-end gap-4">
+        <div className="text-fgd-1 text-lg font-bold mr-auto">Ledger</div>
+        <Input
+          label="From"
+          type="date"
+          value={from}
+          onChange={(evt) => setFrom(evt.target.value)}
+          wrapperClassName="w-40"
+        />
+        <Input
+          label="To"
+          type="date"
+          value={to}
+          onChange={(evt) => setTo(evt.target.value)}
+          wrapperClassName="w-40"
+        />
+        <SecondaryButton
+          small
+          disabled={!ledger.data || isExporting}
+          isLoading={isExporting}
+          onClick={handleExport}
+        >
+          Export CSV
+        </SecondaryButton>
+      </header>
+      {ledger.isLoading ? (
+        Array.from({ length: 4 }).map((_, i) => (
+          <div className="h-14 rounded bg-bkg-1 animate-pulse" key={i} />
+        ))
+      ) : ledger.isError ? (
+        <div className="text-sm text-red">Could not load the ledger</div>
+      ) : !entries.length ? (
+        <div className="bg-bkg-2 px-8 py-4 rounded text-center text-sm text-white/50">
+          No activity
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-fgd-3">
+              <th className="pb-2 pr-2">Date</th>
+              <th className="pb-2 pr-2">Changes</th>
+              <th className="pb-2 pr-2">Proposal</th>
+              <th className="pb-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr className="border-t border-fgd-4" key={entry.signature}>
+                <td className="py-2 pr-2 whitespace-nowrap">
+                  {entry.blockTime ? fmtUnixTime(entry.blockTime) : '-'}
+                  {entry.failed && <div className="text-red">Failed</div>}
+                </td>
+                <td className="py-2 pr-2">
+                  {entry.changes.map((change) => (
+                    <div
+                      className={
+                        change.amount.isNeg() ? 'text-red' : 'text-green'
+                      }
+                      key={`${change.account}-${change.mint}`}
+                    >
+                      {fmtChange(
+                        change,
+                        symbols[change.mint] ?? abbreviateAddress(change.mint),
+                      )}
+                    </div>
+                  ))}
+                  {!!entry.fee && (
+                    <div className="text-fgd-3">
+                      Fee {new BigNumber(entry.fee).shiftedBy(-9).toFormat()}{' '}
+                      SOL
+                    </div>
+                  )}
+                </td>
+                <td className="py-2 pr-2">
+                  {entry.proposal && (
+                    <Link
+                      href={fmtUrlWithCluster(
+                        `/dao/${symbol}/proposal/${entry.proposal}`,
+                      )}
+                    >
+                      <a className="text-primary-light hover:underline">
+                        {abbreviateAddress(entry.proposal)}
+                      </a>
+                    </Link>
+                  )}
+                </td>
+                <td className="py-2 text-right">
+                  <a
+                    href={getExplorerUrl(cluster, entry.signature, 'tx')}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    <ExternalLinkIcon className="h-4 inline text-primary-light w-4" />
+                  </a>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {ledger.hasNextPage && (
+        <div className="flex justify-center">
+          <LinkButton
+            className="text-sm"
+            disabled={ledger.isFetchingNextPage}
+            onClick={() => ledger.fetchNextPage()}
+          >
+            {ledger.isFetchingNextPage ? 'Loading...' : 'Load more'}
+          </LinkButton>
+        </div>
+      )}
+    </div>
+  )
+}
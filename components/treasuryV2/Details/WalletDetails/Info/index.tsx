@@ -7,6 +7,8 @@ import { Wallet } from '@models/treasury/Wallet'
 import Dashboard from './Dashboard'
 import Tab from './Tab'
 import Rules from './Rules'
+import Ledger from './Ledger'
+import Budget from './Budget'
 import {
   SolanaBreakdowns,
   MultifarmNftExplorer,
@@ -17,6 +19,8 @@ import { useTabState } from '../../tabState'
 enum Choice {
   Dashboard = 'Dashboard',
   Rules = 'Rules',
+  Ledger = 'Ledger',
+  Budget = 'Budget',
   Treasury = 'Treasury',
   NFT = 'NFTs',
 }
@@ -39,6 +43,10 @@ export default function Info(props: Props) {
         <Tabs.List className="flex items-center border-b border-white/30 w-full">
           <Tab value={Choice.Dashboard}>Activity</Tab>
           {hasRules && <Tab value={Choice.Rules}>Rules</Tab>}
+          <Tab value={Choice.Ledger}>Ledger</Tab>
+          {props.wallet.governanceAddress && (
+            <Tab value={Choice.Budget}>Budget</Tab>
+          )}
           <Tab value={Choice.Treasury}>Treasury</Tab>
           <Tab value={Choice.NFT}>NFTs</Tab>
         </Tabs.List>
@@ -48,6 +56,12 @@ export default function Info(props: Props) {
         <Tabs.Content value={Choice.Rules}>
           <Rules className="py-8" wallet={props.wallet} />
         </Tabs.Content>
+        <Tabs.Content value={Choice.Ledger}>
+          <Ledger className="py-8" wallet={props.wallet} />
+        </Tabs.Content>
+        <Tabs.Content value={Choice.Budget}>
+          <Budget className="py-8" wallet={props.wallet} />
+        </Tabs.Content>
         <Tabs.Content value={Choice.Treasury}>
           <SolanaBreakdowns wallet={props.wallet} />
         </Tabs.Content>
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react'
+import cx from 'classnames'
+import type { BigNumber } from 'bignumber.js'
+
+import { useTreasurySnapshotsQuery } from '@hooks/queries/treasurySnapshots'
+import { buildPeriodReports } from '@models/treasury/Snapshot'
+import { Wallet } from '@models/treasury/Wallet'
+import { abbreviateAddress, fmtUnixTime } from '@utils/formatting'
+import { formatNumber } from '@utils/formatNumber'
+
+interface Props {
+  className?: string
+  wallets: Wallet[]
+}
+
+const fmtUsd = (value: BigNumber) =>
+  `${value.isNegative() ? '-' : ''}$${formatNumber(value.abs())}`
+
+export default function PeriodReports(props: Props) {
+  const snapshots = useTreasurySnapshotsQuery()
+  const [selected, setSelected] = useState<string | null>(null)
+
+  const reports = useMemo(
+    () => buildPeriodReports(snapshots.data ?? []),
+    [snapshots.data],
+  )
+  const report = reports.find((x) => x.period === selected) ?? reports[0]
+  const getName = (governance: string) =>
+    props.wallets.find((x) => x.governanceAddress === governance)?.name ??
+    abbreviateAddress(governance)
+
+  return (
+    <section className={cx(props.className, 'space-y-4')}>
+      <header className="flex items-center gap-4">
+        <div className="text-fgd-1 text-lg font-bold mr-auto">
+          Period Reports
+        </div>
+      </header>
+      {snapshots.isLoading ? (
+        <div className="h-24 rounded bg-bkg-1 animate-pulse" />
+      ) : snapshots.isError ? (
+        <div className="text-sm text-red">Could not load the snapshots</div>
+      ) : !report ? (
+        <div className="bg-bkg-1 px-8 py-4 rounded text-center text-sm text-white/50">
+          No snapshots yet, they are recorded by the treasury snapshot script
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {reports.map((x) => (
+              <button
+                className={cx(
+                  'px-3 py-1 rounded-full text-sm',
+                  x.period === report.period
+                    ? 'bg-primary-light text-bkg-2'
+                    : 'bg-bkg-1 text-fgd-2 hover:bg-bkg-3',
+                )}
+                key={x.period}
+                onClick={() => setSelected(x.period)}
+              >
+                {x.period}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-fgd-3">
+            From {fmtUnixTime(report.opening.takenAt)} to{' '}
+            {fmtUnixTime(report.closing.takenAt)}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-fgd-3">
+                <th className="pb-2 pr-2">Governance</th>
+                <th className="pb-2 pr-2 text-right">Opening</th>
+                <th className="pb-2 pr-2 text-right">Inflows</th>
+                <th className="pb-2 pr-2 text-right">Outflows</th>
+                <th className="pb-2 pr-2 text-right">Price effect</th>
+                <th className="pb-2 text-right">Closing</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.governances.map((x) => (
+                <tr className="border-t border-fgd-4" key={x.governance}>
+                  <td className="py-2 pr-2">{getName(x.governance)}</td>
+                  <td className="py-2 pr-2 text-right">{fmtUsd(x.opening)}</td>
+                  <td className="py-2 pr-2 text-right text-green">
+                    {fmtUsd(x.inflows)}
+                  </td>
+                  <td className="py-2 pr-2 text-right text-red">
+                    {fmtUsd(x.outflows.negated())}
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    {fmtUsd(x.priceEffect)}
+                  </td>
+                  <td className="py-2 text-right font-bold">
+                    {fmtUsd(x.closing)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </section>
+  )
+}
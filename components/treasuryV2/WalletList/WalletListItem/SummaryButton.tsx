@@ -10,6 +10,7 @@ import SelectedWalletIcon from '../../icons/SelectedWalletIcon'
 import UnselectedWalletIcon from '../../icons/UnselectedWalletIcon'
 import AssetsPreviewIconList from './AssetsPreviewIconList'
 import { useTreasurySelectState } from '@components/treasuryV2/Details/treasurySelectStore'
+import useTreasuryBudgets from '@hooks/useTreasuryBudgets'
 import { PublicKey } from '@solana/web3.js'
 import { useMemo } from 'react'
 
@@ -42,6 +43,16 @@ export default function SummaryButton(props: Props) {
     [props.wallet.governanceAddress],
   )
 
+  // shortest runway of the budgeted tokens
+  const { statuses } = useTreasuryBudgets(
+    props.wallet.governanceAddress,
+    props.wallet,
+  )
+  const runways = statuses.flatMap((x) =>
+    x.runwayMonths !== undefined ? [x.runwayMonths] : [],
+  )
+  const runway = runways.length ? Math.min(...runways) : undefined
+
   return (
     <button
       className={cx(
@@ -109,8 +120,19 @@ export default function SummaryButton(props: Props) {
               )}
             />
           </div>
-          <div className="font-bold text-left whitespace-nowrap text-ellipsis overflow-hidden">
-            {props.wallet.name || abbreviateAddress(props.wallet.address)}
+          <div className="text-left overflow-hidden">
+            <div className="font-bold whitespace-nowrap text-ellipsis overflow-hidden">
+              {props.wallet.name || abbreviateAddress(props.wallet.address)}
+            </div>
+            {runway !== undefined && (
+              <div className="text-xs text-white/50">
+                Runway{' '}
+                {formatNumber(runway, undefined, {
+                  maximumFractionDigits: 1,
+                })}{' '}
+                months
+              </div>
+            )}
           </div>
         </div>
       </div>
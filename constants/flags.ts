@@ -7,6 +7,26 @@ export const SHOW_DELEGATORS_LIST = false
 export const DELEGATOR_BATCH_VOTE_SUPPORT_BY_PLUGIN: Record<
   ReturnType<typeof findPluginName>,
   boolean
+> = {
+  vanilla: true,
+  VSR: true,
+  HeliumVSR: true,
+  gateway: true,
+  QV: true,
+  NFT: true,
+  pyth: false,
+  unknown: false,
+  drift: false,
+  token_haver: false,
+  parcl: false,
+  bonk: false,
+  token_voter: true,
+}
+
+// plugins whose voter weight record is not tied to a single proposal, so one update in a transaction covers several votes
+export const VOTER_WEIGHT_REUSE_SUPPORT_BY_PLUGIN: Record<
+  ReturnType<typeof findPluginName>,
+  boolean
 > = {
   vanilla: true,
   VSR: true,
@@ -0,0 +1,230 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js'
+import {
+  GovernanceAccountClass,
+  GovernanceAccountParser,
+  ProgramAccount,
+} from '@solana/spl-governance'
+import {
+  AccountCache,
+  accountCacheKeys,
+  BACKGROUND_REFRESH_TTL,
+  emitAccountCacheEvent,
+  getAccountCache,
+  isRecentEntry,
+  isSameAccounts,
+  observeSlot,
+  toAccountInfo,
+  toIndexedAccount,
+} from '@models/dataSource'
+import { chunks } from '@utils/helpers'
+
+// getMultipleAccountsInfo accepts at most 100 keys
+const MAX_KEYS_PER_CALL = 100
+
+export type AccountLoaderMetrics = {
+  // accounts requested through the loader
+  requests: number
+  // requests served by a load already in flight
+  deduplicated: number
+  // getMultipleAccountsInfo calls sent to the RPC
+  rpcCalls: number
+}
+
+const metrics: AccountLoaderMetrics = {
+  requests: 0,
+  deduplicated: 0,
+  rpcCalls: 0,
+}
+
+export const getAccountLoaderMetrics = (): AccountLoaderMetrics => ({
+  ...metrics,
+})
+
+export const resetAccountLoaderMetrics = () => {
+  metrics.requests = 0
+  metrics.deduplicated = 0
+  metrics.rpcCalls = 0
+}
+
+export type AccountLoadOptions = {
+  // serve the first load from the account cache and refresh it in the background, for queries
+  // rendered by hooks only, imperative reads need the current state of the account
+  staleWhileRefresh?: boolean
+}
+
+type PendingLoad = {
+  pubkey: PublicKey
+  resolve: (accountInfo: AccountInfo<Buffer> | null) => void
+  reject: (error: unknown) => void
+}
+
+/**
+ * Coalesces the accounts requested within one tick into getMultipleAccountsInfo calls,
+ * and shares loads already in flight between callers.
+ * With an account cache, loads fall back to the cache while the RPC is unavailable, and the
+ * first load of an account can be served from the cache and refreshed in the background.
+ */
+export class AccountLoader {
+  private queue = new Map<string, PendingLoad>()
+  private inFlight = new Map<string, Promise<AccountInfo<Buffer> | null>>()
+  private isScheduled = false
+  private loaded = new Set<string>()
+  private refreshes = new Map<
+    string,
+    { promise: Promise<AccountInfo<Buffer> | null>; startedAt: number }
+  >()
+
+  constructor(
+    private connection: Connection,
+    private cache?: AccountCache,
+  ) {}
+
+  load(
+    pubkey: PublicKey,
+    { staleWhileRefresh = false }: AccountLoadOptions = {},
+  ): Promise<AccountInfo<Buffer> | null> {
+    const key = pubkey.toBase58()
+    metrics.requests++
+
+    const refresh = this.refreshes.get(key)
+    this.refreshes.delete(key)
+    if (refresh && Date.now() - refresh.startedAt < BACKGROUND_REFRESH_TTL) {
+      return refresh.promise
+    }
+
+    const existing = this.inFlight.get(key)
+    if (existing) {
+      metrics.deduplicated++
+      return existing
+    }
+
+    const isFirstLoad = !this.loaded.has(key)
+    this.loaded.add(key)
+    if (this.cache && staleWhileRefresh && isFirstLoad) {
+      return this.loadCached(pubkey, this.cache)
+    }
+    return this.enqueue(pubkey)
+  }
+
+  // the last load of the account was served from the cache, the next one gets the refreshed account
+  isServedFromCache(pubkey: PublicKey) {
+    return this.refreshes.has(pubkey.toBase58())
+  }
+
+  private async loadCached(pubkey: PublicKey, cache: AccountCache) {
+    const key = pubkey.toBase58()
+    const cached = await cache.get(
+      accountCacheKeys.account(this.connection.rpcEndpoint, pubkey),
+    )
+    if (!cached || !isRecentEntry(cached)) return this.enqueue(pubkey)
+
+    const refresh = this.enqueue(pubkey)
+    this.refreshes.set(key, { promise: refresh, startedAt: Date.now() })
+    refresh
+      .then((accountInfo) => {
+        const accounts = accountInfo
+          ? [toIndexedAccount(pubkey, accountInfo)]
+          : []
+        if (isSameAccounts(accounts, cached.accounts)) return
+        emitAccountCacheEvent({ type: 'refreshed', pubkeys: [key] })
+      })
+      .catch((e) => console.error(e))
+    return cached.accounts[0] ? toAccountInfo(cached.accounts[0]) : null
+  }
+
+  private enqueue(pubkey: PublicKey) {
+    const key = pubkey.toBase58()
+    const promise = new Promise<AccountInfo<Buffer> | null>(
+      (resolve, reject) => {
+        this.queue.set(key, { pubkey, resolve, reject })
+      },
+    )
+    this.inFlight.set(key, promise)
+
+    if (!this.isScheduled) {
+      this.isScheduled = true
+      setTimeout(() => this.dispatch(), 0)
+    }
+    return promise
+  }
+
+  private dispatch() {
+    const pending = [...this.queue.values()]
+    this.queue = new Map()
+    this.isScheduled = false
+
+    chunks(pending, MAX_KEYS_PER_CALL).forEach(async (chunk) => {
+      metrics.rpcCalls++
+      try {
+        const { context, value: accountInfos } =
+          await this.connection.getMultipleAccountsInfoAndContext(
+            chunk.map((x) => x.pubkey),
+          )
+        chunk.forEach((x, i) => x.resolve(accountInfos[i]))
+        if (this.cache) {
+          observeSlot(context.slot)
+          chunk.forEach((x, i) => {
+            const accountInfo = accountInfos[i]
+            this.cache?.set(
+              accountCacheKeys.account(this.connection.rpcEndpoint, x.pubkey),
+              context.slot,
+              accountInfo ? [toIndexedAccount(x.pubkey, accountInfo)] : [],
+            )
+          })
+        }
+      } catch (e) {
+        chunk.forEach((x) => this.fallback(x, e))
+      } finally {
+        chunk.forEach((x) => this.inFlight.delete(x.pubkey.toBase58()))
+      }
+    })
+  }
+
+  private async fallback({ pubkey, resolve, reject }: PendingLoad, error) {
+    const cached = await this.cache?.get(
+      accountCacheKeys.account(this.connection.rpcEndpoint, pubkey),
+    )
+    if (!cached) return reject(error)
+    emitAccountCacheEvent({ type: 'fallback' })
+    resolve(cached.accounts[0] ? toAccountInfo(cached.accounts[0]) : null)
+  }
+}
+
+const loaders = new WeakMap<Connection, AccountLoader>()
+
+const getLoader = (connection: Connection) => {
+  let loader = loaders.get(connection)
+  if (!loader) {
+    loader = new AccountLoader(connection, getAccountCache())
+    loaders.set(connection, loader)
+  }
+  return loader
+}
+
+/** Batched replacement for connection.getAccountInfo */
+export const loadAccountInfo = (
+  connection: Connection,
+  pubkey: PublicKey,
+  options?: AccountLoadOptions,
+) => getLoader(connection).load(pubkey, options)
+
+/**
+ * Options of the imperative fetchQuery of an account, which refetches the query data a hook was
+ * served from the cache instead of returning it
+ */
+export const accountFetchOptions = (
+  connection: Connection,
+  pubkey: PublicKey,
+) => (getLoader(connection).isServedFromCache(pubkey) ? { staleTime: 0 } : {})
+
+/** Batched replacement for getGovernanceAccount, resolves undefined when the account does not exist */
+export const loadGovernanceAccount = async <T extends GovernanceAccountClass>(
+  connection: Connection,
+  pubkey: PublicKey,
+  kind: T,
+  options?: AccountLoadOptions,
+): Promise<ProgramAccount<InstanceType<T>> | undefined> => {
+  const accountInfo = await loadAccountInfo(connection, pubkey, options)
+  if (!accountInfo) return undefined
+  return GovernanceAccountParser(kind)(pubkey, accountInfo)
+}
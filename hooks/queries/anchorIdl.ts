@@ -0,0 +1,37 @@
+import { inflateSync } from 'zlib'
+import { Idl } from '@coral-xyz/anchor'
+import { decodeIdlAccount, idlAddress } from '@coral-xyz/anchor/dist/cjs/idl'
+import { Connection, PublicKey } from '@solana/web3.js'
+import queryClient from './queryClient'
+
+export const anchorIdlQueryKeys = {
+  byProgramId: (endpoint: string, programId: PublicKey) => [
+    endpoint,
+    'AnchorIdl',
+    programId.toString(),
+  ],
+}
+
+/** Fetches the IDL a program published to its on-chain IDL account, null for non anchor programs */
+export const fetchAnchorIdl = (connection: Connection, programId: PublicKey) =>
+  queryClient.fetchQuery({
+    queryKey: anchorIdlQueryKeys.byProgramId(connection.rpcEndpoint, programId),
+    queryFn: async () => {
+      // rpc errors are thrown so they aren't cached as a missing idl
+      const account = await connection.getAccountInfo(
+        await idlAddress(programId),
+      )
+      if (!account) return null
+
+      try {
+        // the 8 byte account discriminator, then the authority and the deflated idl json
+        const { data } = decodeIdlAccount(account.data.subarray(8))
+        return JSON.parse(inflateSync(data).toString('utf8')) as Idl
+      } catch {
+        // an account that isn't an idl account lives at the idl address, or it failed to inflate
+        return null
+      }
+    },
+    // idl upgrades are rare, refetching once per session is plenty
+    staleTime: Number.MAX_SAFE_INTEGER,
+  })
@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query'
+import { DelegateProfile } from '@models/delegates/DelegateProfile'
+import { useRealmQuery } from './realm'
+import queryClient from './queryClient'
+
+const URL = '/api/delegateProfiles'
+
+export const delegateProfilesQueryKeys = {
+  all: ['DelegateProfiles'],
+  byRealm: (realm: string) => [...delegateProfilesQueryKeys.all, realm],
+}
+
+export const useDelegateProfilesQuery = () => {
+  const realm = useRealmQuery().data?.result
+
+  const enabled = realm !== undefined
+  return useQuery({
+    queryKey: enabled
+      ? delegateProfilesQueryKeys.byRealm(realm.pubkey.toBase58())
+      : undefined,
+    queryFn: async () => {
+      if (!enabled) throw new Error()
+      const response = await fetch(`${URL}?realm=${realm.pubkey.toBase58()}`)
+      if (!response.ok) throw new Error(await response.text())
+      return (await response.json()) as DelegateProfile[]
+    },
+    enabled,
+  })
+}
+
+export const postDelegateProfile = async (profile: DelegateProfile) => {
+  const response = await fetch(URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(profile),
+  })
+  if (!response.ok) throw new Error(await response.text())
+  queryClient.invalidateQueries(
+    delegateProfilesQueryKeys.byRealm(profile.realm),
+  )
+  return (await response.json()) as DelegateProfile
+}
@@ -3,15 +3,18 @@ import { useQuery } from '@tanstack/react-query'
 import { getNetworkFromEndpoint } from '@utils/connection'
 import asFindable from '@utils/queries/asFindable'
 import queryClient from './queryClient'
+import { accountFetchOptions, loadGovernanceAccount } from './accountLoader'
 import {
   Governance,
-  getGovernance,
-  getGovernanceAccounts,
   pubkeyFilter,
   ProgramAccount,
   VoteThreshold,
   VoteThresholdType,
 } from '@solana/spl-governance'
+import {
+  getGovernanceAccounts,
+  ProgramAccountsOptions,
+} from '@models/dataSource'
 import { fetchRealmByPubkey, useRealmQuery } from './realm'
 import { useConnection } from '@solana/wallet-adapter-react'
 
@@ -28,7 +31,9 @@ export const governanceQueryKeys = {
   ],
 }
 
-const governanceWithDefaults = (governance: ProgramAccount<Governance>) => {
+export const governanceWithDefaults = (
+  governance: ProgramAccount<Governance>,
+) => {
   const isGovernanceInNeedForDefaultValues =
     governance.account.config.councilVoteThreshold.value === 0 &&
     governance.account.config.councilVoteThreshold.type ===
@@ -68,7 +73,9 @@ export const useGovernanceByPubkeyQuery = (pubkey: PublicKey | undefined) => {
     queryFn: async () => {
       if (!enabled) throw new Error()
       return asFindable(() =>
-        getGovernance(connection, pubkey).then(governanceWithDefaults),
+        loadGovernanceAccount(connection, pubkey, Governance, {
+          staleWhileRefresh: true,
+        }).then((x) => x && governanceWithDefaults(x)),
       )()
     },
     enabled,
@@ -81,12 +88,19 @@ const realmGoverancesQueryFn = async (
   connection: Connection,
   realmPk: PublicKey,
   realmOwner: PublicKey,
+  options?: ProgramAccountsOptions,
 ) => {
   const filter = pubkeyFilter(1, realmPk)
   if (!filter) throw new Error() // unclear why this would ever happen, probably it just cannot
 
   const results = (
-    await getGovernanceAccounts(connection, realmOwner, Governance, [filter])
+    await getGovernanceAccounts(
+      connection,
+      realmOwner,
+      Governance,
+      [filter],
+      options,
+    )
   ).map(governanceWithDefaults)
 
   results.forEach((x) => {
@@ -110,7 +124,9 @@ export const useRealmGovernancesQuery = () => {
       : undefined,
     queryFn: async () => {
       if (!enabled) throw new Error()
-      return realmGoverancesQueryFn(connection, realm.pubkey, realm.owner)
+      return realmGoverancesQueryFn(connection, realm.pubkey, realm.owner, {
+        staleWhileRefresh: true,
+      })
     },
     enabled,
   })
@@ -140,9 +156,12 @@ export const fetchGovernanceByPubkey = (
   const cluster = getNetworkFromEndpoint(connection.rpcEndpoint)
   return queryClient.fetchQuery({
     queryKey: governanceQueryKeys.byPubkey(cluster, pubkey),
+    ...accountFetchOptions(connection, pubkey),
     queryFn: () =>
       asFindable(() =>
-        getGovernance(connection, pubkey).then(governanceWithDefaults),
+        loadGovernanceAccount(connection, pubkey, Governance).then(
+          (x) => x && governanceWithDefaults(x),
+        ),
       )(),
   })
 }
@@ -1,9 +1,10 @@
 import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
-import { GovernanceAccount, getGovernanceAccount } from '@solana/spl-governance'
+import { GovernanceAccountClass } from '@solana/spl-governance'
 import { Connection, PublicKey } from '@solana/web3.js'
 import { useQuery } from '@tanstack/react-query'
 import asFindable from '@utils/queries/asFindable'
 import queryClient from './queryClient'
+import { accountFetchOptions, loadGovernanceAccount } from './accountLoader'
 
 export const governanceAccountQueryKeys = {
   all: (cluster: string, kind: string) => [cluster, `${kind}`],
@@ -13,11 +14,9 @@ export const governanceAccountQueryKeys = {
   ],
 }
 
-export function useGovernanceAccountByPubkeyQuery<T extends GovernanceAccount>(
-  kind: new (...args) => T,
-  kindLabel: string,
-  pubkey: PublicKey | undefined,
-) {
+export function useGovernanceAccountByPubkeyQuery<
+  T extends GovernanceAccountClass,
+>(kind: T, kindLabel: string, pubkey: PublicKey | undefined) {
   const connection = useLegacyConnectionContext()
 
   const enabled = pubkey !== undefined
@@ -32,7 +31,10 @@ export function useGovernanceAccountByPubkeyQuery<T extends GovernanceAccount>(
     queryFn: async () => {
       if (!enabled) throw new Error()
 
-      const f = () => getGovernanceAccount(connection.current, pubkey, kind)
+      const f = () =>
+        loadGovernanceAccount(connection.current, pubkey, kind, {
+          staleWhileRefresh: true,
+        })
       return asFindable(f)()
     },
     enabled,
@@ -42,21 +44,17 @@ export function useGovernanceAccountByPubkeyQuery<T extends GovernanceAccount>(
 }
 
 export async function fetchGovernanceAccountByPubkey<
-  T extends GovernanceAccount,
->(
-  connection: Connection,
-  kind: new (...args) => T,
-  kindLabel: string,
-  pubkey: PublicKey,
-) {
+  T extends GovernanceAccountClass,
+>(connection: Connection, kind: T, kindLabel: string, pubkey: PublicKey) {
   const f = () =>
-    asFindable(() => getGovernanceAccount(connection, pubkey, kind))()
+    asFindable(() => loadGovernanceAccount(connection, pubkey, kind))()
   return queryClient.fetchQuery({
     queryKey: governanceAccountQueryKeys.byPubkey(
       connection.rpcEndpoint,
       kindLabel,
       pubkey,
     ),
+    ...accountFetchOptions(connection, pubkey),
     queryFn: f,
   })
 }
@@ -3,10 +3,11 @@ import { Connection, PublicKey } from '@solana/web3.js'
 import { useQuery } from '@tanstack/react-query'
 import { getNetworkFromEndpoint } from '@utils/connection'
 import asFindable from '@utils/queries/asFindable'
-import { tryGetMint } from '@utils/tokens'
+import { parseMintAccountData } from '@utils/tokens'
 import queryClient from './queryClient'
 import { useRealmQuery } from './realm'
 import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import { loadAccountInfo } from './accountLoader'
 
 export const mintInfoQueryKeys = {
   all: (cluster: EndpointTypes) => [cluster, 'MintInfo'],
@@ -16,6 +17,19 @@ export const mintInfoQueryKeys = {
   ],
 }
 
+const tryGetMintInfo = async (connection: Connection, pubkey: PublicKey) => {
+  try {
+    const accountInfo = await loadAccountInfo(connection, pubkey)
+    return parseMintAccountData(Buffer.from(accountInfo!.data))
+  } catch (ex) {
+    console.error(
+      `Can't fetch mint ${pubkey.toBase58()} @ ${connection.rpcEndpoint}`,
+      ex,
+    )
+    return undefined
+  }
+}
+
 export const useMintInfoByPubkeyQuery = (pubkey: PublicKey | undefined) => {
   const connection = useLegacyConnectionContext()
 
@@ -26,9 +40,7 @@ export const useMintInfoByPubkeyQuery = (pubkey: PublicKey | undefined) => {
       : undefined,
     queryFn: async () => {
       if (!enabled) throw new Error()
-      return asFindable((...x: Parameters<typeof tryGetMint>) =>
-        tryGetMint(...x).then((x) => x?.account),
-      )(connection.current, pubkey)
+      return asFindable(tryGetMintInfo)(connection.current, pubkey)
     },
     enabled,
   })
@@ -55,9 +67,6 @@ export const fetchMintInfoByPubkey = (
   const cluster = getNetworkFromEndpoint(connection.rpcEndpoint)
   return queryClient.fetchQuery({
     queryKey: mintInfoQueryKeys.byPubkey(cluster, pubkey),
-    queryFn: () =>
-      asFindable((...x: Parameters<typeof tryGetMint>) =>
-        tryGetMint(...x).then((x) => x?.account),
-      )(connection, pubkey),
+    queryFn: () => asFindable(tryGetMintInfo)(connection, pubkey),
   })
 }
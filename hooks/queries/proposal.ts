@@ -1,17 +1,15 @@
 import { Connection, PublicKey } from '@solana/web3.js'
 import { useQuery } from '@tanstack/react-query'
 import asFindable from '@utils/queries/asFindable'
-import {
-  getAllProposals,
-  getProposal,
-  getProposalsByGovernance,
-} from '@solana/spl-governance'
+import { Proposal } from '@solana/spl-governance'
+import { getAllProposals, getProposalsByGovernance } from '@models/dataSource'
 import { fetchRealmByPubkey, useRealmQuery } from './realm'
 import { useRouter } from 'next/router'
 import { tryParsePublicKey } from '@tools/core/pubkey'
 import { useMemo } from 'react'
 import { useRealmGovernancesQuery } from './governance'
 import queryClient from './queryClient'
+import { accountFetchOptions, loadGovernanceAccount } from './accountLoader'
 import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
 import { HIDDEN_PROPOSALS } from '@components/instructions/tools'
 
@@ -34,7 +32,9 @@ export const fetchProposalByPubkeyQuery = (
 ) =>
   queryClient.fetchQuery({
     queryKey: proposalQueryKeys.byPubkey(connection.rpcEndpoint, pubkey),
-    queryFn: () => asFindable(getProposal)(connection, pubkey),
+    ...accountFetchOptions(connection, pubkey),
+    queryFn: () =>
+      asFindable(() => loadGovernanceAccount(connection, pubkey, Proposal))(),
   })
 
 export const useProposalByPubkeyQuery = (pubkey: PublicKey | undefined) => {
@@ -47,7 +47,11 @@ export const useProposalByPubkeyQuery = (pubkey: PublicKey | undefined) => {
       : undefined,
     queryFn: async () => {
       if (!enabled) throw new Error()
-      return asFindable(getProposal)(connection.current, pubkey)
+      return asFindable(() =>
+        loadGovernanceAccount(connection.current, pubkey, Proposal, {
+          staleWhileRefresh: true,
+        }),
+      )()
     },
     enabled,
   })
@@ -86,7 +90,12 @@ export const useRealmProposalsQuery = () => {
         await Promise.all(
           governances.map((x) =>
             // why not just get all proposals for a realm? what was i doing here?
-            getProposalsByGovernance(connection.current, realm.owner, x.pubkey),
+            getProposalsByGovernance(
+              connection.current,
+              realm.owner,
+              x.pubkey,
+              { staleWhileRefresh: true },
+            ),
           ),
         )
       )
@@ -128,7 +137,9 @@ export const useARealmProposalsQuery = (realmPk: PublicKey | undefined) => {
       if (realm === undefined) throw new Error()
 
       const results = (
-        await getAllProposals(connection.current, realm.owner, realmPk)
+        await getAllProposals(connection.current, realm.owner, realmPk, {
+          staleWhileRefresh: true,
+        })
       ).flat()
 
       // TODO instead of using setQueryData, prefetch queries on mouseover ?
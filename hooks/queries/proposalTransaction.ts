@@ -1,10 +1,7 @@
 import { PublicKey } from '@solana/web3.js'
 import { useQuery } from '@tanstack/react-query'
-import {
-  ProposalTransaction,
-  getGovernanceAccounts,
-  pubkeyFilter,
-} from '@solana/spl-governance'
+import { ProposalTransaction, pubkeyFilter } from '@solana/spl-governance'
+import { getGovernanceAccounts } from '@models/dataSource'
 import { useRouteProposalQuery } from './proposal'
 import { useRealmQuery } from './realm'
 import queryClient from './queryClient'
@@ -44,6 +41,7 @@ export const useSelectedProposalTransactions = () => {
         realm.owner,
         ProposalTransaction,
         [pubkeyFilter(1, proposal.pubkey)!],
+        { staleWhileRefresh: true },
       )
 
       results.forEach((x) => {
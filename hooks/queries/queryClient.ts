@@ -1,5 +1,7 @@
 import { TransactionInstruction } from '@solana/web3.js'
-import { QueryClient } from '@tanstack/react-query'
+import { Query, QueryClient } from '@tanstack/react-query'
+import { onAccountCacheEvent } from '@models/dataSource'
+import { notify } from '@utils/notifications'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -27,3 +29,45 @@ export const invalidateInstructionAccounts = async (
         })
       }),
   )
+
+const isRecord = (x: unknown): x is Record<string, unknown> =>
+  typeof x === 'object' && x !== null
+
+// ProgramAccount or anything else exposing the address of an account
+const hasPubkey = (x: unknown): x is { pubkey: { toString(): string } } =>
+  isRecord(x) && isRecord(x.pubkey)
+
+// findable queries resolve { found, result }
+const isFindable = (x: unknown): x is { result: unknown } =>
+  isRecord(x) && 'result' in x
+
+const getQueryAccounts = (data: unknown): unknown[] => {
+  const value = isFindable(data) ? data.result : data
+  return Array.isArray(value) ? value : [value]
+}
+
+// whether the query is keyed by, or holds, one of the accounts
+const involvesAccounts = (query: Query, pubkeys: Set<string>) =>
+  query.queryKey.some((x) => pubkeys.has(`${x}`)) ||
+  getQueryAccounts(query.state.data).some(
+    (x) => hasPubkey(x) && pubkeys.has(x.pubkey.toString()),
+  )
+
+let isShowingCachedAccounts = false
+
+onAccountCacheEvent((event) => {
+  if (event.type === 'refreshed') {
+    const pubkeys = new Set(event.pubkeys)
+    queryClient.invalidateQueries({
+      predicate: (q) => involvesAccounts(q, pubkeys),
+    })
+  }
+  if (event.type === 'fallback' && !isShowingCachedAccounts) {
+    isShowingCachedAccounts = true
+    notify({
+      type: 'info',
+      message: 'The RPC is unavailable',
+      description: 'Showing the accounts cached on your last visit',
+    })
+  }
+})
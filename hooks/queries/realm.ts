@@ -1,10 +1,12 @@
 import useSelectedRealmPubkey from '@hooks/selectedRealm/useSelectedRealmPubkey'
-import { getRealm, getRealms } from '@solana/spl-governance'
+import { Realm } from '@solana/spl-governance'
+import { getGovernanceAccounts } from '@models/dataSource'
 import { Connection, PublicKey } from '@solana/web3.js'
 import { useQuery } from '@tanstack/react-query'
 import { getNetworkFromEndpoint } from '@utils/connection'
 import asFindable from '@utils/queries/asFindable'
 import queryClient from './queryClient'
+import { accountFetchOptions, loadGovernanceAccount } from './accountLoader'
 import { useConnection } from '@solana/wallet-adapter-react'
 import { HIDDEN_REALMS } from '@components/instructions/tools'
 
@@ -31,9 +33,11 @@ export const useRealmsByProgramQuery = (program: PublicKey) => {
       : undefined,
     queryFn: async () => {
       if (!enabled) throw new Error()
-      const realms = (await getRealms(connection, program)).filter(
-        (x) => !HIDDEN_REALMS.includes(x.pubkey.toBase58()),
-      )
+      const realms = (
+        await getGovernanceAccounts(connection, program, Realm, [], {
+          staleWhileRefresh: true,
+        })
+      ).filter((x) => !HIDDEN_REALMS.includes(x.pubkey.toBase58()))
       return realms
     },
     staleTime: 3600000, // 1 hour
@@ -54,7 +58,11 @@ export const useRealmByPubkeyQuery = (realmPk: undefined | PublicKey) => {
       : undefined,
     queryFn: async () => {
       if (!enabled) throw new Error()
-      return asFindable(getRealm)(connection, realmPk)
+      return asFindable(() =>
+        loadGovernanceAccount(connection, realmPk, Realm, {
+          staleWhileRefresh: true,
+        }),
+      )()
     },
     staleTime: 3600000, // 1 hour
     cacheTime: 3600000 * 24 * 10,
@@ -74,6 +82,8 @@ export const fetchRealmByPubkey = (
   const endpoint = getNetworkFromEndpoint(connection.rpcEndpoint)
   return queryClient.fetchQuery({
     queryKey: realmQueryKeys.byPubkey(endpoint, pubkey),
-    queryFn: () => asFindable(() => getRealm(connection, pubkey))(),
+    ...accountFetchOptions(connection, pubkey),
+    queryFn: () =>
+      asFindable(() => loadGovernanceAccount(connection, pubkey, Realm))(),
   })
 }
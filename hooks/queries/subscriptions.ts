@@ -0,0 +1,233 @@
+import { useEffect } from 'react'
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js'
+import {
+  Governance,
+  GovernanceAccountParser,
+  GovernanceAccountType,
+  ProgramAccount,
+  Proposal,
+  TokenOwnerRecord,
+  VoteRecord,
+} from '@solana/spl-governance'
+import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import {
+  useAddressQuery_CommunityTokenOwner,
+  useAddressQuery_CouncilTokenOwner,
+} from './addresses/tokenOwnerRecord'
+import { governanceQueryKeys, governanceWithDefaults } from './governance'
+import { proposalQueryKeys, useRouteProposalQuery } from './proposal'
+import queryClient from './queryClient'
+import { useRealmQuery } from './realm'
+import { tokenOwnerRecordQueryKeys } from './tokenOwnerRecord'
+import { voteRecordQueryKeys } from './voteRecord'
+
+const POLL_INTERVAL = 10 * 1000
+// websockets are considered unavailable when no slot notification arrives in this time
+const WEBSOCKET_TIMEOUT = 15 * 1000
+
+const VOTE_RECORD_ACCOUNT_TYPES = [
+  GovernanceAccountType.VoteRecordV1,
+  GovernanceAccountType.VoteRecordV2,
+]
+
+type Subscription = {
+  // registers the websocket subscriptions, returns their ids
+  subscribe: (connection: Connection) => number[]
+  unsubscribe: (connection: Connection, id: number) => Promise<void>
+  // refetches the subscribed accounts when websockets are unavailable
+  poll: () => Promise<unknown>
+}
+
+/**
+ * Keeps accounts up to date through websockets, and falls back to polling while
+ * the websocket connection is unavailable.
+ * Returns a function which removes the subscriptions.
+ */
+export const subscribeWithPollingFallback = (
+  connection: Connection,
+  subscriptions: Subscription[],
+) => {
+  let lastNotification = Date.now()
+  const ids = subscriptions.map((x) => x.subscribe(connection))
+  const slotSubscriptionId = connection.onSlotChange(() => {
+    lastNotification = Date.now()
+  })
+
+  const interval = setInterval(() => {
+    if (Date.now() - lastNotification > WEBSOCKET_TIMEOUT) {
+      subscriptions.forEach((x) => x.poll())
+    }
+  }, POLL_INTERVAL)
+
+  return () => {
+    clearInterval(interval)
+    connection.removeSlotChangeListener(slotSubscriptionId)
+    subscriptions.forEach((x, i) =>
+      ids[i].forEach((id) => x.unsubscribe(connection, id)),
+    )
+  }
+}
+
+// what asFindable returns for a missing account
+const CLOSED_ACCOUNT = { found: false, result: undefined } as const
+
+const parseAccount = <T>(
+  classType: Parameters<typeof GovernanceAccountParser>[0],
+  pubkey: PublicKey,
+  accountInfo: AccountInfo<Buffer>,
+) =>
+  GovernanceAccountParser(classType)(pubkey, accountInfo) as ProgramAccount<T>
+
+const accountSubscription = <T>(
+  pubkey: PublicKey,
+  parse: (accountInfo: AccountInfo<Buffer>) => T,
+  queryKey: unknown[],
+  onUpdate?: (account: T) => void,
+): Subscription => ({
+  subscribe: (connection) => [
+    connection.onAccountChange(
+      pubkey,
+      (accountInfo) => {
+        // closed accounts have no data left to parse
+        if (accountInfo.lamports === 0) {
+          queryClient.setQueryData(queryKey, CLOSED_ACCOUNT)
+          return
+        }
+        const account = parse(accountInfo)
+        queryClient.setQueryData(queryKey, { found: true, result: account })
+        onUpdate?.(account)
+      },
+      'confirmed',
+    ),
+  ],
+  unsubscribe: (connection, id) => connection.removeAccountChangeListener(id),
+  poll: () => queryClient.invalidateQueries({ queryKey }),
+})
+
+/**
+ * Writes live updates of the selected proposal, its vote records, its governance and
+ * the token owner records of the user into the matching queries
+ */
+export const useSelectedProposalSubscriptions = () => {
+  const connection = useLegacyConnectionContext()
+  const realm = useRealmQuery().data?.result
+  const proposal = useRouteProposalQuery().data?.result
+  // the queries return new PublicKey instances on refetch, so the effect depends on the addresses
+  const programAddress = realm?.owner.toBase58()
+  const realmAddress = realm?.pubkey.toBase58()
+  const proposalAddress = proposal?.pubkey.toBase58()
+  const governanceAddress = proposal?.account.governance.toBase58()
+  const communityTokenOwnerRecordAddress =
+    useAddressQuery_CommunityTokenOwner().data?.toBase58()
+  const councilTokenOwnerRecordAddress =
+    useAddressQuery_CouncilTokenOwner().data?.toBase58()
+
+  useEffect(() => {
+    if (
+      !programAddress ||
+      !realmAddress ||
+      !proposalAddress ||
+      !governanceAddress
+    )
+      return
+
+    const programId = new PublicKey(programAddress)
+    const realmPk = new PublicKey(realmAddress)
+    const proposalPk = new PublicKey(proposalAddress)
+    const governancePk = new PublicKey(governanceAddress)
+    const { endpoint, cluster } = connection
+    const subscriptions: Subscription[] = [
+      accountSubscription(
+        proposalPk,
+        (accountInfo) =>
+          parseAccount<Proposal>(Proposal, proposalPk, accountInfo),
+        proposalQueryKeys.byPubkey(endpoint, proposalPk),
+        (account) =>
+          // keep the proposal lists of the realm in sync as well
+          queryClient.setQueriesData<ProgramAccount<Proposal>[]>(
+            [...proposalQueryKeys.all(endpoint), 'by Realm (gPA)'],
+            (proposals) =>
+              proposals?.map((x) =>
+                x.pubkey.equals(proposalPk) ? account : x,
+              ),
+          ),
+      ),
+      accountSubscription(
+        governancePk,
+        (accountInfo) =>
+          governanceWithDefaults(
+            parseAccount<Governance>(Governance, governancePk, accountInfo),
+          ),
+        governanceQueryKeys.byPubkey(endpoint, governancePk),
+      ),
+      {
+        subscribe: (connection) => [
+          connection.onProgramAccountChange(
+            programId,
+            ({ accountId, accountInfo }) => {
+              const closed = accountInfo.lamports === 0
+              if (
+                !closed &&
+                !VOTE_RECORD_ACCOUNT_TYPES.includes(accountInfo.data[0])
+              )
+                return
+              const voteRecord = closed
+                ? undefined
+                : parseAccount<VoteRecord>(VoteRecord, accountId, accountInfo)
+
+              queryClient.setQueryData(
+                voteRecordQueryKeys.byPubkey(cluster, accountId),
+                voteRecord
+                  ? { found: true, result: voteRecord }
+                  : CLOSED_ACCOUNT,
+              )
+              // the voters of the proposal
+              queryClient.setQueryData<ProgramAccount<VoteRecord>[]>(
+                voteRecordQueryKeys.byProposal(cluster, proposalPk),
+                (voteRecords) =>
+                  voteRecords && [
+                    ...voteRecords.filter((x) => !x.pubkey.equals(accountId)),
+                    ...(voteRecord ? [voteRecord] : []),
+                  ],
+              )
+              // the realm wide lists are refetched rather than patched
+              queryClient.invalidateQueries({
+                queryKey: voteRecordQueryKeys.byRealm(cluster, realmPk),
+              })
+            },
+            'confirmed',
+            // vote records and other proposal accounts start with the proposal
+            [{ memcmp: { offset: 1, bytes: proposalPk.toBase58() } }],
+          ),
+        ],
+        unsubscribe: (connection, id) =>
+          connection.removeProgramAccountChangeListener(id),
+        poll: () =>
+          queryClient.invalidateQueries({
+            queryKey: voteRecordQueryKeys.all(cluster),
+          }),
+      },
+      ...[communityTokenOwnerRecordAddress, councilTokenOwnerRecordAddress]
+        .filter((x): x is string => x !== undefined)
+        .map((x) => new PublicKey(x))
+        .map((x) =>
+          accountSubscription(
+            x,
+            (accountInfo) =>
+              parseAccount<TokenOwnerRecord>(TokenOwnerRecord, x, accountInfo),
+            tokenOwnerRecordQueryKeys.byPubkey(endpoint, x),
+          ),
+        ),
+    ]
+
+    return subscribeWithPollingFallback(connection.current, subscriptions)
+  }, [
+    connection,
+    programAddress,
+    realmAddress,
+    proposalAddress,
+    governanceAddress,
+    communityTokenOwnerRecordAddress,
+    councilTokenOwnerRecordAddress,
+  ])
+}
@@ -7,6 +7,7 @@ import useWalletOnePointOh from '@hooks/useWalletOnePointOh'
 import { TOKEN_PROGRAM_ID } from '@solana/spl-token'
 import { parseTokenAccountData } from '@utils/parseTokenAccountData'
 import { TokenAccount } from '@utils/tokens'
+import { loadAccountInfo } from './accountLoader'
 
 type TokenProgramAccount<T> = {
   publicKey: PublicKey
@@ -34,7 +35,7 @@ async function tryGetTokenAccount(
   publicKey: PublicKey,
 ): Promise<TokenProgramAccount<TokenAccount> | undefined> {
   try {
-    const result = await connection.getAccountInfo(publicKey)
+    const result = await loadAccountInfo(connection, publicKey)
 
     if (!result?.owner.equals(TOKEN_PROGRAM_ID)) {
       return undefined
@@ -1,10 +1,9 @@
 import {
   TokenOwnerRecord,
-  getGovernanceAccounts,
-  getTokenOwnerRecord,
   pubkeyFilter,
   booleanFilter,
 } from '@solana/spl-governance'
+import { getGovernanceAccounts } from '@models/dataSource'
 import { Connection, PublicKey } from '@solana/web3.js'
 import { useQuery } from '@tanstack/react-query'
 import asFindable from '@utils/queries/asFindable'
@@ -16,6 +15,11 @@ import { useRealmQuery } from './realm'
 import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
 import useWalletOnePointOh from '@hooks/useWalletOnePointOh'
 import queryClient from './queryClient'
+import {
+  accountFetchOptions,
+  AccountLoadOptions,
+  loadGovernanceAccount,
+} from './accountLoader'
 import mainnetBetaRealms from 'public/realms/mainnet-beta.json'
 import { determineVotingPowerType } from './governancePower'
 
@@ -115,6 +119,7 @@ export const useTokenOwnerRecordsForRealmQuery = () => {
         realm.owner,
         TokenOwnerRecord,
         [filter],
+        { staleWhileRefresh: true },
       )
 
       // This may or may not be resource intensive for big DAOs, and is not too useful
@@ -169,6 +174,7 @@ export const useCouncilTokenOwnerRecordsForRealmQuery = () => {
         realm.owner,
         TokenOwnerRecord,
         mintFilter ? [filter, mintFilter] : [filter],
+        { staleWhileRefresh: true },
       )
 
       // This may or may not be resource intensive for big DAOs, and is not too useful
@@ -223,6 +229,7 @@ export const useTokenOwnerRecordsDelegatedToUser = () => {
         realm.owner,
         TokenOwnerRecord,
         [realmFilter, hasDelegateFilter, delegatedToUserFilter],
+        { staleWhileRefresh: true },
       )
 
       // This may or may not be resource intensive for big DAOs, and is not too useful
@@ -242,8 +249,14 @@ export const useTokenOwnerRecordsDelegatedToUser = () => {
   return query
 }
 
-const queryFn = (connection: Connection, pubkey: PublicKey) =>
-  asFindable(getTokenOwnerRecord)(connection, pubkey)
+const queryFn = (
+  connection: Connection,
+  pubkey: PublicKey,
+  options?: AccountLoadOptions,
+) =>
+  asFindable(() =>
+    loadGovernanceAccount(connection, pubkey, TokenOwnerRecord, options),
+  )()
 
 export const useTokenOwnerRecordByPubkeyQuery = (
   pubkey: PublicKey | undefined,
@@ -259,7 +272,7 @@ export const useTokenOwnerRecordByPubkeyQuery = (
       : undefined,
     queryFn: async () => {
       if (!enabled) throw new Error()
-      return queryFn(connection.current, pubkey)
+      return queryFn(connection.current, pubkey, { staleWhileRefresh: true })
     },
     enabled,
   })
@@ -275,6 +288,7 @@ export const fetchTokenOwnerRecordByPubkey = (
       connection.rpcEndpoint,
       pubkey,
     ),
+    ...accountFetchOptions(connection, pubkey),
     queryFn: () => queryFn(connection, pubkey),
   })
 
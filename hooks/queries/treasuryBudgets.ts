@@ -0,0 +1,224 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import { useQuery } from '@tanstack/react-query'
+import {
+  InstructionData,
+  ProgramAccount,
+  ProposalState,
+  ProposalTransaction,
+  pubkeyFilter,
+  SYSTEM_PROGRAM_ID,
+} from '@solana/spl-governance'
+import { getGovernanceAccounts } from '@models/dataSource'
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token-new'
+import BigNumber from 'bignumber.js'
+import BN from 'bn.js'
+import { WSOL_MINT } from '@components/instructions/tools'
+import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import { BudgetSpend, getBurnRateWindowStart } from '@models/treasury/Budget'
+import { chunks } from '@utils/helpers'
+import { useRealmProposalsQuery } from './proposal'
+import { useRealmQuery } from './realm'
+
+const SYSTEM_TRANSFER = 2
+const TOKEN_TRANSFER = 3
+const TOKEN_TRANSFER_CHECKED = 12
+const SOL_DECIMALS = 9
+const MINT_DECIMALS_OFFSET = 44
+const MAX_ACCOUNTS_PER_CALL = 100
+const PROPOSALS_PER_BATCH = 10
+
+const EXECUTED_STATES = [
+  ProposalState.Executing,
+  ProposalState.ExecutingWithErrors,
+  ProposalState.Completed,
+]
+
+export const treasuryBudgetsQueryKeys = {
+  all: (endpoint: string) => [endpoint, 'TreasuryBudgets'],
+  executedTransfers: (endpoint: string, realm: string, proposals: string[]) => [
+    ...treasuryBudgetsQueryKeys.all(endpoint),
+    'ExecutedTransfers',
+    realm,
+    [...proposals].sort(),
+  ],
+}
+
+// a transfer with its mint, or the source token account the mint is read from
+type DecodedTransfer = { amount: BN } & (
+  | { mint: PublicKey; decimals: number }
+  | { source: PublicKey }
+)
+
+/** Amount and mint, or source account, of a SOL, SPL token or token 2022 transfer, null for any other instruction */
+export function decodeTransfer(
+  instruction: InstructionData,
+): DecodedTransfer | null {
+  const data = Buffer.from(instruction.data)
+  if (
+    instruction.programId.equals(TOKEN_PROGRAM_ID) ||
+    instruction.programId.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    // Transfer: [3, amount u64], accounts source, destination, authority
+    if (data[0] === TOKEN_TRANSFER && data.length >= 9) {
+      return {
+        source: instruction.accounts[0].pubkey,
+        amount: new BN(data.subarray(1, 9), 'le'),
+      }
+    }
+    // TransferChecked: [12, amount u64, decimals u8], accounts source, mint, destination, authority
+    if (data[0] === TOKEN_TRANSFER_CHECKED && data.length >= 10) {
+      return {
+        mint: instruction.accounts[1].pubkey,
+        decimals: data[9],
+        amount: new BN(data.subarray(1, 9), 'le'),
+      }
+    }
+    return null
+  }
+  if (
+    instruction.programId.equals(SYSTEM_PROGRAM_ID) &&
+    data.length >= 12 &&
+    data.readUInt32LE(0) === SYSTEM_TRANSFER
+  ) {
+    return {
+      mint: new PublicKey(WSOL_MINT),
+      decimals: SOL_DECIMALS,
+      amount: new BN(data.subarray(4, 12), 'le'),
+    }
+  }
+  return null
+}
+
+const getAccountsData = async (connection: Connection, keys: PublicKey[]) => {
+  const unique = [...new Set(keys.map((x) => x.toBase58()))]
+  const accounts = (
+    await Promise.all(
+      chunks(unique, MAX_ACCOUNTS_PER_CALL).map((x) =>
+        connection.getMultipleAccountsInfo(x.map((k) => new PublicKey(k))),
+      ),
+    )
+  ).flat()
+  return new Map(unique.map((k, i) => [k, accounts[i]?.data]))
+}
+
+/**
+ * Mint and ui amount of the transfers among the instructions, null for the other instructions and for
+ * transfers whose source token account no longer exists. The source accounts and mints of all the
+ * instructions are read in batches.
+ */
+export async function decodeBudgetTransfers(
+  connection: Connection,
+  instructions: InstructionData[],
+) {
+  const transfers = instructions.map(decodeTransfer)
+
+  // Transfer has no mint, it's in the first 32 bytes of the source token account
+  const sources = await getAccountsData(
+    connection,
+    transfers.flatMap((x) => (x && 'source' in x ? [x.source] : [])),
+  )
+  const mintOf = (x: DecodedTransfer) => {
+    if ('mint' in x) return x.mint
+    const source = sources.get(x.source.toBase58())
+    return source ? new PublicKey(source.subarray(0, 32)) : null
+  }
+  // the decimals of a mint are at the same offset in both token programs
+  const mints = await getAccountsData(
+    connection,
+    transfers.flatMap((x) => {
+      const mint = x && !('decimals' in x) ? mintOf(x) : null
+      return mint ? [mint] : []
+    }),
+  )
+
+  return transfers.map((x) => {
+    if (!x) return null
+    const mint = mintOf(x)
+    const decimals =
+      'decimals' in x
+        ? x.decimals
+        : mint && mints.get(mint.toBase58())?.[MINT_DECIMALS_OFFSET]
+    if (!mint || decimals == null) return null
+    return {
+      mint: mint.toBase58(),
+      amount: new BigNumber(x.amount.toString()).shiftedBy(-decimals),
+    }
+  })
+}
+
+/** Transfers executed by the realm proposals during the burn rate window */
+export const useExecutedTransfersQuery = () => {
+  const connection = useLegacyConnectionContext()
+  const realm = useRealmQuery().data?.result
+  const proposals = useRealmProposalsQuery().data
+
+  const since = getBurnRateWindowStart(new Date())
+  const executed = (proposals ?? []).filter(
+    (x) =>
+      EXECUTED_STATES.includes(x.account.state) &&
+      (!x.account.closedAt || x.account.closedAt.toNumber() >= since),
+  )
+
+  const enabled = realm !== undefined && proposals !== undefined
+  return useQuery({
+    queryKey: enabled
+      ? treasuryBudgetsQueryKeys.executedTransfers(
+          connection.endpoint,
+          realm.pubkey.toBase58(),
+          executed.map((x) => x.pubkey.toBase58()),
+        )
+      : undefined,
+    queryFn: async () => {
+      if (!enabled) throw new Error()
+
+      // a few proposals at a time, long lived realms have executed a lot of them
+      const transactions: {
+        proposal: (typeof executed)[number]
+        transaction: ProgramAccount<ProposalTransaction>
+      }[] = []
+      for (const chunk of chunks(executed, PROPOSALS_PER_BATCH)) {
+        const results = await Promise.all(
+          chunk.map((proposal) =>
+            getGovernanceAccounts(
+              connection.current,
+              realm.owner,
+              ProposalTransaction,
+              [pubkeyFilter(1, proposal.pubkey)!],
+              { staleWhileRefresh: true },
+            ),
+          ),
+        )
+        results.forEach((x, i) =>
+          transactions.push(
+            ...x.map((transaction) => ({ proposal: chunk[i], transaction })),
+          ),
+        )
+      }
+
+      const instructions = transactions.flatMap(({ proposal, transaction }) => {
+        const executedAt = transaction.account.executedAt?.toNumber()
+        if (!executedAt || executedAt < since) return []
+        return transaction.account
+          .getAllInstructions()
+          .map((instruction) => ({ proposal, executedAt, instruction }))
+      })
+      const transfers = await decodeBudgetTransfers(
+        connection.current,
+        instructions.map((x) => x.instruction),
+      )
+
+      return instructions.flatMap(({ proposal, executedAt }, i) => {
+        const transfer = transfers[i]
+        if (!transfer) return []
+        const spend: BudgetSpend = {
+          ...transfer,
+          governance: proposal.account.governance.toBase58(),
+          proposal: proposal.pubkey.toBase58(),
+          executedAt,
+        }
+        return [spend]
+      })
+    },
+    enabled,
+  })
+}
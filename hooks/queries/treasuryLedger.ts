@@ -0,0 +1,81 @@
+import { useConnection } from '@solana/wallet-adapter-react'
+import { PublicKey } from '@solana/web3.js'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import {
+  LedgerCursor,
+  mergeSignaturePages,
+  parseLedgerEntry,
+} from '@models/treasury/Ledger'
+import { useRealmQuery } from './realm'
+
+export const LEDGER_PAGE_SIZE = 25
+
+export const treasuryLedgerQueryKeys = {
+  all: (endpoint: string) => [endpoint, 'TreasuryLedger'],
+  byAddresses: (endpoint: string, addresses: string[]) => [
+    ...treasuryLedgerQueryKeys.all(endpoint),
+    [...addresses].sort(),
+  ],
+}
+
+/**
+ * Decoded transaction history of a wallet, newest first. Each page walks getSignaturesForAddress
+ * backwards for every address, the wallet, its governance and token accounts
+ */
+export const useTreasuryLedgerQuery = (addresses: string[]) => {
+  const { connection } = useConnection()
+  const realm = useRealmQuery().data?.result
+
+  const enabled = addresses.length > 0 && realm !== undefined
+  return useInfiniteQuery({
+    queryKey: enabled
+      ? treasuryLedgerQueryKeys.byAddresses(connection.rpcEndpoint, addresses)
+      : undefined,
+    queryFn: async ({ pageParam = {} as LedgerCursor }) => {
+      if (!enabled) throw new Error()
+
+      const pages = await Promise.all(
+        addresses
+          .filter((address) => pageParam[address] !== null)
+          .map(async (address) => ({
+            address,
+            signatures: await connection.getSignaturesForAddress(
+              new PublicKey(address),
+              {
+                limit: LEDGER_PAGE_SIZE,
+                before: pageParam[address] ?? undefined,
+              },
+              'confirmed',
+            ),
+          })),
+      )
+      const { signatures, cursor, done } = mergeSignaturePages(
+        pages,
+        pageParam,
+        LEDGER_PAGE_SIZE,
+      )
+      const transactions = await connection.getParsedTransactions(
+        signatures.map((x) => x.signature),
+        { commitment: 'confirmed', maxSupportedTransactionVersion: 0 },
+      )
+
+      return {
+        entries: signatures.flatMap((x, i) => {
+          const transaction = transactions[i]
+          return transaction
+            ? [
+                parseLedgerEntry(x.signature, transaction, addresses, [
+                  realm.owner.toBase58(),
+                ]),
+              ]
+            : []
+        }),
+        cursor,
+        done,
+      }
+    },
+    getNextPageParam: (lastPage) =>
+      lastPage.done ? undefined : lastPage.cursor,
+    enabled,
+  })
+}
@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query'
+import { TreasurySnapshot } from '@models/treasury/Snapshot'
+import { useRealmQuery } from './realm'
+
+const URL = '/api/treasurySnapshots'
+
+export const treasurySnapshotsQueryKeys = {
+  all: ['TreasurySnapshots'],
+  byRealm: (realm: string) => [...treasurySnapshotsQueryKeys.all, realm],
+}
+
+export const useTreasurySnapshotsQuery = () => {
+  const realm = useRealmQuery().data?.result
+
+  const enabled = realm !== undefined
+  return useQuery({
+    queryKey: enabled
+      ? treasurySnapshotsQueryKeys.byRealm(realm.pubkey.toBase58())
+      : undefined,
+    queryFn: async () => {
+      if (!enabled) throw new Error()
+      const response = await fetch(`${URL}?realm=${realm.pubkey.toBase58()}`)
+      if (!response.ok) throw new Error(await response.text())
+      return (await response.json()) as TreasurySnapshot[]
+    },
+    enabled,
+  })
+}
@@ -1,16 +1,17 @@
 import { EndpointTypes } from '@models/types'
 import {
+  ProgramAccount,
   VoteRecord,
-  getGovernanceAccounts,
-  getVoteRecord,
   pubkeyFilter,
 } from '@solana/spl-governance'
+import { getGovernanceAccounts } from '@models/dataSource'
 import { Connection, PublicKey } from '@solana/web3.js'
 import { useQuery } from '@tanstack/react-query'
 import { getNetworkFromEndpoint } from '@utils/connection'
 import asFindable from '@utils/queries/asFindable'
 import { useAddressQuery_SelectedProposalVoteRecord } from './addresses/voteRecord'
 import queryClient from './queryClient'
+import { accountFetchOptions, loadGovernanceAccount } from './accountLoader'
 import { useRealmQuery } from './realm'
 import { useVotingPop } from '@components/VotePanel/hooks'
 import {
@@ -18,6 +19,12 @@ import {
   useAddressQuery_CouncilTokenOwner,
 } from './addresses/tokenOwnerRecord'
 import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import { getVoteRecords } from '@models/proposal'
+import { isNone } from 'fp-ts/Option'
+import { useRealmProposalsQuery } from './proposal'
+import { chunks } from '@utils/helpers'
+
+const PROPOSALS_PER_BATCH = 10
 
 export const voteRecordQueryKeys = {
   all: (cluster: EndpointTypes) => [cluster, 'VoteRecord'],
@@ -30,6 +37,16 @@ export const voteRecordQueryKeys = {
     realm: PublicKey,
     owner: PublicKey,
   ) => [...voteRecordQueryKeys.all(cluster), realm, owner],
+  byRealm: (cluster: EndpointTypes, realm: PublicKey) => [
+    ...voteRecordQueryKeys.all(cluster),
+    'by Realm',
+    realm,
+  ],
+  byProposal: (cluster: EndpointTypes, proposal: PublicKey) => [
+    ...voteRecordQueryKeys.all(cluster),
+    'by Proposal',
+    proposal.toString(),
+  ],
 }
 
 // currently unused
@@ -53,7 +70,11 @@ export const useVoteRecordByPubkeyQuery = (pubkey: PublicKey | undefined) => {
       : undefined,
     queryFn: async () => {
       if (!enabled) throw new Error()
-      return asFindable(getVoteRecord)(connection.current, pubkey)
+      return asFindable(() =>
+        loadGovernanceAccount(connection.current, pubkey, VoteRecord, {
+          staleWhileRefresh: true,
+        }),
+      )()
     },
     enabled,
   })
@@ -82,6 +103,7 @@ export const useVoteRecordsByOwnerQuery = (owner: PublicKey | undefined) => {
         realm.owner,
         VoteRecord,
         [pubkeyFilter(33, owner)!],
+        { staleWhileRefresh: true },
       )
 
       // since we got the data for these accounts, lets save it
@@ -107,7 +129,9 @@ export const fetchVoteRecordByPubkey = (
   const cluster = getNetworkFromEndpoint(connection.rpcEndpoint)
   return queryClient.fetchQuery({
     queryKey: voteRecordQueryKeys.byPubkey(cluster, pubkey),
-    queryFn: () => asFindable(getVoteRecord)(connection, pubkey),
+    ...accountFetchOptions(connection, pubkey),
+    queryFn: () =>
+      asFindable(() => loadGovernanceAccount(connection, pubkey, VoteRecord))(),
   })
 }
 
@@ -137,3 +161,81 @@ export const useProposalVoteRecordQuery = (quorum: 'electoral' | 'veto') => {
 
   return useVoteRecordByPubkeyQuery(pda.data)
 }
+
+/** Vote records of a proposal, kept up to date by the proposal subscriptions */
+export const useProposalVoteRecordsQuery = (
+  proposalPk: PublicKey | undefined,
+) => {
+  const connection = useLegacyConnectionContext()
+  const realm = useRealmQuery().data?.result
+
+  const enabled = realm !== undefined && proposalPk !== undefined
+  return useQuery({
+    queryKey: enabled
+      ? voteRecordQueryKeys.byProposal(connection.cluster, proposalPk)
+      : undefined,
+    queryFn: async () => {
+      if (!enabled) throw new Error()
+
+      const results = await getVoteRecords({
+        connection: connection.current,
+        programId: realm.owner,
+        proposalPk,
+      })
+      if (isNone(results)) throw new Error('Could not fetch vote records')
+      return results.value
+    },
+    enabled,
+  })
+}
+
+/**
+ * Vote records of the proposals, one gPA per proposal and a few proposals at a time.
+ * Proposals whose vote records could not be fetched are returned in failedProposals.
+ */
+export const getVoteRecordsOfProposals = async (
+  connection: Connection,
+  programId: PublicKey,
+  proposals: PublicKey[],
+) => {
+  const voteRecords: ProgramAccount<VoteRecord>[] = []
+  const failedProposals: PublicKey[] = []
+  for (const chunk of chunks(proposals, PROPOSALS_PER_BATCH)) {
+    const results = await Promise.all(
+      chunk.map((proposalPk) =>
+        getVoteRecords({ connection, programId, proposalPk }),
+      ),
+    )
+    results.forEach((x, i) => {
+      if (isNone(x)) failedProposals.push(chunk[i])
+      else voteRecords.push(...x.value)
+    })
+  }
+  if (proposals.length && failedProposals.length === proposals.length) {
+    throw new Error('Could not fetch vote records')
+  }
+  return { voteRecords, failedProposals }
+}
+
+/** Vote records of every proposal of the realm, stats built from them are incomplete when some proposals failed */
+export const useRealmVoteRecordsQuery = () => {
+  const connection = useLegacyConnectionContext()
+  const realm = useRealmQuery().data?.result
+  const { data: proposals } = useRealmProposalsQuery()
+
+  const enabled = realm !== undefined && proposals !== undefined
+  return useQuery({
+    queryKey: enabled
+      ? voteRecordQueryKeys.byRealm(connection.cluster, realm.pubkey)
+      : undefined,
+    queryFn: async () => {
+      if (!enabled) throw new Error()
+      return getVoteRecordsOfProposals(
+        connection.current,
+        realm.owner,
+        proposals.map((x) => x.pubkey),
+      )
+    },
+    enabled,
+  })
+}
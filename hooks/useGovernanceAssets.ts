@@ -336,6 +336,11 @@ export default function useGovernanceAssets() {
       isVisible: canUseTokenTransferInstruction,
       packageId: PackageEnum.Common,
     },
+    [Instructions.BatchPayouts]: {
+      name: 'Batch payouts',
+      isVisible: canUseTokenTransferInstruction,
+      packageId: PackageEnum.Common,
+    },
     [Instructions.Burn]: {
       name: 'Burn Tokens',
       isVisible: canUseTokenTransferInstruction,
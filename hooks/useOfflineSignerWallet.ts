@@ -0,0 +1,39 @@
+import { SignerWalletAdapter } from '@solana/wallet-adapter-base'
+import { PublicKey } from '@solana/web3.js'
+import { useMemo } from 'react'
+import useOfflineSigningStore from 'stores/useOfflineSigningStore'
+
+/**
+ * Wallet standing in for an air gapped signer. It can't sign, the send utils export the transactions
+ * it pays for instead, see utils/offlineSigning
+ */
+const useOfflineSignerWallet = () => {
+  const signer = useOfflineSigningStore((s) => s.signer)
+
+  return useMemo(() => {
+    if (!signer) {
+      return undefined
+    }
+    const err = () => {
+      throw new Error(
+        'The offline signer cannot sign in the browser, export the transactions instead',
+      )
+    }
+    return {
+      publicKey: new PublicKey(signer),
+      signTransaction: err,
+      signAllTransactions: err,
+      signMessage: err,
+      connected: true,
+      connecting: false,
+      readyState: 'Installed',
+      connect: err,
+      disconnect: async () =>
+        useOfflineSigningStore.getState().setSigner(undefined),
+      name: 'Offline signer',
+      supportedTransactionVersions: new Set([0, 'legacy']),
+      OFFLINE_SIGNER: true,
+    } as unknown as SignerWalletAdapter
+  }, [signer])
+}
+export default useOfflineSignerWallet
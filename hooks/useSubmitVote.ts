@@ -17,7 +17,7 @@ import {
 import { getProgramVersionForRealm } from '@models/registry/api'
 import queryClient from './queries/queryClient'
 import { voteRecordQueryKeys } from './queries/voteRecord'
-import { castVote } from 'actions/castVote'
+import { castVote, DelegatorVoteError } from 'actions/castVote'
 import { NftVoterClient } from '@utils/uiTypes/NftVoterClient'
 import { notify } from '@utils/notifications'
 import { useRealmQuery } from './queries/realm'
@@ -33,6 +33,25 @@ import { useVotingClients } from '@hooks/useVotingClients'
 import { useNftClient } from '../VoterWeightPlugins/useNftClient'
 import { useRealmVoterWeightPlugins } from './useRealmVoterWeightPlugins'
 import { Wallet, useWallet } from '@solana/wallet-adapter-react'
+import { abbreviateAddress } from '@hub/lib/abbreviateAddress'
+
+export const notifyDelegatorVoteErrors = (errors: DelegatorVoteError[]) => {
+  if (!errors.length) return
+  notify({
+    type: 'error',
+    message: `Could not vote for ${errors.length} delegator${
+      errors.length === 1 ? '' : 's'
+    }`,
+    description: errors
+      .map(
+        (x) =>
+          `${abbreviateAddress(x.walletPk ?? x.tokenOwnerRecordPk)}: ${
+            x.error instanceof Error ? x.error.message : String(x.error)
+          }`,
+      )
+      .join(', '),
+  })
+}
 
 export const useSubmitVote = () => {
   const wallet = useWalletOnePointOh()
@@ -143,7 +162,7 @@ export const useSubmitVote = () => {
 
       const votingClient = votingClients(role)
       try {
-        await castVote(
+        const delegatorErrors = await castVote(
           rpcContext,
           walletContext.wallet as Wallet,
           realm,
@@ -157,6 +176,7 @@ export const useSubmitVote = () => {
           relevantDelegators,
           ownVoterWeight?.value,
         )
+        notifyDelegatorVoteErrors(delegatorErrors)
         queryClient.invalidateQueries({
           queryKey: proposalQueryKeys.all(connection.current.rpcEndpoint),
         })
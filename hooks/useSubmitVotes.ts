@@ -0,0 +1,140 @@
+import { useAsyncCallback } from 'react-async-hook'
+import {
+  ChatMessageBody,
+  ChatMessageBodyType,
+  getTokenOwnerRecordAddress,
+  ProgramAccount,
+  Proposal,
+  RpcContext,
+  VoteKind,
+} from '@solana/spl-governance'
+import { Wallet, useWallet } from '@solana/wallet-adapter-react'
+import { Ballot, castVotes } from 'actions/castVotes'
+import { useBatchedVoteDelegators } from '@components/VotePanel/useDelegators'
+import { getProgramVersionForRealm } from '@models/registry/api'
+import { useSelectedDelegatorStore } from 'stores/useSelectedDelegatorStore'
+import queryClient from './queries/queryClient'
+import { proposalQueryKeys } from './queries/proposal'
+import { useRealmQuery } from './queries/realm'
+import { voteRecordQueryKeys } from './queries/voteRecord'
+import useLegacyConnectionContext from './useLegacyConnectionContext'
+import useRealm from './useRealm'
+import { notifyDelegatorVoteErrors } from './useSubmitVote'
+import { useRealmVoterWeightPlugins } from './useRealmVoterWeightPlugins'
+import { useVotingClients } from './useVotingClients'
+import useWalletOnePointOh from './useWalletOnePointOh'
+
+export interface QueuedVote {
+  proposal: ProgramAccount<Proposal>
+  voteKind: Exclude<VoteKind, VoteKind.Veto>
+  voteWeights?: number[]
+  comment?: string
+}
+
+/** Submits the votes of a voting queue, see castVotes */
+export const useSubmitVotes = () => {
+  const wallet = useWalletOnePointOh()
+  const walletContext = useWallet()
+  const connection = useLegacyConnectionContext()
+  const realm = useRealmQuery().data?.result
+  const { realmInfo } = useRealm()
+  const votingClients = useVotingClients()
+
+  const selectedCommunityDelegator = useSelectedDelegatorStore(
+    (s) => s.communityDelegator,
+  )
+  const selectedCouncilDelegator = useSelectedDelegatorStore(
+    (s) => s.councilDelegator,
+  )
+  const communityDelegators = useBatchedVoteDelegators('community')
+  const councilDelegators = useBatchedVoteDelegators('council')
+
+  const { voterWeightForWallet: voterWeightForWalletCommunity } =
+    useRealmVoterWeightPlugins('community')
+  const { voterWeightForWallet: voterWeightForWalletCouncil } =
+    useRealmVoterWeightPlugins('council')
+
+  const { error, loading, execute } = useAsyncCallback(
+    async (votes: QueuedVote[]) => {
+      if (!realm) throw new Error()
+      if (!wallet?.publicKey) throw new Error()
+
+      const rpcContext = new RpcContext(
+        realm.owner,
+        getProgramVersionForRealm(realmInfo!),
+        wallet,
+        connection.current,
+        connection.endpoint,
+      )
+
+      const ballots: Ballot[] = await Promise.all(
+        votes.map(async ({ proposal, voteKind, voteWeights, comment }) => {
+          const role = proposal.account.governingTokenMint.equals(
+            realm.account.communityMint,
+          )
+            ? 'community'
+            : 'council'
+          const selectedDelegator =
+            role === 'community'
+              ? selectedCommunityDelegator
+              : selectedCouncilDelegator
+          const actingAsWalletPk = selectedDelegator ?? wallet.publicKey!
+          const voterWeightForWallet =
+            role === 'community'
+              ? voterWeightForWalletCommunity
+              : voterWeightForWalletCouncil
+
+          return {
+            proposal,
+            voteKind,
+            voteWeights,
+            message: comment
+              ? new ChatMessageBody({
+                  type: ChatMessageBodyType.Text,
+                  value: comment,
+                })
+              : undefined,
+            tokenOwnerRecord: await getTokenOwnerRecordAddress(
+              realm.owner,
+              realm.pubkey,
+              proposal.account.governingTokenMint,
+              actingAsWalletPk,
+            ),
+            voterWeight: voterWeightForWallet(actingAsWalletPk)?.value ?? null,
+            delegatorTokenOwnerRecords: (role === 'community'
+              ? communityDelegators
+              : councilDelegators
+            )?.map((x) => x.pubkey),
+          }
+        }),
+      )
+
+      const delegatorErrors = await castVotes(
+        rpcContext,
+        walletContext.wallet as Wallet,
+        realm,
+        ballots,
+        votingClients,
+        () =>
+          queryClient.invalidateQueries(
+            voteRecordQueryKeys.all(connection.cluster),
+          ),
+      )
+      notifyDelegatorVoteErrors(delegatorErrors)
+      queryClient.invalidateQueries({
+        queryKey: proposalQueryKeys.all(connection.current.rpcEndpoint),
+      })
+      if (votes.some((x) => x.comment)) {
+        queryClient.invalidateQueries({
+          queryKey: [connection.cluster, 'ChatMessages'],
+        })
+      }
+    },
+  )
+
+  return {
+    error,
+    submitting: loading,
+    submitVotes: execute,
+  }
+}
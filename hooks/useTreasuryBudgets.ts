@@ -0,0 +1,87 @@
+import { useCallback, useMemo } from 'react'
+import { InstructionData } from '@solana/spl-governance'
+import { PublicKey } from '@solana/web3.js'
+import BigNumber from 'bignumber.js'
+import { WSOL_MINT } from '@components/instructions/tools'
+import { useRealmQuery } from '@hooks/queries/realm'
+import {
+  decodeBudgetTransfers,
+  useExecutedTransfersQuery,
+} from '@hooks/queries/treasuryBudgets'
+import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import { AssetType } from '@models/treasury/Asset'
+import {
+  findBudgetOverruns,
+  getBudgetStatus,
+  TreasuryBudget,
+} from '@models/treasury/Budget'
+import { Wallet } from '@models/treasury/Wallet'
+import useTreasuryBudgetsStore from 'stores/useTreasuryBudgetsStore'
+
+const NO_BUDGETS: TreasuryBudget[] = []
+
+const getWalletBalance = (wallet: Wallet | undefined, mint: string) =>
+  (wallet?.assets ?? []).reduce(
+    (acc, asset) =>
+      (asset.type === AssetType.Sol && mint === WSOL_MINT) ||
+      (asset.type === AssetType.Token && asset.mintAddress === mint)
+        ? acc.plus(asset.count)
+        : acc,
+    new BigNumber(0),
+  )
+
+const useGovernanceBudgets = (governance: string | undefined) => {
+  const realm = useRealmQuery().data?.result?.pubkey.toBase58()
+  return useTreasuryBudgetsStore((s) =>
+    realm && governance
+      ? s.budgets[realm]?.[governance] ?? NO_BUDGETS
+      : NO_BUDGETS,
+  )
+}
+
+/**
+ * Budget statuses of a governance. Without the wallet the balances, and so the runway, are zero
+ */
+export default function useTreasuryBudgets(
+  governance: string | undefined,
+  wallet?: Wallet,
+) {
+  const budgets = useGovernanceBudgets(governance)
+  const transfers = useExecutedTransfersQuery()
+
+  const statuses = useMemo(() => {
+    const spends = (transfers.data ?? []).filter(
+      (x) => x.governance === governance,
+    )
+    return budgets.map((budget) =>
+      getBudgetStatus(budget, spends, getWalletBalance(wallet, budget.mint)),
+    )
+  }, [budgets, transfers.data, governance, wallet])
+
+  return {
+    budgets,
+    statuses,
+    isLoading: transfers.isLoading,
+  }
+}
+
+/** Checks the transfers of a new proposal against the remaining budgets of its governance */
+export function useBudgetCheck(governance: PublicKey | undefined) {
+  const connection = useLegacyConnectionContext()
+  const { statuses } = useTreasuryBudgets(governance?.toBase58())
+
+  return useCallback(
+    async (instructions: InstructionData[]) => {
+      if (!statuses.length) return []
+      const transfers = await decodeBudgetTransfers(
+        connection.current,
+        instructions,
+      )
+      return findBudgetOverruns(
+        transfers.flatMap((x) => (x ? [x] : [])),
+        statuses,
+      )
+    },
+    [connection, statuses],
+  )
+}
@@ -11,7 +11,7 @@ import {
 } from '@solana/spl-governance'
 
 import useRpcContext from '@hooks/useRpcContext'
-import { getVoteRecords, getTokenOwnerRecords } from '@models/proposal'
+import { getTokenOwnerRecords } from '@models/proposal'
 import useRealm from '@hooks/useRealm'
 import { buildTopVoters } from '@models/proposal'
 import { getLockTokensVotingPowerPerWallet } from 'VoteStakeRegistry/tools/deposits'
@@ -19,6 +19,7 @@ import { BN } from '@coral-xyz/anchor'
 import useGovernanceAssetsStore from 'stores/useGovernanceAssetsStore'
 import { PublicKey } from '@solana/web3.js'
 import { useRealmQuery } from './queries/realm'
+import { useProposalVoteRecordsQuery } from './queries/voteRecord'
 import {
   useRealmCommunityMintInfoQuery,
   useRealmCouncilMintInfoQuery,
@@ -32,11 +33,15 @@ import { useAsync } from 'react-async-hook'
 import { useVsrClient } from '../VoterWeightPlugins/useVsrClient'
 import { useNftRegistrar } from '@hooks/useNftRegistrar'
 
+// a stable empty list, the memos below depend on the vote records
+const NO_VOTE_RECORDS: ProgramAccount<VoteRecord>[] = []
+
 export default function useVoteRecords(proposal?: ProgramAccount<Proposal>) {
   const { getRpcContext } = useRpcContext()
-  const [voteRecords, setVoteRecords] = useState<ProgramAccount<VoteRecord>[]>(
-    [],
+  const { data: proposalVoteRecords } = useProposalVoteRecordsQuery(
+    proposal?.pubkey,
   )
+  const voteRecords = proposalVoteRecords ?? NO_VOTE_RECORDS
   const [tokenOwnerRecords, setTokenOwnerRecords] = useState<
     ProgramAccount<TokenOwnerRecord>[]
   >([])
@@ -123,21 +128,6 @@ export default function useVoteRecords(proposal?: ProgramAccount<Proposal>) {
 
   useEffect(() => {
     if (context && proposal && realm) {
-      // fetch vote records
-      pipe(
-        () =>
-          getVoteRecords({
-            connection: context.connection,
-            programId: context.programId,
-            proposalPk: proposal.pubkey,
-          }),
-        fromTaskOption(() => new Error('Could not fetch vote records')),
-        matchW((reason) => {
-          console.log(reason)
-          setVoteRecords([])
-        }, setVoteRecords),
-      )()
-
       // fetch token records
       pipe(
         () =>
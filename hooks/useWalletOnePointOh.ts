@@ -1,5 +1,6 @@
 import { useWallet } from '@solana/wallet-adapter-react'
 import useViewAsWallet from './useViewAsWallet'
+import useOfflineSignerWallet from './useOfflineSignerWallet'
 import { SignerWalletAdapter } from '@solana/wallet-adapter-base'
 
 /** Why does this have such a weird name?
@@ -10,8 +11,9 @@ import { SignerWalletAdapter } from '@solana/wallet-adapter-base'
 export default function useWalletOnePointOh() {
   const { wallet } = useWallet()
   const debugAdapter = useViewAsWallet()
+  const offlineAdapter = useOfflineSignerWallet()
 
   const adapter =
     wallet !== null ? (wallet.adapter as SignerWalletAdapter) : undefined
-  return debugAdapter ?? adapter
+  return debugAdapter ?? offlineAdapter ?? adapter
 }
@@ -19,6 +19,8 @@ const directories = readdirSync(__dirname, { withFileTypes: true })
 const customConfig = {
   moduleNameMapper: directories,
   setupFilesAfterEnv: ['<rootDir>/test/setup.js'],
+  // the e2e suites need a local validator, see jest.e2e.config.js
+  testPathIgnorePatterns: ['<rootDir>/node_modules/', '<rootDir>/test/e2e/'],
   moduleDirectories: ['node_modules', '<rootDir>/'],
   transform: {
     '^.+\\.(t|j)sx?$': 'ts-jest',
@@ -0,0 +1,19 @@
+const baseConfig = require('./jest.config')
+
+// End to end suites against a solana-test-validator, see test/e2e/validator.ts
+module.exports = async () => {
+  const config = await baseConfig()
+  return {
+    ...config,
+    testEnvironment: 'node',
+    testMatch: ['<rootDir>/test/e2e/**/*.e2e.test.ts'],
+    testPathIgnorePatterns: ['<rootDir>/node_modules/'],
+    setupFilesAfterEnv: [
+      ...config.setupFilesAfterEnv,
+      '<rootDir>/test/e2e/setup.ts',
+    ],
+    globalSetup: '<rootDir>/test/e2e/globalSetup.ts',
+    globalTeardown: '<rootDir>/test/e2e/globalTeardown.ts',
+    testTimeout: 120000,
+  }
+}
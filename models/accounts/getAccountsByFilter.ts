@@ -1,10 +1,10 @@
 import {
-  getGovernanceAccounts,
   GovernanceAccount,
   GovernanceAccountClass,
   ProgramAccount,
   MemcmpFilter,
 } from '@solana/spl-governance'
+import { getGovernanceAccounts } from '@models/dataSource'
 import { Connection, PublicKey } from '@solana/web3.js'
 import { pipe } from 'fp-ts/function'
 import { tryCatch, map, match } from 'fp-ts/TaskEither'
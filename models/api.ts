@@ -1,11 +1,7 @@
 import { Connection, PublicKey } from '@solana/web3.js'
 
-import {
-  booleanFilter,
-  getGovernanceAccounts,
-  VoteRecord,
-  Proposal,
-} from '@solana/spl-governance'
+import { booleanFilter, VoteRecord, Proposal } from '@solana/spl-governance'
+import { getGovernanceAccounts } from '@models/dataSource'
 
 import { pubkeyFilter, MemcmpFilter } from '@solana/spl-governance'
 import { arrayToRecord } from '@tools/core/script'
@@ -0,0 +1,151 @@
+import * as localforage from 'localforage'
+import { AccountInfo, PublicKey } from '@solana/web3.js'
+import { IndexedAccount } from './GovernanceDataSource'
+
+const SLOT_MS = 400
+// cached accounts further behind are still used when the RPC is down, but not shown on page load
+const MAX_SLOTS_BEHIND = (7 * 24 * 60 * 60 * 1000) / SLOT_MS
+
+const MAX_ENTRY_AGE = 30 * 24 * 60 * 60 * 1000
+
+// a background refresh serves the refetches of the queries it invalidates for this long
+export const BACKGROUND_REFRESH_TTL = 30 * 1000
+
+export interface AccountCacheEntry {
+  // the slot the accounts were read at
+  slot: number
+  savedAt: number
+  // empty when the account does not exist
+  accounts: IndexedAccount[]
+}
+
+export const accountCacheKeys = {
+  account: (endpoint: string, pubkey: PublicKey) =>
+    `${endpoint}/account/${pubkey.toBase58()}`,
+  programAccounts: (endpoint: string, request: unknown) =>
+    `${endpoint}/gpa/${JSON.stringify(request)}`,
+}
+
+export const toIndexedAccount = (
+  pubkey: PublicKey,
+  accountInfo: AccountInfo<Buffer>,
+): IndexedAccount => ({
+  pubkey: pubkey.toBase58(),
+  owner: accountInfo.owner.toBase58(),
+  lamports: accountInfo.lamports,
+  data: accountInfo.data.toString('base64'),
+})
+
+export const toAccountInfo = (
+  account: IndexedAccount,
+): AccountInfo<Buffer> => ({
+  data: Buffer.from(account.data, 'base64'),
+  owner: new PublicKey(account.owner),
+  lamports: account.lamports,
+  executable: false,
+})
+
+export const isSameAccounts = (a: IndexedAccount[], b: IndexedAccount[]) =>
+  a.length === b.length &&
+  a.every(
+    (x, i) =>
+      x.pubkey === b[i].pubkey &&
+      x.lamports === b[i].lamports &&
+      x.data === b[i].data,
+  )
+
+// the latest slot an RPC responded at, to tell how far behind a cached entry is without asking the RPC
+let latestSlot: { slot: number; at: number } | undefined
+
+export const observeSlot = (slot: number) => {
+  if (!latestSlot || slot > latestSlot.slot) {
+    latestSlot = { slot, at: Date.now() }
+  }
+}
+
+const estimateCurrentSlot = (entry: AccountCacheEntry) => {
+  const reference = latestSlot ?? { slot: entry.slot, at: entry.savedAt }
+  return reference.slot + Math.floor((Date.now() - reference.at) / SLOT_MS)
+}
+
+/** Whether the entry is recent enough to be shown while it is refreshed */
+export const isRecentEntry = (entry: AccountCacheEntry) =>
+  estimateCurrentSlot(entry) - entry.slot <= MAX_SLOTS_BEHIND
+
+export type AccountCacheEvent =
+  // cached accounts were served and the RPC returned different ones
+  | { type: 'refreshed'; pubkeys: string[] }
+  // the RPC failed and cached accounts were served instead
+  | { type: 'fallback' }
+
+const listeners = new Set<(event: AccountCacheEvent) => void>()
+
+export const onAccountCacheEvent = (
+  listener: (event: AccountCacheEvent) => void,
+) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const emitAccountCacheEvent = (event: AccountCacheEvent) =>
+  listeners.forEach((x) => x(event))
+
+/** Raw accounts persisted in IndexedDB, so they can be parsed again on the next visit */
+export class AccountCache {
+  constructor(
+    private readonly storage = localforage.createInstance({
+      name: 'realms-accounts',
+    }),
+  ) {}
+
+  async get(key: string) {
+    try {
+      return (await this.storage.getItem<AccountCacheEntry>(key)) ?? undefined
+    } catch (e) {
+      console.error('Could not read the account cache', e)
+      return undefined
+    }
+  }
+
+  // an entry read at an older slot, e.g. from a lagging RPC node, does not replace a newer one
+  async set(key: string, slot: number, accounts: IndexedAccount[]) {
+    try {
+      const existing = await this.get(key)
+      if (existing && existing.slot > slot) return
+      await this.storage.setItem<AccountCacheEntry>(key, {
+        slot,
+        savedAt: Date.now(),
+        accounts,
+      })
+    } catch (e) {
+      console.error('Could not write the account cache', e)
+    }
+  }
+
+  // removes the entries of accounts which were not loaded for a while
+  async prune(maxAge = MAX_ENTRY_AGE) {
+    const expired: string[] = []
+    await this.storage.iterate<AccountCacheEntry, void>((entry, key) => {
+      if (Date.now() - entry.savedAt > maxAge) expired.push(key)
+    })
+    await Promise.all(expired.map((x) => this.storage.removeItem(x)))
+  }
+
+  async clear() {
+    await this.storage.clear()
+  }
+}
+
+let accountCache: AccountCache | undefined
+
+// only in the browser, IndexedDB is not available on the server or in tests
+export const getAccountCache = () => {
+  if (typeof indexedDB === 'undefined') return undefined
+  if (!accountCache) {
+    accountCache = new AccountCache()
+    accountCache.prune().catch((e) => console.error(e))
+  }
+  return accountCache
+}
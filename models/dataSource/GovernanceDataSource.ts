@@ -0,0 +1,352 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import {
+  getAccountTypes,
+  Governance,
+  GovernanceAccount,
+  GovernanceAccountClass,
+  GovernanceAccountParser,
+  MemcmpFilter,
+  ProgramAccount,
+  Proposal,
+  pubkeyFilter,
+} from '@solana/spl-governance'
+import bs58 from 'bs58'
+import {
+  AccountCache,
+  accountCacheKeys,
+  BACKGROUND_REFRESH_TTL,
+  emitAccountCacheEvent,
+  getAccountCache,
+  isRecentEntry,
+  isSameAccounts,
+  observeSlot,
+  toAccountInfo,
+} from './AccountCache'
+
+// shared with scripts/governance-indexer.ts
+export interface IndexedAccount {
+  pubkey: string
+  owner: string
+  lamports: number
+  // base64
+  data: string
+}
+
+export interface IndexerAccountsRequest {
+  programId: string
+  accountTypes: number[]
+  filters: { offset: number; bytes: string }[] // bytes are base64
+}
+
+export interface IndexerAccountsResponse {
+  // the slot the accounts are up to date with
+  slot: number
+  accounts: IndexedAccount[]
+}
+
+export interface IndexerHealthResponse {
+  cluster: string
+  // genesis hash of the cluster the indexer ingests
+  genesisHash: string
+  programs: {
+    programId: string
+    syncedAt: number
+    slot: number
+    accounts: number
+  }[]
+}
+
+export interface ProgramAccountsOptions {
+  // serve the first request from the account cache and refresh it in the background, for queries
+  // rendered by hooks only, actions building transactions need the current accounts
+  staleWhileRefresh?: boolean
+}
+
+/** Serves the program wide getProgramAccounts queries of the governance program */
+export interface GovernanceDataSource {
+  getProgramAccounts(
+    connection: Connection,
+    request: IndexerAccountsRequest,
+    options?: ProgramAccountsOptions,
+  ): Promise<IndexerAccountsResponse>
+}
+
+export const rpcDataSource: GovernanceDataSource = {
+  // one request per account type, like getGovernanceAccounts of spl-governance
+  getProgramAccounts: async (connection, request) => {
+    const responses = await Promise.all(
+      request.accountTypes.map((accountType) =>
+        connection.getProgramAccounts(new PublicKey(request.programId), {
+          commitment: connection.commitment,
+          withContext: true,
+          filters: [
+            { memcmp: { offset: 0, bytes: bs58.encode([accountType]) } },
+            ...request.filters.map((x) => ({
+              memcmp: {
+                offset: x.offset,
+                bytes: bs58.encode(Buffer.from(x.bytes, 'base64')),
+              },
+            })),
+          ],
+        }),
+      ),
+    )
+    return {
+      slot: Math.min(...responses.map((x) => x.context.slot)),
+      accounts: responses.flatMap((x) =>
+        x.value.map(({ pubkey, account }) => ({
+          pubkey: pubkey.toBase58(),
+          owner: account.owner.toBase58(),
+          lamports: account.lamports,
+          data: account.data.toString('base64'),
+        })),
+      ),
+    }
+  },
+}
+
+/**
+ * Reads the accounts ingested by scripts/governance-indexer.ts. Programs it does not index, and connections
+ * to another cluster than the one it ingests, are read from the RPC.
+ */
+export class IndexerDataSource implements GovernanceDataSource {
+  private indexerGenesisHash: Promise<string> | undefined
+  // keyed by rpc endpoint
+  private genesisHashes = new Map<string, Promise<string>>()
+
+  constructor(private readonly url: string) {}
+
+  private getIndexerGenesisHash() {
+    if (!this.indexerGenesisHash) {
+      this.indexerGenesisHash = fetch(`${this.url}/health`)
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(
+              `Indexer request failed with status ${response.status}`,
+            )
+          }
+          const health: IndexerHealthResponse = await response.json()
+          return health.genesisHash
+        })
+        .catch((e) => {
+          // asked again on the next request
+          this.indexerGenesisHash = undefined
+          throw e
+        })
+    }
+    return this.indexerGenesisHash
+  }
+
+  private getGenesisHash(connection: Connection) {
+    const endpoint = connection.rpcEndpoint
+    if (!this.genesisHashes.has(endpoint)) {
+      this.genesisHashes.set(
+        endpoint,
+        connection.getGenesisHash().catch((e) => {
+          this.genesisHashes.delete(endpoint)
+          throw e
+        }),
+      )
+    }
+    return this.genesisHashes.get(endpoint)!
+  }
+
+  async getProgramAccounts(
+    connection: Connection,
+    request: IndexerAccountsRequest,
+  ): Promise<IndexerAccountsResponse> {
+    // the program ids are the same on every cluster, only the genesis hash tells them apart
+    const [indexerGenesisHash, genesisHash] = await Promise.all([
+      this.getIndexerGenesisHash(),
+      this.getGenesisHash(connection),
+    ])
+    if (indexerGenesisHash !== genesisHash) {
+      return rpcDataSource.getProgramAccounts(connection, request)
+    }
+
+    const response = await fetch(`${this.url}/accounts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    })
+
+    if (response.status === 404) {
+      return rpcDataSource.getProgramAccounts(connection, request)
+    }
+    if (!response.ok) {
+      throw new Error(`Indexer request failed with status ${response.status}`)
+    }
+    return response.json()
+  }
+}
+
+/**
+ * Persists the accounts of another data source in the account cache. The first request of a
+ * page load can be served from the cache and refreshed in the background, and requests fall back
+ * to the cache while the source is unavailable.
+ */
+export class CachedDataSource implements GovernanceDataSource {
+  private requested = new Set<string>()
+  private refreshes = new Map<
+    string,
+    { promise: Promise<IndexerAccountsResponse>; startedAt: number }
+  >()
+
+  constructor(
+    private readonly source: GovernanceDataSource,
+    private readonly cache: AccountCache = getAccountCache()!,
+  ) {}
+
+  async getProgramAccounts(
+    connection: Connection,
+    request: IndexerAccountsRequest,
+    { staleWhileRefresh = false }: ProgramAccountsOptions = {},
+  ) {
+    const cache = this.cache
+    const key = accountCacheKeys.programAccounts(
+      connection.rpcEndpoint,
+      request,
+    )
+
+    const refresh = this.refreshes.get(key)
+    this.refreshes.delete(key)
+    if (refresh && Date.now() - refresh.startedAt < BACKGROUND_REFRESH_TTL) {
+      return refresh.promise
+    }
+
+    const cached = await cache.get(key)
+    const fetchAndCache = async () => {
+      try {
+        const response = await this.source.getProgramAccounts(
+          connection,
+          request,
+        )
+        observeSlot(response.slot)
+        await cache.set(key, response.slot, response.accounts)
+        return response
+      } catch (e) {
+        if (!cached) throw e
+        emitAccountCacheEvent({ type: 'fallback' })
+        return { slot: cached.slot, accounts: cached.accounts }
+      }
+    }
+
+    const isFirstRequest = !this.requested.has(key)
+    this.requested.add(key)
+    if (
+      !staleWhileRefresh ||
+      !isFirstRequest ||
+      !cached ||
+      !isRecentEntry(cached)
+    ) {
+      return fetchAndCache()
+    }
+
+    const backgroundRefresh = fetchAndCache()
+    this.refreshes.set(key, {
+      promise: backgroundRefresh,
+      startedAt: Date.now(),
+    })
+    backgroundRefresh
+      .then((response) => {
+        if (isSameAccounts(response.accounts, cached.accounts)) return
+        emitAccountCacheEvent({
+          type: 'refreshed',
+          pubkeys: [
+            ...cached.accounts.map((x) => x.pubkey),
+            ...response.accounts.map((x) => x.pubkey),
+            // queries of an empty list are keyed by the filtered account
+            ...request.filters
+              .map((x) => Buffer.from(x.bytes, 'base64'))
+              .filter((x) => x.length === 32)
+              .map((x) => new PublicKey(x).toBase58()),
+          ],
+        })
+      })
+      .catch((e) => console.error(e))
+    return { slot: cached.slot, accounts: cached.accounts }
+  }
+}
+
+let dataSource: GovernanceDataSource | undefined
+
+// set NEXT_PUBLIC_GOVERNANCE_INDEXER_URL to serve the queries from an indexer instead of the RPC
+export const getGovernanceDataSource = () => {
+  if (!dataSource) {
+    const indexerUrl = process.env.NEXT_PUBLIC_GOVERNANCE_INDEXER_URL
+    const source = indexerUrl
+      ? new IndexerDataSource(indexerUrl.replace(/\/$/, ''))
+      : rpcDataSource
+    dataSource = getAccountCache() ? new CachedDataSource(source) : source
+  }
+  return dataSource
+}
+
+// drop-in replacements for the spl-governance functions of the same name
+
+export const getGovernanceAccounts = async <TAccount extends GovernanceAccount>(
+  connection: Connection,
+  programId: PublicKey,
+  accountClass: new (args: any) => TAccount,
+  filters: MemcmpFilter[] = [],
+  options?: ProgramAccountsOptions,
+) => {
+  const { accounts } = await getGovernanceDataSource().getProgramAccounts(
+    connection,
+    {
+      programId: programId.toBase58(),
+      accountTypes: getAccountTypes(
+        accountClass as unknown as GovernanceAccountClass,
+      ),
+      filters: filters.map((x) => ({
+        offset: x.offset,
+        bytes: x.bytes.toString('base64'),
+      })),
+    },
+    options,
+  )
+  const parse = GovernanceAccountParser(
+    accountClass as unknown as GovernanceAccountClass,
+  )
+  return accounts.map(
+    (x) =>
+      parse(
+        new PublicKey(x.pubkey),
+        toAccountInfo(x),
+      ) as ProgramAccount<TAccount>,
+  )
+}
+
+export const getProposalsByGovernance = (
+  connection: Connection,
+  programId: PublicKey,
+  governancePk: PublicKey,
+  options?: ProgramAccountsOptions,
+) =>
+  getGovernanceAccounts(
+    connection,
+    programId,
+    Proposal,
+    [pubkeyFilter(1, governancePk)!],
+    options,
+  )
+
+export const getAllProposals = async (
+  connection: Connection,
+  programId: PublicKey,
+  realmPk: PublicKey,
+  options?: ProgramAccountsOptions,
+) => {
+  const governances = await getGovernanceAccounts(
+    connection,
+    programId,
+    Governance,
+    [pubkeyFilter(1, realmPk)!],
+    options,
+  )
+  return Promise.all(
+    governances.map((x) =>
+      getProposalsByGovernance(connection, programId, x.pubkey, options),
+    ),
+  )
+}
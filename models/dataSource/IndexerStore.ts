@@ -0,0 +1,197 @@
+import Database from 'better-sqlite3'
+import {
+  IndexerAccountsRequest,
+  IndexerAccountsResponse,
+} from './GovernanceDataSource'
+
+// server side only, used by scripts/governance-indexer.ts
+export const DEFAULT_INDEXER_DB =
+  process.env.INDEXER_DB ?? '.governance-indexer.sqlite'
+
+export interface StoredAccount {
+  pubkey: string
+  owner: string
+  lamports: number
+  data: Buffer
+}
+
+export class IndexerStore {
+  private db: Database.Database
+
+  constructor(path = DEFAULT_INDEXER_DB) {
+    this.db = new Database(path)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS accounts (
+        pubkey TEXT PRIMARY KEY,
+        program_id TEXT NOT NULL,
+        account_type INTEGER NOT NULL,
+        owner TEXT NOT NULL,
+        lamports INTEGER NOT NULL,
+        data BLOB NOT NULL,
+        synced_at INTEGER NOT NULL,
+        -- slot of the last write, older writes are ignored
+        slot INTEGER NOT NULL DEFAULT 0,
+        -- closed accounts are kept until a newer full sync so older writes can't bring them back
+        closed INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS accounts_program_type
+        ON accounts (program_id, account_type);
+      CREATE TABLE IF NOT EXISTS programs (
+        program_id TEXT PRIMARY KEY,
+        synced_at INTEGER NOT NULL,
+        -- the slot the accounts of the program are up to date with
+        slot INTEGER NOT NULL DEFAULT 0
+      );
+    `)
+  }
+
+  // programs are only served once a full sync has completed
+  hasProgram(programId: string) {
+    return !!this.db
+      .prepare('SELECT 1 FROM programs WHERE program_id = ?')
+      .get(programId)
+  }
+
+  upsert(programId: string, slot: number, account: StoredAccount) {
+    this.insert(programId, slot, account, false)
+    this.updateProgramSlot(programId, slot)
+  }
+
+  remove(programId: string, slot: number, pubkey: string) {
+    this.insert(
+      programId,
+      slot,
+      { pubkey, owner: '', lamports: 0, data: Buffer.alloc(0) },
+      true,
+    )
+    this.updateProgramSlot(programId, slot)
+  }
+
+  private updateProgramSlot(programId: string, slot: number) {
+    this.db
+      .prepare('UPDATE programs SET slot = MAX(slot, ?) WHERE program_id = ?')
+      .run(slot, programId)
+  }
+
+  // writes the account unless it was written at a later slot
+  private insert(
+    programId: string,
+    slot: number,
+    account: StoredAccount,
+    closed: boolean,
+  ) {
+    this.db
+      .prepare(
+        `INSERT INTO accounts
+          (pubkey, program_id, account_type, owner, lamports, data, synced_at, slot, closed)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (pubkey) DO UPDATE SET
+            program_id = excluded.program_id,
+            account_type = excluded.account_type,
+            owner = excluded.owner,
+            lamports = excluded.lamports,
+            data = excluded.data,
+            synced_at = excluded.synced_at,
+            slot = excluded.slot,
+            closed = excluded.closed
+          WHERE excluded.slot >= accounts.slot`,
+      )
+      .run(
+        account.pubkey,
+        programId,
+        account.data[0] ?? 0,
+        account.owner,
+        account.lamports,
+        account.data,
+        Date.now(),
+        slot,
+        closed ? 1 : 0,
+      )
+  }
+
+  /**
+   * Replaces the accounts of the program with the result of a full sync taken at the slot. Accounts
+   * written at a later slot, e.g. by websocket updates received during the sync, are kept
+   */
+  replaceProgram(programId: string, slot: number, accounts: StoredAccount[]) {
+    this.db.transaction(() => {
+      this.db
+        .prepare('DELETE FROM accounts WHERE program_id = ? AND slot <= ?')
+        .run(programId, slot)
+      accounts.forEach((x) => this.insert(programId, slot, x, false))
+      this.db
+        .prepare(
+          `INSERT INTO programs (program_id, synced_at, slot) VALUES (?, ?, ?)
+            ON CONFLICT (program_id) DO UPDATE SET
+              synced_at = excluded.synced_at,
+              slot = MAX(programs.slot, excluded.slot)`,
+        )
+        .run(programId, Date.now(), slot)
+    })()
+  }
+
+  query({
+    programId,
+    accountTypes,
+    filters,
+  }: IndexerAccountsRequest): IndexerAccountsResponse {
+    const { slot } = this.db
+      .prepare('SELECT slot FROM programs WHERE program_id = ?')
+      .get(programId) as { slot: number }
+    if (!accountTypes.length) return { slot, accounts: [] }
+
+    // memcmp filters compare the bytes at the offset, substr is 1-indexed
+    const conditions = [
+      'program_id = ?',
+      'closed = 0',
+      `account_type IN (${accountTypes.map(() => '?').join(', ')})`,
+      ...filters.map(() => 'substr(data, ?, ?) = ?'),
+    ]
+    const params = [
+      programId,
+      ...accountTypes,
+      ...filters.flatMap((x) => {
+        const bytes = Buffer.from(x.bytes, 'base64')
+        return [x.offset + 1, bytes.length, bytes]
+      }),
+    ]
+    const rows = this.db
+      .prepare(
+        `SELECT pubkey, owner, lamports, data FROM accounts
+          WHERE ${conditions.join(' AND ')} ORDER BY pubkey`,
+      )
+      .all(...params) as StoredAccount[]
+
+    return {
+      slot,
+      accounts: rows.map((x) => ({
+        pubkey: x.pubkey,
+        owner: x.owner,
+        lamports: x.lamports,
+        data: x.data.toString('base64'),
+      })),
+    }
+  }
+
+  stats() {
+    return this.db
+      .prepare(
+        `SELECT programs.program_id AS programId, programs.synced_at AS syncedAt,
+          programs.slot AS slot, COUNT(accounts.pubkey) AS accounts
+          FROM programs LEFT JOIN accounts
+            ON accounts.program_id = programs.program_id AND accounts.closed = 0
+          GROUP BY programs.program_id`,
+      )
+      .all() as {
+      programId: string
+      syncedAt: number
+      slot: number
+      accounts: number
+    }[]
+  }
+
+  close() {
+    this.db.close()
+  }
+}
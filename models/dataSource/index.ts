@@ -0,0 +1,2 @@
+export * from './GovernanceDataSource'
+export * from './AccountCache'
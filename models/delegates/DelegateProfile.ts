@@ -0,0 +1,52 @@
+export const MAX_STATEMENT_LENGTH = 2000
+export const MAX_LINKS = 5
+
+export interface DelegateProfileContent {
+  realm: string
+  wallet: string
+  statement: string
+  links: string[]
+  // unix seconds, a newer profile of the same wallet replaces the older one
+  signedAt: number
+}
+
+export interface DelegateProfile extends DelegateProfileContent {
+  // hex encoded ed25519 signature of the profile message by the wallet
+  signature: string
+}
+
+/** The message a delegate signs with their wallet, any change to the profile invalidates the signature */
+export function getDelegateProfileMessage(profile: DelegateProfileContent) {
+  return [
+    'Realms delegate profile',
+    `Realm: ${profile.realm}`,
+    `Wallet: ${profile.wallet}`,
+    `Signed at: ${profile.signedAt}`,
+    `Links: ${profile.links.join(' ')}`,
+    '',
+    profile.statement,
+  ].join('\n')
+}
+
+const isLink = (x: unknown) => {
+  if (typeof x !== 'string') return false
+  try {
+    return ['http:', 'https:'].includes(new URL(x).protocol)
+  } catch {
+    return false
+  }
+}
+
+export function isDelegateProfile(x: any): x is DelegateProfile {
+  return (
+    typeof x?.realm === 'string' &&
+    typeof x.wallet === 'string' &&
+    typeof x.statement === 'string' &&
+    x.statement.length <= MAX_STATEMENT_LENGTH &&
+    Array.isArray(x.links) &&
+    x.links.length <= MAX_LINKS &&
+    x.links.every(isLink) &&
+    typeof x.signedAt === 'number' &&
+    typeof x.signature === 'string'
+  )
+}
@@ -0,0 +1,128 @@
+import { createPublicKey, verify } from 'crypto'
+import { Connection, PublicKey } from '@solana/web3.js'
+import {
+  GovernanceAccountParser,
+  getTokenOwnerRecordAddress,
+  Realm,
+} from '@solana/spl-governance'
+import { DelegateProfile, getDelegateProfileMessage } from './DelegateProfile'
+
+// server side only, used by the delegateProfiles api
+
+// DER prefix of an ed25519 SubjectPublicKeyInfo, followed by the 32 bytes of the key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex')
+
+/** Checks the profile was signed by its wallet */
+export function verifyDelegateProfile(profile: DelegateProfile) {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([
+        ED25519_SPKI_PREFIX,
+        new PublicKey(profile.wallet).toBuffer(),
+      ]),
+      format: 'der',
+      type: 'spki',
+    })
+    return verify(
+      null,
+      Buffer.from(getDelegateProfileMessage(profile)),
+      key,
+      Buffer.from(profile.signature, 'hex'),
+    )
+  } catch (e) {
+    return false
+  }
+}
+
+/** Only members of the realm publish profiles, a wallet needs a token owner record for one of its mints */
+export async function hasTokenOwnerRecord(
+  connection: Connection,
+  realmPk: PublicKey,
+  wallet: PublicKey,
+) {
+  const realmAccount = await connection.getAccountInfo(realmPk)
+  if (!realmAccount) return false
+  const realm = GovernanceAccountParser(Realm)(realmPk, realmAccount)
+  const mints = [
+    realm.account.communityMint,
+    realm.account.config.councilMint,
+  ].filter((x): x is PublicKey => x !== undefined)
+
+  const tokenOwnerRecords = await Promise.all(
+    mints.map((mint) =>
+      getTokenOwnerRecordAddress(realm.owner, realmPk, mint, wallet),
+    ),
+  )
+  const accounts = await connection.getMultipleAccountsInfo(tokenOwnerRecords)
+  return accounts.some((x) => x !== null)
+}
+
+/** The REST api of a Redis compatible KV store, e.g. Vercel KV or Upstash */
+export interface KvClient {
+  command<T>(args: (string | number)[]): Promise<T>
+}
+
+export const createRestKvClient = (
+  url = process.env.KV_REST_API_URL,
+  token = process.env.KV_REST_API_TOKEN,
+): KvClient => ({
+  command: async (args) => {
+    if (!url || !token) {
+      throw new Error('KV_REST_API_URL and KV_REST_API_TOKEN are not set')
+    }
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(args),
+    })
+    const body = await response.json()
+    if (!response.ok || body.error) {
+      throw new Error(`KV request failed: ${body.error ?? response.status}`)
+    }
+    return body.result
+  },
+})
+
+// one hash per realm, keyed by wallet
+const profilesKey = (realm: string) => `delegate-profiles:${realm}`
+
+// replaces the profile of the wallet unless the stored one is as recent, in one step so
+// concurrent posts of the same wallet can't overwrite a newer profile
+const PUT_PROFILE_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], ARGV[1])
+if current and cjson.decode(current).signedAt >= tonumber(ARGV[2]) then
+  return 0
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[3])
+return 1
+`
+
+/**
+ * Profiles are kept in a KV store shared by the serverless functions, their filesystem is
+ * read only and not kept between instances
+ */
+export class DelegateProfileStore {
+  constructor(private readonly kv: KvClient = createRestKvClient()) {}
+
+  async list(realm: string): Promise<DelegateProfile[]> {
+    const values = await this.kv.command<string[]>([
+      'HVALS',
+      profilesKey(realm),
+    ])
+    return values.map((x) => JSON.parse(x))
+  }
+
+  // returns false when a newer profile of the wallet is already stored
+  async put(profile: DelegateProfile) {
+    const stored = await this.kv.command<number>([
+      'EVAL',
+      PUT_PROFILE_SCRIPT,
+      1,
+      profilesKey(profile.realm),
+      profile.wallet,
+      profile.signedAt,
+      JSON.stringify(profile),
+    ])
+    return stored === 1
+  }
+}
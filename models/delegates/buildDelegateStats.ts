@@ -0,0 +1,126 @@
+import {
+  ProgramAccount,
+  Proposal,
+  TokenOwnerRecord,
+  VoteKind,
+  VoteRecord,
+} from '@solana/spl-governance'
+import { PublicKey } from '@solana/web3.js'
+import BigNumber from 'bignumber.js'
+import { DEFEATED_STATES, PASSED_STATES } from '@models/proposal'
+import { getVoteKind } from '@models/voteRecords'
+
+export interface DelegateVote {
+  proposal: string
+  name: string
+  vote?: VoteKind
+  // whether the vote matches the outcome, undefined for abstentions and undecided proposals
+  agreed?: boolean
+}
+
+export interface DelegateStats {
+  wallet: string
+  // deposited governing tokens delegated to the wallet, ui units
+  communityPower: BigNumber
+  councilPower: BigNumber
+  delegators: string[]
+  // vote records have no voter, so these are the votes of the delegate's own token owner records
+  votes: DelegateVote[]
+  // 0 to 1, undefined without a vote on a decided proposal
+  agreementRate?: number
+}
+
+interface Args {
+  // wallets with a published profile, merged with the wallets delegated to
+  profileWallets: string[]
+  proposals: ProgramAccount<Proposal>[]
+  tokenOwnerRecords: ProgramAccount<TokenOwnerRecord>[]
+  voteRecords: ProgramAccount<VoteRecord>[]
+  communityMint: PublicKey
+  councilMint?: PublicKey
+  communityDecimals: number
+  councilDecimals: number
+}
+
+const getAgreement = (vote: VoteKind | undefined, proposal: Proposal) => {
+  const passed = PASSED_STATES.includes(proposal.state)
+  const defeated = DEFEATED_STATES.includes(proposal.state)
+  if ((!passed && !defeated) || vote === undefined) return undefined
+  if (vote === VoteKind.Approve) return passed
+  if (vote === VoteKind.Deny || vote === VoteKind.Veto) return defeated
+  return undefined
+}
+
+export function buildDelegateStats({
+  profileWallets,
+  proposals,
+  tokenOwnerRecords,
+  voteRecords,
+  communityMint,
+  councilMint,
+  communityDecimals,
+  councilDecimals,
+}: Args): DelegateStats[] {
+  const proposalsByPk = new Map(proposals.map((x) => [x.pubkey.toBase58(), x]))
+  const delegated = tokenOwnerRecords.filter(
+    (x) =>
+      x.account.governanceDelegate &&
+      !x.account.governanceDelegate.equals(x.account.governingTokenOwner),
+  )
+  const wallets = [
+    ...new Set([
+      ...profileWallets,
+      ...delegated.map((x) => x.account.governanceDelegate!.toBase58()),
+    ]),
+  ]
+
+  return wallets.map((wallet) => {
+    const records = delegated.filter(
+      (x) => x.account.governanceDelegate!.toBase58() === wallet,
+    )
+    const getPower = (mint: PublicKey | undefined, decimals: number) =>
+      records
+        .filter((x) => mint && x.account.governingTokenMint.equals(mint))
+        .reduce(
+          (acc, x) =>
+            acc.plus(
+              new BigNumber(
+                x.account.governingTokenDepositAmount.toString(),
+              ).shiftedBy(-decimals),
+            ),
+          new BigNumber(0),
+        )
+
+    const votes = voteRecords
+      .filter((x) => x.account.governingTokenOwner.toBase58() === wallet)
+      .flatMap((x) => {
+        const proposal = proposalsByPk.get(x.account.proposal.toBase58())
+        if (!proposal) return []
+        const vote = getVoteKind(x.account)
+        return [
+          {
+            proposal: proposal.pubkey.toBase58(),
+            name: proposal.account.name,
+            vote,
+            agreed: getAgreement(vote, proposal.account),
+          },
+        ]
+      })
+    const decided = votes.filter((x) => x.agreed !== undefined)
+
+    return {
+      wallet,
+      communityPower: getPower(communityMint, communityDecimals),
+      councilPower: getPower(councilMint, councilDecimals),
+      delegators: [
+        ...new Set(
+          records.map((x) => x.account.governingTokenOwner.toBase58()),
+        ),
+      ],
+      votes,
+      agreementRate: decided.length
+        ? decided.filter((x) => x.agreed).length / decided.length
+        : undefined,
+    }
+  })
+}
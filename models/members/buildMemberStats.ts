@@ -0,0 +1,214 @@
+import {
+  ProgramAccount,
+  Proposal,
+  TokenOwnerRecord,
+  VoteKind,
+  VoteRecord,
+} from '@solana/spl-governance'
+import { PublicKey } from '@solana/web3.js'
+import BigNumber from 'bignumber.js'
+import { stringify } from 'csv-stringify/sync'
+import { getVoteKind } from '@models/voteRecords'
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+export interface MemberStats {
+  walletAddress: string
+  // deposited governing tokens, ui units
+  communityPower: BigNumber
+  councilPower: BigNumber
+  // proposals that went to a vote of a population the member belongs to, or that the member voted on
+  eligibleProposals: number
+  votesCast: number
+  // 0 to 1, 0 without eligible proposals
+  participationRate: number
+  // vote records have no timestamp, this is the voting start of the latest proposal voted on
+  lastVoteAt?: number
+  yesVotes: number
+  // vetoes are counted as no votes
+  noVotes: number
+  abstainVotes: number
+  proposalsAuthored: number
+  // delegates of the member's token owner records
+  delegatedTo: string[]
+  // owners of the token owner records delegated to the member
+  delegatedFrom: string[]
+}
+
+export interface MemberStatsFilters {
+  // no vote in the last N days, never voted included
+  inactiveDays?: number
+  neverVoted?: boolean
+}
+
+interface Args {
+  proposals: ProgramAccount<Proposal>[]
+  tokenOwnerRecords: ProgramAccount<TokenOwnerRecord>[]
+  voteRecords: ProgramAccount<VoteRecord>[]
+  communityMint: PublicKey
+  councilMint?: PublicKey
+  communityDecimals: number
+  councilDecimals: number
+}
+
+const uniq = (values: string[]) => [...new Set(values)]
+
+const groupBy = <T>(items: T[], getKey: (item: T) => string | undefined) => {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const key = getKey(item)
+    if (key === undefined) continue
+    const group = groups.get(key)
+    if (group) group.push(item)
+    else groups.set(key, [item])
+  }
+  return groups
+}
+
+/** Participation of every member, the owners of the realm's token owner records and its voters */
+export function buildMemberStats({
+  proposals,
+  tokenOwnerRecords,
+  voteRecords,
+  communityMint,
+  councilMint,
+  communityDecimals,
+  councilDecimals,
+}: Args): MemberStats[] {
+  const proposalsByPk = new Map(proposals.map((x) => [x.pubkey.toBase58(), x]))
+  const torsByPk = new Map(
+    tokenOwnerRecords.map((x) => [x.pubkey.toBase58(), x]),
+  )
+  const recordsByOwner = groupBy(tokenOwnerRecords, (x) =>
+    x.account.governingTokenOwner.toBase58(),
+  )
+  const votesByOwner = groupBy(voteRecords, (x) =>
+    x.account.governingTokenOwner.toBase58(),
+  )
+  const recordsByDelegate = groupBy(
+    tokenOwnerRecords,
+    (x) => x.account.governanceDelegate?.toBase58(),
+  )
+  const proposalsByAuthor = groupBy(
+    proposals,
+    (x) =>
+      torsByPk
+        .get(x.account.tokenOwnerRecord.toBase58())
+        ?.account.governingTokenOwner.toBase58(),
+  )
+  const wallets = uniq([...recordsByOwner.keys(), ...votesByOwner.keys()])
+  const votedProposals = proposals.filter((x) => x.account.votingAt)
+
+  return wallets.map((walletAddress) => {
+    const records = recordsByOwner.get(walletAddress) ?? []
+    const getPower = (mint: PublicKey | undefined, decimals: number) =>
+      records
+        .filter((x) => mint && x.account.governingTokenMint.equals(mint))
+        .reduce(
+          (acc, x) =>
+            acc.plus(
+              new BigNumber(
+                x.account.governingTokenDepositAmount.toString(),
+              ).shiftedBy(-decimals),
+            ),
+          new BigNumber(0),
+        )
+
+    const votes = votesByOwner.get(walletAddress) ?? []
+    const votedOn = new Set(votes.map((x) => x.account.proposal.toBase58()))
+    const eligibleProposals = votedProposals.filter(
+      (x) =>
+        votedOn.has(x.pubkey.toBase58()) ||
+        records.some((r) =>
+          r.account.governingTokenMint.equals(x.account.governingTokenMint),
+        ),
+    ).length
+    const kinds = votes.map((x) => getVoteKind(x.account))
+    const lastVoteAt = votes.reduce<number | undefined>((acc, x) => {
+      const votingAt = proposalsByPk
+        .get(x.account.proposal.toBase58())
+        ?.account.votingAt?.toNumber()
+      return votingAt !== undefined && (acc === undefined || votingAt > acc)
+        ? votingAt
+        : acc
+    }, undefined)
+
+    return {
+      walletAddress,
+      communityPower: getPower(communityMint, communityDecimals),
+      councilPower: getPower(councilMint, councilDecimals),
+      eligibleProposals,
+      votesCast: votes.length,
+      participationRate: eligibleProposals
+        ? votedOn.size / eligibleProposals
+        : 0,
+      lastVoteAt,
+      yesVotes: kinds.filter((x) => x === VoteKind.Approve).length,
+      noVotes: kinds.filter((x) => x === VoteKind.Deny || x === VoteKind.Veto)
+        .length,
+      abstainVotes: kinds.filter((x) => x === VoteKind.Abstain).length,
+      proposalsAuthored: proposalsByAuthor.get(walletAddress)?.length ?? 0,
+      delegatedTo: uniq(
+        records.flatMap((x) =>
+          x.account.governanceDelegate
+            ? [x.account.governanceDelegate.toBase58()]
+            : [],
+        ),
+      ),
+      delegatedFrom: uniq(
+        (recordsByDelegate.get(walletAddress) ?? []).map((x) =>
+          x.account.governingTokenOwner.toBase58(),
+        ),
+      ),
+    }
+  })
+}
+
+export function filterMemberStats(
+  stats: MemberStats[],
+  filters: MemberStatsFilters,
+  nowInSeconds = Date.now() / 1000,
+) {
+  return stats.filter(
+    (x) =>
+      (!filters.neverVoted || x.votesCast === 0) &&
+      (filters.inactiveDays === undefined ||
+        x.lastVoteAt === undefined ||
+        x.lastVoteAt < nowInSeconds - filters.inactiveDays * SECONDS_PER_DAY),
+  )
+}
+
+export function memberStatsToCsv(stats: MemberStats[]) {
+  return stringify([
+    [
+      'wallet',
+      'community_power',
+      'council_power',
+      'eligible_proposals',
+      'votes_cast',
+      'participation_rate',
+      'last_vote',
+      'yes',
+      'no',
+      'abstain',
+      'proposals_authored',
+      'delegated_to',
+      'delegated_from',
+    ],
+    ...stats.map((x) => [
+      x.walletAddress,
+      x.communityPower.toFixed(),
+      x.councilPower.toFixed(),
+      x.eligibleProposals,
+      x.votesCast,
+      x.participationRate.toFixed(4),
+      x.lastVoteAt ? new Date(x.lastVoteAt * 1000).toISOString() : '',
+      x.yesVotes,
+      x.noVotes,
+      x.abstainVotes,
+      x.proposalsAuthored,
+      x.delegatedTo.join(' '),
+      x.delegatedFrom.join(' '),
+    ]),
+  ])
+}
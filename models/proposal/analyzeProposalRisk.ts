@@ -0,0 +1,520 @@
+import {
+  BPF_UPGRADE_LOADER_ID,
+  InstructionData,
+  SYSTEM_PROGRAM_ID,
+} from '@solana/spl-governance'
+import { ComputeBudgetProgram, PublicKey, StakeProgram } from '@solana/web3.js'
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token-new'
+import BigNumber from 'bignumber.js'
+import BN from 'bn.js'
+import { MANGO_INSTRUCTION_FORWARDER } from '@tools/constants'
+
+export type RiskSeverity = 'info' | 'warning' | 'danger'
+
+export type RiskRule =
+  | 'authorityChange'
+  | 'largeTransfer'
+  | 'unknownProgram'
+  | 'untrustedTreasuryWrite'
+  | 'governanceConfigChange'
+  | 'realmConfigChange'
+  | 'pluginConfigChange'
+  | 'closeAccountOutsideDao'
+  | 'programUpgrade'
+  | 'instructionForwarder'
+  | 'possibleWrongGovernance'
+  | 'bufferAuthorityMismatch'
+
+export interface RiskFinding {
+  rule: RiskRule
+  severity: RiskSeverity
+  title: string
+  description: string
+  // index in the flattened list of proposal instructions, undefined for proposal wide findings
+  instructionIndex?: number
+  accounts: PublicKey[]
+}
+
+export interface TreasuryHolding {
+  // token account, or the native treasury for SOL
+  address: PublicKey
+  mint: PublicKey
+  decimals: number
+  amount: BN
+  // usd price of one token, when known
+  price?: number
+}
+
+export interface RiskAnalysisContext {
+  governanceProgramId: PublicKey
+  realm: PublicKey
+  realmConfig?: PublicKey
+  // governance executing the proposal and its native treasury
+  governance: PublicKey
+  treasury: PublicKey
+  // every governance, native treasury and treasury token account of the realm
+  daoAccounts: PublicKey[]
+  holdings?: TreasuryHolding[]
+  // voter weight and max voter weight plugins configured on the realm
+  pluginProgramIds?: PublicKey[]
+  // programs the app knows how to display, on top of the core programs
+  knownProgramIds?: PublicKey[]
+  // programs allowed to write to treasury accounts, on top of the core programs
+  trustedProgramIds?: PublicKey[]
+  bufferAuthorities?: PublicKey[]
+  // share of the treasury value above which transfers are flagged, defaults to 0.1
+  largeTransferShare?: number
+}
+
+const DEFAULT_LARGE_TRANSFER_SHARE = 0.1
+
+const CORE_PROGRAM_IDS = [
+  SYSTEM_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  BPF_UPGRADE_LOADER_ID,
+  ComputeBudgetProgram.programId,
+  StakeProgram.programId,
+]
+
+const TOKEN_AUTHORITY_TYPES = [
+  'mint',
+  'freeze',
+  'account owner',
+  'close account',
+]
+
+// spl-governance instruction discriminators
+const SET_GOVERNANCE_CONFIG = 19
+const SET_REALM_AUTHORITY = 21
+const SET_REALM_CONFIG = 22
+const REMOVE_REALM_AUTHORITY = 2
+
+// spl-token and token-2022 instruction discriminators
+const TOKEN_TRANSFER = 3
+const TOKEN_SET_AUTHORITY = 6
+const TOKEN_CLOSE_ACCOUNT = 9
+const TOKEN_TRANSFER_CHECKED = 12
+
+// bpf upgradeable loader instruction discriminators
+const LOADER_UPGRADE = 3
+const LOADER_SET_AUTHORITY = 4
+const LOADER_CLOSE = 5
+const LOADER_SET_AUTHORITY_CHECKED = 7
+
+const SYSTEM_TRANSFER = 2
+
+const SEVERITY_ORDER: RiskSeverity[] = ['danger', 'warning', 'info']
+
+const includesKey = (keys: PublicKey[], key: PublicKey | undefined) =>
+  !!key && keys.some((x) => x.equals(key))
+
+const isTokenProgram = (programId: PublicKey) =>
+  programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID)
+
+/**
+ * Runs every rule over the proposal instructions and returns the findings, most severe first.
+ * Pure so the same rules can be used by the proposal page, the CLI and the notifier
+ */
+export function analyzeProposalRisk(
+  instructions: InstructionData[],
+  context: RiskAnalysisContext,
+): RiskFinding[] {
+  const daoAccounts = [
+    context.governance,
+    context.treasury,
+    ...context.daoAccounts,
+  ]
+  const pluginProgramIds = context.pluginProgramIds ?? []
+  const knownProgramIds = [
+    ...CORE_PROGRAM_IDS,
+    context.governanceProgramId,
+    new PublicKey(MANGO_INSTRUCTION_FORWARDER),
+    ...pluginProgramIds,
+    ...(context.knownProgramIds ?? []),
+  ]
+  const trustedProgramIds = [
+    ...CORE_PROGRAM_IDS,
+    context.governanceProgramId,
+    ...(context.trustedProgramIds ?? []),
+  ]
+  const findings: RiskFinding[] = []
+
+  instructions.forEach((ix, instructionIndex) => {
+    const push = (finding: Omit<RiskFinding, 'instructionIndex'>) =>
+      findings.push({ ...finding, instructionIndex })
+    const data = Buffer.from(ix.data)
+
+    if (!includesKey(knownProgramIds, ix.programId)) {
+      push({
+        rule: 'unknownProgram',
+        severity: 'warning',
+        title: 'Instruction uses an unknown program',
+        description: `Program ${ix.programId.toBase58()} can't be decoded, make sure you trust it and review the instruction data and accounts.`,
+        accounts: [ix.programId],
+      })
+    }
+
+    if (ix.programId.toBase58() === MANGO_INSTRUCTION_FORWARDER) {
+      push({
+        rule: 'instructionForwarder',
+        severity: 'warning',
+        title: `Instruction uses instruction forward program: ${MANGO_INSTRUCTION_FORWARDER}`,
+        description:
+          'This means one of instruction is executable only by given wallet until time set in proposal, check time and wallet in instruction panel',
+        accounts: [ix.programId],
+      })
+    }
+
+    const writesRealmConfig = ix.accounts.find(
+      (a) => a.isWritable && context.realmConfig?.equals(a.pubkey),
+    )
+    if (ix.programId.equals(context.governanceProgramId)) {
+      findings.push(
+        ...analyzeGovernanceInstruction(ix, data, daoAccounts).map((x) => ({
+          ...x,
+          instructionIndex,
+        })),
+      )
+    } else if (writesRealmConfig) {
+      push({
+        rule: 'realmConfigChange',
+        severity: 'danger',
+        title:
+          'Danger: This instruction uses an unknown program to modify your Realm',
+        description:
+          'This proposal writes to your realm configuration, this could affect how votes are counted. Writing realm configuration using an unknown program is highly unusual.',
+        accounts: [writesRealmConfig.pubkey],
+      })
+    }
+
+    if (
+      includesKey(pluginProgramIds, ix.programId) &&
+      ix.accounts.some((a) => a.isWritable)
+    ) {
+      push({
+        rule: 'pluginConfigChange',
+        severity: 'warning',
+        title: 'Instruction changes a voting plugin',
+        description:
+          'This proposal writes to the voter weight plugin used by the realm, which could affect how votes are counted. Review the instruction data and accounts carefully.',
+        accounts: [ix.programId],
+      })
+    }
+
+    if (!includesKey(trustedProgramIds, ix.programId)) {
+      const writtenTreasuryAccounts = ix.accounts
+        .filter((a) => a.isWritable && includesKey(daoAccounts, a.pubkey))
+        .map((a) => a.pubkey)
+      if (writtenTreasuryAccounts.length) {
+        push({
+          rule: 'untrustedTreasuryWrite',
+          severity: 'warning',
+          title: 'Instruction lets a third party program modify DAO accounts',
+          description: `Program ${ix.programId.toBase58()} receives ${
+            writtenTreasuryAccounts.length
+          } writable DAO account(s), it can move or change the assets they hold.`,
+          accounts: writtenTreasuryAccounts,
+        })
+      }
+    }
+
+    if (isTokenProgram(ix.programId)) {
+      findings.push(
+        ...analyzeTokenInstruction(ix, data, daoAccounts, context).map((x) => ({
+          ...x,
+          instructionIndex,
+        })),
+      )
+    }
+    if (ix.programId.equals(BPF_UPGRADE_LOADER_ID)) {
+      findings.push(
+        ...analyzeLoaderInstruction(ix, data, daoAccounts).map((x) => ({
+          ...x,
+          instructionIndex,
+        })),
+      )
+    }
+    if (
+      ix.programId.equals(SYSTEM_PROGRAM_ID) &&
+      data.length >= 12 &&
+      data.readUInt32LE(0) === SYSTEM_TRANSFER
+    ) {
+      const finding = analyzeTransfer(
+        ix.accounts[0]?.pubkey,
+        new BN(data.subarray(4, 12), 'le'),
+        context,
+      )
+      if (finding) push(finding)
+    }
+  })
+
+  const referencesGovernance = instructions.some((ix) =>
+    ix.accounts.some(
+      (a) =>
+        a.pubkey.equals(context.governance) ||
+        a.pubkey.equals(context.treasury),
+    ),
+  )
+  if (instructions.length && !referencesGovernance) {
+    findings.push({
+      rule: 'possibleWrongGovernance',
+      severity: 'warning',
+      title: 'Possible wrong governance pass, check accounts.',
+      description:
+        'None of the instructions uses the governance or its treasury, they may have been created under another governance.',
+      accounts: [context.governance],
+    })
+  }
+
+  const foreignBufferAuthorities = (context.bufferAuthorities ?? []).filter(
+    (x) => !x.equals(context.treasury) && !x.equals(context.governance),
+  )
+  if (foreignBufferAuthorities.length) {
+    findings.push({
+      rule: 'bufferAuthorityMismatch',
+      severity: 'danger',
+      title:
+        'Danger alert: The current buffer authority does not match the DAO wallet',
+      description:
+        'The current authority can change the buffer account during vote.',
+      accounts: foreignBufferAuthorities,
+    })
+  }
+
+  return findings
+    .map((finding, i) => ({ finding, i }))
+    .sort(
+      (a, b) =>
+        SEVERITY_ORDER.indexOf(a.finding.severity) -
+          SEVERITY_ORDER.indexOf(b.finding.severity) || a.i - b.i,
+    )
+    .map((x) => x.finding)
+}
+
+type InstructionFinding = Omit<RiskFinding, 'instructionIndex'>
+
+function authorityChange(
+  target: PublicKey,
+  subject: string,
+  newAuthority: PublicKey | undefined,
+  daoAccounts: PublicKey[],
+): InstructionFinding {
+  if (!newAuthority) {
+    return {
+      rule: 'authorityChange',
+      severity: 'danger',
+      title: `Instruction removes the ${subject}`,
+      description: `The ${subject} of ${target.toBase58()} is removed, this can't be undone.`,
+      accounts: [target],
+    }
+  }
+  const isDao = includesKey(daoAccounts, newAuthority)
+  return {
+    rule: 'authorityChange',
+    severity: isDao ? 'warning' : 'danger',
+    title: isDao
+      ? `Instruction changes the ${subject}`
+      : `Danger: Instruction hands the ${subject} outside of the DAO`,
+    description: `The ${subject} of ${target.toBase58()} is set to ${newAuthority.toBase58()}${
+      isDao ? '' : ', an account the DAO does not control'
+    }.`,
+    accounts: [target, newAuthority],
+  }
+}
+
+function closeAccount(
+  target: PublicKey | undefined,
+  destination: PublicKey | undefined,
+  daoAccounts: PublicKey[],
+): InstructionFinding | undefined {
+  if (!target || !destination || includesKey(daoAccounts, destination)) {
+    return undefined
+  }
+  return {
+    rule: 'closeAccountOutsideDao',
+    severity: 'danger',
+    title: 'Instruction closes an account to a wallet outside of the DAO',
+    description: `The rent of ${target.toBase58()} is sent to ${destination.toBase58()}, an account the DAO does not control.`,
+    accounts: [target, destination],
+  }
+}
+
+function analyzeGovernanceInstruction(
+  ix: InstructionData,
+  data: Buffer,
+  daoAccounts: PublicKey[],
+): InstructionFinding[] {
+  switch (data[0]) {
+    case SET_GOVERNANCE_CONFIG:
+      return [
+        {
+          rule: 'governanceConfigChange',
+          severity: 'warning',
+          title:
+            'Instructions like this one change the way the DAO is governed',
+          description:
+            "This proposal writes to your governance configuration, which could affect how votes are counted. Both the instruction data AND accounts list contain parameters. Before you vote, make sure you review the proposal's instructions and the concerned accounts, and understand the implications of passing this proposal.",
+          accounts: ix.accounts.slice(0, 1).map((a) => a.pubkey),
+        },
+      ]
+    case SET_REALM_CONFIG:
+      return [
+        {
+          rule: 'realmConfigChange',
+          severity: 'warning',
+          title:
+            'Instructions like this one change the way the DAO is governed',
+          description:
+            "This proposal writes to your realm configuration, which could affect how votes are counted, including the voting plugins. Both the instruction data AND accounts list contain parameters. Before you vote, make sure you review the proposal's instructions and the concerned accounts, and understand the implications of passing this proposal.",
+          accounts: ix.accounts.slice(0, 1).map((a) => a.pubkey),
+        },
+      ]
+    case SET_REALM_AUTHORITY:
+      return ix.accounts[0]
+        ? [
+            authorityChange(
+              ix.accounts[0].pubkey,
+              'realm authority',
+              data[1] === REMOVE_REALM_AUTHORITY
+                ? undefined
+                : ix.accounts[2]?.pubkey,
+              daoAccounts,
+            ),
+          ]
+        : []
+    default:
+      return []
+  }
+}
+
+function analyzeTokenInstruction(
+  ix: InstructionData,
+  data: Buffer,
+  daoAccounts: PublicKey[],
+  context: RiskAnalysisContext,
+): InstructionFinding[] {
+  const target = ix.accounts[0]?.pubkey
+  if (!target) {
+    return []
+  }
+  switch (data[0]) {
+    case TOKEN_SET_AUTHORITY: {
+      if (data.length < 3) return []
+      const subject = `${TOKEN_AUTHORITY_TYPES[data[1]] ?? 'token'} authority`
+      const newAuthority =
+        data[2] === 1 && data.length >= 35
+          ? new PublicKey(data.subarray(3, 35))
+          : undefined
+      return [authorityChange(target, subject, newAuthority, daoAccounts)]
+    }
+    case TOKEN_CLOSE_ACCOUNT: {
+      const finding = closeAccount(target, ix.accounts[1]?.pubkey, daoAccounts)
+      return finding ? [finding] : []
+    }
+    case TOKEN_TRANSFER:
+    case TOKEN_TRANSFER_CHECKED: {
+      if (data.length < 9) return []
+      const finding = analyzeTransfer(
+        target,
+        new BN(data.subarray(1, 9), 'le'),
+        context,
+      )
+      return finding ? [finding] : []
+    }
+    default:
+      return []
+  }
+}
+
+function analyzeLoaderInstruction(
+  ix: InstructionData,
+  data: Buffer,
+  daoAccounts: PublicKey[],
+): InstructionFinding[] {
+  if (data.length < 4) {
+    return []
+  }
+  const target = ix.accounts[0]?.pubkey
+  switch (data.readUInt32LE(0)) {
+    case LOADER_UPGRADE:
+      return [
+        {
+          rule: 'programUpgrade',
+          severity: 'warning',
+          title: 'Instructions like this one are dangerous',
+          description: 'This proposal upgrade program check params carefully',
+          accounts: ix.accounts.slice(1, 2).map((a) => a.pubkey),
+        },
+      ]
+    case LOADER_SET_AUTHORITY:
+    case LOADER_SET_AUTHORITY_CHECKED:
+      return target
+        ? [
+            authorityChange(
+              target,
+              'upgrade authority',
+              ix.accounts[2]?.pubkey,
+              daoAccounts,
+            ),
+          ]
+        : []
+    case LOADER_CLOSE: {
+      const finding = closeAccount(target, ix.accounts[1]?.pubkey, daoAccounts)
+      return finding ? [finding] : []
+    }
+    default:
+      return []
+  }
+}
+
+const toUiAmount = (amount: BN, decimals: number) =>
+  new BigNumber(amount.toString()).shiftedBy(-decimals)
+
+/**
+ * Compares the transfer with the usd value of the treasury, or with the balance of the source
+ * account when its price is unknown
+ */
+function analyzeTransfer(
+  source: PublicKey | undefined,
+  amount: BN,
+  context: RiskAnalysisContext,
+): InstructionFinding | undefined {
+  const holdings = context.holdings ?? []
+  const holding = source && holdings.find((x) => x.address.equals(source))
+  if (!holding) {
+    return undefined
+  }
+  const threshold = context.largeTransferShare ?? DEFAULT_LARGE_TRANSFER_SHARE
+  const treasuryValue = holdings.reduce(
+    (acc, x) => acc.plus(toUiAmount(x.amount, x.decimals).times(x.price ?? 0)),
+    new BigNumber(0),
+  )
+  const uiAmount = toUiAmount(amount, holding.decimals)
+
+  const share =
+    holding.price && treasuryValue.gt(0)
+      ? uiAmount.times(holding.price).div(treasuryValue)
+      : holding.amount.isZero()
+      ? new BigNumber(1)
+      : uiAmount.div(toUiAmount(holding.amount, holding.decimals))
+  if (share.lte(threshold)) {
+    return undefined
+  }
+  const percentage = share.times(100).toFormat(1)
+  return {
+    rule: 'largeTransfer',
+    severity: 'warning',
+    title: 'Instruction transfers a large share of the treasury',
+    description:
+      holding.price && treasuryValue.gt(0)
+        ? `${uiAmount.toFormat()} tokens worth ${percentage}% of the treasury value are transferred.`
+        : `${uiAmount.toFormat()} tokens, ${percentage}% of the source account balance, are transferred.`,
+    accounts: [holding.address],
+  }
+}
@@ -0,0 +1,267 @@
+import {
+  Governance,
+  ProgramAccount,
+  Proposal,
+  ProposalState,
+  Realm,
+  VoteKind,
+  VoteRecord,
+} from '@solana/spl-governance'
+import { MintInfo } from '@solana/spl-token'
+import BN from 'bn.js'
+import { BigNumber } from 'bignumber.js'
+import { getVoteWeight } from '@models/voteRecords'
+import { calculateMaxVoteScore } from './calulateMaxVoteScore'
+
+const TOP_VOTERS = 10
+
+export const PASSED_STATES = [
+  ProposalState.Succeeded,
+  ProposalState.Executing,
+  ProposalState.Completed,
+  ProposalState.ExecutingWithErrors,
+]
+export const DEFEATED_STATES = [ProposalState.Defeated, ProposalState.Vetoed]
+
+const HOUR = 60 * 60
+const DAY = 24 * HOUR
+export const VOTING_DURATION_BUCKETS = [
+  { label: '< 1h', max: HOUR },
+  { label: '1h - 6h', max: 6 * HOUR },
+  { label: '6h - 1d', max: DAY },
+  { label: '1d - 3d', max: 3 * DAY },
+  { label: '3d - 7d', max: 7 * DAY },
+  { label: '> 7d', max: Infinity },
+]
+
+export interface ProposalTurnout {
+  proposal: string
+  name: string
+  votingAt: number
+  // 0 to 1 of the max vote weight
+  turnout: number
+}
+
+export interface GovernanceOutcomes {
+  governance: string
+  passed: number
+  defeated: number
+  // 0 to 1 of the passed and defeated proposals
+  passRate: number
+}
+
+export interface VoteConcentration {
+  mint: string
+  voters: number
+  gini: number
+  // smallest number of voters holding a majority of the vote weight
+  nakamoto: number
+}
+
+export interface TopVoterOverlap {
+  proposal: string
+  name: string
+  votingAt: number
+  // jaccard index of the top voters of the proposal and the previous one of the same mint
+  overlap: number
+}
+
+export interface RealmAnalytics {
+  turnout: ProposalTurnout[]
+  outcomes: GovernanceOutcomes[]
+  votingDuration: { label: string; count: number }[]
+  concentration: VoteConcentration[]
+  topVoterOverlap: TopVoterOverlap[]
+}
+
+interface Args {
+  realm: ProgramAccount<Realm>
+  governances: ProgramAccount<Governance>[]
+  proposals: ProgramAccount<Proposal>[]
+  voteRecords: ProgramAccount<VoteRecord>[]
+  // mint infos by address
+  mints: Record<string, MintInfo>
+}
+
+const toBigNumber = (x: BN) => new BigNumber(x.toString())
+
+const getVoterWeight = (voteRecord: VoteRecord) =>
+  voteRecord.voterWeight ?? getVoteWeight(voteRecord) ?? new BN(0)
+
+/** 0 for a perfectly even distribution, close to 1 when a single voter holds all the weight */
+export function getGiniCoefficient(weights: BigNumber[]) {
+  const sorted = [...weights].sort((a, b) => a.comparedTo(b))
+  const total = sorted.reduce((acc, x) => acc.plus(x), new BigNumber(0))
+  if (!sorted.length || total.isZero()) return 0
+  const weighted = sorted.reduce(
+    (acc, x, i) => acc.plus(x.multipliedBy(i + 1)),
+    new BigNumber(0),
+  )
+  const n = sorted.length
+  return weighted
+    .multipliedBy(2)
+    .dividedBy(total.multipliedBy(n))
+    .minus((n + 1) / n)
+    .toNumber()
+}
+
+export function getNakamotoCoefficient(weights: BigNumber[]) {
+  const sorted = [...weights].sort((a, b) => b.comparedTo(a))
+  const majority = sorted
+    .reduce((acc, x) => acc.plus(x), new BigNumber(0))
+    .dividedBy(2)
+  let cumulative = new BigNumber(0)
+  for (const [i, weight] of sorted.entries()) {
+    cumulative = cumulative.plus(weight)
+    if (cumulative.gt(majority)) return i + 1
+  }
+  return 0
+}
+
+/**
+ * Time from the voting start to the completion of a passed proposal, capped at the voting time of its governance.
+ * Vote records have no timestamp, so this is not the time to quorum: only proposals tipping early complete when
+ * reaching quorum, the others run for the whole voting time.
+ */
+const getVotingDuration = (
+  proposal: Proposal,
+  governance: ProgramAccount<Governance> | undefined,
+) => {
+  if (!proposal.votingAt || !proposal.votingCompletedAt) return undefined
+  const duration = proposal.votingCompletedAt.sub(proposal.votingAt).toNumber()
+  return governance
+    ? Math.min(duration, governance.account.config.baseVotingTime)
+    : duration
+}
+
+/** Turnout, outcomes, concentration and overlap of all the proposals of a realm which went to a vote */
+export function buildRealmAnalytics({
+  realm,
+  governances,
+  proposals,
+  voteRecords,
+  mints,
+}: Args): RealmAnalytics {
+  const governancesByPk = new Map(
+    governances.map((x) => [x.pubkey.toBase58(), x]),
+  )
+  const votesByProposal = new Map<string, ProgramAccount<VoteRecord>[]>()
+  for (const voteRecord of voteRecords) {
+    // vetoes do not count towards the electoral turnout
+    if (voteRecord.account.vote?.voteType === VoteKind.Veto) continue
+    const key = voteRecord.account.proposal.toBase58()
+    const votes = votesByProposal.get(key)
+    if (votes) votes.push(voteRecord)
+    else votesByProposal.set(key, [voteRecord])
+  }
+
+  const voted = proposals
+    .filter((x) => x.account.votingAt)
+    .sort((a, b) => a.account.votingAt!.cmp(b.account.votingAt!))
+
+  const turnout = voted.flatMap((proposal) => {
+    const mint = mints[proposal.account.governingTokenMint.toBase58()]
+    if (!mint) return []
+    const maxVoteScore = toBigNumber(
+      calculateMaxVoteScore(realm, proposal, mint),
+    )
+    const cast = (votesByProposal.get(proposal.pubkey.toBase58()) ?? []).reduce(
+      (acc, x) => acc.plus(toBigNumber(getVoterWeight(x.account))),
+      new BigNumber(0),
+    )
+    return [
+      {
+        proposal: proposal.pubkey.toBase58(),
+        name: proposal.account.name,
+        votingAt: proposal.account.votingAt!.toNumber(),
+        turnout: maxVoteScore.isZero()
+          ? 0
+          : cast.dividedBy(maxVoteScore).toNumber(),
+      },
+    ]
+  })
+
+  const outcomes = governances
+    .map((governance) => {
+      const states = proposals
+        .filter((x) => x.account.governance.equals(governance.pubkey))
+        .map((x) => x.account.state)
+      const passed = states.filter((x) => PASSED_STATES.includes(x)).length
+      const defeated = states.filter((x) => DEFEATED_STATES.includes(x)).length
+      return {
+        governance: governance.pubkey.toBase58(),
+        passed,
+        defeated,
+        passRate: passed + defeated ? passed / (passed + defeated) : 0,
+      }
+    })
+    .filter((x) => x.passed + x.defeated)
+
+  const votingDurations = voted
+    .filter((x) => PASSED_STATES.includes(x.account.state))
+    .flatMap((x) => {
+      const time = getVotingDuration(
+        x.account,
+        governancesByPk.get(x.account.governance.toBase58()),
+      )
+      return time === undefined ? [] : [time]
+    })
+  const votingDuration = VOTING_DURATION_BUCKETS.map((bucket, i) => ({
+    label: bucket.label,
+    count: votingDurations.filter(
+      (x) =>
+        x < bucket.max && (i === 0 || x >= VOTING_DURATION_BUCKETS[i - 1].max),
+    ).length,
+  }))
+
+  // a voter's weight is the largest it cast on a proposal of the mint
+  const weightsByMint = new Map<string, Map<string, BigNumber>>()
+  for (const proposal of voted) {
+    const mint = proposal.account.governingTokenMint.toBase58()
+    const weights = weightsByMint.get(mint) ?? new Map<string, BigNumber>()
+    for (const x of votesByProposal.get(proposal.pubkey.toBase58()) ?? []) {
+      const voter = x.account.governingTokenOwner.toBase58()
+      const weight = toBigNumber(getVoterWeight(x.account))
+      weights.set(voter, BigNumber.max(weight, weights.get(voter) ?? 0))
+    }
+    weightsByMint.set(mint, weights)
+  }
+  const concentration = [...weightsByMint.entries()]
+    .filter(([, weights]) => weights.size)
+    .map(([mint, weights]) => ({
+      mint,
+      voters: weights.size,
+      gini: getGiniCoefficient([...weights.values()]),
+      nakamoto: getNakamotoCoefficient([...weights.values()]),
+    }))
+
+  const previousTopVoters = new Map<string, Set<string>>()
+  const topVoterOverlap = voted.flatMap((proposal) => {
+    const mint = proposal.account.governingTokenMint.toBase58()
+    const topVoters = new Set(
+      (votesByProposal.get(proposal.pubkey.toBase58()) ?? [])
+        .map((x) => ({
+          voter: x.account.governingTokenOwner.toBase58(),
+          weight: getVoterWeight(x.account),
+        }))
+        .sort((a, b) => b.weight.cmp(a.weight))
+        .slice(0, TOP_VOTERS)
+        .map((x) => x.voter),
+    )
+    if (!topVoters.size) return []
+    const previous = previousTopVoters.get(mint)
+    previousTopVoters.set(mint, topVoters)
+    if (!previous) return []
+    const shared = [...topVoters].filter((x) => previous.has(x)).length
+    return [
+      {
+        proposal: proposal.pubkey.toBase58(),
+        name: proposal.account.name,
+        votingAt: proposal.account.votingAt!.toNumber(),
+        overlap: shared / (topVoters.size + previous.size - shared),
+      },
+    ]
+  })
+
+  return { turnout, outcomes, votingDuration, concentration, topVoterOverlap }
+}
@@ -0,0 +1,104 @@
+import { ProgramAccount, Proposal, Realm } from '@solana/spl-governance'
+import { PublicKey } from '@solana/web3.js'
+import BN from 'bn.js'
+import { chunks } from '@utils/helpers'
+import { GovernanceRole } from '../../@types/types'
+
+export interface GroupableBallot {
+  proposal: ProgramAccount<Proposal>
+  tokenOwnerRecord: PublicKey
+  voterWeight: BN | null
+}
+
+export interface BallotRoleOptions {
+  // the plugin counts nfts or positions per proposal, its votes are cast one by one on their own
+  ownVoteFlow: boolean
+  // a single voter weight update can be shared by the votes of a transaction
+  reuseVoterWeight: boolean
+}
+
+export type BallotTransaction<T> =
+  | {
+      type: 'createTokenOwnerRecords'
+      records: { tokenOwnerRecord: PublicKey; governingTokenMint: PublicKey }[]
+    }
+  | {
+      type: 'votes'
+      role: GovernanceRole
+      reuseVoterWeight: boolean
+      ballots: T[]
+    }
+
+export const getBallotRole = (
+  realm: ProgramAccount<Realm>,
+  proposal: ProgramAccount<Proposal>,
+): GovernanceRole =>
+  proposal.account.governingTokenMint.equals(realm.account.communityMint)
+    ? 'community'
+    : 'council'
+
+/**
+ * Splits ballots in the transactions casting them: the token owner records of the roles voting come first,
+ * then the own votes in chunks of votesPerTransaction when the voter weight is reused, one per transaction
+ * otherwise. Ballots of plugins with their own vote flow are left out, delegators vote for all the others.
+ */
+export function groupBallots<T extends GroupableBallot>(
+  realm: ProgramAccount<Realm>,
+  ballots: T[],
+  roleOptions: (role: GovernanceRole) => BallotRoleOptions,
+  votesPerTransaction: number,
+) {
+  const ownFlowBallots = ballots.filter(
+    (x) => roleOptions(getBallotRole(realm, x.proposal)).ownVoteFlow,
+  )
+  const tokenOwnerRecords: {
+    tokenOwnerRecord: PublicKey
+    governingTokenMint: PublicKey
+  }[] = []
+  const voteTransactions: BallotTransaction<T>[] = []
+  const delegatorBallots: { role: GovernanceRole; ballot: T }[] = []
+
+  for (const role of ['community', 'council'] as const) {
+    const roleBallots = ballots.filter(
+      (x) =>
+        !ownFlowBallots.includes(x) &&
+        getBallotRole(realm, x.proposal) === role,
+    )
+    if (!roleBallots.length) continue
+    const { reuseVoterWeight } = roleOptions(role)
+
+    const ownBallots = roleBallots.filter((x) => x.voterWeight?.gtn(0))
+    if (ownBallots.length) {
+      tokenOwnerRecords.push({
+        tokenOwnerRecord: ownBallots[0].tokenOwnerRecord,
+        governingTokenMint: ownBallots[0].proposal.account.governingTokenMint,
+      })
+    }
+    for (const chunk of chunks(
+      ownBallots,
+      reuseVoterWeight ? votesPerTransaction : 1,
+    )) {
+      voteTransactions.push({
+        type: 'votes',
+        role,
+        reuseVoterWeight,
+        ballots: chunk,
+      })
+    }
+    delegatorBallots.push(...roleBallots.map((ballot) => ({ role, ballot })))
+  }
+
+  const transactions: BallotTransaction<T>[] = [
+    // token owner records have to exist before the votes
+    ...(tokenOwnerRecords.length
+      ? [
+          {
+            type: 'createTokenOwnerRecords' as const,
+            records: tokenOwnerRecords,
+          },
+        ]
+      : []),
+    ...voteTransactions,
+  ]
+  return { transactions, delegatorBallots, ownFlowBallots }
+}
@@ -1,5 +1,9 @@
+export * from './analyzeProposalRisk'
 export * from './buildTopVoters'
 export * from './calculateMintMaxVoteWeight'
 export * from './getSignatories'
 export * from './getTokenOwnerRecords'
 export * from './getVoteRecords'
+export * from './buildRealmAnalytics'
+export * from './simulateProposalVote'
+export * from './groupBallots'
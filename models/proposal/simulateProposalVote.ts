@@ -0,0 +1,117 @@
+import { VoteKind, VoteTipping } from '@solana/spl-governance'
+import BN from 'bn.js'
+
+export type SimulatedVoteKind =
+  | VoteKind.Approve
+  | VoteKind.Deny
+  | VoteKind.Abstain
+
+export interface SimulatedVote {
+  wallet: string
+  voteKind: SimulatedVoteKind
+  weight: BN
+}
+
+export type SimulatedOutcome = 'succeeded' | 'defeated'
+
+export interface VoteSimulation {
+  yesVotes: BN
+  noVotes: BN
+  maxVoteWeight: BN
+  // smallest yes weight reaching the threshold
+  minimumYesVotes: BN
+  // outcome reached before the end of the voting time, undefined when the vote does not tip
+  tippedOutcome?: SimulatedOutcome
+  // outcome once the voting time is over
+  finalOutcome: SimulatedOutcome
+}
+
+interface Args {
+  // current tally of the proposal
+  yesVotes: BN
+  noVotes: BN
+  // votes already cast, replaced when a hypothetical vote is for the same wallet
+  castVotes: SimulatedVote[]
+  hypotheticalVotes: SimulatedVote[]
+  maxVoteWeight: BN
+  // yes vote threshold of the governance, 0 to 100
+  thresholdPct: number
+  voteTipping: VoteTipping
+}
+
+// rounded up like the governance program
+export const getMinimumYesVotes = (maxVoteWeight: BN, thresholdPct: number) => {
+  const numerator = maxVoteWeight.muln(thresholdPct)
+  const threshold = numerator.divn(100)
+  return numerator.modn(100) > 0 ? threshold.addn(1) : threshold
+}
+
+const getTippedOutcome = (
+  yesVotes: BN,
+  noVotes: BN,
+  maxVoteWeight: BN,
+  minimumYesVotes: BN,
+  voteTipping: VoteTipping,
+): SimulatedOutcome | undefined => {
+  if (voteTipping === VoteTipping.Disabled) return undefined
+
+  const reachesThreshold = yesVotes.gte(minimumYesVotes)
+  if (
+    voteTipping === VoteTipping.Strict &&
+    reachesThreshold &&
+    yesVotes.gt(maxVoteWeight.sub(yesVotes))
+  )
+    return 'succeeded'
+  if (
+    voteTipping === VoteTipping.Early &&
+    reachesThreshold &&
+    yesVotes.gt(noVotes)
+  )
+    return 'succeeded'
+
+  // the threshold can no longer be reached, or no has the majority of the max vote weight
+  if (
+    noVotes.gt(BN.max(maxVoteWeight.sub(minimumYesVotes), new BN(0))) ||
+    noVotes.gte(maxVoteWeight.sub(noVotes))
+  )
+    return 'defeated'
+
+  return undefined
+}
+
+/** Applies hypothetical votes to a single choice proposal, following the threshold and tipping rules of the governance program */
+export function simulateProposalVote({
+  yesVotes,
+  noVotes,
+  castVotes,
+  hypotheticalVotes,
+  maxVoteWeight,
+  thresholdPct,
+  voteTipping,
+}: Args): VoteSimulation {
+  let yes = yesVotes
+  let no = noVotes
+
+  for (const vote of hypotheticalVotes) {
+    const previous = castVotes.find((x) => x.wallet === vote.wallet)
+    if (previous?.voteKind === VoteKind.Approve) yes = yes.sub(previous.weight)
+    if (previous?.voteKind === VoteKind.Deny) no = no.sub(previous.weight)
+
+    if (vote.voteKind === VoteKind.Approve) yes = yes.add(vote.weight)
+    if (vote.voteKind === VoteKind.Deny) no = no.add(vote.weight)
+  }
+
+  // the program never lets the cast weight exceed the max vote weight
+  const max = BN.max(maxVoteWeight, yes.add(no))
+  const minimumYesVotes = getMinimumYesVotes(max, thresholdPct)
+
+  return {
+    yesVotes: yes,
+    noVotes: no,
+    maxVoteWeight: max,
+    minimumYesVotes,
+    tippedOutcome: getTippedOutcome(yes, no, max, minimumYesVotes, voteTipping),
+    finalOutcome:
+      yes.gte(minimumYesVotes) && yes.gt(no) ? 'succeeded' : 'defeated',
+  }
+}
@@ -0,0 +1,97 @@
+import BigNumber from 'bignumber.js'
+
+// months of spend averaged into the burn rate, the current month included
+export const BURN_RATE_MONTHS = 3
+
+const SECONDS_PER_MONTH = (365.25 / 12) * 24 * 60 * 60
+
+export interface TreasuryBudget {
+  mint: string
+  // ui units
+  monthlyAllowance: string
+}
+
+export interface BudgetSpend {
+  governance: string
+  proposal: string
+  mint: string
+  // unix seconds
+  executedAt: number
+  // ui units
+  amount: BigNumber
+}
+
+export interface BudgetStatus {
+  mint: string
+  allowance: BigNumber
+  // spent in the current month
+  spent: BigNumber
+  remaining: BigNumber
+  balance: BigNumber
+  monthlyBurn: BigNumber
+  // undefined when nothing was spent during the burn rate window
+  runwayMonths?: number
+}
+
+/** Start of the month, UTC, in unix seconds */
+export const getMonthStart = (now: Date, monthsAgo = 0) =>
+  Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - monthsAgo, 1) / 1000
+
+export const getBurnRateWindowStart = (now: Date) =>
+  getMonthStart(now, BURN_RATE_MONTHS - 1)
+
+/**
+ * Spend of the current month against the allowance, and the runway of the balance at the
+ * average monthly spend of the burn rate window
+ */
+export function getBudgetStatus(
+  budget: TreasuryBudget,
+  spends: BudgetSpend[],
+  balance: BigNumber,
+  now = new Date(),
+): BudgetStatus {
+  const nowInSeconds = now.getTime() / 1000
+  const monthStart = getMonthStart(now)
+  const windowStart = getBurnRateWindowStart(now)
+  const sum = (since: number) =>
+    spends
+      .filter((x) => x.mint === budget.mint && x.executedAt >= since)
+      .reduce((acc, x) => acc.plus(x.amount), new BigNumber(0))
+
+  const allowance = new BigNumber(budget.monthlyAllowance)
+  const spent = sum(monthStart)
+  const monthlyBurn = sum(windowStart).div(
+    Math.max(nowInSeconds - windowStart, 1) / SECONDS_PER_MONTH,
+  )
+
+  return {
+    mint: budget.mint,
+    allowance,
+    spent,
+    remaining: BigNumber.max(allowance.minus(spent), 0),
+    balance,
+    monthlyBurn,
+    runwayMonths: monthlyBurn.gt(0)
+      ? balance.div(monthlyBurn).toNumber()
+      : undefined,
+  }
+}
+
+export interface BudgetOverrun {
+  mint: string
+  amount: BigNumber
+  remaining: BigNumber
+}
+
+/** Mints whose transfers, summed over the proposal, exceed the remaining allowance */
+export function findBudgetOverruns(
+  transfers: { mint: string; amount: BigNumber }[],
+  statuses: Pick<BudgetStatus, 'mint' | 'remaining'>[],
+): BudgetOverrun[] {
+  return statuses.flatMap(({ mint, remaining }) => {
+    const amount = transfers
+      .filter((x) => x.mint === mint)
+      .reduce((acc, x) => acc.plus(x.amount), new BigNumber(0))
+    return amount.gt(remaining) ? [{ mint, amount, remaining }] : []
+  })
+}
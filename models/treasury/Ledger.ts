@@ -0,0 +1,230 @@
+import BigNumber from 'bignumber.js'
+import BN from 'bn.js'
+import bs58 from 'bs58'
+import {
+  ConfirmedSignatureInfo,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+} from '@solana/web3.js'
+import { stringify } from 'csv-stringify/sync'
+
+// mint of lamport changes
+export const LEDGER_SOL_MINT = 'SOL'
+const SOL_DECIMALS = 9
+
+// GovernanceInstruction::ExecuteTransaction, accounts: governance, proposal, proposal transaction
+const EXECUTE_TRANSACTION_INSTRUCTION = 16
+
+export interface LedgerChange {
+  // mint address or LEDGER_SOL_MINT
+  mint: string
+  // tracked wallet or token account whose balance changed
+  account: string
+  // base units, positive for inflows and negative for outflows
+  amount: BN
+  decimals: number
+}
+
+export interface LedgerEntry {
+  signature: string
+  slot: number
+  blockTime: number | null
+  failed: boolean
+  // lamports, only set when a tracked address paid the fee
+  fee: number
+  // proposal executed by the transaction
+  proposal?: string
+  changes: LedgerChange[]
+}
+
+/**
+ * Last signature loaded per address, null once every signature of the address is loaded and
+ * undefined before the first page
+ */
+export type LedgerCursor = Record<string, string | null | undefined>
+
+const findExecutedProposal = (
+  transaction: ParsedTransactionWithMeta,
+  governanceProgramIds: string[],
+) => {
+  const instruction = transaction.transaction.message.instructions.find(
+    (x) =>
+      governanceProgramIds.includes(x.programId.toBase58()) &&
+      'data' in x &&
+      bs58.decode(x.data)[0] === EXECUTE_TRANSACTION_INSTRUCTION,
+  ) as PartiallyDecodedInstruction | undefined
+  return instruction?.accounts[1]?.toBase58()
+}
+
+/**
+ * Nets the balance changes of the tracked addresses in a transaction. Tracked addresses are
+ * wallets, whose token accounts are picked up through the token balance owners, or token accounts
+ */
+export function parseLedgerEntry(
+  signature: string,
+  transaction: ParsedTransactionWithMeta,
+  tracked: string[],
+  governanceProgramIds: string[],
+): LedgerEntry {
+  const { meta } = transaction
+  const accountKeys = transaction.transaction.message.accountKeys.map((x) =>
+    x.pubkey.toBase58(),
+  )
+  const changes: LedgerChange[] = []
+  const isTracked = (address?: string) => !!address && tracked.includes(address)
+
+  const tokenAccountIndexes = new Set([
+    ...(meta?.preTokenBalances ?? []).map((x) => x.accountIndex),
+    ...(meta?.postTokenBalances ?? []).map((x) => x.accountIndex),
+  ])
+  const feePayerIsTracked = isTracked(accountKeys[0])
+
+  accountKeys.forEach((account, i) => {
+    // lamports of token accounts move with their token balance, e.g. wrapped SOL
+    if (!meta || !isTracked(account) || tokenAccountIndexes.has(i)) {
+      return
+    }
+    const fee = i === 0 ? meta.fee : 0
+    const amount = new BN(meta.postBalances[i] - meta.preBalances[i] + fee)
+    if (!amount.isZero()) {
+      changes.push({
+        mint: LEDGER_SOL_MINT,
+        account,
+        amount,
+        decimals: SOL_DECIMALS,
+      })
+    }
+  })
+
+  for (const index of tokenAccountIndexes) {
+    const pre = meta?.preTokenBalances?.find((x) => x.accountIndex === index)
+    const post = meta?.postTokenBalances?.find((x) => x.accountIndex === index)
+    const balance = post ?? pre!
+    if (!isTracked(accountKeys[index]) && !isTracked(balance.owner)) {
+      continue
+    }
+    const amount = new BN(post?.uiTokenAmount.amount ?? 0).sub(
+      new BN(pre?.uiTokenAmount.amount ?? 0),
+    )
+    if (!amount.isZero()) {
+      changes.push({
+        mint: balance.mint,
+        account: accountKeys[index],
+        amount,
+        decimals: balance.uiTokenAmount.decimals,
+      })
+    }
+  }
+
+  return {
+    signature,
+    slot: transaction.slot,
+    blockTime: transaction.blockTime ?? null,
+    failed: !!meta?.err,
+    fee: feePayerIsTracked ? meta?.fee ?? 0 : 0,
+    proposal: findExecutedProposal(transaction, governanceProgramIds),
+    changes,
+  }
+}
+
+/**
+ * Merges pages of getSignaturesForAddress fetched for several addresses into one page, newest first.
+ * Signatures older than the oldest signature of a full page are left for the next page, an address
+ * with a full page may have more signatures in that range
+ */
+export function mergeSignaturePages(
+  pages: { address: string; signatures: ConfirmedSignatureInfo[] }[],
+  previous: LedgerCursor,
+  limit: number,
+) {
+  const fullPageBoundaries = pages
+    .filter((x) => x.signatures.length >= limit)
+    .map((x) => x.signatures[x.signatures.length - 1].slot)
+  const cutoff = fullPageBoundaries.length
+    ? Math.max(...fullPageBoundaries)
+    : -Infinity
+
+  const cursor: LedgerCursor = { ...previous }
+  const merged = new Map<string, ConfirmedSignatureInfo>()
+  for (const { address, signatures } of pages) {
+    const included = signatures.filter((x) => x.slot >= cutoff)
+    included.forEach((x) => merged.set(x.signature, x))
+    cursor[address] =
+      signatures.length < limit && included.length === signatures.length
+        ? null
+        : included.length
+        ? included[included.length - 1].signature
+        : previous[address]
+  }
+
+  return {
+    signatures: [...merged.values()].sort(
+      (a, b) => b.slot - a.slot || (b.blockTime ?? 0) - (a.blockTime ?? 0),
+    ),
+    cursor,
+    done: Object.values(cursor).every((x) => x === null),
+  }
+}
+
+export const isLedgerEntryInPeriod = (
+  entry: LedgerEntry,
+  from?: number,
+  to?: number,
+) =>
+  entry.blockTime !== null &&
+  (from === undefined || entry.blockTime >= from) &&
+  (to === undefined || entry.blockTime < to)
+
+/**
+ * One row per balance change and per fee, amounts in ui units. Symbols are keyed by mint
+ */
+export function ledgerToCsv(
+  entries: LedgerEntry[],
+  symbols: Record<string, string | undefined> = {},
+) {
+  const fmtAmount = (amount: BN, decimals: number) =>
+    new BigNumber(amount.toString()).shiftedBy(-decimals).toFixed()
+
+  const rows = entries.flatMap((entry) => {
+    const date = entry.blockTime
+      ? new Date(entry.blockTime * 1000).toISOString()
+      : ''
+    const common = [date, entry.signature, entry.proposal ?? '']
+    return [
+      ...entry.changes.map((change) => [
+        ...common,
+        change.amount.isNeg() ? 'outflow' : 'inflow',
+        change.account,
+        change.mint,
+        symbols[change.mint] ?? '',
+        fmtAmount(change.amount, change.decimals),
+      ]),
+      ...(entry.fee
+        ? [
+            [
+              ...common,
+              'fee',
+              '',
+              LEDGER_SOL_MINT,
+              'SOL',
+              fmtAmount(new BN(-entry.fee), SOL_DECIMALS),
+            ],
+          ]
+        : []),
+    ]
+  })
+
+  return stringify([
+    [
+      'date',
+      'signature',
+      'proposal',
+      'type',
+      'account',
+      'mint',
+      'symbol',
+      'amount',
+    ],
+    ...rows,
+  ])
+}
@@ -0,0 +1,137 @@
+import BigNumber from 'bignumber.js'
+
+export interface SnapshotBalance {
+  governance: string
+  // address holding the balance, the native treasury or a token account
+  wallet: string
+  mint: string
+  symbol?: string
+  // ui units, kept as a string so large balances don't lose precision
+  amount: string
+  // usd per ui unit, null when no price was available
+  price: number | null
+}
+
+export interface TreasurySnapshot {
+  realm: string
+  // unix seconds
+  takenAt: number
+  source: 'manual' | 'scheduled'
+  balances: SnapshotBalance[]
+}
+
+export interface GovernanceReport {
+  governance: string
+  opening: BigNumber
+  inflows: BigNumber
+  outflows: BigNumber
+  priceEffect: BigNumber
+  closing: BigNumber
+}
+
+export interface PeriodReport {
+  // YYYY-MM, UTC
+  period: string
+  opening: TreasurySnapshot
+  closing: TreasurySnapshot
+  governances: GovernanceReport[]
+}
+
+export const getSnapshotPeriod = (takenAt: number) =>
+  new Date(takenAt * 1000).toISOString().slice(0, 7)
+
+const getHoldings = (snapshot: TreasurySnapshot) => {
+  const holdings = new Map<
+    string,
+    { governance: string; amount: BigNumber; price: number | null }
+  >()
+  for (const balance of snapshot.balances) {
+    const key = `${balance.governance}:${balance.mint}`
+    const holding = holdings.get(key)
+    holdings.set(key, {
+      governance: balance.governance,
+      amount: (holding?.amount ?? new BigNumber(0)).plus(balance.amount),
+      price: holding?.price ?? balance.price,
+    })
+  }
+  return holdings
+}
+
+/**
+ * Explains the change in value of each governance between two snapshots, per mint:
+ * the price effect revalues the opening amount at the closing price and the change in amount,
+ * valued at the closing price, is an inflow or an outflow.
+ * closing = opening + inflows - outflows + price effect
+ */
+export function compareSnapshots(
+  opening: TreasurySnapshot,
+  closing: TreasurySnapshot,
+): GovernanceReport[] {
+  const before = getHoldings(opening)
+  const after = getHoldings(closing)
+  const reports = new Map<string, GovernanceReport>()
+
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const start = before.get(key)
+    const end = after.get(key)
+    const governance = (start ?? end)!.governance
+    const startAmount = start?.amount ?? new BigNumber(0)
+    const endAmount = end?.amount ?? new BigNumber(0)
+    // a missing price is carried over from the other snapshot
+    const startPrice = start?.price ?? end?.price ?? 0
+    const endPrice = end?.price ?? start?.price ?? 0
+    const flow = endAmount.minus(startAmount).times(endPrice)
+
+    const report = reports.get(governance) ?? {
+      governance,
+      opening: new BigNumber(0),
+      inflows: new BigNumber(0),
+      outflows: new BigNumber(0),
+      priceEffect: new BigNumber(0),
+      closing: new BigNumber(0),
+    }
+    reports.set(governance, {
+      governance,
+      opening: report.opening.plus(startAmount.times(startPrice)),
+      inflows: flow.isPositive() ? report.inflows.plus(flow) : report.inflows,
+      outflows: flow.isNegative()
+        ? report.outflows.minus(flow)
+        : report.outflows,
+      priceEffect: report.priceEffect.plus(
+        startAmount.times(endPrice - startPrice),
+      ),
+      closing: report.closing.plus(endAmount.times(endPrice)),
+    })
+  }
+
+  return [...reports.values()].sort((a, b) => b.closing.comparedTo(a.closing))
+}
+
+/**
+ * Month over month reports, newest first. A month closes on its last snapshot and opens on the
+ * close of the previous month, or on its own first snapshot for the first month
+ */
+export function buildPeriodReports(
+  snapshots: TreasurySnapshot[],
+): PeriodReport[] {
+  const sorted = [...snapshots].sort((a, b) => a.takenAt - b.takenAt)
+  const closings = new Map<string, TreasurySnapshot>()
+  for (const snapshot of sorted) {
+    closings.set(getSnapshotPeriod(snapshot.takenAt), snapshot)
+  }
+
+  let previous: TreasurySnapshot | undefined
+  const reports: PeriodReport[] = []
+  for (const [period, closing] of closings) {
+    const opening =
+      previous ?? sorted.find((x) => getSnapshotPeriod(x.takenAt) === period)!
+    reports.push({
+      period,
+      opening,
+      closing,
+      governances: compareSnapshots(opening, closing),
+    })
+    previous = closing
+  }
+  return reports.reverse()
+}
@@ -0,0 +1,58 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { TreasurySnapshot } from './Snapshot'
+
+// server side only, shared by the snapshot script and the treasurySnapshots api
+export const DEFAULT_SNAPSHOT_STORE =
+  process.env.TREASURY_SNAPSHOT_STORE ?? '.treasury-snapshots.json'
+
+interface SnapshotStoreFile {
+  version: 1
+  snapshots: TreasurySnapshot[]
+}
+
+export class TreasurySnapshotStore {
+  private snapshots: TreasurySnapshot[]
+
+  constructor(private readonly path = DEFAULT_SNAPSHOT_STORE) {
+    this.snapshots = TreasurySnapshotStore.read(path).snapshots
+  }
+
+  private static read(path: string): SnapshotStoreFile {
+    if (!existsSync(path)) {
+      return { version: 1, snapshots: [] }
+    }
+    try {
+      const parsed = JSON.parse(readFileSync(path, 'utf-8'))
+      return { version: 1, snapshots: parsed.snapshots ?? [] }
+    } catch (e) {
+      console.error(
+        `- could not read treasury snapshots ${path}, starting fresh`,
+      )
+      return { version: 1, snapshots: [] }
+    }
+  }
+
+  list(realm: string) {
+    return this.snapshots
+      .filter((x) => x.realm === realm)
+      .sort((a, b) => a.takenAt - b.takenAt)
+  }
+
+  // a snapshot taken at the same time for the same realm replaces the previous one
+  add(snapshot: TreasurySnapshot) {
+    this.snapshots = [
+      ...this.snapshots.filter(
+        (x) => x.realm !== snapshot.realm || x.takenAt !== snapshot.takenAt,
+      ),
+      snapshot,
+    ]
+  }
+
+  // write to a temp file first so a crash mid-write can't corrupt the store
+  save() {
+    const file: SnapshotStoreFile = { version: 1, snapshots: this.snapshots }
+    const tmp = `${this.path}.tmp`
+    writeFileSync(tmp, JSON.stringify(file, null, 2))
+    renameSync(tmp, this.path)
+  }
+}
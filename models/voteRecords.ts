@@ -24,3 +24,11 @@ export function getVoteWeight(voteRecord: VoteRecord) {
 
   return voteRecord.getNoVoteWeight()
 }
+
+export function getVoteKind(voteRecord: VoteRecord) {
+  if (voteRecord.accountType === GovernanceAccountType.VoteRecordV1) {
+    return isYesVote(voteRecord) ? VoteKind.Approve : VoteKind.Deny
+  }
+
+  return voteRecord.vote?.voteType
+}
@@ -0,0 +1,79 @@
+import { withSentry } from '@sentry/nextjs'
+import { NextApiRequest, NextApiResponse } from 'next'
+import { Connection, PublicKey } from '@solana/web3.js'
+import {
+  DelegateProfile,
+  isDelegateProfile,
+} from '@models/delegates/DelegateProfile'
+import {
+  DelegateProfileStore,
+  hasTokenOwnerRecord,
+  verifyDelegateProfile,
+} from '@models/delegates/DelegateProfileStore'
+import { tryParseKey } from '@tools/validators/pubkey'
+
+// profiles signed further in the future are rejected
+const MAX_CLOCK_DRIFT = 5 * 60
+
+// GET ?realm=<address> lists the delegate profiles of a realm, POST publishes a profile signed by
+// its wallet, which has to be a member of the realm
+const handler = async (req: NextApiRequest, res: NextApiResponse) => {
+  const store = new DelegateProfileStore()
+
+  if (req.method === 'GET') {
+    const realm = req.query.realm
+    if (typeof realm !== 'string' || !tryParseKey(realm)) {
+      return res.status(400).json('realm not provided')
+    }
+    return res.status(200).json(await store.list(realm))
+  }
+
+  if (req.method === 'POST') {
+    if (
+      !isDelegateProfile(req.body) ||
+      !tryParseKey(req.body.realm) ||
+      !tryParseKey(req.body.wallet)
+    ) {
+      return res.status(400).json('invalid profile')
+    }
+    // the fields of the profile only, anything else in the body isn't stored
+    const { realm, wallet, statement, links, signedAt, signature } = req.body
+    const profile: DelegateProfile = {
+      realm,
+      wallet,
+      statement,
+      links,
+      signedAt,
+      signature,
+    }
+    if (profile.signedAt > Date.now() / 1000 + MAX_CLOCK_DRIFT) {
+      return res.status(400).json('profile signed in the future')
+    }
+    if (!verifyDelegateProfile(profile)) {
+      return res.status(401).json('invalid signature')
+    }
+
+    if (!process.env.BACKEND_MAINNET_RPC)
+      return res.status(500).json('BACKEND_MAINNET_RPC not provided in env')
+    const connection = new Connection(process.env.BACKEND_MAINNET_RPC, 'recent')
+    if (
+      !(await hasTokenOwnerRecord(
+        connection,
+        new PublicKey(profile.realm),
+        new PublicKey(profile.wallet),
+      ))
+    ) {
+      return res.status(403).json('wallet is not a member of the realm')
+    }
+
+    if (!(await store.put(profile))) {
+      return res.status(409).json('a newer profile is already published')
+    }
+    return res.status(200).json(profile)
+  }
+
+  res.setHeader('Allow', 'GET, POST')
+  res.status(405).json('method not allowed')
+}
+
+export default withSentry(handler)
@@ -0,0 +1,23 @@
+import { withSentry } from '@sentry/nextjs'
+import { NextApiRequest, NextApiResponse } from 'next'
+import { TreasurySnapshotStore } from '@models/treasury/SnapshotStore'
+import { tryParseKey } from '@tools/validators/pubkey'
+
+// GET ?realm=<address> lists the snapshots of a realm. The api is read only, snapshots are
+// recorded by scripts/treasury-snapshot.ts from on chain balances
+const handler = (req: NextApiRequest, res: NextApiResponse) => {
+  const store = new TreasurySnapshotStore()
+
+  if (req.method === 'GET') {
+    const realm = req.query.realm
+    if (typeof realm !== 'string' || !tryParseKey(realm)) {
+      return res.status(400).json('realm not provided')
+    }
+    return res.status(200).json(store.list(realm))
+  }
+
+  res.setHeader('Allow', 'GET')
+  res.status(405).json('method not allowed')
+}
+
+export default withSentry(handler)
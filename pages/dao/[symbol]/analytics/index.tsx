@@ -0,0 +1,227 @@
+import { useMemo } from 'react'
+import dynamic from 'next/dynamic'
+import { MintInfo } from '@solana/spl-token'
+import InlineNotification from '@components/InlineNotification'
+import PreviousRouteBtn from '@components/PreviousRouteBtn'
+import { Table, Td, Th, TrBody, TrHead } from '@components/TableElements'
+import { useRealmQuery } from '@hooks/queries/realm'
+import { useRealmGovernancesQuery } from '@hooks/queries/governance'
+import { useRealmProposalsQuery } from '@hooks/queries/proposal'
+import { useRealmVoteRecordsQuery } from '@hooks/queries/voteRecord'
+import {
+  useRealmCommunityMintInfoQuery,
+  useRealmCouncilMintInfoQuery,
+} from '@hooks/queries/mintInfo'
+import useRealm from '@hooks/useRealm'
+import { buildRealmAnalytics } from '@models/proposal'
+import { abbreviateAddress } from '@utils/formatting'
+import { formatNumber } from '@utils/formatNumber'
+
+const AnalyticsBarChart = dynamic(
+  () => import('@components/RealmAnalytics/AnalyticsBarChart'),
+  {
+    ssr: false,
+  },
+)
+
+const fmtPercent = (value: number) =>
+  `${formatNumber(value * 100, undefined, { maximumFractionDigits: 1 })}%`
+
+const fmtCount = (value: number) =>
+  formatNumber(value, undefined, { maximumFractionDigits: 0 })
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((acc, x) => acc + x, 0) / values.length : 0
+
+const Section = ({
+  title,
+  description,
+  children,
+}: {
+  title: string
+  description: string
+  children: React.ReactNode
+}) => (
+  <div className="bg-bkg-1 rounded-md p-4 md:p-6">
+    <h3 className="mb-1">{title}</h3>
+    <p className="mb-4 text-fgd-3 text-sm">{description}</p>
+    {children}
+  </div>
+)
+
+const Analytics = () => {
+  const { realmInfo } = useRealm()
+  const realm = useRealmQuery().data?.result
+  const governances = useRealmGovernancesQuery().data
+  const proposals = useRealmProposalsQuery().data
+  const voteRecords = useRealmVoteRecordsQuery().data
+  const communityMintInfo = useRealmCommunityMintInfoQuery().data?.result
+  const councilMintInfo = useRealmCouncilMintInfoQuery().data?.result
+
+  const analytics = useMemo(() => {
+    if (!realm || !governances || !proposals || !voteRecords) return undefined
+    const mints: Record<string, MintInfo> = {}
+    if (communityMintInfo) {
+      mints[realm.account.communityMint.toBase58()] = communityMintInfo
+    }
+    if (councilMintInfo && realm.account.config.councilMint) {
+      mints[realm.account.config.councilMint.toBase58()] = councilMintInfo
+    }
+    return buildRealmAnalytics({
+      realm,
+      governances,
+      proposals,
+      voteRecords: voteRecords.voteRecords,
+      mints,
+    })
+  }, [
+    realm,
+    governances,
+    proposals,
+    voteRecords,
+    communityMintInfo,
+    councilMintInfo,
+  ])
+
+  const getMintLabel = (mint: string) =>
+    mint === realm?.account.communityMint.toBase58()
+      ? 'Community'
+      : mint === realm?.account.config.councilMint?.toBase58()
+      ? 'Council'
+      : abbreviateAddress(mint)
+
+  return (
+    <div className="bg-bkg-2 rounded-lg p-4 md:p-6 space-y-6">
+      <div>
+        <div className="mb-4">
+          <PreviousRouteBtn />
+        </div>
+        <div className="border-b border-fgd-4 flex items-center pb-4">
+          {realmInfo?.ogImage ? (
+            <img src={realmInfo?.ogImage} className="h-8 mr-3 w-8"></img>
+          ) : null}
+          <div>
+            <p>{realmInfo?.displayName}</p>
+            <h1 className="mb-0">Voting Analytics</h1>
+          </div>
+        </div>
+      </div>
+      {!!voteRecords?.failedProposals.length && (
+        <InlineNotification
+          desc={`The votes of ${voteRecords.failedProposals.length} proposals could not be loaded and are left out of the analytics`}
+          type="warning"
+        />
+      )}
+      {!analytics ? (
+        <div className="h-64 rounded-md bg-bkg-1 animate-pulse" />
+      ) : (
+        <>
+          <Section
+            title="Turnout"
+            description={`Vote weight cast as a share of the max vote weight, ${fmtPercent(
+              average(analytics.turnout.map((x) => x.turnout)),
+            )} on average over ${analytics.turnout.length} proposals`}
+          >
+            <div className="h-64">
+              <AnalyticsBarChart
+                data={analytics.turnout.map((x) => ({
+                  label: x.name,
+                  value: x.turnout,
+                }))}
+                fmtValue={fmtPercent}
+              />
+            </div>
+          </Section>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Section
+              title="Outcomes per governance"
+              description="Passed proposals out of those passed or defeated"
+            >
+              <Table>
+                <thead>
+                  <TrHead>
+                    <Th>Governance</Th>
+                    <Th>Passed</Th>
+                    <Th>Defeated</Th>
+                    <Th>Pass rate</Th>
+                  </TrHead>
+                </thead>
+                <tbody>
+                  {analytics.outcomes.map((x) => (
+                    <TrBody key={x.governance}>
+                      <Td>{abbreviateAddress(x.governance)}</Td>
+                      <Td>{x.passed}</Td>
+                      <Td>{x.defeated}</Td>
+                      <Td>{fmtPercent(x.passRate)}</Td>
+                    </TrBody>
+                  ))}
+                </tbody>
+              </Table>
+            </Section>
+            <Section
+              title="Voting duration"
+              description="Time from the voting start to the completion of passed proposals, capped at the voting time. Only proposals with early tipping complete when reaching quorum, the others run for the whole voting time"
+            >
+              <div className="h-64">
+                <AnalyticsBarChart
+                  data={analytics.votingDuration.map((x) => ({
+                    label: x.label,
+                    value: x.count,
+                  }))}
+                  fmtValue={fmtCount}
+                />
+              </div>
+            </Section>
+          </div>
+          <Section
+            title="Voter concentration"
+            description="Distribution of the largest vote weight cast by each voter. The Nakamoto coefficient is the smallest number of voters holding a majority"
+          >
+            <Table>
+              <thead>
+                <TrHead>
+                  <Th>Token</Th>
+                  <Th>Voters</Th>
+                  <Th>Gini</Th>
+                  <Th>Nakamoto</Th>
+                </TrHead>
+              </thead>
+              <tbody>
+                {analytics.concentration.map((x) => (
+                  <TrBody key={x.mint}>
+                    <Td>{getMintLabel(x.mint)}</Td>
+                    <Td>{x.voters}</Td>
+                    <Td>
+                      {formatNumber(x.gini, undefined, {
+                        maximumFractionDigits: 2,
+                      })}
+                    </Td>
+                    <Td>{x.nakamoto}</Td>
+                  </TrBody>
+                ))}
+              </tbody>
+            </Table>
+          </Section>
+          <Section
+            title="Top voter overlap"
+            description={`Share of the 10 largest voters a proposal has in common with the previous one, ${fmtPercent(
+              average(analytics.topVoterOverlap.map((x) => x.overlap)),
+            )} on average`}
+          >
+            <div className="h-64">
+              <AnalyticsBarChart
+                data={analytics.topVoterOverlap.map((x) => ({
+                  label: x.name,
+                  value: x.overlap,
+                }))}
+                fmtValue={fmtPercent}
+              />
+            </div>
+          </Section>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default Analytics
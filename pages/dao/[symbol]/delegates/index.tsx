@@ -0,0 +1,27 @@
+import DelegateDirectory from '@components/Delegates/DelegateDirectory'
+import PreviousRouteBtn from '@components/PreviousRouteBtn'
+import useRealm from '@hooks/useRealm'
+
+const DelegatesPage = () => {
+  const { realmInfo } = useRealm()
+
+  return (
+    <div className="bg-bkg-2 rounded-lg p-4 md:p-6">
+      <div className="mb-4">
+        <PreviousRouteBtn />
+      </div>
+      <div className="border-b border-fgd-4 flex items-center mb-6 pb-4">
+        {realmInfo?.ogImage ? (
+          <img src={realmInfo?.ogImage} className="h-8 mr-3 w-8"></img>
+        ) : null}
+        <div>
+          <p>{realmInfo?.displayName}</p>
+          <h1 className="mb-0">Delegates</h1>
+        </div>
+      </div>
+      <DelegateDirectory />
+    </div>
+  )
+}
+
+export default DelegatesPage
@@ -8,13 +8,9 @@ import {
   ProgramAccount,
   Proposal,
   ProposalState,
-  Vote,
-  VoteType,
-  withCastVote,
-  YesNoVote,
 } from '@solana/spl-governance'
 import NewProposalBtn from './proposal/components/NewProposalBtn'
-import { PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js'
+import { PublicKey } from '@solana/web3.js'
 import TokenBalanceCardWrapper from '@components/TokenBalance/TokenBalanceCardWrapper'
 import dynamic from 'next/dynamic'
 import PaginationComponent from '@components/Pagination'
@@ -26,15 +22,12 @@ import Switch from '@components/Switch'
 import ProposalSelectCard from '@components/ProposalSelectCard'
 import Checkbox from '@components/inputs/Checkbox'
 import Button from '@components/Button'
-import { notify } from '@utils/notifications'
-import { sendSignedTransaction } from '@utils/send'
 import { compareProposals, filterProposals } from '@utils/proposals'
 import ProposalSorting, {
   InitialSorting,
   PROPOSAL_SORTING_LOCAL_STORAGE_KEY,
   Sorting,
 } from '@components/ProposalSorting'
-import useWalletOnePointOh from '@hooks/useWalletOnePointOh'
 import {
   useUserCommunityTokenOwnerRecord,
   useUserCouncilTokenOwnerRecord,
@@ -45,16 +38,7 @@ import {
   useRealmCouncilMintInfoQuery,
 } from '@hooks/queries/mintInfo'
 import { useRealmGovernancesQuery } from '@hooks/queries/governance'
-import { useConnection } from '@solana/wallet-adapter-react'
-import {
-  proposalQueryKeys,
-  useRealmProposalsQuery,
-} from '@hooks/queries/proposal'
-import queryClient from '@hooks/queries/queryClient'
-import { getFeeEstimate } from '@tools/feeEstimate'
-import { createComputeBudgetIx } from '@blockworks-foundation/mango-v4'
-import { useNftClient } from '../../../VoterWeightPlugins/useNftClient'
-import { useVotingClients } from '@hooks/useVotingClients'
+import { useRealmProposalsQuery } from '@hooks/queries/proposal'
 import { useRealmVoterWeightPlugins } from '@hooks/useRealmVoterWeightPlugins'
 import { useGetOnchainMetadata } from '@hooks/useOnchainMetadata'
 
@@ -72,6 +56,9 @@ const RealmHeader = dynamic(() => import('components/RealmHeader'))
 const DepositLabel = dynamic(
   () => import('@components/TreasuryAccount/DepositLabel'),
 )
+const VotingQueueModal = dynamic(
+  () => import('@components/VotingQueue/VotingQueueModal'),
+)
 
 const REALM = () => {
   const pagination = useRef<{ setPage: (val) => void }>(null)
@@ -89,7 +76,7 @@ const REALM = () => {
   const [paginatedProposals, setPaginatedProposals] = useState<
     [string, ProgramAccount<Proposal>][]
   >([])
-  const [isMultiVoting, setIsMultiVoting] = useState(false)
+  const [isVotingQueueOpen, setIsVotingQueueOpen] = useState(false)
   const [proposalSearch, setProposalSearch] = useState('')
   const [activeTab, setActiveTab] = useState('Proposals')
   const [multiVoteMode, setMultiVoteMode] = useState(false)
@@ -97,11 +84,6 @@ const REALM = () => {
     SelectedProposal[]
   >([])
 
-  const votingClients = useVotingClients()
-  const { nftClient } = useNftClient()
-  const wallet = useWalletOnePointOh()
-  const { connection } = useConnection()
-
   const governancesArray = useRealmGovernancesQuery().data
   const governancesByGovernance = useMemo(
     () =>
@@ -157,7 +139,6 @@ const REALM = () => {
           governancesByGovernance[v.account.governance.toBase58()]?.account
         return (
           v.account.state === ProposalState.Voting &&
-          v.account.voteType === VoteType.SINGLE_CHOICE &&
           // !getCurrentVoteRecKeyVal()[k] &&
           !v.account.hasVoteTimeEnded(governance)
         )
@@ -239,7 +220,6 @@ const REALM = () => {
 
   const cantMultiVote =
     selectedProposals.length === 0 ||
-    isMultiVoting ||
     (!hasCommunityVoteWeight && !hasCouncilVoteWeight)
 
   const toggleSelectAll = () => {
@@ -255,98 +235,6 @@ const REALM = () => {
     }
   }
 
-  const voteOnSelected = async (vote: YesNoVote) => {
-    const realm = realmQuery.data?.result
-    if (!wallet || !realmInfo!.programId || !realm) return
-
-    const governanceAuthority = wallet.publicKey!
-    const payer = wallet.publicKey!
-
-    try {
-      setIsMultiVoting(true)
-      const [{ blockhash: recentBlockhash }, fee] = await Promise.all([
-        connection.getLatestBlockhash(),
-        getFeeEstimate(connection),
-      ])
-
-      const transactions: Transaction[] = []
-      for (let i = 0; i < selectedProposals.length; i++) {
-        const selectedProposal = selectedProposals[i]
-        const relevantTokenRecord =
-          selectedProposal.proposal.governingTokenMint.toBase58() ===
-          realm.account.communityMint.toBase58()
-            ? ownTokenRecord
-            : ownCouncilTokenRecord
-        const role =
-          selectedProposal.proposal.governingTokenMint.toBase58() ===
-          realm.account.communityMint.toBase58()
-            ? 'community'
-            : 'council'
-
-        if (relevantTokenRecord === undefined)
-          throw new Error('token owner record not found or not yet loaded')
-
-        const instructions: TransactionInstruction[] = []
-
-        //will run only if plugin is connected with realm
-        const plugin = await votingClients(role)?.withCastPluginVote(
-          instructions,
-          {
-            account: selectedProposal.proposal,
-            pubkey: selectedProposal.proposalPk,
-            owner: realm.pubkey,
-          },
-          relevantTokenRecord.pubkey,
-        )
-        if (!nftClient) {
-          await withCastVote(
-            instructions,
-            realmInfo!.programId,
-            realmInfo!.programVersion!,
-            realm.pubkey,
-            selectedProposal.proposal.governance,
-            selectedProposal.proposalPk,
-            selectedProposal.proposal.tokenOwnerRecord,
-            relevantTokenRecord.pubkey,
-            governanceAuthority,
-            selectedProposal.proposal.governingTokenMint,
-            Vote.fromYesNoVote(vote),
-            payer,
-            plugin?.voterWeightPk,
-            plugin?.maxVoterWeightRecord,
-          )
-        }
-
-        const transaction = new Transaction()
-        transaction.add(...[createComputeBudgetIx(fee), ...instructions])
-        transaction.recentBlockhash = recentBlockhash
-        transaction.feePayer = wallet.publicKey!
-        transaction.setSigners(
-          // fee payed by the wallet owner
-          wallet.publicKey!,
-        )
-        transactions.push(transaction)
-      }
-      const signedTXs = await wallet.signAllTransactions(transactions)
-      await Promise.all(
-        signedTXs.map((transaction) =>
-          sendSignedTransaction({ signedTransaction: transaction, connection }),
-        ),
-      )
-      queryClient.invalidateQueries({
-        queryKey: proposalQueryKeys.all(connection.rpcEndpoint),
-      })
-      toggleMultiVoteMode()
-      notify({
-        message: 'Successfully voted on all proposals',
-        type: 'success',
-      })
-    } catch (e) {
-      notify({ type: 'erorr', message: `Something went wrong, ${e}` })
-    }
-    setIsMultiVoting(false)
-  }
-
   /** side effect: whenever filter changes, paginate to zero  */
   useEffect(() => {
     setPaginatedProposals(paginateProposals(0))
@@ -373,36 +261,35 @@ const REALM = () => {
               onChange={() => toggleSelectAll()}
             />
           </div>
-          <div className="flex items-center space-x-3">
-            <Button
-              className="whitespace-nowrap"
-              disabled={cantMultiVote}
-              tooltipMessage={
-                !hasCommunityVoteWeight && !hasCouncilVoteWeight
-                  ? "You don't have voting power"
-                  : ''
-              }
-              onClick={() => voteOnSelected(YesNoVote.Yes)}
-              isLoading={isMultiVoting}
-            >
-              Vote Yes
-            </Button>
-            <Button
-              className="whitespace-nowrap"
-              disabled={cantMultiVote}
-              tooltipMessage={
-                !hasCommunityVoteWeight && !hasCouncilVoteWeight
-                  ? "You don't have voting power"
-                  : ''
-              }
-              onClick={() => voteOnSelected(YesNoVote.No)}
-              isLoading={isMultiVoting}
-            >
-              Vote No
-            </Button>
-          </div>
+          <Button
+            className="whitespace-nowrap"
+            disabled={cantMultiVote}
+            tooltipMessage={
+              !hasCommunityVoteWeight && !hasCouncilVoteWeight
+                ? "You don't have voting power"
+                : ''
+            }
+            onClick={() => setIsVotingQueueOpen(true)}
+          >
+            Review votes
+          </Button>
         </div>
       </div>
+      {isVotingQueueOpen && (
+        <VotingQueueModal
+          isOpen={isVotingQueueOpen}
+          onClose={() => setIsVotingQueueOpen(false)}
+          proposals={selectedProposals.map((x) => ({
+            account: x.proposal,
+            pubkey: x.proposalPk,
+            owner: realmQuery.data!.result!.owner,
+          }))}
+          onSubmitted={() => {
+            setIsVotingQueueOpen(false)
+            toggleMultiVoteMode()
+          }}
+        />
+      )}
       <div className="grid grid-cols-12 gap-4">
         {realmQuery.isLoading ? (
           <>
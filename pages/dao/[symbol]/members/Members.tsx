@@ -20,6 +20,7 @@ import useSelectedRealmPubkey from '@hooks/selectedRealm/useSelectedRealmPubkey'
 import { determineVotingPowerType } from '@hooks/queries/governancePower'
 import { useAsync } from 'react-async-hook'
 import VsrMembers from './VsrMembers'
+import MemberDirectory from '@components/Members/MemberDirectory'
 
 const Members = () => {
   const {
@@ -40,6 +41,7 @@ const Members = () => {
   const [searchString, setSearchString] = useState('')
   const [filteredMembers, setFilteredMembers] = useState<Member[]>([])
   const [councilMode, setCouncilMode] = useState(true)
+  const [directoryMode, setDirectoryMode] = useState(false)
 
   const { connection } = useConnection()
   const realmPk = useSelectedRealmPubkey()
@@ -147,6 +149,12 @@ const Members = () => {
                     {councilMode ? 'All' : 'Council'} Members
                   </div>
                 )}
+                <div
+                  className="mt-6 ml-4 text-md underline cursor-pointer"
+                  onClick={() => setDirectoryMode(!directoryMode)}
+                >
+                  {directoryMode ? 'Overview' : 'Directory'}
+                </div>
               </div>
               <div className="flex space-x-3">
                 <div className="bg-bkg-1 px-4 py-2 rounded-md w-full">
@@ -165,88 +173,99 @@ const Members = () => {
               </div>
             </div>
           </div>
-          <div className="col-span-12 lg:col-span-4">
-            {activeMembers !== undefined && activeMembers.length > 15 ? (
-              <div className="hidden lg:block mb-2">
-                <Input
-                  className="pl-8"
-                  value={searchString}
-                  type="text"
-                  onChange={(e) => filterMembers(e.target.value)}
-                  placeholder={`Search by Wallet Address...`}
-                  prefix={<SearchIcon className="h-5 w-5 text-fgd-3" />}
-                />
-              </div>
-            ) : null}
-            <div className="flex items-center justify-between py-3">
-              <p>
-                {searchString.length > 0
-                  ? `${filteredMembers.length} Members Found`
-                  : `${activeMembers ? activeMembers.length : ''} Members`}
-              </p>
-              <Tooltip contentClassName="ml-auto" content={addNewMemberTooltip}>
-                <LinkButton
-                  onClick={() => setOpenAddMemberModal(!openAddMemberModal)}
-                  className={`flex items-center text-primary-light whitespace-nowrap ${
-                    addNewMemberTooltip
-                      ? 'cursor-not-allowed pointer-events-none opacity-60'
-                      : 'cursor-pointer'
-                  }`}
-                >
-                  <PlusCircleIcon className="flex-shrink-0 h-5 mr-2 w-5" />
-                  New Member
-                </LinkButton>
-              </Tooltip>
+          {directoryMode ? (
+            <div className="col-span-12">
+              <MemberDirectory />
             </div>
-            <div className="col-span-12 lg:hidden">
-              <Select
-                className="break-all"
-                onChange={(v) =>
-                  setActiveMember(
-                    // @ts-ignore
-                    activeMembers.find((m) => {
-                      return m.walletAddress === v
-                    }),
-                  )
-                }
-                placeholder="Please select..."
-                value={activeMember?.walletAddress}
-              >
-                {activeMembers?.map((x) => {
-                  return (
-                    <Select.Option
-                      key={x?.walletAddress}
-                      value={x?.walletAddress}
+          ) : (
+            <>
+              <div className="col-span-12 lg:col-span-4">
+                {activeMembers !== undefined && activeMembers.length > 15 ? (
+                  <div className="hidden lg:block mb-2">
+                    <Input
+                      className="pl-8"
+                      value={searchString}
+                      type="text"
+                      onChange={(e) => filterMembers(e.target.value)}
+                      placeholder={`Search by Wallet Address...`}
+                      prefix={<SearchIcon className="h-5 w-5 text-fgd-3" />}
+                    />
+                  </div>
+                ) : null}
+                <div className="flex items-center justify-between py-3">
+                  <p>
+                    {searchString.length > 0
+                      ? `${filteredMembers.length} Members Found`
+                      : `${activeMembers ? activeMembers.length : ''} Members`}
+                  </p>
+                  <Tooltip
+                    contentClassName="ml-auto"
+                    content={addNewMemberTooltip}
+                  >
+                    <LinkButton
+                      onClick={() => setOpenAddMemberModal(!openAddMemberModal)}
+                      className={`flex items-center text-primary-light whitespace-nowrap ${
+                        addNewMemberTooltip
+                          ? 'cursor-not-allowed pointer-events-none opacity-60'
+                          : 'cursor-pointer'
+                      }`}
                     >
-                      {x?.walletAddress}
-                    </Select.Option>
-                  )
-                })}
-              </Select>
-            </div>
-            <div className="hidden lg:block">
-              {activeMember !== undefined && (
-                <MembersTabs
-                  activeTab={activeMember}
-                  onChange={(t) => setActiveMember(t)}
-                  tabs={paginatedMembers}
-                />
-              )}
-              <PaginationComponent
-                ref={pagination}
-                totalPages={Math.ceil(filteredMembers.length / 10)}
-                onPageChange={onPageChange}
-              ></PaginationComponent>
-            </div>
-          </div>
-          <div className="col-span-12 lg:col-span-8">
-            {activeMember ? (
-              <MemberOverview
-                member={activeMember}
-                activeMembers={activeMembers}
-              />
-            ) : null}
-          </div>
+                      <PlusCircleIcon className="flex-shrink-0 h-5 mr-2 w-5" />
+                      New Member
+                    </LinkButton>
+                  </Tooltip>
+                </div>
+                <div className="col-span-12 lg:hidden">
+                  <Select
+                    className="break-all"
+                    onChange={(v) =>
+                      setActiveMember(
+                        // @ts-ignore
+                        activeMembers.find((m) => {
+                          return m.walletAddress === v
+                        }),
+                      )
+                    }
+                    placeholder="Please select..."
+                    value={activeMember?.walletAddress}
+                  >
+                    {activeMembers?.map((x) => {
+                      return (
+                        <Select.Option
+                          key={x?.walletAddress}
+                          value={x?.walletAddress}
+                        >
+                          {x?.walletAddress}
+                        </Select.Option>
+                      )
+                    })}
+                  </Select>
+                </div>
+                <div className="hidden lg:block">
+                  {activeMember !== undefined && (
+                    <MembersTabs
+                      activeTab={activeMember}
+                      onChange={(t) => setActiveMember(t)}
+                      tabs={paginatedMembers}
+                    />
+                  )}
+                  <PaginationComponent
+                    ref={pagination}
+                    totalPages={Math.ceil(filteredMembers.length / 10)}
+                    onPageChange={onPageChange}
+                  ></PaginationComponent>
+                </div>
+              </div>
+              <div className="col-span-12 lg:col-span-8">
+                {activeMember ? (
+                  <MemberOverview
+                    member={activeMember}
+                    activeMembers={activeMembers}
+                  />
+                ) : null}
+              </div>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -1,186 +1,77 @@
-import { MANGO_INSTRUCTION_FORWARDER } from '@components/instructions/tools'
+import { INSTRUCTION_DESCRIPTORS } from '@components/instructions/tools'
 import { ExclamationCircleIcon } from '@heroicons/react/solid'
 import { useBufferAccountsAuthority } from '@hooks/queries/bufferAuthority'
 import { useGovernanceByPubkeyQuery } from '@hooks/queries/governance'
 import { useSelectedProposalTransactions } from '@hooks/queries/proposalTransaction'
 import { useRealmConfigQuery } from '@hooks/queries/realmConfig'
+import useGovernanceAssets from '@hooks/useGovernanceAssets'
 import useRealm from '@hooks/useRealm'
+import { Proposal, getNativeTreasuryAddress } from '@solana/spl-governance'
+import { PublicKey } from '@solana/web3.js'
+import tokenPriceService from '@utils/services/tokenPrice'
 import {
-  BPF_UPGRADE_LOADER_ID,
-  Proposal,
-  getNativeTreasuryAddress,
-} from '@solana/spl-governance'
+  analyzeProposalRisk,
+  RiskFinding,
+  RiskSeverity,
+  TreasuryHolding,
+} from 'models/proposal/analyzeProposalRisk'
 import { useMemo } from 'react'
 import { useAsync } from 'react-async-hook'
 
-const SetRealmConfigWarning = () => (
-  <div className="rounded-md bg-yellow-50 p-4">
-    <div className="flex">
-      <div className="flex-shrink-0">
-        <ExclamationCircleIcon
-          className="h-5 w-5 text-yellow-400"
-          aria-hidden="true"
-        />
-      </div>
-      <div className="ml-3">
-        <h3 className="text-sm font-medium text-yellow-800">
-          Instructions like this one change the way the DAO is governed
-        </h3>
-        <div className="mt-2">
-          <p className="text-sm text-yellow-700">
-            This proposal writes to your realm configuration, which could affect
-            how votes are counted. Both the instruction data AND accounts list
-            contain parameters. Before you vote, make sure you review the
-            proposal&apos;s instructions and the concerned accounts, and
-            understand the implications of passing this proposal.
-          </p>
-        </div>
-      </div>
-    </div>
-  </div>
-)
-
-const ThirdPartyInstructionWritesConfigWarning = () => (
-  <div className="rounded-md bg-red-50 p-4">
-    <div className="flex">
-      <div className="flex-shrink-0">
-        <ExclamationCircleIcon
-          className="h-5 w-5 text-red-400"
-          aria-hidden="true"
-        />
-      </div>
-      <div className="ml-3">
-        <h3 className="text-sm font-medium text-red-800">
-          Danger: This instruction uses an unknown program to modify your Realm
-        </h3>
-        <div className="mt-2">
-          <p className="text-sm text-red-700">
-            This proposal writes to your realm configuration, this could affect
-            how votes are counted. Writing realm configuration using an unknown
-            program is highly unusual.
-          </p>
-        </div>
-      </div>
-    </div>
-  </div>
-)
-
-const SetGovernanceConfig = () => (
-  <div className="rounded-md bg-yellow-50 p-4">
-    <div className="flex">
-      <div className="flex-shrink-0">
-        <ExclamationCircleIcon
-          className="h-5 w-5 text-yellow-400"
-          aria-hidden="true"
-        />
-      </div>
-      <div className="ml-3">
-        <h3 className="text-sm font-medium text-yellow-800">
-          Instructions like this one change the way the DAO is governed
-        </h3>
-        <div className="mt-2">
-          <p className="text-sm text-yellow-700">
-            This proposal writes to your governance configuration, which could
-            affect how votes are counted. Both the instruction data AND accounts
-            list contain parameters. Before you vote, make sure you review the
-            proposal&apos;s instructions and the concerned accounts, and
-            understand the implications of passing this proposal.
-          </p>
-        </div>
-      </div>
-    </div>
-  </div>
-)
-
-const PossibleWrongGovernance = () => (
-  <div className="rounded-md bg-yellow-50 p-4">
-    <div className="flex">
-      <div className="flex-shrink-0">
-        <ExclamationCircleIcon
-          className="h-5 w-5 text-yellow-400"
-          aria-hidden="true"
-        />
-      </div>
-      <div className="ml-3">
-        <h3 className="text-sm font-medium text-yellow-800">
-          Possible wrong governance pass, check accounts.
-        </h3>
-      </div>
-    </div>
-  </div>
-)
+const SEVERITY_CLASSES: Record<
+  RiskSeverity,
+  { container: string; icon: string; title: string; description: string }
+> = {
+  danger: {
+    container: 'bg-red-50',
+    icon: 'text-red-400',
+    title: 'text-red-800',
+    description: 'text-red-700',
+  },
+  warning: {
+    container: 'bg-yellow-50',
+    icon: 'text-yellow-400',
+    title: 'text-yellow-800',
+    description: 'text-yellow-700',
+  },
+  info: {
+    container: 'bg-blue-50',
+    icon: 'text-blue-400',
+    title: 'text-blue-800',
+    description: 'text-blue-700',
+  },
+}
 
-const ProgramUpgrade = () => (
-  <div className="rounded-md bg-yellow-50 p-4">
-    <div className="flex">
-      <div className="flex-shrink-0">
-        <ExclamationCircleIcon
-          className="h-5 w-5 text-yellow-400"
-          aria-hidden="true"
-        />
-      </div>
-      <div className="ml-3">
-        <h3 className="text-sm font-medium text-yellow-800">
-          Instructions like this one are dangerous
-        </h3>
-        <div className="mt-2">
-          <p className="text-sm text-yellow-700">
-            This proposal upgrade program check params carefully
-          </p>
+const RiskFindingWarning = ({ finding }: { finding: RiskFinding }) => {
+  const classes = SEVERITY_CLASSES[finding.severity]
+  return (
+    <div className={`rounded-md p-4 ${classes.container}`}>
+      <div className="flex">
+        <div className="flex-shrink-0">
+          <ExclamationCircleIcon
+            className={`h-5 w-5 ${classes.icon}`}
+            aria-hidden="true"
+          />
         </div>
-      </div>
-    </div>
-  </div>
-)
-
-const BufferAuthorityMismatch = () => (
-  <div className="rounded-md bg-red-50 p-4">
-    <div className="flex">
-      <div className="flex-shrink-0">
-        <ExclamationCircleIcon
-          className="h-5 w-5 text-red-400"
-          aria-hidden="true"
-        />
-      </div>
-      <div className="ml-3">
-        <h3 className="text-sm font-medium text-red-800">
-          Danger alert: The current buffer authority does not match the DAO
-          wallet
-        </h3>
-        <div className="mt-2">
-          <p className="text-sm text-red-700">
-            The current authority can change the buffer account during vote.
-          </p>
+        <div className="ml-3">
+          <h3 className={`text-sm font-medium ${classes.title}`}>
+            {finding.instructionIndex !== undefined &&
+              `Instruction ${finding.instructionIndex + 1}: `}
+            {finding.title}
+          </h3>
+          <div className="mt-2">
+            <p className={`text-sm ${classes.description}`}>
+              {finding.description}
+            </p>
+          </div>
         </div>
       </div>
     </div>
-  </div>
-)
+  )
+}
 
-const ForwardWarning = () => (
-  <div className="rounded-md bg-yellow-50 p-4">
-    <div className="flex">
-      <div className="flex-shrink-0">
-        <ExclamationCircleIcon
-          className="h-5 w-5 text-yellow-400"
-          aria-hidden="true"
-        />
-      </div>
-      <div className="ml-3">
-        <h3 className="text-sm font-medium text-yellow-800">
-          Instruction use instruction forward program:{' '}
-          {MANGO_INSTRUCTION_FORWARDER}
-        </h3>
-        <div className="mt-2">
-          <p className="text-sm text-yellow-700">
-            This means one of instruction is executable only by given wallet
-            until time set in proposal, check time and wallet in instruction
-            panel
-          </p>
-        </div>
-      </div>
-    </div>
-  </div>
+const KNOWN_PROGRAM_IDS = Object.keys(INSTRUCTION_DESCRIPTORS).map(
+  (x) => new PublicKey(x),
 )
 
 const useProposalSafetyCheck = (proposal: Proposal) => {
@@ -188,17 +79,10 @@ const useProposalSafetyCheck = (proposal: Proposal) => {
   const { realmInfo } = useRealm()
   const { data: transactions } = useSelectedProposalTransactions()
   const { data: bufferAuthorities } = useBufferAccountsAuthority()
+  const { assetAccounts, governancesArray } = useGovernanceAssets()
   const governance = useGovernanceByPubkeyQuery(proposal?.governance).data
     ?.result
 
-  const isUsingForwardProgram = transactions
-    ?.flatMap(
-      (tx) =>
-        tx.account.instructions?.flatMap((ins) => ins.programId.toBase58()) ||
-        [],
-    )
-    .filter((x) => x === MANGO_INSTRUCTION_FORWARDER).length
-
   const treasuryAddress = useAsync(
     async () =>
       governance !== undefined
@@ -206,117 +90,83 @@ const useProposalSafetyCheck = (proposal: Proposal) => {
         : undefined,
     [governance],
   )
-  const walletsPassedToInstructions = transactions?.flatMap(
-    (tx) =>
-      tx.account.instructions?.flatMap((ins) =>
-        ins.accounts.map((acc) => acc.pubkey),
-      ),
-  )
 
-  const proposalWarnings = useMemo(() => {
-    if (realmInfo === undefined || transactions === undefined) return []
-
-    const ixs = transactions.flatMap((pix) => pix.account.getAllInstructions())
+  return useMemo(() => {
+    if (
+      realmInfo === undefined ||
+      transactions === undefined ||
+      governance === undefined ||
+      treasuryAddress.result === undefined
+    ) {
+      return []
+    }
 
-    const possibleWrongGovernance =
-      treasuryAddress.result &&
-      !!transactions?.length &&
-      !walletsPassedToInstructions?.find(
+    const daoAccounts = [
+      ...governancesArray.map((x) => x.pubkey),
+      ...assetAccounts.flatMap((x) => [
+        x.pubkey,
+        x.governance.nativeTreasuryAddress,
+        ...(x.extensions.transferAddress ? [x.extensions.transferAddress] : []),
+      ]),
+    ]
+    const holdings: TreasuryHolding[] = assetAccounts
+      .filter(
         (x) =>
-          x &&
-          (governance?.pubkey?.equals(x) || treasuryAddress.result?.equals(x)),
+          (x.isSol || x.isToken) && x.extensions.amount && x.extensions.mint,
       )
-
-    const proposalWarnings: (
-      | 'setGovernanceConfig'
-      | 'setRealmConfig'
-      | 'thirdPartyInstructionWritesConfig'
-      | 'possibleWrongGovernance'
-      | 'programUpgrade'
-      | 'usingMangoInstructionForwarder'
-      | 'bufferAuthorityMismatch'
-      | undefined
-    )[] = []
-
-    proposalWarnings.push(
-      ...ixs.map((ix) => {
-        if (ix.programId.equals(realmInfo.programId) && ix.data[0] === 19) {
-          return 'setGovernanceConfig'
-        }
-        if (ix.programId.equals(realmInfo.programId) && ix.data[0] === 22) {
-          return 'setRealmConfig'
-        }
-        if (ix.programId.equals(BPF_UPGRADE_LOADER_ID)) {
-          return 'programUpgrade'
-        }
-        if (
-          ix.accounts.find(
-            (a) => a.isWritable && config && a.pubkey.equals(config.pubkey),
-          ) !== undefined
-        ) {
-          if (ix.programId.equals(realmInfo.programId)) {
-            return 'setRealmConfig'
-          } else {
-            return 'thirdPartyInstructionWritesConfig'
-          }
-        }
-        if (isUsingForwardProgram) {
-          return 'usingMangoInstructionForwarder'
-        }
-      }),
+      .map((x) => ({
+        address: x.isSol ? x.extensions.transferAddress! : x.pubkey,
+        mint: x.extensions.mint!.publicKey,
+        decimals: x.extensions.mint!.account.decimals,
+        amount: x.extensions.amount!,
+        price:
+          tokenPriceService.getUSDTokenPrice(
+            x.extensions.mint!.publicKey.toBase58(),
+          ) || undefined,
+      }))
+    const tokenConfigs = config
+      ? [config.account.communityTokenConfig, config.account.councilTokenConfig]
+      : []
+    const pluginProgramIds = tokenConfigs.flatMap((x) =>
+      [x.voterWeightAddin, x.maxVoterWeightAddin].filter(
+        (pk): pk is PublicKey => !!pk,
+      ),
     )
 
-    if (possibleWrongGovernance) {
-      proposalWarnings.push('possibleWrongGovernance')
-    }
-
-    if (treasuryAddress.result) {
-      const treasury = treasuryAddress.result
-      if (
-        governance &&
-        bufferAuthorities?.some(
-          (authority) =>
-            !authority.equals(treasury) && !authority.equals(governance.pubkey),
-        )
-      ) {
-        proposalWarnings.push('bufferAuthorityMismatch')
-      }
-    }
-
-    return proposalWarnings
+    return analyzeProposalRisk(
+      transactions.flatMap((pix) => pix.account.getAllInstructions()),
+      {
+        governanceProgramId: realmInfo.programId,
+        realm: realmInfo.realmId,
+        realmConfig: config?.pubkey,
+        governance: governance.pubkey,
+        treasury: treasuryAddress.result,
+        daoAccounts,
+        holdings,
+        pluginProgramIds,
+        knownProgramIds: KNOWN_PROGRAM_IDS,
+        bufferAuthorities,
+      },
+    )
   }, [
     realmInfo,
     config,
     transactions,
-    walletsPassedToInstructions,
-    governance?.pubkey,
+    governance,
     treasuryAddress.result,
+    assetAccounts,
+    governancesArray,
+    bufferAuthorities,
   ])
-
-  return proposalWarnings
 }
 
 const ProposalWarnings = ({ proposal }: { proposal: Proposal }) => {
-  const warnings = useProposalSafetyCheck(proposal)
+  const findings = useProposalSafetyCheck(proposal)
   return (
     <>
-      {warnings?.includes('setGovernanceConfig') && <SetGovernanceConfig />}
-      {warnings?.includes('setRealmConfig') && <SetRealmConfigWarning />}
-      {warnings?.includes('thirdPartyInstructionWritesConfig') && (
-        <ThirdPartyInstructionWritesConfigWarning />
-      )}
-      {warnings?.includes('possibleWrongGovernance') && (
-        <PossibleWrongGovernance></PossibleWrongGovernance>
-      )}
-      {warnings?.includes('programUpgrade') && (
-        <ProgramUpgrade></ProgramUpgrade>
-      )}
-      {warnings?.includes('usingMangoInstructionForwarder') && (
-        <ForwardWarning></ForwardWarning>
-      )}
-      {warnings?.includes('bufferAuthorityMismatch') && (
-        <BufferAuthorityMismatch />
-      )}
+      {findings.map((finding, i) => (
+        <RiskFindingWarning key={i} finding={finding} />
+      ))}
     </>
   )
 }
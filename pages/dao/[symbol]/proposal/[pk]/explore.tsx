@@ -12,6 +12,7 @@ import useSignatories from '@hooks/useSignatories'
 import ProposalSignatories from '@components/ProposalSignatories'
 import ProposalVoteResult from '@components/ProposalVoteResults'
 import ProposalRemainingVotingTime from '@components/ProposalRemainingVotingTime'
+import ProposalVoteSimulator from '@components/ProposalVoteSimulator'
 import { useRouteProposalQuery } from '@hooks/queries/proposal'
 import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
 import { GovernanceAccountType, VoteType } from '@solana/spl-governance'
@@ -135,6 +136,14 @@ export default function Explore() {
               proposal={proposal}
             />
           </div>
+          {!isMulti && (
+            <ProposalVoteSimulator
+              className="mt-16"
+              data={records}
+              governance={governance}
+              proposal={proposal}
+            />
+          )}
         </div>
       ) : (
         <div>
@@ -3,6 +3,7 @@ import { ExternalLinkIcon, FolderDownloadIcon } from '@heroicons/react/outline'
 import { useProposalGovernanceQuery } from 'hooks/useProposal'
 import ProposalStateBadge from '@components/ProposalStateBadge'
 import { TransactionPanel } from '@components/instructions/TransactionPanel'
+import { ProposalSimulationPanel } from '@components/instructions/ProposalSimulationPanel'
 import DiscussionPanel from 'components/chat/DiscussionPanel'
 import VotePanel from '@components/VotePanel'
 import { ApprovalProgress, VetoProgress } from '@components/QuorumProgress'
@@ -33,6 +34,7 @@ import ProposalWarnings from './ProposalWarnings'
 import useWalletOnePointOh from '@hooks/useWalletOnePointOh'
 import VotingRules from '@components/VotingRules'
 import { useRouteProposalQuery } from '@hooks/queries/proposal'
+import { useSelectedProposalSubscriptions } from '@hooks/queries/subscriptions'
 import { AddToCalendarButton } from 'add-to-calendar-button-react'
 import { CalendarAdd } from '@carbon/icons-react'
 import Modal from '@components/Modal'
@@ -54,6 +56,7 @@ import saveAs from 'file-saver'
 const Proposal = () => {
   const { realmInfo, symbol } = useRealm()
   const proposal = useRouteProposalQuery().data?.result
+  useSelectedProposalSubscriptions()
   const governance = useProposalGovernanceQuery().data?.result
   const tor = useTokenOwnerRecordByPubkeyQuery(
     proposal?.account.tokenOwnerRecord,
@@ -252,6 +255,7 @@ const Proposal = () => {
               <ProposalWarnings proposal={proposal.account} />
             )}
             <TransactionPanel />
+            <ProposalSimulationPanel />
             {isTwoCol && allowDiscussion && <DiscussionPanel />}
           </>
         ) : (
@@ -0,0 +1,199 @@
+import { useRef, useState } from 'react'
+import {
+  DocumentDownloadIcon,
+  DocumentDuplicateIcon,
+  TrashIcon,
+} from '@heroicons/react/outline'
+import Button, { LinkButton, SecondaryButton } from '@components/Button'
+import Input from '@components/inputs/Input'
+import Modal from '@components/Modal'
+import { useRealmQuery } from '@hooks/queries/realm'
+import { downloadFile } from '@utils/download'
+import { notify } from '@utils/notifications'
+import {
+  applyTemplateParams,
+  exportProposalTemplates,
+  getTemplateParams,
+  parseProposalTemplates,
+  ProposalTemplate,
+} from '@utils/proposalTemplates'
+import useProposalTemplatesStore from 'stores/useProposalTemplatesStore'
+
+const EMPTY_TEMPLATES: ProposalTemplate[] = []
+
+const ProposalTemplates = ({
+  getCurrentTemplate,
+  onApply,
+}: {
+  getCurrentTemplate: (name: string) => ProposalTemplate
+  onApply: (template: ProposalTemplate) => void
+}) => {
+  const realm = useRealmQuery().data?.result
+  const realmPk = realm?.pubkey.toBase58() ?? ''
+  const templates = useProposalTemplatesStore(
+    (s) => s.templates[realmPk] ?? EMPTY_TEMPLATES,
+  )
+  const { saveTemplate, removeTemplate, importTemplates } =
+    useProposalTemplatesStore()
+  const [name, setName] = useState('')
+  const [selected, setSelected] = useState<ProposalTemplate | null>(null)
+  const [params, setParams] = useState<Record<string, string>>({})
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const selectedParams = selected ? getTemplateParams(selected) : []
+
+  const handleSave = () => {
+    if (!name) return
+    saveTemplate(realmPk, getCurrentTemplate(name))
+    setName('')
+    notify({ type: 'success', message: `Template ${name} saved` })
+  }
+
+  const handleUse = (template: ProposalTemplate) => {
+    if (getTemplateParams(template).length) {
+      setParams({})
+      setSelected(template)
+    } else {
+      onApply(template)
+    }
+  }
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const imported = parseProposalTemplates(await file.text())
+      importTemplates(realmPk, imported)
+      notify({
+        type: 'success',
+        message: `Imported ${imported.length} template(s)`,
+      })
+    } catch (e) {
+      notify({
+        type: 'error',
+        message: `Invalid template file`,
+        description: `${e}`,
+      })
+    }
+  }
+
+  const exportTemplates = (toExport: ProposalTemplate[], filename: string) =>
+    downloadFile(`${filename}.json`, exportProposalTemplates(toExport))
+
+  if (!realm) {
+    return null
+  }
+
+  return (
+    <div className="bg-bkg-2 p-4 md:p-6 rounded-lg space-y-4">
+      <h3 className="mb-0">Proposal templates</h3>
+      {templates.length ? (
+        <div className="space-y-2">
+          {templates.map((template) => (
+            <div
+              key={template.id}
+              className="flex items-center justify-between text-sm"
+            >
+              <div>
+                <div className="text-fgd-1">{template.name}</div>
+                <div className="text-xs text-fgd-3">
+                  {template.isMulti
+                    ? `${template.options.length} options poll`
+                    : `${template.instructions.length} instruction(s)`}
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <LinkButton
+                  className="flex items-center text-primary-light"
+                  onClick={() => handleUse(template)}
+                >
+                  <DocumentDuplicateIcon className="h-4 mr-1 w-4" />
+                  Use
+                </LinkButton>
+                <LinkButton
+                  onClick={() => exportTemplates([template], template.name)}
+                >
+                  <DocumentDownloadIcon className="h-4 w-4" />
+                </LinkButton>
+                <LinkButton
+                  onClick={() => removeTemplate(realmPk, template.id)}
+                >
+                  <TrashIcon className="h-4 text-red w-4" />
+                </LinkButton>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-fgd-3">
+          Save the current form to reuse it for recurring proposals. Use{' '}
+          {'{{param}}'} placeholders in texts to fill them in when the template
+          is used.
+        </p>
+      )}
+      <div className="flex items-end space-x-2">
+        <Input
+          label="Template name"
+          type="text"
+          value={name}
+          onChange={(evt) => setName(evt.target.value)}
+        />
+        <SecondaryButton small disabled={!name} onClick={handleSave}>
+          Save
+        </SecondaryButton>
+      </div>
+      <div className="flex justify-end space-x-4 text-sm">
+        <LinkButton onClick={() => fileInput.current?.click()}>
+          Import
+        </LinkButton>
+        {templates.length > 0 && (
+          <LinkButton
+            onClick={() => exportTemplates(templates, 'proposal-templates')}
+          >
+            Export all
+          </LinkButton>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json"
+          className="hidden"
+          onChange={(evt) => {
+            handleImport(evt.target.files?.[0])
+            evt.target.value = ''
+          }}
+        />
+      </div>
+      {selected && (
+        <Modal isOpen={!!selected} onClose={() => setSelected(null)}>
+          <h2>{selected.name}</h2>
+          <div className="space-y-3">
+            {selectedParams.map((param) => (
+              <Input
+                key={param}
+                label={param}
+                type="text"
+                value={params[param] ?? ''}
+                onChange={(evt) =>
+                  setParams({ ...params, [param]: evt.target.value })
+                }
+              />
+            ))}
+          </div>
+          <div className="flex justify-end mt-6">
+            <Button
+              disabled={selectedParams.some((param) => !params[param])}
+              onClick={() => {
+                onApply(applyTemplateParams(selected, params))
+                setSelected(null)
+              }}
+            >
+              Use template
+            </Button>
+          </div>
+        </Modal>
+      )}
+    </div>
+  )
+}
+
+export default ProposalTemplates
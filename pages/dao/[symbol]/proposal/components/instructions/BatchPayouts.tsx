@@ -0,0 +1,261 @@
+import {
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
+import { Governance, ProgramAccount } from '@solana/spl-governance'
+import Textarea from '@components/inputs/Textarea'
+import { LinkButton } from '@components/Button'
+import useGovernanceAssets from '@hooks/useGovernanceAssets'
+import useWalletOnePointOh from '@hooks/useWalletOnePointOh'
+import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import { debounce } from '@utils/debounce'
+import { abbreviateAddress } from '@utils/formatting'
+import tokenPriceService from '@utils/services/tokenPrice'
+import { AssetAccount } from '@utils/uiTypes/assets'
+import { UiInstruction } from '@utils/uiTypes/proposalCreationTypes'
+import {
+  getBatchPayoutInstructions,
+  groupPayouts,
+  parsePayoutsCsv,
+  PayoutGroup,
+  PayoutRow,
+  SOL_PAYOUT_MINT,
+} from '@utils/batchPayouts'
+import { NewProposalContext } from '../../new'
+import GovernedAccountSelect from '../GovernedAccountSelect'
+import { useInstructionFormTemplate } from '../useInstructionFormTemplate'
+
+interface BatchPayoutsForm {
+  wallet: AssetAccount | undefined
+  csv: string
+}
+
+// same packing as single token transfers
+const TRANSFERS_CHUNK_BY = 4
+
+const BatchPayouts = ({
+  index,
+  governance,
+}: {
+  index: number
+  governance: ProgramAccount<Governance> | null
+}) => {
+  const wallet = useWalletOnePointOh()
+  const connection = useLegacyConnectionContext()
+  const { governedTokenAccountsWithoutNfts } = useGovernanceAssets()
+  const shouldBeGoverned = !!(index !== 0 && governance)
+  const [form, setForm] = useState<BatchPayoutsForm>({
+    wallet: undefined,
+    csv: '',
+  })
+  const [formErrors, setFormErrors] = useState({})
+  const [rows, setRows] = useState<PayoutRow[]>([])
+  const [csvErrors, setCsvErrors] = useState<string[]>([])
+  const fileInput = useRef<HTMLInputElement>(null)
+  const { handleSetInstructions } = useContext(NewProposalContext)
+  useInstructionFormTemplate(index, form, (values) =>
+    setForm((prev) => ({ ...prev, ...values })),
+  )
+
+  const grouped = useMemo(
+    () =>
+      form.wallet
+        ? groupPayouts(rows, form.wallet, governedTokenAccountsWithoutNfts)
+        : {
+            groups: [] as PayoutGroup[],
+            unmatched: [] as PayoutRow[],
+            errors: [] as string[],
+          },
+    [rows, form.wallet, governedTokenAccountsWithoutNfts],
+  )
+  const { groups, unmatched } = grouped
+  // token amounts are checked against their mint once grouped
+  const lineErrors = useMemo(
+    () => [...csvErrors, ...grouped.errors],
+    [csvErrors, grouped.errors],
+  )
+
+  const handleSetForm = ({ propertyName, value }) => {
+    setFormErrors({})
+    setForm({ ...form, [propertyName]: value })
+  }
+
+  // parsing looks up the .sol recipients, wait for the typing to stop
+  useEffect(() => {
+    let cancelled = false
+    debounce.debounceFcn(() =>
+      parsePayoutsCsv(form.csv)
+        .then((parsed) => {
+          if (cancelled) return
+          setRows(parsed.rows)
+          setCsvErrors(parsed.errors)
+        })
+        .catch((e) => {
+          if (cancelled) return
+          setRows([])
+          setCsvErrors([`${e}`])
+        }),
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [form.csv])
+
+  const validate = useCallback(() => {
+    const errors: Record<string, string> = {}
+    if (!form.wallet) {
+      errors['wallet'] = 'Wallet is required'
+    }
+    if (!rows.length) {
+      errors['csv'] = 'At least one payout is required'
+    } else if (lineErrors.length) {
+      errors['csv'] = 'Fix the invalid lines first'
+    } else if (unmatched.length) {
+      errors['csv'] = `The wallet holds no ${unmatched[0].mint} tokens`
+    } else if (groups.some((x) => x.total.gt(x.balance))) {
+      errors['csv'] = 'Payouts exceed the treasury balance'
+    }
+    setFormErrors(errors)
+    return !Object.keys(errors).length
+  }, [form.wallet, rows, lineErrors, unmatched, groups])
+
+  const getInstruction = useCallback(async (): Promise<UiInstruction> => {
+    const isValid = validate()
+    let additionalSerializedInstructions: string[] = []
+    let prerequisiteInstructions: UiInstruction['prerequisiteInstructions'] = []
+    if (isValid && wallet?.publicKey) {
+      const payouts = await getBatchPayoutInstructions(
+        connection.current,
+        wallet.publicKey,
+        groups,
+      )
+      additionalSerializedInstructions = payouts.serializedInstructions
+      prerequisiteInstructions = payouts.prerequisiteInstructions
+    }
+    return {
+      serializedInstruction: '',
+      additionalSerializedInstructions,
+      prerequisiteInstructions,
+      chunkBy: TRANSFERS_CHUNK_BY,
+      isValid,
+      governance: form.wallet?.governance,
+    }
+  }, [validate, wallet?.publicKey, connection, groups, form.wallet?.governance])
+
+  useEffect(() => {
+    handleSetInstructions(
+      { governedAccount: form.wallet?.governance, getInstruction },
+      index,
+    )
+  }, [handleSetInstructions, form.wallet?.governance, getInstruction, index])
+
+  const mintName = (mint: string) =>
+    mint === SOL_PAYOUT_MINT
+      ? 'SOL'
+      : tokenPriceService.getTokenInfo(mint)?.symbol ?? abbreviateAddress(mint)
+
+  return (
+    <>
+      <GovernedAccountSelect
+        label="Wallet"
+        governedAccounts={governedTokenAccountsWithoutNfts.filter(
+          (x) => x.isSol,
+        )}
+        onChange={(value) => {
+          handleSetForm({ value, propertyName: 'wallet' })
+        }}
+        value={form.wallet}
+        error={formErrors['wallet']}
+        shouldBeGoverned={shouldBeGoverned}
+        governance={governance}
+        type="wallet"
+      />
+      <Textarea
+        label="Payouts"
+        subtitle="One payout per line: recipient wallet, mint address or SOL, amount"
+        placeholder={`recipient,mint,amount\n9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM,SOL,1.5`}
+        rows={8}
+        value={form.csv}
+        onChange={(evt) =>
+          handleSetForm({ value: evt.target.value, propertyName: 'csv' })
+        }
+        error={formErrors['csv']}
+      />
+      <div className="flex justify-end">
+        <LinkButton
+          className="text-sm"
+          onClick={() => fileInput.current?.click()}
+        >
+          Load CSV file
+        </LinkButton>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={async (evt) => {
+            const file = evt.target.files?.[0]
+            if (file) {
+              handleSetForm({ value: await file.text(), propertyName: 'csv' })
+            }
+            evt.target.value = ''
+          }}
+        />
+      </div>
+      {lineErrors.length > 0 && (
+        <ul className="text-xs text-red space-y-1">
+          {lineErrors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      {groups.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-fgd-3">
+              <th className="pb-2">Token</th>
+              <th className="pb-2">Source</th>
+              <th className="pb-2 text-right">Recipients</th>
+              <th className="pb-2 text-right">Total</th>
+              <th className="pb-2 text-right">Treasury balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((group) => (
+              <tr className="border-t border-fgd-4" key={group.mint}>
+                <td className="py-2 pr-2">{mintName(group.mint)}</td>
+                <td className="py-2 pr-2">
+                  {abbreviateAddress(
+                    group.source.extensions.transferAddress ??
+                      group.source.pubkey,
+                  )}
+                </td>
+                <td className="py-2 pr-2 text-right">{group.rows.length}</td>
+                <td
+                  className={`py-2 pr-2 text-right ${
+                    group.total.gt(group.balance) ? 'text-red' : ''
+                  }`}
+                >
+                  {group.total.toFormat()}
+                </td>
+                <td className="py-2 text-right">{group.balance.toFormat()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {unmatched.length > 0 && (
+        <div className="text-xs text-red">
+          No treasury account of the wallet holds{' '}
+          {[...new Set(unmatched.map((x) => mintName(x.mint)))].join(', ')}
+        </div>
+      )}
+    </>
+  )
+}
+
+export default BatchPayouts
@@ -16,6 +16,7 @@ import {
 
 import { NewProposalContext } from '../../new'
 import GovernedAccountSelect from '../GovernedAccountSelect'
+import { useInstructionFormTemplate } from '../useInstructionFormTemplate'
 import useGovernanceAssets from '@hooks/useGovernanceAssets'
 import useWalletOnePointOh from '@hooks/useWalletOnePointOh'
 import { useLegacyVoterWeight } from '@hooks/queries/governancePower'
@@ -43,6 +44,9 @@ const CustomBase64 = ({
   })
   const [formErrors, setFormErrors] = useState({})
   const { handleSetInstructions } = useContext(NewProposalContext)
+  useInstructionFormTemplate(index, form, (values) =>
+    setForm((prev) => ({ ...prev, ...values })),
+  )
   const handleSetForm = ({ propertyName, value }) => {
     setFormErrors({})
     setForm({ ...form, [propertyName]: value })
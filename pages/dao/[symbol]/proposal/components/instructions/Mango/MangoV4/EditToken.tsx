@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
-import { useContext, useEffect, useState } from 'react'
+import { useContext, useEffect, useRef, useState } from 'react'
 import { AccountMeta, PublicKey } from '@solana/web3.js'
 import * as yup from 'yup'
 import { isFormValid, validatePubkey } from '@utils/formValidation'
@@ -12,6 +12,7 @@ import { serializeInstructionToBase64 } from '@solana/spl-governance'
 import { AccountType, AssetAccount } from '@utils/uiTypes/assets'
 import InstructionForm, { InstructionInput } from '../../FormCreator'
 import { InstructionInputType } from '../../inputInstructionType'
+import { useInstructionFormTemplate } from '../../../useInstructionFormTemplate'
 import { getChangedValues, getNullOrTransform } from '@utils/mangoV4Tools'
 import { BN } from '@coral-xyz/anchor'
 import AdvancedOptionsDropdown from '@components/NewRealmWizard/components/AdvancedOptionsDropdown'
@@ -229,6 +230,12 @@ const EditToken = ({
   })
   const [formErrors, setFormErrors] = useState({})
   const { handleSetInstructions } = useContext(NewProposalContext)
+  // template values are applied on top of the token's on-chain config once it's loaded
+  const pendingTemplateValues = useRef<Partial<EditTokenForm> | null>(null)
+  useInstructionFormTemplate(index, form, (values) => {
+    pendingTemplateValues.current = values
+    setForm((prev) => ({ ...prev, ...values }))
+  })
 
   const validateInstruction = async (): Promise<boolean> => {
     const { isValid, validationErrors } = await isFormValid(schema, form)
@@ -498,7 +505,9 @@ const EditToken = ({
       setForm((prevForm) => ({
         ...prevForm,
         ...vals,
+        ...pendingTemplateValues.current,
       }))
+      pendingTemplateValues.current = null
       setOriginalFormValues((prevForm) => ({ ...prevForm, ...vals }))
     }
   }, [formTokenPk, mangoGroup])
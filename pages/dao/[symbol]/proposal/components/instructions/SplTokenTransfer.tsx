@@ -15,6 +15,7 @@ import useGovernanceAssets from '@hooks/useGovernanceAssets'
 import { Governance } from '@solana/spl-governance'
 import { ProgramAccount } from '@solana/spl-governance'
 import GovernedAccountSelect from '../GovernedAccountSelect'
+import { useInstructionFormTemplate } from '../useInstructionFormTemplate'
 import {
   getSolTransferInstruction,
   getTransferInstruction,
@@ -58,6 +59,11 @@ const SplTokenTransfer = ({
     : 1
   const currentPrecision = precision(mintMinAmount)
   const { handleSetInstructions } = useContext(NewProposalContext)
+  useInstructionFormTemplate(index, form, (values) => {
+    setForm((prev) => ({ ...prev, ...values }))
+    // the destination input resolves .sol domains into form.destinationAccount
+    setAddress(values.destinationAccount ?? '')
+  })
 
   const handleSetForm = ({ propertyName, value }) => {
     setFormErrors({})
@@ -19,6 +19,7 @@ import { isFormValid } from '@utils/formValidation'
 import { web3 } from '@coral-xyz/anchor'
 import useGovernanceAssets from '@hooks/useGovernanceAssets'
 import GovernedAccountSelect from '../../GovernedAccountSelect'
+import { useInstructionFormTemplate } from '../../useInstructionFormTemplate'
 import * as anchor from '@coral-xyz/anchor'
 import { parseMintNaturalAmountFromDecimal } from '@tools/sdk/units'
 import useRealm from '@hooks/useRealm'
@@ -47,6 +48,9 @@ const StakeValidator = ({
   })
   const [formErrors, setFormErrors] = useState({})
   const { handleSetInstructions } = useContext(NewProposalContext)
+  useInstructionFormTemplate(index, form, (values) =>
+    setForm((prev) => ({ ...prev, ...values })),
+  )
 
   const handleSetForm = ({ propertyName, value }) => {
     setFormErrors({})
@@ -0,0 +1,34 @@
+import { useContext, useEffect } from 'react'
+import useGovernanceAssets from '@hooks/useGovernanceAssets'
+import { deserializeFormValues } from '@utils/proposalTemplates'
+import { NewProposalContext } from '../new'
+
+/**
+ * Lets an instruction form take part in proposal templates: reports the form values so they can be
+ * saved, and applies the values of an instantiated template once the governed accounts are loaded
+ */
+export function useInstructionFormTemplate<T>(
+  index: number,
+  form: T,
+  applyTemplateForm: (values: Partial<T>) => void,
+) {
+  const { instructionsData, handleSetInstructions } =
+    useContext(NewProposalContext)
+  const { assetAccounts } = useGovernanceAssets()
+  const templateForm = instructionsData[index]?.templateForm
+
+  useEffect(() => {
+    handleSetInstructions({ form }, index)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [form])
+
+  useEffect(() => {
+    // template accounts are resolved by address, wait until they are loaded
+    if (!templateForm || !assetAccounts.length) {
+      return
+    }
+    applyTemplateForm(deserializeFormValues(templateForm, assetAccounts))
+    handleSetInstructions({ templateForm: undefined }, index)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [templateForm, assetAccounts])
+}
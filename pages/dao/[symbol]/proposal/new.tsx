@@ -4,6 +4,7 @@ import React, {
   useCallback,
   useEffect,
   useMemo,
+  useRef,
   useState,
 } from 'react'
 import * as yup from 'yup'
@@ -149,6 +150,19 @@ import PythUpdatePoolAuthority from './components/instructions/Pyth/PythUpdatePo
 import PlaceLimitOrder from './components/instructions/Manifest/PlaceLimitOrder'
 import CancelLimitOrder from './components/instructions/Manifest/CancelLimitOrder'
 import WithdrawFees from './components/instructions/Token2022/WithdrawFees'
+import BatchPayouts from './components/instructions/BatchPayouts'
+import ProposalTemplates from './components/ProposalTemplates'
+import {
+  getInstructionFromTemplateKey,
+  getInstructionTemplateKey,
+  PROPOSAL_TEMPLATE_VERSION,
+  ProposalTemplate,
+  serializeFormValues,
+} from '@utils/proposalTemplates'
+import { useBudgetCheck } from '@hooks/useTreasuryBudgets'
+import { BudgetOverrun } from '@models/treasury/Budget'
+import { getMintMetadata } from '@components/instructions/programs/splToken'
+import { abbreviateAddress } from '@utils/formatting'
 
 const TITLE_LENGTH_LIMIT = 130
 // the true length limit is either at the tx size level, and maybe also the total account size level (I can't remember)
@@ -226,6 +240,10 @@ const New = () => {
   const [isMulti, setIsMulti] = useState<boolean>(false)
   const [isMultiFormValidated, setIsMultiFormValidated] = useState(false)
   const [multiFormErrors, setMultiFormErrors] = useState({})
+  const [budgetOverruns, setBudgetOverruns] = useState<BudgetOverrun[]>([])
+  const checkBudget = useBudgetCheck(
+    isMulti ? multiChoiceForm.governance : governance?.pubkey,
+  )
 
   const isLoading = isLoadingSignedProposal || isLoadingDraft
 
@@ -246,6 +264,68 @@ const New = () => {
     setForm({ ...form, [propertyName]: value })
   }
 
+  // set while a template's instructions are filling in their governed accounts, see the effect below
+  const applyingTemplate = useRef<{ governance?: string } | null>(null)
+
+  const getCurrentTemplate = (name: string): ProposalTemplate => ({
+    version: PROPOSAL_TEMPLATE_VERSION,
+    id: `${Date.now()}`,
+    name,
+    createdAt: Date.now(),
+    title: form.title,
+    description: form.description,
+    voteByCouncil,
+    isMulti,
+    options: isMulti ? multiChoiceForm.options : [],
+    governance: isMulti
+      ? multiChoiceForm.governance?.toBase58()
+      : governance?.pubkey.toBase58(),
+    // the transactions stay in the form while the multiple choice options are shown
+    instructions: instructionsData
+      .filter((x) => x.type)
+      .map((x) => ({
+        type: getInstructionTemplateKey(x.type.id),
+        form: serializeFormValues(x.form),
+      })),
+  })
+
+  const applyTemplate = (template: ProposalTemplate) => {
+    const instructions = template.instructions.map((x) => ({
+      type: availableInstructions.find(
+        (i) => i.id === getInstructionFromTemplateKey(x.type),
+      ),
+      templateForm: x.form,
+    }))
+    const unavailable = instructions.filter((x) => !x.type).length
+    if (unavailable) {
+      notify({
+        type: 'info',
+        message: `${unavailable} instruction(s) of the template are not available in this DAO`,
+      })
+    }
+
+    setFormErrors({})
+    setForm({ title: template.title, description: template.description })
+    if (shouldShowVoteByCouncilToggle) {
+      setVoteByCouncil(template.voteByCouncil)
+    }
+    setIsMulti(template.isMulti)
+    if (template.isMulti) {
+      setMultiChoiceForm({
+        governance: template.governance
+          ? new PublicKey(template.governance)
+          : undefined,
+        options: template.options,
+      })
+    }
+    // the governance of multiple choice templates is the one of the options, not of the transactions
+    applyingTemplate.current = {
+      governance: template.isMulti ? undefined : template.governance,
+    }
+    const available = instructions.filter((x) => x.type)
+    setInstructions(available.length ? available : [{ type: undefined }])
+  }
+
   const setInstructionType = useCallback(
     ({ value, idx }: { value: InstructionType | null; idx: number }) => {
       const newInstruction = {
@@ -277,6 +357,25 @@ const New = () => {
     setIsLoadingDraft(false)
   }
 
+  // transfers over the remaining budget are flagged, creating again with the same overruns goes ahead
+  const flagBudgetOverruns = async (
+    instructionsData: Pick<InstructionDataWithHoldUpTime, 'data'>[],
+  ) => {
+    const overruns = await checkBudget(
+      instructionsData.flatMap((x) => (x.data ? [x.data] : [])),
+    )
+    const overrunsKey = (x: BudgetOverrun[]) =>
+      x.map((o) => `${o.mint}:${o.amount.toString()}`).join()
+    if (
+      overruns.length &&
+      overrunsKey(overruns) !== overrunsKey(budgetOverruns)
+    ) {
+      setBudgetOverruns(overruns)
+      return true
+    }
+    return false
+  }
+
   const handleCreate = async (isDraft) => {
     setFormErrors({})
 
@@ -321,6 +420,13 @@ const New = () => {
         )
 
         if (isMultiFormValid && multiChoiceForm.governance) {
+          // the options of the form carry no instructions yet, checked like single choice proposals
+          const instructionsData: InstructionDataWithHoldUpTime[] = []
+          if (await flagBudgetOverruns(instructionsData)) {
+            handleTurnOffLoaders()
+            return
+          }
+
           // Create Multi-Choice Proposal
           try {
             const options = [...multiChoiceForm.options]
@@ -329,7 +435,7 @@ const New = () => {
               title: form.title,
               description: form.description,
               governance: multiChoiceForm.governance,
-              instructionsData: [],
+              instructionsData,
               voteByCouncil,
               options,
               isDraft,
@@ -385,6 +491,11 @@ const New = () => {
           })),
         ]
 
+        if (await flagBudgetOverruns(instructionsData)) {
+          handleTurnOffLoaders()
+          return
+        }
+
         try {
           // Fetch governance to get up to date proposalCount
           proposalAddress = await handleCreateProposal({
@@ -417,6 +528,17 @@ const New = () => {
   const previousFirstGovernancePk = usePrevious(firstGovernancePk)
 
   useEffect(() => {
+    if (applyingTemplate.current) {
+      // don't drop the template instructions while they are filled in
+      if (
+        firstGovernancePk &&
+        (!applyingTemplate.current.governance ||
+          firstGovernancePk === applyingTemplate.current.governance)
+      ) {
+        applyingTemplate.current = null
+      }
+      return
+    }
     if (
       instructionsData?.length &&
       firstGovernancePk !== previousFirstGovernancePk
@@ -475,6 +597,7 @@ const New = () => {
     () => ({
       [Instructions.Burn]: BurnTokens,
       [Instructions.Transfer]: SplTokenTransfer,
+      [Instructions.BatchPayouts]: BatchPayouts,
       [Instructions.ProgramUpgrade]: ProgramUpgrade,
       [Instructions.Mint]: Mint,
       [Instructions.Base64]: CustomBase64,
@@ -856,6 +979,27 @@ const New = () => {
                 </div>
               </div>
             )}
+            {budgetOverruns.length > 0 && (
+              <div className="bg-bkg-1 border border-orange mt-6 p-4 rounded-md text-sm">
+                <div className="font-bold text-orange mb-1">
+                  Transfers exceed the remaining budget of this wallet
+                </div>
+                {budgetOverruns.map((x) => {
+                  const symbol =
+                    getMintMetadata(new PublicKey(x.mint))?.name ??
+                    abbreviateAddress(x.mint)
+                  return (
+                    <div className="text-fgd-2" key={x.mint}>
+                      {x.amount.toFormat()} {symbol} transferred,{' '}
+                      {x.remaining.toFormat()} {symbol} left this month
+                    </div>
+                  )
+                })}
+                <div className="text-fgd-3 mt-1">
+                  Create the proposal again to submit it anyway.
+                </div>
+              </div>
+            )}
             <div className="border-t border-fgd-4 flex justify-end mt-6 pt-6 space-x-4">
               <SecondaryButton
                 disabled={isLoading}
@@ -877,6 +1021,10 @@ const New = () => {
       </div>
       <div className="col-span-12 md:col-span-5 lg:col-span-4 space-y-4">
         <TokenBalanceCardWrapper />
+        <ProposalTemplates
+          getCurrentTemplate={getCurrentTemplate}
+          onApply={applyTemplate}
+        />
       </div>
     </div>
   )
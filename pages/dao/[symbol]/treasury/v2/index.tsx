@@ -5,6 +5,7 @@ import PreviousRouteBtn from '@components/PreviousRouteBtn'
 import TotalValueTitle from '@components/treasuryV2/TotalValueTitle'
 import WalletList from '@components/treasuryV2/WalletList'
 import Details from '@components/treasuryV2/Details'
+import PeriodReports from '@components/treasuryV2/PeriodReports'
 import { map, Status } from '@utils/uiTypes/Result'
 import useTreasuryInfo from '@hooks/useTreasuryInfo'
 import { AuxiliaryWallet, Wallet } from '@models/treasury/Wallet'
@@ -117,6 +118,12 @@ export default function Treasury() {
           </div>
         </div>
       </article>
+      {data._tag === Status.Ok && (
+        <PeriodReports
+          className="mt-8 pt-8 border-t border-white/10"
+          wallets={data.data.wallets}
+        />
+      )}
     </div>
   )
 }
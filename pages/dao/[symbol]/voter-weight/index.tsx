@@ -0,0 +1,299 @@
+import { useMemo, useState } from 'react'
+import { useAsync } from 'react-async-hook'
+import { useConnection } from '@solana/wallet-adapter-react'
+import { PublicKey } from '@solana/web3.js'
+import { getTokenOwnerRecordAddress } from '@solana/spl-governance'
+import BN from 'bn.js'
+import cx from 'classnames'
+import Button, { SecondaryButton } from '@components/Button'
+import Input from '@components/inputs/Input'
+import PreviousRouteBtn from '@components/PreviousRouteBtn'
+import { Table, Td, Th, TrBody, TrHead } from '@components/TableElements'
+import { useMintInfoByPubkeyQuery } from '@hooks/queries/mintInfo'
+import queryClient from '@hooks/queries/queryClient'
+import { useRealmQuery } from '@hooks/queries/realm'
+import { fetchTokenOwnerRecordByPubkey } from '@hooks/queries/tokenOwnerRecord'
+import useRealm from '@hooks/useRealm'
+import { useRealmVoterWeightPlugins } from '@hooks/useRealmVoterWeightPlugins'
+import useWalletOnePointOh from '@hooks/useWalletOnePointOh'
+import { getMintDecimalAmount } from '@tools/sdk/units'
+import { abbreviateAddress } from '@utils/formatting'
+import { notify } from '@utils/notifications'
+import { SequenceType, sendTransactionsV3 } from '@utils/sendTransactions'
+import {
+  diagnoseVoterWeight,
+  VoterWeightPluginDiagnostic,
+} from 'VoterWeightPlugins'
+import { usePlugins } from 'VoterWeightPlugins/hooks/usePlugins'
+import { GovernanceRole } from '../../../../@types/types'
+
+const parseWallet = (value: string) => {
+  try {
+    return new PublicKey(value.trim())
+  } catch {
+    return undefined
+  }
+}
+
+const getStatus = (
+  plugin: VoterWeightPluginDiagnostic,
+  currentSlot: number,
+): { label: string; isError: boolean } => {
+  if (plugin.error) return { label: plugin.error.message, isError: true }
+  if (plugin.outputWeight === null)
+    return { label: 'Not reached, a previous plugin failed', isError: true }
+  if (plugin.onChainWeight === undefined)
+    return { label: 'No voter weight record on-chain', isError: true }
+  if (!plugin.onChainWeight.eq(plugin.outputWeight))
+    return {
+      label: 'The on-chain voter weight is outdated',
+      isError: true,
+    }
+  // most plugins expire their records in the slot they were updated in,
+  // which is fine since they are updated right before voting
+  if (plugin.expirySlot && plugin.expirySlot.ltn(currentSlot))
+    return {
+      label: 'Expired, it is updated when voting',
+      isError: false,
+    }
+  return { label: 'OK', isError: false }
+}
+
+const VoterWeightDiagnostics = () => {
+  const { realmInfo } = useRealm()
+  const { connection } = useConnection()
+  const realm = useRealmQuery().data?.result
+  const wallet = useWalletOnePointOh()
+  const [role, setRole] = useState<GovernanceRole>('community')
+  const [walletInput, setWalletInput] = useState('')
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  // keyed by address so the diagnostics don't rerun on every render
+  const walletAddress = walletInput || wallet?.publicKey?.toBase58()
+  const walletPk = useMemo(
+    () => (walletAddress ? parseWallet(walletAddress) : undefined),
+    [walletAddress],
+  )
+  const governanceMintPublicKey =
+    role === 'community'
+      ? realm?.account.communityMint
+      : realm?.account.config.councilMint
+  const mint = useMintInfoByPubkeyQuery(governanceMintPublicKey).data?.result
+  const { data: plugins } = usePlugins({
+    realmPublicKey: realm?.pubkey,
+    governanceMintPublicKey,
+    walletPublicKeys: walletPk ? [walletPk] : undefined,
+  })
+  const { createVoterWeightRecords, updateVoterWeightRecords } =
+    useRealmVoterWeightPlugins(role)
+
+  const diagnostics = useAsync(async () => {
+    if (!realm || !governanceMintPublicKey || !walletPk || !plugins)
+      return undefined
+    const tokenOwnerRecord = await fetchTokenOwnerRecordByPubkey(
+      connection,
+      await getTokenOwnerRecordAddress(
+        realm.owner,
+        realm.pubkey,
+        governanceMintPublicKey,
+        walletPk,
+      ),
+    )
+    return diagnoseVoterWeight({
+      connection,
+      walletPublicKey: walletPk,
+      realmPublicKey: realm.pubkey,
+      governanceMintPublicKey,
+      plugins: plugins.voterWeight,
+      tokenOwnerRecord: tokenOwnerRecord.result,
+    })
+  }, [realm, governanceMintPublicKey, walletPk, plugins, connection])
+
+  const isOwnWallet =
+    !!walletPk && !!wallet?.publicKey && walletPk.equals(wallet.publicKey)
+
+  const handleRefresh = async () => {
+    if (!wallet?.publicKey) return
+    setIsRefreshing(true)
+    try {
+      const createIxs = await createVoterWeightRecords(wallet.publicKey)
+      const { pre, post } = await updateVoterWeightRecords(wallet.publicKey)
+      await sendTransactionsV3({
+        connection,
+        wallet,
+        transactionInstructions: [
+          {
+            instructionsSet: [...createIxs, ...pre, ...post].map((x) => ({
+              transactionInstruction: x,
+            })),
+            sequenceType: SequenceType.Sequential,
+          },
+        ],
+      })
+      queryClient.invalidateQueries({ queryKey: ['getPlugins'] })
+      queryClient.invalidateQueries({ queryKey: ['calculateVoterWeight'] })
+      await diagnostics.execute()
+      notify({ type: 'success', message: 'Voter weight records refreshed' })
+    } catch (e) {
+      console.error(e)
+      notify({ type: 'error', message: `Something went wrong, ${e}` })
+    }
+    setIsRefreshing(false)
+  }
+
+  const fmtWeight = (weight: BN | null | undefined) =>
+    weight === null || weight === undefined
+      ? '-'
+      : mint
+      ? getMintDecimalAmount(mint, weight).toFormat()
+      : weight.toString()
+
+  const result = diagnostics.result
+
+  return (
+    <div className="bg-bkg-2 rounded-lg p-4 md:p-6 space-y-6">
+      <div>
+        <div className="mb-4">
+          <PreviousRouteBtn />
+        </div>
+        <div className="border-b border-fgd-4 flex items-center pb-4">
+          {realmInfo?.ogImage ? (
+            <img src={realmInfo?.ogImage} className="h-8 mr-3 w-8"></img>
+          ) : null}
+          <div>
+            <p>{realmInfo?.displayName}</p>
+            <h1 className="mb-0">Voting Power Diagnostics</h1>
+          </div>
+        </div>
+      </div>
+      <p className="text-fgd-3 text-sm">
+        Follows a wallet through each voter weight plugin of the realm, and
+        compares the weight every plugin calculates with the voter weight record
+        it has on-chain.
+      </p>
+      <div className="flex flex-wrap gap-2 items-start">
+        <div className="flex-1 min-w-[280px]">
+          <Input
+            type="text"
+            placeholder={wallet?.publicKey?.toBase58() ?? 'Wallet address'}
+            value={walletInput}
+            noMaxWidth
+            error={walletInput && !walletPk ? 'Invalid wallet address' : ''}
+            onChange={(e) => setWalletInput(e.target.value)}
+          />
+        </div>
+        {(['community', 'council'] as const).map((x) => (
+          <SecondaryButton
+            key={x}
+            className={cx(
+              'capitalize',
+              role === x && 'bg-primary-light text-bkg-2 hover:text-bkg-2',
+            )}
+            disabled={x === 'council' && !realm?.account.config.councilMint}
+            onClick={() => setRole(x)}
+          >
+            {x}
+          </SecondaryButton>
+        ))}
+      </div>
+      {!wallet?.publicKey ? (
+        <p className="text-fgd-3 text-sm">
+          Connect your wallet to load the voter weight plugins
+        </p>
+      ) : !result ? (
+        <div className="h-64 rounded-md bg-bkg-1 animate-pulse" />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div className="bg-bkg-1 p-4 rounded-md">
+              <p className="text-fgd-3 text-xs">Deposited tokens</p>
+              <p className="font-bold mb-0">
+                {fmtWeight(result.calculatedWeight.initialValue)}
+              </p>
+            </div>
+            <div className="bg-bkg-1 p-4 rounded-md">
+              <p className="text-fgd-3 text-xs">Voting power</p>
+              <p
+                className={cx(
+                  'font-bold mb-0',
+                  !result.calculatedWeight.value?.gtn(0) && 'text-red',
+                )}
+              >
+                {result.calculatedWeight.value
+                  ? fmtWeight(result.calculatedWeight.value)
+                  : 'Could not be calculated'}
+              </p>
+            </div>
+            <div className="bg-bkg-1 p-4 rounded-md">
+              <p className="text-fgd-3 text-xs">Current slot</p>
+              <p className="font-bold mb-0">{result.currentSlot}</p>
+            </div>
+          </div>
+          {result.plugins.length ? (
+            <Table>
+              <thead>
+                <TrHead>
+                  <Th>Plugin</Th>
+                  <Th>Registrar</Th>
+                  <Th>Input weight</Th>
+                  <Th>Calculated weight</Th>
+                  <Th>On-chain weight</Th>
+                  <Th>Expiry slot</Th>
+                  <Th>Status</Th>
+                </TrHead>
+              </thead>
+              <tbody>
+                {result.plugins.map((plugin) => {
+                  const status = getStatus(plugin, result.currentSlot)
+                  return (
+                    <TrBody key={plugin.programId.toBase58()}>
+                      <Td>
+                        <p className="mb-0">{plugin.name}</p>
+                        <p className="mb-0 text-fgd-3 text-xs">
+                          {abbreviateAddress(plugin.programId)}
+                        </p>
+                      </Td>
+                      <Td>{abbreviateAddress(plugin.registrarPublicKey)}</Td>
+                      <Td>{fmtWeight(plugin.inputWeight)}</Td>
+                      <Td>{fmtWeight(plugin.outputWeight)}</Td>
+                      <Td>{fmtWeight(plugin.onChainWeight)}</Td>
+                      <Td>
+                        {plugin.expirySlot === undefined
+                          ? '-'
+                          : plugin.expirySlot?.toString() ?? 'Never'}
+                      </Td>
+                      <Td className={cx(status.isError && 'text-red')}>
+                        {status.label}
+                      </Td>
+                    </TrBody>
+                  )
+                })}
+              </tbody>
+            </Table>
+          ) : (
+            <p className="text-fgd-3 text-sm">
+              This realm does not use voter weight plugins, the voting power is
+              the amount of deposited tokens.
+            </p>
+          )}
+          {result.plugins.length > 0 && (
+            <Button
+              isLoading={isRefreshing}
+              disabled={!isOwnWallet || isRefreshing}
+              tooltipMessage={
+                !isOwnWallet
+                  ? 'Only the voter weight records of the connected wallet can be refreshed'
+                  : ''
+              }
+              onClick={handleRefresh}
+            >
+              Refresh my voter weight records
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default VoterWeightDiagnostics
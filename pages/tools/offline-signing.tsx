@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import Head from 'next/head'
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/outline'
+import Button, { LinkButton, SecondaryButton } from '@components/Button'
+import Input from '@components/inputs/Input'
+import Textarea from '@components/inputs/Textarea'
+import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import { tryParseKey } from '@tools/validators/pubkey'
+import { abbreviateAddress } from '@utils/formatting'
+import {
+  parseSignedTransactions,
+  verifySignedTransaction,
+} from '@utils/offlineSigning'
+import { sendSignedTransactionsV3 } from '@utils/sendTransactions'
+import useOfflineSigningStore from 'stores/useOfflineSigningStore'
+
+const OfflineSignerSettings = () => {
+  const { signer, nonceAccounts, setSigner, setNonceAccounts } =
+    useOfflineSigningStore()
+  const [signerInput, setSignerInput] = useState(signer ?? '')
+  const [nonceInput, setNonceInput] = useState(nonceAccounts.join('\n'))
+
+  useEffect(() => {
+    setSignerInput(signer ?? '')
+  }, [signer])
+
+  const nonceLines = nonceInput
+    .split(/\s+/)
+    .map((x) => x.trim())
+    .filter(Boolean)
+  const invalidNonce = nonceLines.find((x) => !tryParseKey(x))
+  const signerError =
+    signerInput && !tryParseKey(signerInput) ? 'Invalid address' : ''
+
+  return (
+    <div className="p-4 rounded-lg bg-bkg-2 md:p-6 space-y-4">
+      <h2 className="mb-0">Offline signer</h2>
+      <p className="text-fgd-3 text-sm">
+        While an offline signer is set it replaces the connected wallet. Voting,
+        signing off, creating and executing proposals export unsigned
+        transactions for it instead of asking the wallet to sign.
+      </p>
+      <Input
+        label="Signer address"
+        type="text"
+        value={signerInput}
+        onChange={(evt) => setSignerInput(evt.target.value)}
+        error={signerError}
+      />
+      <Textarea
+        label="Durable nonce accounts"
+        subtitle="Optional, one per line. Each exported transaction uses its own nonce account, with the signer as nonce authority"
+        rows={3}
+        value={nonceInput}
+        onChange={(evt) => setNonceInput(evt.target.value)}
+        error={invalidNonce ? `Invalid nonce account ${invalidNonce}` : ''}
+      />
+      <div className="flex justify-end space-x-4">
+        {signer && (
+          <SecondaryButton onClick={() => setSigner(undefined)}>
+            Disable
+          </SecondaryButton>
+        )}
+        <Button
+          disabled={!signerInput || !!signerError || !!invalidNonce}
+          onClick={() => {
+            setSigner(signerInput)
+            setNonceAccounts(nonceLines)
+          }}
+        >
+          {signer ? 'Update' : 'Use offline signer'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+const SignedTransactionsImport = () => {
+  const connection = useLegacyConnectionContext()
+  const [input, setInput] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const { transactions, error } = useMemo(() => {
+    try {
+      return { transactions: parseSignedTransactions(input), error: '' }
+    } catch (e) {
+      return { transactions: [], error: `${e.message ?? e}` }
+    }
+  }, [input])
+  const verified = transactions.map(verifySignedTransaction)
+  const canBroadcast = transactions.length > 0 && verified.every((x) => x.valid)
+
+  const handleBroadcast = async () => {
+    setIsSending(true)
+    try {
+      await sendSignedTransactionsV3({
+        connection: connection.current,
+        transactions,
+      })
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="p-4 rounded-lg bg-bkg-2 md:p-6 space-y-4">
+      <h2 className="mb-0">Import signed transactions</h2>
+      <Textarea
+        label="Signed transactions"
+        subtitle="A downloaded bundle, the QR code payloads or one base64 / base58 transaction per line, in order"
+        rows={6}
+        value={input}
+        onChange={(evt) => setInput(evt.target.value)}
+        error={error}
+      />
+      <div className="flex justify-end">
+        <LinkButton
+          className="text-sm"
+          onClick={() => fileInput.current?.click()}
+        >
+          Load file
+        </LinkButton>
+        <input
+          ref={fileInput}
+          type="file"
+          className="hidden"
+          onChange={async (evt) => {
+            const file = evt.target.files?.[0]
+            if (file) {
+              setInput(await file.text())
+            }
+            evt.target.value = ''
+          }}
+        />
+      </div>
+      {transactions.map((transaction, i) => (
+        <div
+          key={i}
+          className="border border-fgd-4 p-3 rounded-md space-y-1 text-sm"
+        >
+          <div className="flex items-center">
+            {verified[i].valid ? (
+              <CheckCircleIcon className="h-5 mr-2 text-green w-5" />
+            ) : (
+              <XCircleIcon className="h-5 mr-2 text-red w-5" />
+            )}
+            Transaction {i + 1}, {transaction.instructions.length}{' '}
+            instruction(s)
+          </div>
+          {transaction.signatures.map(({ publicKey, signature }) => (
+            <div key={publicKey.toBase58()} className="text-fgd-3 text-xs">
+              {abbreviateAddress(publicKey)}:{' '}
+              {signature ? 'signed' : 'signature missing'}
+            </div>
+          ))}
+          {!verified[i].valid && !verified[i].missingSigners.length && (
+            <div className="text-red text-xs">Invalid signature</div>
+          )}
+        </div>
+      ))}
+      <div className="flex justify-end">
+        <Button
+          disabled={!canBroadcast || isSending}
+          isLoading={isSending}
+          onClick={handleBroadcast}
+        >
+          Broadcast
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+const OfflineSigningPage = () => (
+  <>
+    <Head>
+      <title>Offline signing</title>
+      <meta property="og:title" content="Offline signing" key="title" />
+    </Head>
+    <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+      <OfflineSignerSettings />
+      <SignedTransactionsImport />
+    </div>
+  </>
+)
+
+export default OfflineSigningPage
@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react'
+import Head from 'next/head'
+import { StarIcon as StarOutlineIcon } from '@heroicons/react/outline'
+import { StarIcon, TrashIcon } from '@heroicons/react/solid'
+import Button, { SecondaryButton } from '@components/Button'
+import Input from '@components/inputs/Input'
+import useLegacyConnectionContext from '@hooks/useLegacyConnectionContext'
+import {
+  checkClusterHealth,
+  getEndpointStats,
+  getRankedEndpoints,
+  isDefaultEndpoint,
+  isHealthyEndpoint,
+  THIRD_PARTY_ENDPOINTS,
+} from '@utils/rpcEndpoints'
+import useRpcEndpointsStore, {
+  EndpointHealth,
+} from 'stores/useRpcEndpointsStore'
+
+// the request stats live outside of the store, they are read again on this interval
+const STATS_REFRESH_INTERVAL = 5 * 1000
+
+const HealthSummary = ({ health }: { health: EndpointHealth | undefined }) => {
+  if (!health) return <span className="text-fgd-3">Not checked yet</span>
+  if (health.error) return <span className="text-red">{health.error}</span>
+  return (
+    <span className={isHealthyEndpoint(health) ? 'text-green' : 'text-red'}>
+      {health.latency}ms, {health.slotLag ?? 0} slots behind
+      {health.supportsGpa === false && ', no getProgramAccounts'}
+    </span>
+  )
+}
+
+const EndpointList = () => {
+  const { cluster } = useLegacyConnectionContext()
+  const { health, preferred, setPreferred, removeEndpoint } =
+    useRpcEndpointsStore()
+  const [stats, setStats] = useState(getEndpointStats)
+  const [isChecking, setIsChecking] = useState(false)
+
+  useEffect(() => {
+    const id = setInterval(
+      () => setStats(getEndpointStats()),
+      STATS_REFRESH_INTERVAL,
+    )
+    return () => clearInterval(id)
+  }, [])
+
+  // re-ranked on every render, health updates rerender through the store
+  const endpoints = getRankedEndpoints(cluster)
+
+  return (
+    <div className="p-4 rounded-lg bg-bkg-2 md:p-6 space-y-4">
+      <h2 className="mb-0">Endpoints</h2>
+      <p className="text-fgd-3 text-sm">
+        Requests stay on one endpoint and only move on to the next one in this
+        list when it fails or is rate limited. Endpoints are ordered by health,
+        then latency. A starred endpoint is used first while it is healthy.
+      </p>
+      {endpoints.map(({ url, label }) => {
+        const endpointStats = stats[url]
+        return (
+          <div
+            key={url}
+            className="border border-fgd-4 p-3 rounded-md space-y-1 text-sm"
+          >
+            <div className="flex items-center justify-between">
+              <div className="font-bold">{label}</div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() =>
+                    setPreferred(
+                      cluster,
+                      preferred[cluster] === url ? undefined : url,
+                    )
+                  }
+                >
+                  {preferred[cluster] === url ? (
+                    <StarIcon className="h-4 text-primary-light w-4" />
+                  ) : (
+                    <StarOutlineIcon className="h-4 text-fgd-3 w-4" />
+                  )}
+                </button>
+                {!isDefaultEndpoint(url) && (
+                  <button onClick={() => removeEndpoint(url)}>
+                    <TrashIcon className="h-4 text-fgd-3 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="break-all text-fgd-3 text-xs">{url}</div>
+            <div className="text-xs">
+              <HealthSummary health={health[url]} />
+            </div>
+            {endpointStats && (
+              <div className="text-fgd-3 text-xs">
+                {endpointStats.requests} requests, {endpointStats.failures}{' '}
+                failed, average{' '}
+                {Math.round(
+                  endpointStats.totalLatency / endpointStats.requests,
+                )}
+                ms
+              </div>
+            )}
+          </div>
+        )
+      })}
+      <div className="flex justify-end">
+        <SecondaryButton
+          disabled={isChecking}
+          isLoading={isChecking}
+          onClick={async () => {
+            setIsChecking(true)
+            await checkClusterHealth(cluster)
+            setStats(getEndpointStats())
+            setIsChecking(false)
+          }}
+        >
+          Check now
+        </SecondaryButton>
+      </div>
+    </div>
+  )
+}
+
+const AddEndpoint = () => {
+  const { cluster } = useLegacyConnectionContext()
+  const { customEndpoints, addEndpoint } = useRpcEndpointsStore()
+  const [url, setUrl] = useState('')
+  const [label, setLabel] = useState('')
+
+  const urlError = url && !/^https?:\/\/\S+$/.test(url) ? 'Invalid url' : ''
+  const suggestedEndpoints = THIRD_PARTY_ENDPOINTS.filter(
+    (x) =>
+      x.cluster === cluster && !customEndpoints.some((y) => y.url === x.url),
+  )
+
+  return (
+    <div className="p-4 rounded-lg bg-bkg-2 md:p-6 space-y-4">
+      <h2 className="mb-0">Add an endpoint</h2>
+      <p className="text-fgd-3 text-sm">
+        Custom endpoints are stored in this browser and added to the {cluster}{' '}
+        endpoints. The realm pages load accounts with getProgramAccounts,
+        endpoints without it are ranked last.
+      </p>
+      <Input
+        label="Url"
+        type="text"
+        value={url}
+        onChange={(evt) => setUrl(evt.target.value.trim())}
+        error={urlError}
+      />
+      <Input
+        label="Name"
+        type="text"
+        value={label}
+        onChange={(evt) => setLabel(evt.target.value)}
+      />
+      <div className="flex justify-end">
+        <Button
+          disabled={!url || !!urlError}
+          onClick={() => {
+            addEndpoint({ url, label: label || url, cluster })
+            setUrl('')
+            setLabel('')
+            checkClusterHealth(cluster)
+          }}
+        >
+          Add endpoint
+        </Button>
+      </div>
+      {suggestedEndpoints.map((endpoint) => (
+        <div
+          key={endpoint.url}
+          className="border border-fgd-4 flex items-center justify-between p-3 rounded-md text-sm"
+        >
+          <div>
+            <div className="font-bold">{endpoint.label}</div>
+            <div className="break-all text-fgd-3 text-xs">{endpoint.url}</div>
+          </div>
+          <SecondaryButton
+            small
+            onClick={() => {
+              addEndpoint(endpoint)
+              checkClusterHealth(cluster)
+            }}
+          >
+            Add
+          </SecondaryButton>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+const RpcEndpointsPage = () => (
+  <>
+    <Head>
+      <title>RPC endpoints</title>
+      <meta property="og:title" content="RPC endpoints" key="title" />
+    </Head>
+    <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+      <EndpointList />
+      <AddEndpoint />
+    </div>
+  </>
+)
+
+export default RpcEndpointsPage
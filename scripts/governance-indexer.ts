@@ -0,0 +1,144 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { Connection, PublicKey } from '@solana/web3.js'
+import { EndpointTypes } from '@models/types'
+import {
+  IndexerAccountsRequest,
+  IndexerHealthResponse,
+} from '@models/dataSource'
+import { IndexerStore } from '@models/dataSource/IndexerStore'
+import { DEFAULT_GOVERNANCE_PROGRAM_ID } from '@components/instructions/tools'
+import { getConnectionContext } from 'utils/connection'
+
+// Usage: INDEXER_PROGRAMS=<programId>,<programId> yarn governance-indexer
+// ingests every account of the programs into INDEXER_DB (.governance-indexer.sqlite) and serves them on
+// INDEXER_PORT, point NEXT_PUBLIC_GOVERNANCE_INDEXER_URL at it to use it from the app. The app only reads from it
+// on the cluster it ingests, set with CLUSTER or RPC_URL.
+// better-sqlite3 is a dev dependency whose install script doesn't run, build it once with
+// `npm rebuild better-sqlite3`
+const cluster = (process.env.CLUSTER ?? 'mainnet') as EndpointTypes
+const connection = new Connection(
+  process.env.RPC_URL ?? getConnectionContext(cluster).endpoint,
+  'confirmed',
+)
+const programs = (process.env.INDEXER_PROGRAMS ?? DEFAULT_GOVERNANCE_PROGRAM_ID)
+  .split(',')
+  .map((x) => x.trim())
+  .filter(Boolean)
+const port = Number(process.env.INDEXER_PORT ?? 4100)
+// full resyncs catch up on the changes missed while the websocket was down
+const refreshMinutes = Number(process.env.INDEXER_REFRESH_MINUTES ?? 60)
+
+const store = new IndexerStore()
+// read on startup, the app compares it to the one of its connection
+let genesisHash: string
+
+async function syncProgram(programId: string) {
+  const { context, value: accounts } = await connection.getProgramAccounts(
+    new PublicKey(programId),
+    { withContext: true },
+  )
+  store.replaceProgram(
+    programId,
+    context.slot,
+    accounts.map((x) => ({
+      pubkey: x.pubkey.toBase58(),
+      owner: x.account.owner.toBase58(),
+      lamports: x.account.lamports,
+      data: x.account.data,
+    })),
+  )
+  console.log(`- '${programId}': ${accounts.length} accounts indexed`)
+}
+
+function subscribeProgram(programId: string) {
+  connection.onProgramAccountChange(
+    new PublicKey(programId),
+    ({ accountId, accountInfo }, { slot }) => {
+      // closed accounts are reported with no lamports left
+      if (accountInfo.lamports === 0) {
+        store.remove(programId, slot, accountId.toBase58())
+        return
+      }
+      store.upsert(programId, slot, {
+        pubkey: accountId.toBase58(),
+        owner: accountInfo.owner.toBase58(),
+        lamports: accountInfo.lamports,
+        data: accountInfo.data,
+      })
+    },
+    'confirmed',
+  )
+}
+
+async function syncPrograms() {
+  for (const programId of programs) {
+    try {
+      await syncProgram(programId)
+    } catch (e) {
+      console.error(`- failed to index ${programId}`, e)
+    }
+  }
+}
+
+function readBody(req: IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => resolve(body))
+    req.on('error', reject)
+  })
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  })
+  res.end(JSON.stringify(body))
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+  if (req.method === 'OPTIONS') {
+    return sendJson(res, 204, undefined)
+  }
+  if (req.method === 'GET' && req.url === '/health') {
+    const health: IndexerHealthResponse = {
+      cluster,
+      genesisHash,
+      programs: store.stats(),
+    }
+    return sendJson(res, 200, health)
+  }
+  if (req.method === 'POST' && req.url === '/accounts') {
+    const request: IndexerAccountsRequest = JSON.parse(await readBody(req))
+    // the app falls back to the RPC for programs which are not indexed
+    if (!store.hasProgram(request.programId)) {
+      return sendJson(res, 404, { error: 'Program is not indexed' })
+    }
+    return sendJson(res, 200, store.query(request))
+  }
+  return sendJson(res, 404, { error: 'Not found' })
+}
+
+async function main() {
+  genesisHash = await connection.getGenesisHash()
+  programs.forEach(subscribeProgram)
+  await syncPrograms()
+
+  createServer((req, res) => {
+    handleRequest(req, res).catch((e) => {
+      console.error(e)
+      sendJson(res, 400, { error: `${e}` })
+    })
+  }).listen(port, () => console.log(`- indexer listening on ${port}`))
+
+  if (refreshMinutes > 0) {
+    setInterval(syncPrograms, refreshMinutes * 60 * 1000)
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -1,216 +1,183 @@
 import { Connection, PublicKey } from '@solana/web3.js'
-import axios from 'axios'
-import { getConnectionContext } from 'utils/connection'
 import {
+  getAllProposals,
   getGovernanceAccounts,
+  getRealm,
   Governance,
-  Proposal,
-  ProposalState,
   pubkeyFilter,
 } from '@solana/spl-governance'
+import { MintInfo } from '@solana/spl-token'
 import { getCertifiedRealmInfo } from '@models/registry/api'
 import { accountsToPubkeyMap } from '@tools/sdk/accounts'
-import { fmtTokenAmount } from '@utils/formatting'
-import { formatNumber } from '@utils/formatNumber'
-
-const fiveMinutesSeconds = 5 * 60
-const toleranceSeconds = 30
-
-if (!process.env.CLUSTER_URL) {
-  console.error('Please set CLUSTER_URL to a rpc node of choice!')
-  process.exit(1)
-}
+import { tryParseKey } from '@tools/validators/pubkey'
+import { getConnectionContext } from 'utils/connection'
+import { tryGetMint } from '@utils/tokens'
+import {
+  getLegacyEnvConfig,
+  loadNotifierConfig,
+  NotifierConfig,
+  NOTIFIER_EVENTS,
+  RealmWatchConfig,
+} from './notifier/config'
+import { detectProposalEvents, RealmSnapshot } from './notifier/events'
+import { NotifierState } from './notifier/state'
+import { postToSink } from './notifier/sinks'
+import { getTemplate, renderTemplate } from './notifier/templates'
+
+// Usage: NOTIFIER_CONFIG=./notifier.json yarn notifier
+// see scripts/notifier/config.example.json, without a config file the REALM and WEBHOOK_URL env vars are used
+const config: NotifierConfig = process.env.NOTIFIER_CONFIG
+  ? loadNotifierConfig(process.env.NOTIFIER_CONFIG)
+  : getLegacyEnvConfig()
+
+const state = new NotifierState(config.stateFile)
+const connection = new Connection(config.rpcUrl, 'recent')
+
+function resolveRealm(watch: RealmWatchConfig) {
+  const realmInfo = getCertifiedRealmInfo(
+    watch.realm,
+    getConnectionContext(config.cluster),
+  )
+  if (realmInfo) {
+    return {
+      realmPk: realmInfo.realmId,
+      programId: realmInfo.programId,
+      symbol: watch.symbol ?? realmInfo.symbol,
+    }
+  }
 
-function errorWrapper() {
-  runNotifier().catch((error) => {
-    console.error(error)
-  })
+  const realmPk = tryParseKey(watch.realm)
+  const programId = watch.programId && tryParseKey(watch.programId)
+  if (!realmPk || !programId) {
+    throw new Error(
+      `Realm ${watch.realm} is not certified, provide its address and programId`,
+    )
+  }
+  return { realmPk, programId, symbol: watch.symbol ?? realmPk.toBase58() }
 }
 
-// run every 5 mins, checks if a governance proposal just opened in the last 5 mins
-// and notifies on WEBHOOK_URL
-async function runNotifier() {
-  const REALM = process.env.REALM || 'MNGO'
-  const connectionContext = getConnectionContext('mainnet')
-  const realmInfo = await getCertifiedRealmInfo(REALM, connectionContext)
-
-  const connection = new Connection(process.env.CLUSTER_URL!)
-  console.log(`- getting all governance accounts for ${REALM}`)
-  const governances = await getGovernanceAccounts(
-    connection,
-    realmInfo!.programId,
-    Governance,
-    [pubkeyFilter(1, realmInfo!.realmId)!],
-  )
+async function fetchRealmSnapshot(
+  realmPk: PublicKey,
+  programId: PublicKey,
+): Promise<RealmSnapshot> {
+  const realm = await getRealm(connection, realmPk)
+  const [governances, proposalsByGovernance] = await Promise.all([
+    getGovernanceAccounts(connection, programId, Governance, [
+      pubkeyFilter(1, realmPk)!,
+    ]),
+    getAllProposals(connection, programId, realmPk),
+  ])
+
+  const mints: Record<string, MintInfo> = {}
+  const mintPks = [
+    realm.account.communityMint,
+    realm.account.config.councilMint,
+  ]
+  for (const mintPk of mintPks) {
+    if (!mintPk) continue
+    const mint = await tryGetMint(connection, mintPk)
+    if (mint) mints[mintPk.toBase58()] = mint.account
+  }
 
-  const governancesMap = accountsToPubkeyMap(governances)
+  return {
+    realm,
+    governances: accountsToPubkeyMap(governances),
+    proposals: proposalsByGovernance.flat(),
+    mints,
+  }
+}
 
-  console.log(`- getting all proposals for all governances`)
-  const proposalsByGovernance = await Promise.all(
-    Object.keys(governancesMap).map((governancePk) => {
-      return getGovernanceAccounts(connection, realmInfo!.programId, Proposal, [
-        pubkeyFilter(1, new PublicKey(governancePk))!,
-      ])
-    }),
-  )
+async function notifyRealm(watch: RealmWatchConfig) {
+  const { realmPk, programId, symbol } = resolveRealm(watch)
+  console.log(`- scanning '${symbol}' proposals`)
+  const snapshot = await fetchRealmSnapshot(realmPk, programId)
 
-  console.log(`- scanning all '${REALM}' proposals`)
-  let countJustOpenedForVoting = 0
-  let countOpenForVotingSinceSomeTime = 0
-  let countVotingNotStartedYet = 0
-  let countClosed = 0
-  let countCancelled = 0
   const nowInSeconds = new Date().getTime() / 1000
-  for (const proposals_ of proposalsByGovernance) {
-    for (const proposal of proposals_) {
-      //// debugging
-      // console.log(
-      //   `-- proposal ${proposal.account.governance.toBase58()} - ${
-      //     proposal.account.name
-      //   }`
-      // )
-
-      if (
-        // proposal is cancelled
-        proposal.account.state === ProposalState.Cancelled
-      ) {
-        countCancelled++
-        continue
-      }
-
-      if (
-        // voting is closed
-        proposal.account.votingCompletedAt
-      ) {
-        if (
-          nowInSeconds - proposal.account.votingCompletedAt.toNumber() <=
-          fiveMinutesSeconds + toleranceSeconds
-        ) {
-          const votingTokenDecimals = 6
-          const yesVotes = fmtTokenAmount(
-            proposal.account.getYesVoteCount(),
-            votingTokenDecimals,
-          )
-          const noVotes = fmtTokenAmount(
-            proposal.account.getNoVoteCount(),
-            votingTokenDecimals,
-          )
-
-          const minVotesNeeded =
-            proposal.account.governance.toBase58() ===
-            '7D6tGmaMyC8i73Q8X2Fec2S1Zb5rkyai6pctdMqHpHWT'
-              ? 50000000
-              : 100000000
-          const quorumReached = yesVotes >= minVotesNeeded
-          const isSuccess = yesVotes > noVotes && quorumReached
-
-          const msg = `
-          Proposal Ended: ${proposal.account.name}
-          
-          Status: ${
-            isSuccess
-              ? 'Success'
-              : !quorumReached
-              ? 'Defeated - Quorum Not Reached'
-              : 'Defeated'
-          }
-          
-          🗳️ Voting Breakdown:
-          - Yes Votes: ${formatNumber(yesVotes, undefined, {
-            minimumFractionDigits: 0,
-          })}
-          - No Votes: ${formatNumber(noVotes, undefined, {
-            minimumFractionDigits: 0,
-          })}
-          
-          🔗 https://realms.today/dao/${escape(
-            REALM,
-          )}/proposal/${proposal.pubkey.toBase58()}`
-
-          console.log(msg)
-          if (process.env.WEBHOOK_URL) {
-            axios.post(process.env.WEBHOOK_URL, { content: msg })
-          }
-        }
-        countClosed++
-        continue
-      }
-
-      if (
-        // voting has not started yet
-        !proposal.account.votingAt
-      ) {
-        countVotingNotStartedYet++
-        continue
-      }
+  const events = detectProposalEvents(
+    snapshot,
+    nowInSeconds,
+    config.endingSoonSeconds,
+  ).filter(
+    (e) =>
+      e.timestamp <= nowInSeconds &&
+      nowInSeconds - e.timestamp <= config.maxEventAgeSeconds &&
+      (watch.events ?? NOTIFIER_EVENTS).includes(e.event),
+  )
 
-      if (
-        // proposal opened in last 5 mins
-        nowInSeconds - proposal.account.votingAt.toNumber() <=
-        fiveMinutesSeconds + toleranceSeconds
-        // proposal opened in last 24 hrs - useful to notify when bot recently stopped working
-        // and missed the 5 min window
-        // (nowInSeconds - proposal.info.votingAt.toNumber())/(60 * 60) <=
-        // 24
-      ) {
-        countJustOpenedForVoting++
-
-        const msg = `“${
-          proposal.account.name
-        }” proposal just opened for voting 🗳 https://realms.today/dao/${escape(
-          REALM,
-        )}/proposal/${proposal.pubkey.toBase58()}`
-
-        console.log(msg)
-        if (process.env.WEBHOOK_URL) {
-          axios.post(process.env.WEBHOOK_URL, { content: msg })
-        }
-      }
-      // note that these could also include those in finalizing state, but this is just for logging
-      else if (proposal.account.state === ProposalState.Voting) {
-        countOpenForVotingSinceSomeTime++
-
-        //// in case bot has an issue, uncomment, and run from local with webhook url set as env var
-        // const msg = `“${
-        //     proposal.account.name
-        // }” proposal just opened for voting 🗳 https://realms.today/dao/${escape(
-        //     REALM
-        // )}/proposal/${proposal.pubkey.toBase58()}`
-        //
-        // console.log(msg)
-        // if (process.env.WEBHOOK_URL) {
-        //   axios.post(process.env.WEBHOOK_URL, { content: msg })
-        // }
-      }
+  const sinks = config.sinks.filter(
+    (s) => !watch.sinks || watch.sinks.includes(s.name),
+  )
+  const cluster =
+    config.cluster === 'mainnet' ? '' : `?cluster=${config.cluster}`
+
+  let sent = 0
+  for (const { event, proposal, vars } of events) {
+    const proposalPk = proposal.pubkey.toBase58()
+    // without sinks the messages are only logged, tracked under a 'console' sink
+    const pending = state.pendingSinks(
+      proposalPk,
+      event,
+      sinks.length ? sinks.map((s) => s.name) : ['console'],
+    )
+    if (!pending.length) continue
+
+    const link = `${config.baseUrl}/dao/${escape(
+      symbol,
+    )}/proposal/${proposalPk}${cluster}`
+    const message = renderTemplate(
+      getTemplate(event, config.templates, watch.templates),
+      { ...vars, realm: symbol, link },
+    )
+    console.log(message)
+    if (!sinks.length) {
+      state.markDelivered(proposalPk, event, 'console')
+    }
 
-      const remainingInSeconds =
-        governancesMap[proposal.account.governance.toBase58()].account.config
-          .baseVotingTime +
-        proposal.account.votingAt.toNumber() -
-        nowInSeconds
-      if (
-        remainingInSeconds > 86400 &&
-        remainingInSeconds < 86400 + fiveMinutesSeconds + toleranceSeconds
-      ) {
-        const msg = `“${
-          proposal.account.name
-        }” proposal will close for voting 🗳 https://realms.today/dao/${escape(
-          REALM,
-        )}/proposal/${proposal.pubkey.toBase58()} in 24 hrs`
-
-        console.log(msg)
-        if (process.env.WEBHOOK_URL) {
-          axios.post(process.env.WEBHOOK_URL, { content: msg })
-        }
+    for (const sink of sinks.filter((s) => pending.includes(s.name))) {
+      try {
+        await postToSink(sink, {
+          event,
+          realm: realmPk.toBase58(),
+          proposal: proposalPk,
+          proposalName: proposal.account.name,
+          link,
+          message,
+        })
+        state.markDelivered(proposalPk, event, sink.name)
+        sent++
+      } catch (e) {
+        // left undelivered, so it is retried on the next run
+        console.error(`- failed to post ${event} to ${sink.name}`, e)
       }
     }
   }
   console.log(
-    `-- countOpenForVotingSinceSomeTime: ${countOpenForVotingSinceSomeTime}, countJustOpenedForVoting: ${countJustOpenedForVoting}, countVotingNotStartedYet: ${countVotingNotStartedYet}, countClosed: ${countClosed}, countCancelled: ${countCancelled}`,
+    `-- '${symbol}': ${snapshot.proposals.length} proposals, ${events.length} recent events, ${sent} notifications sent`,
   )
 }
 
-// start notifier immediately
-errorWrapper()
+async function runNotifier() {
+  for (const watch of config.realms) {
+    try {
+      await notifyRealm(watch)
+    } catch (e) {
+      console.error(`- failed to scan ${watch.realm}`, e)
+    }
+  }
+  state.save()
+}
+
+// the next run is scheduled once the previous one is done, overlapping runs would share the
+// state file and post the same events twice
+function scheduleNotifier() {
+  runNotifier()
+    .catch((error) => {
+      console.error(error)
+    })
+    .finally(() => {
+      setTimeout(scheduleNotifier, config.pollIntervalSeconds * 1000)
+    })
+}
 
-setInterval(errorWrapper, fiveMinutesSeconds * 1000)
+// start notifier immediately
+scheduleNotifier()
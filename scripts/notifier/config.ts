@@ -0,0 +1,187 @@
+import { readFileSync } from 'fs'
+import { EndpointTypes } from '@models/types'
+
+export type NotifierEvent =
+  | 'opened'
+  | 'endingSoon'
+  | 'succeeded'
+  | 'defeated'
+  | 'executed'
+  | 'executionFailed'
+
+export const NOTIFIER_EVENTS: NotifierEvent[] = [
+  'opened',
+  'endingSoon',
+  'succeeded',
+  'defeated',
+  'executed',
+  'executionFailed',
+]
+
+export type NotifierTemplates = Partial<Record<NotifierEvent, string>>
+
+export type SinkConfig =
+  | { type: 'discord'; name: string; webhookUrl: string }
+  | { type: 'slack'; name: string; webhookUrl: string }
+  | { type: 'telegram'; name: string; botToken: string; chatId: string }
+  | {
+      type: 'webhook'
+      name: string
+      url: string
+      headers?: Record<string, string>
+    }
+
+export interface RealmWatchConfig {
+  // realm symbol from the certified registry, or the realm address
+  realm: string
+  // required when the realm is not in the certified registry
+  programId?: string
+  // used in links and messages, defaults to the registry symbol or the address
+  symbol?: string
+  // names of the sinks to post to, defaults to all configured sinks
+  sinks?: string[]
+  // subset of events to post, defaults to all events
+  events?: NotifierEvent[]
+  templates?: NotifierTemplates
+}
+
+export interface NotifierConfig {
+  cluster: EndpointTypes
+  rpcUrl: string
+  pollIntervalSeconds: number
+  // how long before voting ends the endingSoon event fires
+  endingSoonSeconds: number
+  // events older than this are never posted, so a fresh state file doesn't replay history
+  maxEventAgeSeconds: number
+  stateFile: string
+  baseUrl: string
+  realms: RealmWatchConfig[]
+  sinks: SinkConfig[]
+  templates: NotifierTemplates
+}
+
+const DEFAULTS = {
+  cluster: 'mainnet' as EndpointTypes,
+  pollIntervalSeconds: 5 * 60,
+  endingSoonSeconds: 24 * 60 * 60,
+  maxEventAgeSeconds: 24 * 60 * 60,
+  stateFile: '.notifier-state.json',
+  baseUrl: 'https://realms.today',
+}
+
+// Values of the form "$NAME" are read from the environment, so secrets like bot tokens
+// and webhook urls don't have to live in the config file
+const resolveEnv = <T>(value: T): T => {
+  if (typeof value === 'string' && value.startsWith('$')) {
+    const resolved = process.env[value.slice(1)]
+    if (resolved === undefined) {
+      throw new Error(`Environment variable ${value.slice(1)} is not set`)
+    }
+    return resolved as unknown as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(resolveEnv) as unknown as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, resolveEnv(v)]),
+    ) as T
+  }
+  return value
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const validateSink = (sink: SinkConfig) => {
+  const { type } = sink
+  if (!sink.name) {
+    throw new Error(`Sink of type ${sink.type} is missing a name`)
+  }
+  switch (sink.type) {
+    case 'discord':
+    case 'slack':
+      if (!sink.webhookUrl)
+        throw new Error(`Sink ${sink.name} is missing webhookUrl`)
+      return
+    case 'telegram':
+      if (!sink.botToken || !sink.chatId)
+        throw new Error(`Sink ${sink.name} needs botToken and chatId`)
+      return
+    case 'webhook':
+      if (!sink.url) throw new Error(`Sink ${sink.name} is missing url`)
+      return
+    default:
+      throw new Error(`Unknown sink type ${type}`)
+  }
+}
+
+export function parseNotifierConfig(raw: unknown): NotifierConfig {
+  const resolvedRaw = resolveEnv(raw ?? {})
+  if (!isRecord(resolvedRaw)) {
+    throw new Error('Notifier config must be an object')
+  }
+  // the fields below are checked before they are used
+  const resolved = resolvedRaw as Partial<NotifierConfig>
+  const rpcUrl = resolved.rpcUrl ?? process.env.CLUSTER_URL
+  if (!rpcUrl) {
+    throw new Error('Please set rpcUrl in the config or CLUSTER_URL env')
+  }
+  const realms = resolved.realms ?? []
+  if (!Array.isArray(realms) || !realms.length) {
+    throw new Error('Notifier config has no realms to watch')
+  }
+  const sinks = resolved.sinks ?? []
+  if (!Array.isArray(sinks) || !sinks.every(isRecord)) {
+    throw new Error('Notifier sinks must be a list of objects')
+  }
+  sinks.forEach(validateSink)
+
+  const sinkNames = new Set(sinks.map((s) => s.name))
+  if (sinkNames.size !== sinks.length) {
+    throw new Error('Sink names must be unique')
+  }
+  for (const realm of realms) {
+    const unknownSink = realm.sinks?.find((s) => !sinkNames.has(s))
+    if (unknownSink) {
+      throw new Error(
+        `Realm ${realm.realm} references unknown sink ${unknownSink}`,
+      )
+    }
+    const unknownEvent = realm.events?.find((e) => !NOTIFIER_EVENTS.includes(e))
+    if (unknownEvent) {
+      throw new Error(
+        `Realm ${realm.realm} references unknown event ${unknownEvent}`,
+      )
+    }
+  }
+
+  return {
+    ...DEFAULTS,
+    ...resolved,
+    rpcUrl,
+    realms,
+    sinks,
+    templates: resolved.templates ?? {},
+  }
+}
+
+export function loadNotifierConfig(path: string) {
+  return parseNotifierConfig(JSON.parse(readFileSync(path, 'utf-8')))
+}
+
+// Keeps the old single realm setup working: REALM (defaults to MNGO) posted to WEBHOOK_URL as discord messages
+export function getLegacyEnvConfig() {
+  return parseNotifierConfig({
+    realms: [{ realm: process.env.REALM || 'MNGO' }],
+    sinks: process.env.WEBHOOK_URL
+      ? [
+          {
+            type: 'discord',
+            name: 'default',
+            webhookUrl: process.env.WEBHOOK_URL,
+          },
+        ]
+      : [],
+  })
+}
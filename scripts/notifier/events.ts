@@ -0,0 +1,186 @@
+import {
+  Governance,
+  ProgramAccount,
+  Proposal,
+  ProposalState,
+  Realm,
+  VoteType,
+} from '@solana/spl-governance'
+import { MintInfo } from '@solana/spl-token'
+import BN from 'bn.js'
+import { BigNumber } from 'bignumber.js'
+import { getProposalMaxVoteWeight } from '@models/voteWeights'
+import { fmtBnMintDecimals } from '@tools/sdk/units'
+import { NotifierEvent } from './config'
+import { TemplateVariables } from './templates'
+
+export interface RealmSnapshot {
+  realm: ProgramAccount<Realm>
+  governances: Record<string, ProgramAccount<Governance>>
+  proposals: ProgramAccount<Proposal>[]
+  mints: Record<string, MintInfo>
+}
+
+export interface DetectedEvent {
+  event: NotifierEvent
+  proposal: ProgramAccount<Proposal>
+  // unix seconds at which the event happened
+  timestamp: number
+  vars: TemplateVariables
+}
+
+const fmtDuration = (seconds: number) => {
+  const hours = Math.round(seconds / 3600)
+  return hours >= 48 ? `${Math.round(hours / 24)} days` : `${hours} hrs`
+}
+
+const getVotingEndsAt = (proposal: Proposal, governance: Governance) =>
+  proposal.votingAt!.toNumber() +
+  governance.config.baseVotingTime +
+  governance.config.votingCoolOffTime
+
+const getVoteThresholdPct = (
+  realm: Realm,
+  proposal: Proposal,
+  governance: Governance,
+) => {
+  const isCouncilVote =
+    realm.config.councilMint?.equals(proposal.governingTokenMint) ?? false
+  const threshold = isCouncilVote
+    ? governance.config.councilVoteThreshold
+    : governance.config.communityVoteThreshold
+  return threshold?.value ?? 0
+}
+
+/**
+ * Computes the outcome of a single choice proposal from its vote counts and the governance threshold,
+ * used while the voting time has ended but nobody has finalized the vote on chain yet.
+ * Plugin realms with a max voter weight record can differ from this, their final state comes from chain.
+ */
+const getExpectedOutcome = (
+  proposal: Proposal,
+  maxVoteWeight: BN,
+  thresholdPct: number,
+) => {
+  const minYesVotes = new BN(
+    new BigNumber(maxVoteWeight.toString())
+      .multipliedBy(thresholdPct)
+      .dividedBy(100)
+      .integerValue(BigNumber.ROUND_CEIL)
+      .toString(),
+  )
+  const yes = proposal.getYesVoteCount()
+  const no = proposal.getNoVoteCount()
+  const quorumReached = yes.gte(minYesVotes) && !yes.isZero()
+  return { minYesVotes, quorumReached, isSuccess: quorumReached && yes.gt(no) }
+}
+
+const hasTransactions = (proposal: Proposal) =>
+  !!proposal.instructionsCount ||
+  !!proposal.options?.some((option) => option.instructionsCount)
+
+export function detectProposalEvents(
+  snapshot: RealmSnapshot,
+  nowInSeconds: number,
+  endingSoonSeconds: number,
+): DetectedEvent[] {
+  const events: DetectedEvent[] = []
+
+  for (const proposal of snapshot.proposals) {
+    const { account } = proposal
+    const governance =
+      snapshot.governances[account.governance.toBase58()]?.account
+    const mint = snapshot.mints[account.governingTokenMint.toBase58()]
+    if (
+      !governance ||
+      !mint ||
+      !account.votingAt ||
+      account.state === ProposalState.Cancelled
+    ) {
+      continue
+    }
+
+    const thresholdPct = getVoteThresholdPct(
+      snapshot.realm.account,
+      account,
+      governance,
+    )
+    const maxVoteWeight = getProposalMaxVoteWeight(
+      snapshot.realm.account,
+      account,
+      mint,
+    )
+    const { minYesVotes, quorumReached, isSuccess } = getExpectedOutcome(
+      account,
+      maxVoteWeight,
+      thresholdPct,
+    )
+    const isSingleChoice = account.voteType === VoteType.SINGLE_CHOICE
+    const votingEndsAt = getVotingEndsAt(account, governance)
+    const vars: TemplateVariables = {
+      name: account.name,
+      proposal: proposal.pubkey.toBase58(),
+      governance: account.governance.toBase58(),
+      yesVotes: isSingleChoice
+        ? fmtBnMintDecimals(account.getYesVoteCount(), mint.decimals)
+        : '-',
+      noVotes: fmtBnMintDecimals(account.getNoVoteCount(), mint.decimals),
+      minYesVotes: fmtBnMintDecimals(minYesVotes, mint.decimals),
+      threshold: thresholdPct,
+      endsIn: fmtDuration(Math.max(votingEndsAt - nowInSeconds, 0)),
+    }
+    const push = (event: NotifierEvent, timestamp: number, status = '') =>
+      events.push({ event, proposal, timestamp, vars: { ...vars, status } })
+
+    push('opened', account.votingAt.toNumber())
+
+    if (account.state === ProposalState.Voting) {
+      if (votingEndsAt > nowInSeconds) {
+        if (votingEndsAt - nowInSeconds <= endingSoonSeconds) {
+          push('endingSoon', votingEndsAt - endingSoonSeconds)
+        }
+      } else if (isSingleChoice) {
+        // voting time is over but the vote hasn't been finalized yet
+        if (isSuccess) {
+          push('succeeded', votingEndsAt, 'Success')
+        } else {
+          push(
+            'defeated',
+            votingEndsAt,
+            quorumReached ? 'Defeated' : 'Defeated - Quorum Not Reached',
+          )
+        }
+      }
+      continue
+    }
+
+    const completedAt = account.votingCompletedAt?.toNumber() ?? votingEndsAt
+    switch (account.state) {
+      case ProposalState.Succeeded:
+      case ProposalState.Executing:
+      case ProposalState.Completed:
+      case ProposalState.ExecutingWithErrors:
+        push('succeeded', completedAt, 'Success')
+        break
+      case ProposalState.Defeated:
+        push(
+          'defeated',
+          completedAt,
+          quorumReached ? 'Defeated' : 'Defeated - Quorum Not Reached',
+        )
+        break
+      case ProposalState.Vetoed:
+        push('defeated', completedAt, 'Vetoed')
+        break
+    }
+
+    if (account.state === ProposalState.Completed && hasTransactions(account)) {
+      push('executed', account.closedAt?.toNumber() ?? completedAt)
+    }
+    if (account.state === ProposalState.ExecutingWithErrors) {
+      push('executionFailed', account.executingAt?.toNumber() ?? completedAt)
+    }
+  }
+
+  return events
+}
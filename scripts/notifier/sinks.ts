@@ -0,0 +1,34 @@
+import axios from 'axios'
+import { NotifierEvent, SinkConfig } from './config'
+
+export interface NotificationPayload {
+  event: NotifierEvent
+  realm: string
+  proposal: string
+  proposalName: string
+  link: string
+  message: string
+}
+
+export async function postToSink(
+  sink: SinkConfig,
+  payload: NotificationPayload,
+) {
+  switch (sink.type) {
+    case 'discord':
+      return axios.post(sink.webhookUrl, { content: payload.message })
+    case 'slack':
+      return axios.post(sink.webhookUrl, { text: payload.message })
+    case 'telegram':
+      return axios.post(
+        `https://api.telegram.org/bot${sink.botToken}/sendMessage`,
+        {
+          chat_id: sink.chatId,
+          text: payload.message,
+          disable_web_page_preview: true,
+        },
+      )
+    case 'webhook':
+      return axios.post(sink.url, payload, { headers: sink.headers })
+  }
+}
@@ -0,0 +1,50 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { NotifierEvent } from './config'
+
+interface NotifierStateFile {
+  version: 1
+  // `${proposalPk}:${event}` -> names of the sinks that already received it
+  delivered: Record<string, string[]>
+}
+
+const eventKey = (proposal: string, event: NotifierEvent) =>
+  `${proposal}:${event}`
+
+export class NotifierState {
+  private delivered: Record<string, string[]>
+
+  constructor(private readonly path: string) {
+    this.delivered = NotifierState.read(path).delivered
+  }
+
+  private static read(path: string): NotifierStateFile {
+    if (!existsSync(path)) {
+      return { version: 1, delivered: {} }
+    }
+    try {
+      const parsed = JSON.parse(readFileSync(path, 'utf-8'))
+      return { version: 1, delivered: parsed.delivered ?? {} }
+    } catch (e) {
+      console.error(`- could not read notifier state ${path}, starting fresh`)
+      return { version: 1, delivered: {} }
+    }
+  }
+
+  pendingSinks(proposal: string, event: NotifierEvent, sinks: string[]) {
+    const delivered = this.delivered[eventKey(proposal, event)] ?? []
+    return sinks.filter((s) => !delivered.includes(s))
+  }
+
+  markDelivered(proposal: string, event: NotifierEvent, sink: string) {
+    const key = eventKey(proposal, event)
+    this.delivered[key] = [...(this.delivered[key] ?? []), sink]
+  }
+
+  // write to a temp file first so a crash mid-write can't corrupt the state
+  save() {
+    const file: NotifierStateFile = { version: 1, delivered: this.delivered }
+    const tmp = `${this.path}.tmp`
+    writeFileSync(tmp, JSON.stringify(file, null, 2))
+    renameSync(tmp, this.path)
+  }
+}
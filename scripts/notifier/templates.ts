@@ -0,0 +1,49 @@
+import { NotifierEvent, NotifierTemplates } from './config'
+
+export const DEFAULT_TEMPLATES: Record<NotifierEvent, string> = {
+  opened: '“{{name}}” proposal just opened for voting 🗳 {{link}}',
+  endingSoon:
+    '“{{name}}” proposal will close for voting in {{endsIn}} 🗳 {{link}}',
+  succeeded: `Proposal Ended: {{name}}
+
+Status: Success
+
+🗳️ Voting Breakdown:
+- Yes Votes: {{yesVotes}}
+- No Votes: {{noVotes}}
+- Yes Votes Required: {{minYesVotes}} ({{threshold}}%)
+
+🔗 {{link}}`,
+  defeated: `Proposal Ended: {{name}}
+
+Status: {{status}}
+
+🗳️ Voting Breakdown:
+- Yes Votes: {{yesVotes}}
+- No Votes: {{noVotes}}
+- Yes Votes Required: {{minYesVotes}} ({{threshold}}%)
+
+🔗 {{link}}`,
+  executed: '“{{name}}” proposal was executed ✅ {{link}}',
+  executionFailed:
+    '“{{name}}” proposal failed to execute one or more transactions ⚠️ {{link}}',
+}
+
+export type TemplateVariables = Record<string, string | number>
+
+export function renderTemplate(template: string, vars: TemplateVariables) {
+  return template.replace(/{{\s*(\w+)\s*}}/g, (match, key) =>
+    key in vars ? String(vars[key]) : match,
+  )
+}
+
+// realm templates override the global ones, which override the defaults
+export function getTemplate(
+  event: NotifierEvent,
+  ...overrides: (NotifierTemplates | undefined)[]
+) {
+  return overrides.reduce<string>(
+    (template, o) => o?.[event] ?? template,
+    DEFAULT_TEMPLATES[event],
+  )
+}
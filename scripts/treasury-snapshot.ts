@@ -0,0 +1,150 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import {
+  getAllGovernances,
+  getNativeTreasuryAddress,
+} from '@solana/spl-governance'
+import BigNumber from 'bignumber.js'
+import { getCertifiedRealmInfo } from '@models/registry/api'
+import { EndpointTypes } from '@models/types'
+import { SnapshotBalance, TreasurySnapshot } from '@models/treasury/Snapshot'
+import { TreasurySnapshotStore } from '@models/treasury/SnapshotStore'
+import { WSOL_MINT } from '@components/instructions/tools'
+import { tryParseKey } from '@tools/validators/pubkey'
+import { getConnectionContext } from 'utils/connection'
+import { chunks } from '@utils/helpers'
+import tokenPriceService from '@utils/services/tokenPrice'
+import { getOwnedTokenAccounts, tryGetMint } from '@utils/tokens'
+
+// Usage: SNAPSHOT_REALMS=MNGO,<realm>:<programId> yarn treasury-snapshot
+// runs once, e.g. from cron, unless SNAPSHOT_INTERVAL_HOURS is set. The store defaults to
+// .treasury-snapshots.json, set TREASURY_SNAPSHOT_STORE to share it with the treasurySnapshots api.
+// Set SNAPSHOT_SOURCE=manual to record a one off run as manual rather than scheduled
+const cluster = (process.env.CLUSTER ?? 'mainnet') as EndpointTypes
+const connection = new Connection(
+  process.env.RPC_URL ?? getConnectionContext(cluster).endpoint,
+  'recent',
+)
+const realms = (process.env.SNAPSHOT_REALMS ?? '')
+  .split(',')
+  .map((x) => x.trim())
+  .filter(Boolean)
+const intervalHours = Number(process.env.SNAPSHOT_INTERVAL_HOURS ?? 0)
+const source = process.env.SNAPSHOT_SOURCE ?? 'scheduled'
+
+function resolveRealm(realm: string) {
+  const [symbolOrAddress, programIdStr] = realm.split(':')
+  const realmInfo = getCertifiedRealmInfo(
+    symbolOrAddress,
+    getConnectionContext(cluster),
+  )
+  if (realmInfo) {
+    return { realmPk: realmInfo.realmId, programId: realmInfo.programId }
+  }
+
+  const realmPk = tryParseKey(symbolOrAddress)
+  const programId = programIdStr && tryParseKey(programIdStr)
+  if (!realmPk || !programId) {
+    throw new Error(
+      `Realm ${symbolOrAddress} is not certified, use <realm>:<programId>`,
+    )
+  }
+  return { realmPk, programId }
+}
+
+async function fetchBalances(realmPk: PublicKey, programId: PublicKey) {
+  const governances = await getAllGovernances(connection, programId, realmPk)
+  const balances: (Omit<SnapshotBalance, 'amount' | 'price'> & {
+    natural: BigNumber
+  })[] = []
+
+  for (const governance of governances) {
+    const treasury = await getNativeTreasuryAddress(
+      programId,
+      governance.pubkey,
+    )
+    const lamports = await connection.getBalance(treasury)
+    if (lamports > 0) {
+      balances.push({
+        governance: governance.pubkey.toBase58(),
+        wallet: treasury.toBase58(),
+        mint: WSOL_MINT,
+        symbol: 'SOL',
+        natural: new BigNumber(lamports),
+      })
+    }
+
+    for (const owner of [governance.pubkey, treasury]) {
+      const tokenAccounts = await getOwnedTokenAccounts(connection, owner)
+      for (const tokenAccount of tokenAccounts.filter(
+        (x) => !x.account.amount.isZero(),
+      )) {
+        balances.push({
+          governance: governance.pubkey.toBase58(),
+          wallet: tokenAccount.publicKey.toBase58(),
+          mint: tokenAccount.account.mint.toBase58(),
+          natural: new BigNumber(tokenAccount.account.amount.toString()),
+        })
+      }
+    }
+  }
+
+  const mints = [...new Set(balances.map((x) => x.mint))]
+  for (const chunk of chunks(mints, 50)) {
+    await tokenPriceService.fetchTokenPrices(chunk)
+  }
+  const decimals: Record<string, number> = {}
+  for (const mint of mints) {
+    const mintInfo = await tryGetMint(connection, new PublicKey(mint))
+    decimals[mint] = mintInfo?.account.decimals ?? 0
+  }
+
+  return balances.map(
+    ({ natural, ...balance }): SnapshotBalance => ({
+      ...balance,
+      symbol:
+        balance.symbol ?? tokenPriceService.getTokenInfo(balance.mint)?.symbol,
+      amount: natural.shiftedBy(-decimals[balance.mint]).toFixed(),
+      price: tokenPriceService.getUSDTokenPrice(balance.mint) || null,
+    }),
+  )
+}
+
+async function runSnapshots() {
+  const store = new TreasurySnapshotStore()
+  const takenAt = Math.floor(Date.now() / 1000)
+  for (const realm of realms) {
+    try {
+      const { realmPk, programId } = resolveRealm(realm)
+      const snapshot: TreasurySnapshot = {
+        realm: realmPk.toBase58(),
+        takenAt,
+        source: source as TreasurySnapshot['source'],
+        balances: await fetchBalances(realmPk, programId),
+      }
+      store.add(snapshot)
+      console.log(`- '${realm}': ${snapshot.balances.length} balances recorded`)
+    } catch (e) {
+      console.error(`- failed to snapshot ${realm}`, e)
+    }
+  }
+  store.save()
+}
+
+function errorWrapper() {
+  runSnapshots().catch((error) => {
+    console.error(error)
+  })
+}
+
+if (!realms.length) {
+  throw new Error('SNAPSHOT_REALMS is not set')
+}
+if (source !== 'manual' && source !== 'scheduled') {
+  throw new Error(`SNAPSHOT_SOURCE must be manual or scheduled, got ${source}`)
+}
+
+errorWrapper()
+
+if (intervalHours > 0) {
+  setInterval(errorWrapper, intervalHours * 60 * 60 * 1000)
+}
@@ -0,0 +1,53 @@
+import create, { State } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { OfflineTransactionBundle } from '@utils/offlineSigning'
+
+interface OfflineSigningStore extends State {
+  // air gapped signer used instead of the connected wallet, undefined when disabled
+  signer?: string
+  // durable nonce accounts, one is consumed per exported transaction
+  nonceAccounts: string[]
+  // transactions waiting to be exported, not persisted
+  bundle: OfflineTransactionBundle | null
+  setSigner: (signer: string | undefined) => void
+  setNonceAccounts: (nonceAccounts: string[]) => void
+  addToBundle: (bundle: OfflineTransactionBundle) => void
+  clearBundle: () => void
+}
+
+const useOfflineSigningStore = create<OfflineSigningStore>(
+  persist(
+    (set, get) => ({
+      signer: undefined,
+      nonceAccounts: [],
+      bundle: null,
+      setSigner: (signer) => set({ signer }),
+      setNonceAccounts: (nonceAccounts) => set({ nonceAccounts }),
+      addToBundle: (bundle) => {
+        const current = get().bundle
+        set({
+          bundle: current
+            ? {
+                ...current,
+                nonceAccounts: [
+                  ...current.nonceAccounts,
+                  ...bundle.nonceAccounts,
+                ],
+                transactions: [...current.transactions, ...bundle.transactions],
+              }
+            : bundle,
+        })
+      },
+      clearBundle: () => set({ bundle: null }),
+    }),
+    {
+      name: 'offlineSigning',
+      partialize: (state) => ({
+        signer: state.signer,
+        nonceAccounts: state.nonceAccounts,
+      }),
+    },
+  ),
+)
+
+export default useOfflineSigningStore
@@ -0,0 +1,74 @@
+import create, { State } from 'zustand'
+import { persist } from 'zustand/middleware'
+import {
+  migrateProposalTemplate,
+  ProposalTemplate,
+} from '@utils/proposalTemplates'
+
+interface ProposalTemplatesStore extends State {
+  // keyed by realm address
+  templates: Record<string, ProposalTemplate[]>
+  saveTemplate: (realm: string, template: ProposalTemplate) => void
+  removeTemplate: (realm: string, id: string) => void
+  importTemplates: (realm: string, templates: ProposalTemplate[]) => void
+}
+
+const useProposalTemplatesStore = create<ProposalTemplatesStore>(
+  persist(
+    (set, get) => ({
+      templates: {},
+      saveTemplate: (realm, template) =>
+        set({
+          templates: {
+            ...get().templates,
+            [realm]: [
+              ...(get().templates[realm] ?? []).filter(
+                (x) => x.id !== template.id,
+              ),
+              template,
+            ],
+          },
+        }),
+      removeTemplate: (realm, id) =>
+        set({
+          templates: {
+            ...get().templates,
+            [realm]: (get().templates[realm] ?? []).filter((x) => x.id !== id),
+          },
+        }),
+      importTemplates: (realm, templates) => {
+        const ids = templates.map((x) => x.id)
+        set({
+          templates: {
+            ...get().templates,
+            [realm]: [
+              ...(get().templates[realm] ?? []).filter(
+                (x) => !ids.includes(x.id),
+              ),
+              ...templates,
+            ],
+          },
+        })
+      },
+    }),
+    {
+      name: 'proposalTemplates',
+      version: 1,
+      // version 0 stored the instruction types by enum value
+      migrate: (persisted) => {
+        const { templates } = persisted as ProposalTemplatesStore
+        return {
+          ...persisted,
+          templates: Object.fromEntries(
+            Object.entries(templates ?? {}).map(([realm, x]) => [
+              realm,
+              x.map(migrateProposalTemplate),
+            ]),
+          ),
+        } as ProposalTemplatesStore
+      },
+    },
+  ),
+)
+
+export default useProposalTemplatesStore
@@ -0,0 +1,73 @@
+import create, { State } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { EndpointTypes } from '@models/types'
+
+export interface RpcEndpoint {
+  url: string
+  label: string
+  cluster: EndpointTypes
+}
+
+export interface EndpointHealth {
+  checkedAt: number
+  // latency of getSlot in ms
+  latency?: number
+  slot?: number
+  // slots behind the most advanced endpoint of the cluster
+  slotLag?: number
+  supportsGpa?: boolean
+  error?: string
+}
+
+interface RpcEndpointsStore extends State {
+  // endpoints added by the user, on top of the ones of the deployment
+  customEndpoints: RpcEndpoint[]
+  // keyed by cluster, the endpoint tried first while it is healthy
+  preferred: Partial<Record<EndpointTypes, string>>
+  // keyed by url, not persisted
+  health: Record<string, EndpointHealth>
+  addEndpoint: (endpoint: RpcEndpoint) => void
+  removeEndpoint: (url: string) => void
+  setPreferred: (cluster: EndpointTypes, url: string | undefined) => void
+  setHealth: (url: string, health: EndpointHealth) => void
+}
+
+const useRpcEndpointsStore = create<RpcEndpointsStore>(
+  persist(
+    (set, get) => ({
+      customEndpoints: [],
+      preferred: {},
+      health: {},
+      addEndpoint: (endpoint) =>
+        set({
+          customEndpoints: [
+            ...get().customEndpoints.filter((x) => x.url !== endpoint.url),
+            endpoint,
+          ],
+        }),
+      removeEndpoint: (url) => {
+        const endpoint = get().customEndpoints.find((x) => x.url === url)
+        set({
+          customEndpoints: get().customEndpoints.filter((x) => x.url !== url),
+          preferred:
+            endpoint && get().preferred[endpoint.cluster] === url
+              ? { ...get().preferred, [endpoint.cluster]: undefined }
+              : get().preferred,
+        })
+      },
+      setPreferred: (cluster, url) =>
+        set({ preferred: { ...get().preferred, [cluster]: url } }),
+      setHealth: (url, health) =>
+        set({ health: { ...get().health, [url]: health } }),
+    }),
+    {
+      name: 'rpcEndpoints',
+      partialize: (state) => ({
+        customEndpoints: state.customEndpoints,
+        preferred: state.preferred,
+      }),
+    },
+  ),
+)
+
+export default useRpcEndpointsStore
@@ -0,0 +1,49 @@
+import create, { State } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { TreasuryBudget } from '@models/treasury/Budget'
+
+interface TreasuryBudgetsStore extends State {
+  // keyed by realm address, then governance address
+  budgets: Record<string, Record<string, TreasuryBudget[]>>
+  setBudget: (realm: string, governance: string, budget: TreasuryBudget) => void
+  removeBudget: (realm: string, governance: string, mint: string) => void
+}
+
+const useTreasuryBudgetsStore = create<TreasuryBudgetsStore>(
+  persist(
+    (set, get) => {
+      const setGovernanceBudgets = (
+        realm: string,
+        governance: string,
+        update: (budgets: TreasuryBudget[]) => TreasuryBudget[],
+      ) =>
+        set({
+          budgets: {
+            ...get().budgets,
+            [realm]: {
+              ...get().budgets[realm],
+              [governance]: update(get().budgets[realm]?.[governance] ?? []),
+            },
+          },
+        })
+
+      return {
+        budgets: {},
+        setBudget: (realm, governance, budget) =>
+          setGovernanceBudgets(realm, governance, (budgets) => [
+            ...budgets.filter((x) => x.mint !== budget.mint),
+            budget,
+          ]),
+        removeBudget: (realm, governance, mint) =>
+          setGovernanceBudgets(realm, governance, (budgets) =>
+            budgets.filter((x) => x.mint !== mint),
+          ),
+      }
+    },
+    {
+      name: 'treasuryBudgets',
+    },
+  ),
+)
+
+export default useTreasuryBudgetsStore
@@ -0,0 +1,104 @@
+import { ProgramAccount, TokenOwnerRecord } from '@solana/spl-governance'
+import { Connection, Keypair, PublicKey } from '@solana/web3.js'
+import BN from 'bn.js'
+import { PluginName } from '@constants/plugins'
+import { diagnoseVoterWeight } from 'VoterWeightPlugins/lib/diagnoseVoterWeight'
+import { VoterWeightPluginInfo } from 'VoterWeightPlugins/lib/types'
+
+const connection = { getSlot: async () => 100 } as unknown as Connection
+
+const plugin = (
+  name: PluginName,
+  calculate: (weight: BN) => Promise<BN | null>,
+  record: { voterWeight: BN; voterWeightExpiry?: BN | null } | null,
+) => {
+  const voterWeightPk = Keypair.generate().publicKey
+  return {
+    voterWeightPk,
+    info: {
+      name,
+      programId: Keypair.generate().publicKey,
+      registrarPublicKey: Keypair.generate().publicKey,
+      client: {
+        calculateVoterWeight: (
+          _wallet: PublicKey,
+          _realm: PublicKey,
+          _mint: PublicKey,
+          weight: BN,
+        ) => calculate(weight),
+        getVoterWeightRecordPDA: async () => ({ voterWeightPk }),
+        getVoterWeightRecord: async () => record,
+      },
+    } as unknown as VoterWeightPluginInfo,
+  }
+}
+
+const diagnose = (plugins: VoterWeightPluginInfo[]) =>
+  diagnoseVoterWeight({
+    connection,
+    walletPublicKey: Keypair.generate().publicKey,
+    realmPublicKey: Keypair.generate().publicKey,
+    governanceMintPublicKey: Keypair.generate().publicKey,
+    plugins,
+    tokenOwnerRecord: {
+      account: { governingTokenDepositAmount: new BN(10) },
+    } as ProgramAccount<TokenOwnerRecord>,
+  })
+
+const toNumbers = (x: {
+  inputWeight: BN | null
+  outputWeight: BN | null
+  onChainWeight: BN | undefined
+}) => ({
+  input: x.inputWeight?.toNumber() ?? null,
+  output: x.outputWeight?.toNumber() ?? null,
+  onChain: x.onChainWeight?.toNumber(),
+})
+
+describe('diagnoseVoterWeight', () => {
+  test('chains the output of each plugin into the next one', async () => {
+    const doubling = plugin('gateway', async (weight) => weight.muln(2), {
+      voterWeight: new BN(20),
+      voterWeightExpiry: new BN(99),
+    })
+    const adding = plugin('QV', async (weight) => weight.addn(1), {
+      voterWeight: new BN(5),
+    })
+
+    const result = await diagnose([doubling.info, adding.info])
+
+    expect(result.currentSlot).toBe(100)
+    expect(result.calculatedWeight.value?.toNumber()).toBe(21)
+    expect(result.plugins.map(toNumbers)).toEqual([
+      { input: 10, output: 20, onChain: 20 },
+      { input: 20, output: 21, onChain: 5 },
+    ])
+    expect(result.plugins[0].voterWeightRecordPublicKey).toBe(
+      doubling.voterWeightPk,
+    )
+    expect(result.plugins[0].expirySlot?.toNumber()).toBe(99)
+    // the record exists but doesn't expose an expiry
+    expect(result.plugins[1].expirySlot).toBeUndefined()
+  })
+
+  test('stops at the first failing plugin and reports missing records', async () => {
+    const failing = plugin(
+      'gateway',
+      async () => {
+        throw new Error('no pass')
+      },
+      null,
+    )
+    const unreached = plugin('QV', async (weight) => weight, null)
+
+    const result = await diagnose([failing.info, unreached.info])
+
+    expect(result.plugins.map(toNumbers)).toEqual([
+      { input: 10, output: null, onChain: undefined },
+      { input: null, output: null, onChain: undefined },
+    ])
+    expect(result.plugins[0].error?.message).toBe('no pass')
+    expect(result.plugins[1].error).toBeNull()
+    expect(result.plugins[0].expirySlot).toBeUndefined()
+  })
+})
@@ -0,0 +1,201 @@
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import {
+  getTokenOwnerRecord,
+  getVoteRecordAddress,
+  ProgramAccount,
+  Proposal,
+  Realm,
+  Vote,
+  VoteChoice,
+  VoteKind,
+} from '@solana/spl-governance'
+import { fetchVoteRecordByPubkey } from '@hooks/queries/voteRecord'
+import { SequenceType } from '@utils/sendTransactions'
+import { VotingClient } from '@utils/uiTypes/VotePlugin'
+import {
+  createDelegatorVotes,
+  DelegatorVote,
+  delegatorVotesToTransactionInstructions,
+} from 'actions/castVote'
+
+const realm = {
+  pubkey: Keypair.generate().publicKey,
+  owner: Keypair.generate().publicKey,
+} as ProgramAccount<Realm>
+const proposal = {
+  pubkey: Keypair.generate().publicKey,
+  account: {
+    governance: Keypair.generate().publicKey,
+    tokenOwnerRecord: Keypair.generate().publicKey,
+    governingTokenMint: Keypair.generate().publicKey,
+  },
+} as ProgramAccount<Proposal>
+
+jest.mock('@solana/spl-governance', () => ({
+  ...jest.requireActual('@solana/spl-governance'),
+  getTokenOwnerRecord: jest.fn(),
+}))
+jest.mock('@hooks/queries/voteRecord', () => ({
+  fetchVoteRecordByPubkey: jest.fn(),
+}))
+jest.mock('@hooks/queries/realm', () => ({
+  fetchRealmByPubkey: async () => ({ found: true, result: realm }),
+}))
+jest.mock('@hooks/queries/proposal', () => ({
+  fetchProposalByPubkeyQuery: async () => ({ found: true, result: proposal }),
+}))
+jest.mock('@hooks/queries/useProgramVersionQuery', () => ({
+  fetchProgramVersion: async () => 3,
+}))
+
+// the instructions are told apart by their data
+const ix = (label: string) =>
+  new TransactionInstruction({
+    programId: PublicKey.default,
+    keys: [],
+    data: Buffer.from(label),
+  })
+const labels = (ixs: TransactionInstruction[]) =>
+  ixs.map((x) => x.data.toString())
+
+const delegatorVote = (
+  vote: string[],
+  tickets: string[] = [],
+  counting: string[] = [],
+): DelegatorVote => ({
+  tokenOwnerRecordPk: Keypair.generate().publicKey,
+  ticketIxs: tickets.map(ix),
+  countingIxs: counting.map(ix),
+  voteIxs: vote.map(ix),
+})
+
+describe('delegatorVotesToTransactionInstructions', () => {
+  test('groups the plain votes and sends the others in order after them', () => {
+    const transactions = delegatorVotesToTransactionInstructions([
+      delegatorVote(['a-update', 'a-vote']),
+      delegatorVote(
+        ['n-count-last', 'n-vote'],
+        ['n-ticket-1', 'n-ticket-2'],
+        ['n-count-1', 'n-count-2', 'n-count-3'],
+      ),
+      delegatorVote(['b-vote']),
+      delegatorVote(['h-update', 'h-vote'], [], ['h-count-1']),
+      delegatorVote(['c-vote']),
+    ])
+
+    expect(
+      transactions.map((x) => [
+        x.sequenceType,
+        labels(x.instructionsSet.map((x) => x.transactionInstruction)),
+      ]),
+    ).toEqual([
+      // two plain votes per transaction
+      [SequenceType.Parallel, ['a-update', 'a-vote', 'b-vote']],
+      [SequenceType.Parallel, ['c-vote']],
+      // one transaction per ticket, then the counting, then the vote
+      [SequenceType.Parallel, ['n-ticket-1']],
+      [SequenceType.Parallel, ['n-ticket-2']],
+      [SequenceType.Sequential, ['n-count-1', 'n-count-2']],
+      [SequenceType.Sequential, ['n-count-3']],
+      [SequenceType.Sequential, ['n-count-last', 'n-vote']],
+      [SequenceType.Sequential, ['h-count-1']],
+      [SequenceType.Sequential, ['h-update', 'h-vote']],
+    ])
+  })
+
+  test('returns no transaction without votes', () => {
+    expect(delegatorVotesToTransactionInstructions([])).toEqual([])
+  })
+})
+
+describe('createDelegatorVotes', () => {
+  const delegatePk = Keypair.generate().publicKey
+  const vote = new Vote({
+    voteType: VoteKind.Approve,
+    approveChoices: [new VoteChoice({ rank: 0, weightPercentage: 100 })],
+    deny: undefined,
+    veto: undefined,
+  })
+
+  const voted = Keypair.generate().publicKey
+  const missing = Keypair.generate().publicKey
+  const rejected = Keypair.generate().publicKey
+  const delegator = Keypair.generate().publicKey
+  const wallets = new Map(
+    [rejected, delegator].map((x) => [
+      x.toBase58(),
+      Keypair.generate().publicKey,
+    ]),
+  )
+  const rejectedWallet = wallets.get(rejected.toBase58())!
+
+  // a vanilla plugin which can't build the vote of one wallet
+  const votingPlugin = {
+    client: undefined,
+    for: (walletPk: PublicKey) => ({
+      client: undefined,
+      withCastPluginVote: async (ixs: TransactionInstruction[]) => {
+        if (walletPk.equals(rejectedWallet)) throw new Error('no voter weight')
+        ixs.push(ix('update-voter-weight'))
+        return undefined
+      },
+    }),
+  } as unknown as VotingClient
+
+  beforeEach(async () => {
+    const votedRecordPk = await getVoteRecordAddress(
+      realm.owner,
+      proposal.pubkey,
+      voted,
+    )
+    jest
+      .mocked(fetchVoteRecordByPubkey)
+      .mockImplementation(
+        async (_, pk) =>
+          ({ found: pk.equals(votedRecordPk) }) as Awaited<
+            ReturnType<typeof fetchVoteRecordByPubkey>
+          >,
+      )
+
+    jest.mocked(getTokenOwnerRecord).mockImplementation(async (_, pk) => {
+      const wallet = wallets.get(pk.toBase58())
+      if (!wallet) throw new Error('Unable to load token owner record')
+      return {
+        account: { governingTokenOwner: wallet },
+      } as Awaited<ReturnType<typeof getTokenOwnerRecord>>
+    })
+  })
+
+  test('collects the error of each delegator and builds the other votes', async () => {
+    const { votes, errors } = await createDelegatorVotes({
+      connection: {} as Connection,
+      realm,
+      proposal,
+      tokenOwnerRecords: [voted, missing, rejected, delegator],
+      delegatePk,
+      vote,
+      votingPlugin,
+    })
+
+    expect(votes.map((x) => x.tokenOwnerRecordPk)).toEqual([delegator])
+    expect(votes[0].ticketIxs).toEqual([])
+    expect(votes[0].countingIxs).toEqual([])
+    expect(votes[0].voteIxs[0].data.toString()).toBe('update-voter-weight')
+    expect(votes[0].voteIxs[1].programId).toEqual(realm.owner)
+
+    expect(
+      errors.map((x) => [x.tokenOwnerRecordPk, x.walletPk, `${x.error}`]),
+    ).toEqual(
+      expect.arrayContaining([
+        [missing, undefined, 'Error: Unable to load token owner record'],
+        [rejected, rejectedWallet, 'Error: no voter weight'],
+      ]),
+    )
+    expect(errors).toHaveLength(2)
+  })
+})
@@ -0,0 +1,167 @@
+import { Keypair, PublicKey } from '@solana/web3.js'
+import BN from 'bn.js'
+import {
+  attributeLogs,
+  getInstructionStatus,
+  mergeBalanceChanges,
+  SimulatedBalanceChange,
+} from 'actions/simulateProposal'
+
+const COMPUTE_BUDGET = 'ComputeBudget111111111111111111111111111111'
+const ATA = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL'
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'
+const SYSTEM = '11111111111111111111111111111111'
+
+// simulation of a treasury transaction creating an associated token account and sending two transfers to it
+const createAndTransferLogs = [
+  `Program ${COMPUTE_BUDGET} invoke [1]`,
+  `Program ${COMPUTE_BUDGET} success`,
+  `Program ${ATA} invoke [1]`,
+  'Program log: Create',
+  `Program ${TOKEN} invoke [2]`,
+  'Program log: Instruction: GetAccountDataSize',
+  `Program ${TOKEN} consumed 1595 of 1394331 compute units`,
+  `Program return: ${TOKEN} pQAAAAAAAAA=`,
+  `Program ${TOKEN} success`,
+  `Program ${SYSTEM} invoke [2]`,
+  `Program ${SYSTEM} success`,
+  'Program log: Initialize the associated token account',
+  `Program ${TOKEN} invoke [2]`,
+  'Program log: Instruction: InitializeImmutableOwner',
+  'Program log: Please upgrade to SPL Token 2022 for immutable owner support',
+  `Program ${TOKEN} consumed 1405 of 1387744 compute units`,
+  `Program ${TOKEN} success`,
+  `Program ${TOKEN} invoke [2]`,
+  'Program log: Instruction: InitializeAccount3',
+  `Program ${TOKEN} consumed 4188 of 1383862 compute units`,
+  `Program ${TOKEN} success`,
+  `Program ${ATA} consumed 20345 of 1399850 compute units`,
+  `Program ${ATA} success`,
+  `Program ${TOKEN} invoke [1]`,
+  'Program log: Instruction: Transfer',
+  `Program ${TOKEN} consumed 4644 of 1379505 compute units`,
+  `Program ${TOKEN} success`,
+  `Program ${TOKEN} invoke [1]`,
+  'Program log: Instruction: Transfer',
+  'Program log: Error: insufficient funds',
+  `Program ${TOKEN} consumed 4381 of 1374861 compute units`,
+  `Program ${TOKEN} failed: custom program error: 0x1`,
+]
+
+describe('attributeLogs', () => {
+  test('splits the logs by top level instruction', () => {
+    const attributed = attributeLogs(
+      createAndTransferLogs,
+      [ATA, TOKEN, TOKEN].map((x) => new PublicKey(x)),
+    )
+
+    // the compute budget instruction added by the simulation is left out
+    expect(attributed.map((x) => x.logs.length)).toEqual([21, 4, 5])
+    expect(attributed[0].logs[0]).toBe(`Program ${ATA} invoke [1]`)
+    expect(attributed[1].logs[0]).toBe(`Program ${TOKEN} invoke [1]`)
+    expect(attributed[2].logs).toContain(
+      'Program log: Error: insufficient funds',
+    )
+  })
+
+  test('reads the compute units of the top level invocations only', () => {
+    const attributed = attributeLogs(
+      createAndTransferLogs,
+      [ATA, TOKEN, TOKEN].map((x) => new PublicKey(x)),
+    )
+
+    expect(attributed.map((x) => x.unitsConsumed)).toEqual([20345, 4644, 4381])
+  })
+
+  test('leaves the instructions which did not run empty', () => {
+    const attributed = attributeLogs(
+      createAndTransferLogs.slice(0, 23),
+      [ATA, TOKEN].map((x) => new PublicKey(x)),
+    )
+
+    expect(attributed[1]).toEqual({ logs: [], unitsConsumed: undefined })
+  })
+})
+
+describe('getInstructionStatus', () => {
+  test('marks every instruction of a successful transaction', () => {
+    expect(getInstructionStatus(1, null)).toBe('success')
+  })
+
+  test('marks the failed instruction and skips the following ones', () => {
+    const err = { InstructionError: [2, { Custom: 1 }] }
+
+    expect([1, 2, 3].map((i) => getInstructionStatus(i, err))).toEqual([
+      'success',
+      'failed',
+      'skipped',
+    ])
+  })
+
+  test('skips every instruction when the transaction failed before running', () => {
+    expect(getInstructionStatus(1, 'AccountNotFound')).toBe('skipped')
+    expect(
+      getInstructionStatus(1, {
+        InsufficientFundsForRent: { account_index: 0 },
+      }),
+    ).toBe('skipped')
+  })
+})
+
+describe('mergeBalanceChanges', () => {
+  const wallet = Keypair.generate().publicKey
+  const tokenAccount = Keypair.generate().publicKey
+  const mint = Keypair.generate().publicKey
+
+  const change = (
+    address: PublicKey,
+    before: number,
+    after: number,
+    tokenMint?: PublicKey,
+  ): SimulatedBalanceChange => ({
+    address,
+    owner: wallet,
+    mint: tokenMint,
+    decimals: tokenMint ? 6 : 9,
+    before: new BN(before),
+    after: new BN(after),
+  })
+
+  test('adds up the changes of the transactions', () => {
+    const merged = mergeBalanceChanges([
+      change(wallet, 1000, 900),
+      change(tokenAccount, 50, 40, mint),
+      change(wallet, 1000, 800),
+      change(tokenAccount, 50, 45, mint),
+    ])
+
+    expect(
+      merged.map((x) => [
+        x.address.toBase58(),
+        x.before.toNumber(),
+        x.after.toNumber(),
+      ]),
+    ).toEqual([
+      [wallet.toBase58(), 1000, 700],
+      [tokenAccount.toBase58(), 50, 35],
+    ])
+  })
+
+  test('keeps the SOL and token balances of an account apart', () => {
+    const merged = mergeBalanceChanges([
+      change(tokenAccount, 2039280, 0),
+      change(tokenAccount, 50, 0, mint),
+    ])
+
+    expect(merged.map((x) => x.mint)).toEqual([undefined, mint])
+  })
+
+  test('drops the changes which cancel out', () => {
+    const merged = mergeBalanceChanges([
+      change(wallet, 1000, 900),
+      change(wallet, 1000, 1100),
+    ])
+
+    expect(merged).toEqual([])
+  })
+})
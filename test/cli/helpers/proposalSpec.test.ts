@@ -0,0 +1,69 @@
+import { parseProposalSpec } from 'cli/helpers/proposalSpec'
+
+const GOVERNANCE = '7zGXUAeUkY9pEGfApsY26amibvqsf2dmty1cbtxHdfaQ'
+
+const spec = {
+  realm: 'MNGO',
+  governance: GOVERNANCE,
+  name: 'Raise the quorum',
+}
+
+describe('parseProposalSpec', () => {
+  test('fills in the defaults', () => {
+    expect(parseProposalSpec(spec)).toEqual({
+      ...spec,
+      cluster: 'mainnet',
+      rpcUrl: undefined,
+      descriptionLink: '',
+      options: ['Approve'],
+      voteByCouncil: false,
+      draft: false,
+      instructions: [],
+    })
+  })
+
+  test('rejects specs without a realm, governance or name', () => {
+    expect(() => parseProposalSpec({ ...spec, governance: '' })).toThrow(
+      "Proposal spec is missing 'governance'",
+    )
+    expect(() => parseProposalSpec(undefined)).toThrow(
+      "Proposal spec is missing 'realm'",
+    )
+    expect(() => parseProposalSpec({ ...spec, options: [] })).toThrow(
+      'Proposal spec needs at least one option',
+    )
+  })
+
+  test('rejects unknown instruction types and missing fields', () => {
+    expect(() =>
+      parseProposalSpec({ ...spec, instructions: [{ type: 'burn' }] }),
+    ).toThrow("Instruction 1 has unknown type 'burn'")
+    expect(() =>
+      parseProposalSpec({
+        ...spec,
+        instructions: [
+          { type: 'base64', data: 'AA==' },
+          { type: 'tokenTransfer', mint: 'SOL' },
+        ],
+      }),
+    ).toThrow('Instruction 2 (tokenTransfer) is missing destination, amount')
+  })
+
+  test("only changes the config of the proposal's governance", () => {
+    const setConfig = (governance: string) => ({
+      ...spec,
+      instructions: [{ type: 'setGovernanceConfig', governance, config: {} }],
+    })
+
+    expect(parseProposalSpec(setConfig(GOVERNANCE)).instructions).toHaveLength(
+      1,
+    )
+    expect(() =>
+      parseProposalSpec(
+        setConfig('GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw'),
+      ),
+    ).toThrow(
+      "Instruction 1 (setGovernanceConfig) can only change the config of the proposal's governance",
+    )
+  })
+})
@@ -0,0 +1,69 @@
+import {
+  GovernanceConfig,
+  VoteThreshold,
+  VoteThresholdType,
+  VoteTipping,
+} from '@solana/spl-governance'
+import BN from 'bn.js'
+import { applyConfigChanges } from 'cli/helpers/specInstructions'
+
+const yesVoteThreshold = (value: number) =>
+  new VoteThreshold({ type: VoteThresholdType.YesVotePercentage, value })
+
+const current = new GovernanceConfig({
+  communityVoteThreshold: yesVoteThreshold(50),
+  minCommunityTokensToCreateProposal: new BN(1),
+  minInstructionHoldUpTime: 0,
+  baseVotingTime: 86400,
+  communityVoteTipping: VoteTipping.Strict,
+  minCouncilTokensToCreateProposal: new BN(1),
+  councilVoteThreshold: yesVoteThreshold(60),
+  councilVetoVoteThreshold: yesVoteThreshold(60),
+  communityVetoVoteThreshold: new VoteThreshold({
+    type: VoteThresholdType.Disabled,
+  }),
+  councilVoteTipping: VoteTipping.Early,
+  votingCoolOffTime: 3600,
+  depositExemptProposalCount: 10,
+})
+
+describe('applyConfigChanges', () => {
+  test('changes the listed fields and copies the others', () => {
+    const next = applyConfigChanges(
+      current,
+      {
+        communityYesVoteThresholdPct: 60,
+        communityVoteTipping: 'disabled',
+        baseVotingTimeSeconds: 259200,
+        votingCoolOffTimeSeconds: 0,
+      },
+      { community: 6, council: 0 },
+    )
+
+    expect(next).toEqual({
+      ...current,
+      communityVoteThreshold: yesVoteThreshold(60),
+      communityVoteTipping: VoteTipping.Disabled,
+      baseVotingTime: 259200,
+      votingCoolOffTime: 0,
+    })
+    // the current config is left as is
+    expect(current.baseVotingTime).toBe(86400)
+  })
+
+  test('reads the token amounts in the decimals of each mint', () => {
+    const next = applyConfigChanges(
+      current,
+      {
+        minCommunityTokensToCreateProposal: '1000.5',
+        minCouncilTokensToCreateProposal: '1',
+      },
+      { community: 6, council: 0 },
+    )
+
+    expect(next.minCommunityTokensToCreateProposal.toString()).toBe(
+      '1000500000',
+    )
+    expect(next.minCouncilTokensToCreateProposal.toString()).toBe('1')
+  })
+})
@@ -0,0 +1,71 @@
+import { renderToStaticMarkup } from 'react-dom/server'
+import { BorshInstructionCoder, Idl } from '@coral-xyz/anchor'
+import { Connection, Keypair, PublicKey } from '@solana/web3.js'
+import { getIdlInstructionDescriptor } from '@components/instructions/idlDecoder'
+import { VSR_PLUGIN_PKS } from '@constants/plugins'
+import { IDL as VSR_IDL } from 'VoteStakeRegistry/sdk/voter_stake_registry'
+
+// the idl is bundled, nothing is read from the connection
+const connection = {} as Connection
+const programId = new PublicKey(VSR_PLUGIN_PKS[0])
+
+const accounts = (count: number) =>
+  Array.from({ length: count }, () => ({
+    pubkey: Keypair.generate().publicKey,
+    isSigner: false,
+    isWritable: false,
+  }))
+
+const createRegistrar = new BorshInstructionCoder(VSR_IDL as Idl).encode(
+  'createRegistrar',
+  { registrarBump: 254 },
+)
+
+describe('getIdlInstructionDescriptor', () => {
+  test('labels the args and accounts of a known instruction', async () => {
+    const descriptor = await getIdlInstructionDescriptor(
+      connection,
+      programId,
+      createRegistrar,
+      accounts(8),
+    )
+
+    expect(descriptor?.name).toBe('voter_stake_registry: Create Registrar')
+    expect(descriptor?.accounts.map((x) => x.name)).toEqual([
+      'Registrar',
+      'Realm',
+      'Governance Program Id',
+      'Realm Governing Token Mint',
+      'Realm Authority',
+      'Payer',
+      'System Program',
+      'Rent',
+    ])
+    expect(renderToStaticMarkup(<>{descriptor?.dataUI}</>)).toContain(
+      'Registrar Bump (u8):</span> <span class="break-all">254',
+    )
+  })
+
+  test('returns undefined for an unknown discriminator', async () => {
+    const data = Buffer.concat([Buffer.alloc(8, 1), Buffer.from([1])])
+
+    await expect(
+      getIdlInstructionDescriptor(connection, programId, data, accounts(8)),
+    ).resolves.toBeUndefined()
+  })
+
+  test('labels the accounts present when some are missing', async () => {
+    const descriptor = await getIdlInstructionDescriptor(
+      connection,
+      programId,
+      createRegistrar,
+      accounts(2),
+    )
+
+    expect(descriptor?.name).toBe('voter_stake_registry: Create Registrar')
+    expect(descriptor?.accounts.map((x) => x.name)).toEqual([
+      'Registrar',
+      'Realm',
+    ])
+  })
+})
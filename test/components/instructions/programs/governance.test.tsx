@@ -0,0 +1,174 @@
+import { renderToStaticMarkup } from 'react-dom/server'
+import { Keypair, PublicKey, TransactionInstruction } from '@solana/web3.js'
+import {
+  deserializeBorsh,
+  getGovernanceInstructionSchema,
+  GoverningTokenConfigAccountArgs,
+  GoverningTokenType,
+  MintMaxVoteWeightSource,
+  PROGRAM_VERSION_V3,
+  SetRealmConfigArgs,
+  withSetRealmConfig,
+} from '@solana/spl-governance'
+import BN from 'bn.js'
+import ConfigDiff from '@components/instructions/ConfigDiff'
+import {
+  getProposedRealmConfig,
+  getRealmConfigFields,
+  RealmConfigFields,
+} from '@components/instructions/programs/governance'
+
+const programId = new PublicKey('GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw')
+const realm = Keypair.generate().publicKey
+const realmAuthority = Keypair.generate().publicKey
+const councilMint = Keypair.generate().publicKey
+const voterWeightAddin = Keypair.generate().publicKey
+const maxVoterWeightAddin = Keypair.generate().publicKey
+const councilVoterWeightAddin = Keypair.generate().publicKey
+
+const tokenConfig = (
+  tokenType: GoverningTokenType,
+  voterWeight?: PublicKey,
+  maxVoterWeight?: PublicKey,
+) =>
+  new GoverningTokenConfigAccountArgs({
+    voterWeightAddin: voterWeight,
+    maxVoterWeightAddin: maxVoterWeight,
+    tokenType,
+  })
+
+// the config proposed by a SetRealmConfig instruction, decoded as the instruction card does
+const proposeRealmConfig = async (
+  council: PublicKey | undefined,
+  communityTokenConfig: GoverningTokenConfigAccountArgs,
+  councilTokenConfig: GoverningTokenConfigAccountArgs,
+) => {
+  const instructions: TransactionInstruction[] = []
+  await withSetRealmConfig(
+    instructions,
+    programId,
+    PROGRAM_VERSION_V3,
+    realm,
+    realmAuthority,
+    council,
+    MintMaxVoteWeightSource.FULL_SUPPLY_FRACTION,
+    new BN(1),
+    communityTokenConfig,
+    councilTokenConfig,
+    realmAuthority,
+  )
+  const [instruction] = instructions
+  const args = deserializeBorsh(
+    getGovernanceInstructionSchema(PROGRAM_VERSION_V3),
+    SetRealmConfigArgs,
+    instruction.data,
+  ) as SetRealmConfigArgs
+  return getProposedRealmConfig(args.configArgs, instruction.keys)
+}
+
+describe('getProposedRealmConfig', () => {
+  test('reads the plugins of a realm with a council', async () => {
+    const config = await proposeRealmConfig(
+      councilMint,
+      tokenConfig(
+        GoverningTokenType.Liquid,
+        voterWeightAddin,
+        maxVoterWeightAddin,
+      ),
+      tokenConfig(GoverningTokenType.Membership, councilVoterWeightAddin),
+    )
+
+    expect(config.councilMint).toEqual(councilMint)
+    expect(config.communityTokenConfig).toEqual({
+      voterWeightAddin,
+      maxVoterWeightAddin,
+      tokenType: GoverningTokenType.Liquid,
+    })
+    expect(config.councilTokenConfig).toEqual({
+      voterWeightAddin: councilVoterWeightAddin,
+      maxVoterWeightAddin: undefined,
+      tokenType: GoverningTokenType.Membership,
+    })
+  })
+
+  test('reads the plugins of a realm without a council', async () => {
+    const config = await proposeRealmConfig(
+      undefined,
+      tokenConfig(GoverningTokenType.Liquid, undefined, maxVoterWeightAddin),
+      tokenConfig(GoverningTokenType.Dormant, councilVoterWeightAddin),
+    )
+
+    expect(config.councilMint).toBeUndefined()
+    expect(config.communityTokenConfig).toEqual({
+      voterWeightAddin: undefined,
+      maxVoterWeightAddin,
+      tokenType: GoverningTokenType.Liquid,
+    })
+    expect(config.councilTokenConfig?.voterWeightAddin).toEqual(
+      councilVoterWeightAddin,
+    )
+  })
+})
+
+describe('ConfigDiff', () => {
+  const current: RealmConfigFields = {
+    minCommunityTokensToCreateGovernance: new BN(1),
+    communityMintMaxVoteWeightSource:
+      MintMaxVoteWeightSource.FULL_SUPPLY_FRACTION,
+    councilMint,
+    communityTokenConfig: tokenConfig(GoverningTokenType.Liquid),
+    councilTokenConfig: tokenConfig(GoverningTokenType.Membership),
+  }
+
+  const render = (proposed: RealmConfigFields) =>
+    renderToStaticMarkup(
+      <ConfigDiff
+        current={getRealmConfigFields(current, PROGRAM_VERSION_V3, undefined)}
+        proposed={getRealmConfigFields(proposed, PROGRAM_VERSION_V3, undefined)}
+      />,
+    )
+  // the highlighted values of the proposed config
+  const changedValues = (html: string) =>
+    [...html.matchAll(/font-bold text-orange">([^<]*)</g)].map((x) => x[1])
+
+  test('highlights the plugins added by the proposal', () => {
+    const html = render({
+      ...current,
+      communityTokenConfig: tokenConfig(
+        GoverningTokenType.Liquid,
+        voterWeightAddin,
+        maxVoterWeightAddin,
+      ),
+    })
+
+    expect(html).toContain('2 field(s) changed')
+    expect(changedValues(html)).toEqual([
+      voterWeightAddin.toBase58(),
+      maxVoterWeightAddin.toBase58(),
+    ])
+  })
+
+  test('highlights the removal of the council', () => {
+    const html = render({
+      ...current,
+      councilMint: undefined,
+      councilTokenConfig: undefined,
+    })
+
+    // the council token type defaults to liquid without a council config
+    expect(changedValues(html)).toEqual(['None', 'Liquid'])
+  })
+
+  test('reports an unchanged config', async () => {
+    const html = render(
+      await proposeRealmConfig(
+        councilMint,
+        tokenConfig(GoverningTokenType.Liquid),
+        tokenConfig(GoverningTokenType.Membership),
+      ),
+    )
+
+    expect(html).toContain('The proposed config matches the current config')
+    expect(changedValues(html)).toEqual([])
+  })
+})
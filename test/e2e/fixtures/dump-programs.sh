@@ -0,0 +1,14 @@
+#!/usr/bin/env bash
+# Dumps the programs loaded by the e2e validator from mainnet, see test/e2e/validator.ts
+# Usage: test/e2e/fixtures/dump-programs.sh [--plugins]
+set -euo pipefail
+
+cd "$(dirname "$0")"
+URL=${SOLANA_URL:-https://api.mainnet-beta.solana.com}
+
+solana program dump -u "$URL" GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw spl_governance.so
+
+if [[ "${1:-}" == "--plugins" ]]; then
+  solana program dump -u "$URL" vsr2nfGVNHmSY8uxoBGqq8AQbwz3JwaEaHqGbsTPXqQ voter_stake_registry.so
+  solana program dump -u "$URL" GnftV5kLjd67tvHpNGyodwWveEKivz3ZWvvE3Z4xi2iw nft_voter.so
+fi
@@ -0,0 +1,16 @@
+import { startTestValidator } from './validator'
+
+/**
+ * Starts the validator shared by the e2e suites. Set E2E_RPC_URL to run the suites against a
+ * validator you started yourself
+ */
+export default async function globalSetup() {
+  if (process.env.E2E_RPC_URL) {
+    return
+  }
+  const validator = await startTestValidator(
+    Number(process.env.E2E_RPC_PORT ?? 8899),
+  )
+  globalThis.__TEST_VALIDATOR__ = validator
+  process.env.E2E_RPC_URL = validator.rpcUrl
+}
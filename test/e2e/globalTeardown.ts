@@ -0,0 +1,8 @@
+import { stopTestValidator, TestValidator } from './validator'
+
+export default async function globalTeardown() {
+  const validator: TestValidator | undefined = globalThis.__TEST_VALIDATOR__
+  if (validator) {
+    await stopTestValidator(validator)
+  }
+}
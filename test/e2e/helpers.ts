@@ -0,0 +1,159 @@
+import NodeWallet from '@coral-xyz/anchor/dist/cjs/nodewallet'
+import {
+  getAllGovernances,
+  getRealm,
+  getTokenOwnerRecordForRealm,
+  GoverningTokenConfigAccountArgs,
+  GoverningTokenType,
+  ProgramAccount,
+  Realm,
+  RpcContext,
+  serializeInstructionToBase64,
+} from '@solana/spl-governance'
+import { Wallet } from '@solana/wallet-adapter-react'
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import createMultisigWallet from 'actions/createMultisigWallet'
+import { InstructionDataWithHoldUpTime } from 'actions/createProposal'
+import { fetchProgramVersion } from '@hooks/queries/useProgramVersionQuery'
+import { VotingClient } from '@utils/uiTypes/VotePlugin'
+import { UseRealmVoterWeightPluginsReturnType } from '@hooks/useRealmVoterWeightPlugins'
+import { GOVERNANCE_PROGRAM_ID } from './validator'
+
+export const governanceProgramId = new PublicKey(GOVERNANCE_PROGRAM_ID)
+
+export const getTestConnection = () => {
+  if (!process.env.E2E_RPC_URL) {
+    throw new Error('E2E_RPC_URL is not set, run the suites with yarn test:e2e')
+  }
+  return new Connection(process.env.E2E_RPC_URL, 'confirmed')
+}
+
+export const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms))
+
+export async function airdrop(
+  connection: Connection,
+  address: PublicKey,
+  sol: number,
+) {
+  const signature = await connection.requestAirdrop(
+    address,
+    sol * LAMPORTS_PER_SOL,
+  )
+  await connection.confirmTransaction(
+    { signature, ...(await connection.getLatestBlockhash()) },
+    'confirmed',
+  )
+}
+
+/** Keypair wallet standing in for the browser wallet the actions are called with */
+export async function createFundedWallet(connection: Connection, sol = 10) {
+  const wallet = new NodeWallet(Keypair.generate())
+  await airdrop(connection, wallet.publicKey, sol)
+  return wallet
+}
+
+/** The wallet adapter castVote only reads the name of */
+export const asWalletContext = (wallet: NodeWallet) =>
+  ({ adapter: { name: 'Keypair', publicKey: wallet.publicKey } }) as Wallet
+
+export async function getRpcContext(
+  connection: Connection,
+  wallet: NodeWallet,
+) {
+  const programVersion = await fetchProgramVersion(
+    connection,
+    governanceProgramId,
+  )
+  return new RpcContext(
+    governanceProgramId,
+    programVersion,
+    wallet,
+    connection,
+    connection.rpcEndpoint,
+  )
+}
+
+/** Voting client of a realm without voter weight plugins */
+export const getVanillaVotingClient = (
+  realm: ProgramAccount<Realm>,
+  walletPk: PublicKey,
+) =>
+  new VotingClient({
+    client: undefined,
+    realm,
+    walletPk,
+    voterWeightPluginDetails: {} as UseRealmVoterWeightPluginsReturnType,
+  })
+
+/**
+ * Creates a council only realm through the multisig wizard flow (tools/governance/prepareRealmCreation),
+ * the wallet is the only member unless more are given
+ */
+export async function createTestRealm(
+  connection: Connection,
+  wallet: NodeWallet,
+  {
+    members = [wallet.publicKey],
+    councilYesVotePercentage = 60,
+  }: { members?: PublicKey[]; councilYesVotePercentage?: number } = {},
+) {
+  const { realmPk, councilMintPk } = await createMultisigWallet({
+    connection,
+    wallet,
+    _programVersion: 3,
+    programIdAddress: GOVERNANCE_PROGRAM_ID,
+    realmName: `e2e ${Keypair.generate().publicKey.toBase58().slice(0, 8)}`,
+    tokensToGovernThreshold: undefined,
+    existingCommunityMintPk: undefined,
+    transferCommunityMintAuthority: true,
+    communityYesVotePercentage: 'disabled',
+    useSupplyFactor: true,
+    communityMintSupplyFactor: undefined,
+    communityAbsoluteMaxVoteWeight: undefined,
+    createCouncil: true,
+    existingCouncilMintPk: undefined,
+    transferCouncilMintAuthority: true,
+    councilWalletPks: members,
+    councilYesVotePercentage,
+    councilTokenConfig: new GoverningTokenConfigAccountArgs({
+      tokenType: GoverningTokenType.Membership,
+      voterWeightAddin: undefined,
+      maxVoterWeightAddin: undefined,
+    }),
+    communityTokenConfig: new GoverningTokenConfigAccountArgs({
+      tokenType: GoverningTokenType.Dormant,
+      voterWeightAddin: undefined,
+      maxVoterWeightAddin: undefined,
+    }),
+  })
+
+  const [realm, [governance], tokenOwnerRecord] = await Promise.all([
+    getRealm(connection, realmPk),
+    getAllGovernances(connection, governanceProgramId, realmPk),
+    getTokenOwnerRecordForRealm(
+      connection,
+      governanceProgramId,
+      realmPk,
+      councilMintPk,
+      wallet.publicKey,
+    ),
+  ])
+  return { realm, governance, tokenOwnerRecord, councilMintPk }
+}
+
+/** Proposal transaction data the way the new proposal form builds it */
+export const toProposalInstruction = (instruction: TransactionInstruction) =>
+  new InstructionDataWithHoldUpTime({
+    instruction: {
+      serializedInstruction: serializeInstructionToBase64(instruction),
+      isValid: true,
+      governance: undefined,
+    },
+  })
@@ -0,0 +1,247 @@
+import NodeWallet from '@coral-xyz/anchor/dist/cjs/nodewallet'
+import {
+  getGovernance,
+  getGovernanceAccount,
+  getNativeTreasuryAddress,
+  getProposal,
+  getProposalTransactionAddress,
+  getVoteRecordAddress,
+  Governance,
+  GovernanceConfig,
+  ProgramAccount,
+  ProposalState,
+  ProposalTransaction,
+  Realm,
+  RpcContext,
+  TokenOwnerRecord,
+  VoteKind,
+  VoteRecord,
+  VoteThreshold,
+  VoteThresholdType,
+  VoteTipping,
+  withCreateGovernance,
+} from '@solana/spl-governance'
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import BN from 'bn.js'
+import { castVote } from 'actions/castVote'
+import { createProposal } from 'actions/createProposal'
+import { executeTransaction } from 'actions/executeTransaction'
+import { finalizeVote } from 'actions/finalizeVotes'
+import { relinquishVote } from 'actions/relinquishVote'
+import { sendTransaction } from '@utils/send'
+import {
+  airdrop,
+  asWalletContext,
+  createFundedWallet,
+  createTestRealm,
+  getRpcContext,
+  getTestConnection,
+  getVanillaVotingClient,
+  sleep,
+  toProposalInstruction,
+} from './helpers'
+
+// seconds, long enough to vote and short enough to wait for the vote to end in the suite
+const SHORT_VOTING_TIME = 10
+
+describe('proposal lifecycle', () => {
+  let connection: Connection
+  let wallet: NodeWallet
+  let rpcContext: RpcContext
+  let realm: ProgramAccount<Realm>
+  let governance: ProgramAccount<Governance>
+  let tokenOwnerRecord: ProgramAccount<TokenOwnerRecord>
+  let councilMintPk: PublicKey
+
+  const submitProposal = async (
+    governancePk: PublicKey,
+    name: string,
+    instructions: ReturnType<typeof toProposalInstruction>[] = [],
+  ) => {
+    const { account } = await getGovernance(connection, governancePk)
+    const proposalPk = await createProposal(
+      rpcContext,
+      realm,
+      governancePk,
+      tokenOwnerRecord,
+      name,
+      '',
+      councilMintPk,
+      account.proposalCount,
+      instructions,
+      false,
+      ['Approve'],
+    )
+    return getProposal(connection, proposalPk)
+  }
+
+  const voteYes = async (proposalPk: PublicKey) =>
+    castVote(
+      rpcContext,
+      asWalletContext(wallet),
+      realm,
+      await getProposal(connection, proposalPk),
+      tokenOwnerRecord.pubkey,
+      VoteKind.Approve,
+      undefined,
+      getVanillaVotingClient(realm, wallet.publicKey),
+      null,
+      undefined,
+      undefined,
+      tokenOwnerRecord.account.governingTokenDepositAmount,
+    )
+
+  /** Governance without vote tipping, the vote stays open until the voting time is over */
+  const createUntippedGovernance = async (baseVotingTime: number) => {
+    const instructions: TransactionInstruction[] = []
+    const governancePk = await withCreateGovernance(
+      instructions,
+      rpcContext.programId,
+      rpcContext.programVersion,
+      realm.pubkey,
+      undefined,
+      new GovernanceConfig({
+        communityVoteThreshold: new VoteThreshold({
+          type: VoteThresholdType.Disabled,
+        }),
+        minCommunityTokensToCreateProposal: new BN(1),
+        minInstructionHoldUpTime: 0,
+        baseVotingTime,
+        communityVoteTipping: VoteTipping.Disabled,
+        minCouncilTokensToCreateProposal: new BN(1),
+        councilVoteThreshold: new VoteThreshold({
+          type: VoteThresholdType.YesVotePercentage,
+          value: 60,
+        }),
+        councilVetoVoteThreshold: new VoteThreshold({
+          type: VoteThresholdType.Disabled,
+        }),
+        communityVetoVoteThreshold: new VoteThreshold({
+          type: VoteThresholdType.Disabled,
+        }),
+        councilVoteTipping: VoteTipping.Disabled,
+        votingCoolOffTime: 0,
+        depositExemptProposalCount: 10,
+      }),
+      tokenOwnerRecord.pubkey,
+      wallet.publicKey,
+      wallet.publicKey,
+    )
+    await sendTransaction({
+      transaction: new Transaction().add(...instructions),
+      wallet,
+      connection,
+    })
+    return governancePk
+  }
+
+  beforeAll(async () => {
+    connection = getTestConnection()
+    wallet = await createFundedWallet(connection)
+    rpcContext = await getRpcContext(connection, wallet)
+    ;({ realm, governance, tokenOwnerRecord, councilMintPk } =
+      await createTestRealm(connection, wallet))
+  })
+
+  test('creates, votes on and executes a treasury transfer', async () => {
+    const treasury = await getNativeTreasuryAddress(
+      rpcContext.programId,
+      governance.pubkey,
+    )
+    await airdrop(connection, treasury, 2)
+    const recipient = Keypair.generate().publicKey
+
+    const proposal = await submitProposal(governance.pubkey, 'Transfer', [
+      toProposalInstruction(
+        SystemProgram.transfer({
+          fromPubkey: treasury,
+          toPubkey: recipient,
+          lamports: LAMPORTS_PER_SOL,
+        }),
+      ),
+    ])
+    expect(proposal.account.state).toBe(ProposalState.Voting)
+
+    // the only council member votes, strict vote tipping ends the vote right away
+    await voteYes(proposal.pubkey)
+    const succeeded = await getProposal(connection, proposal.pubkey)
+    expect(succeeded.account.state).toBe(ProposalState.Succeeded)
+
+    const proposalTransaction = await getGovernanceAccount(
+      connection,
+      await getProposalTransactionAddress(
+        rpcContext.programId,
+        rpcContext.programVersion,
+        proposal.pubkey,
+        0,
+        0,
+      ),
+      ProposalTransaction,
+    )
+    await executeTransaction(rpcContext, succeeded, proposalTransaction)
+
+    const completed = await getProposal(connection, proposal.pubkey)
+    expect(completed.account.state).toBe(ProposalState.Completed)
+    expect(await connection.getBalance(recipient)).toBe(LAMPORTS_PER_SOL)
+  })
+
+  test('finalizes the vote once the voting time is over', async () => {
+    const governancePk = await createUntippedGovernance(SHORT_VOTING_TIME)
+    const proposal = await submitProposal(governancePk, 'Finalize')
+    await voteYes(proposal.pubkey)
+    expect((await getProposal(connection, proposal.pubkey)).account.state).toBe(
+      ProposalState.Voting,
+    )
+
+    await sleep((SHORT_VOTING_TIME + 2) * 1000)
+    await finalizeVote(
+      rpcContext,
+      realm.pubkey,
+      await getProposal(connection, proposal.pubkey),
+      undefined,
+      tokenOwnerRecord,
+    )
+
+    const finalized = await getProposal(connection, proposal.pubkey)
+    expect(finalized.account.state).toBe(ProposalState.Succeeded)
+  })
+
+  test('relinquishes a vote while the proposal is voting', async () => {
+    const governancePk = await createUntippedGovernance(3600)
+    const proposal = await submitProposal(governancePk, 'Relinquish')
+    await voteYes(proposal.pubkey)
+
+    const voteRecordPk = await getVoteRecordAddress(
+      rpcContext.programId,
+      proposal.pubkey,
+      tokenOwnerRecord.pubkey,
+    )
+    expect(
+      (await getGovernanceAccount(connection, voteRecordPk, VoteRecord)).account
+        .isRelinquished,
+    ).toBe(false)
+
+    await relinquishVote(
+      rpcContext,
+      realm.pubkey,
+      await getProposal(connection, proposal.pubkey),
+      tokenOwnerRecord.pubkey,
+      voteRecordPk,
+      [],
+      getVanillaVotingClient(realm, wallet.publicKey),
+    )
+
+    // relinquishing during the vote withdraws it and closes the vote record
+    expect(await connection.getAccountInfo(voteRecordPk)).toBeNull()
+    const proposalAfter = await getProposal(connection, proposal.pubkey)
+    expect(proposalAfter.account.getYesVoteCount().toNumber()).toBe(0)
+  })
+})
@@ -0,0 +1,5 @@
+// the backup connections rebroadcast every transaction to mainnet, keep the suites on the local validator
+jest.mock('@utils/rpcEndpoints', () => ({
+  ...jest.requireActual('@utils/rpcEndpoints'),
+  getBackupConnections: () => [],
+}))
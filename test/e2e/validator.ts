@@ -0,0 +1,113 @@
+import { ChildProcess, spawn } from 'child_process'
+import { existsSync, mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Connection } from '@solana/web3.js'
+
+export const GOVERNANCE_PROGRAM_ID =
+  'GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw'
+
+const FIXTURES_DIR = join(__dirname, 'fixtures')
+
+// programs loaded into the validator, dumped from mainnet by fixtures/dump-programs.sh
+export const PROGRAM_FIXTURES = [
+  {
+    file: 'spl_governance.so',
+    programId: GOVERNANCE_PROGRAM_ID,
+    required: true,
+  },
+  {
+    file: 'voter_stake_registry.so',
+    programId: 'vsr2nfGVNHmSY8uxoBGqq8AQbwz3JwaEaHqGbsTPXqQ',
+    required: false,
+  },
+  {
+    file: 'nft_voter.so',
+    programId: 'GnftV5kLjd67tvHpNGyodwWveEKivz3ZWvvE3Z4xi2iw',
+    required: false,
+  },
+]
+
+const STARTUP_TIMEOUT = 60_000
+
+const waitForRpc = async (url: string) => {
+  const connection = new Connection(url, 'confirmed')
+  const startedAt = Date.now()
+  while (Date.now() - startedAt < STARTUP_TIMEOUT) {
+    try {
+      await connection.getLatestBlockhash()
+      return
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 500))
+    }
+  }
+  throw new Error(
+    `solana-test-validator did not start within ${STARTUP_TIMEOUT}ms`,
+  )
+}
+
+export interface TestValidator {
+  process: ChildProcess
+  ledger: string
+  rpcUrl: string
+}
+
+/**
+ * Boots a solana-test-validator on a fresh ledger with the program fixtures loaded at their
+ * mainnet addresses
+ */
+export async function startTestValidator(port = 8899): Promise<TestValidator> {
+  const missing = PROGRAM_FIXTURES.filter(
+    (x) => x.required && !existsSync(join(FIXTURES_DIR, x.file)),
+  )
+  if (missing.length) {
+    throw new Error(
+      `Missing program fixtures ${missing
+        .map((x) => x.file)
+        .join(', ')}, run test/e2e/fixtures/dump-programs.sh`,
+    )
+  }
+
+  const ledger = mkdtempSync(join(tmpdir(), 'realms-e2e-'))
+  const programArgs = PROGRAM_FIXTURES.filter((x) =>
+    existsSync(join(FIXTURES_DIR, x.file)),
+  ).flatMap((x) => ['--bpf-program', x.programId, join(FIXTURES_DIR, x.file)])
+
+  const validator = spawn(
+    'solana-test-validator',
+    [
+      '--reset',
+      '--quiet',
+      '--ledger',
+      ledger,
+      '--rpc-port',
+      `${port}`,
+      ...programArgs,
+    ],
+    { stdio: 'ignore' },
+  )
+  const spawnError = new Promise<never>((_, reject) =>
+    validator.once('error', (e) =>
+      reject(new Error(`Could not start solana-test-validator: ${e.message}`)),
+    ),
+  )
+
+  const rpcUrl = `http://127.0.0.1:${port}`
+  try {
+    await Promise.race([waitForRpc(rpcUrl), spawnError])
+  } catch (e) {
+    validator.kill()
+    rmSync(ledger, { recursive: true, force: true })
+    throw e
+  }
+  return { process: validator, ledger, rpcUrl }
+}
+
+export async function stopTestValidator({ process, ledger }: TestValidator) {
+  if (process.exitCode === null) {
+    const exited = new Promise((resolve) => process.once('exit', resolve))
+    process.kill()
+    await exited
+  }
+  rmSync(ledger, { recursive: true, force: true })
+}
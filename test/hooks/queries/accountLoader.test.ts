@@ -0,0 +1,180 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js'
+import {
+  AccountCache,
+  AccountCacheEvent,
+  accountCacheKeys,
+  onAccountCacheEvent,
+} from '@models/dataSource'
+import {
+  AccountLoader,
+  getAccountLoaderMetrics,
+  resetAccountLoaderMetrics,
+} from 'hooks/queries/accountLoader'
+
+const accountInfo = (pubkey: PublicKey) => ({
+  data: pubkey.toBuffer(),
+  executable: false,
+  lamports: 1,
+  owner: PublicKey.default,
+})
+
+const fakeConnection = () => {
+  const getMultipleAccountsInfo = jest.fn(async (pubkeys: PublicKey[]) =>
+    pubkeys.map(accountInfo),
+  )
+  return {
+    connection: {
+      rpcEndpoint: 'http://localhost:8899',
+      getMultipleAccountsInfoAndContext: async (pubkeys: PublicKey[]) => ({
+        context: { slot: 10 },
+        value: await getMultipleAccountsInfo(pubkeys),
+      }),
+    } as unknown as Connection,
+    getMultipleAccountsInfo,
+  }
+}
+
+// an account cache backed by a map instead of IndexedDB
+const memoryCache = () => {
+  const items = new Map<string, unknown>()
+  return new AccountCache({
+    getItem: async (key: string) => items.get(key) ?? null,
+    setItem: async (key: string, value: unknown) => items.set(key, value),
+    clear: async () => items.clear(),
+  } as unknown as ConstructorParameters<typeof AccountCache>[0])
+}
+
+const pubkeys = (count: number) =>
+  Array.from({ length: count }, () => Keypair.generate().publicKey)
+
+describe('AccountLoader', () => {
+  beforeEach(() => resetAccountLoaderMetrics())
+
+  test('coalesces the loads of one tick into a single call', async () => {
+    const { connection, getMultipleAccountsInfo } = fakeConnection()
+    const loader = new AccountLoader(connection)
+    const keys = pubkeys(3)
+
+    const results = await Promise.all(keys.map((x) => loader.load(x)))
+
+    expect(getMultipleAccountsInfo).toHaveBeenCalledTimes(1)
+    expect(results.map((x) => x?.data)).toEqual(keys.map((x) => x.toBuffer()))
+  })
+
+  test('deduplicates loads in flight', async () => {
+    const { connection, getMultipleAccountsInfo } = fakeConnection()
+    const loader = new AccountLoader(connection)
+    const [key] = pubkeys(1)
+
+    await Promise.all([loader.load(key), loader.load(key)])
+
+    expect(getMultipleAccountsInfo.mock.calls[0][0]).toHaveLength(1)
+    expect(getAccountLoaderMetrics()).toEqual({
+      requests: 2,
+      deduplicated: 1,
+      rpcCalls: 1,
+    })
+  })
+
+  test('splits large batches into chunks of 100 keys', async () => {
+    const { connection, getMultipleAccountsInfo } = fakeConnection()
+    const loader = new AccountLoader(connection)
+
+    await Promise.all(pubkeys(150).map((x) => loader.load(x)))
+
+    expect(getMultipleAccountsInfo).toHaveBeenCalledTimes(2)
+    expect(getMultipleAccountsInfo.mock.calls[0][0]).toHaveLength(100)
+    expect(getMultipleAccountsInfo.mock.calls[1][0]).toHaveLength(50)
+  })
+
+  test('rejects every load of a failed call and loads again afterwards', async () => {
+    const { connection, getMultipleAccountsInfo } = fakeConnection()
+    const loader = new AccountLoader(connection)
+    const [key] = pubkeys(1)
+    getMultipleAccountsInfo.mockRejectedValueOnce(new Error('rpc error'))
+
+    await expect(loader.load(key)).rejects.toThrow('rpc error')
+    await expect(loader.load(key)).resolves.toMatchObject({ lamports: 1 })
+  })
+
+  describe('with an account cache', () => {
+    let events: AccountCacheEvent[]
+    let unsubscribe: () => void
+
+    beforeEach(() => {
+      events = []
+      unsubscribe = onAccountCacheEvent((x) => events.push(x))
+    })
+    afterEach(() => unsubscribe())
+
+    const cachedAccount = (pubkey: PublicKey, lamports: number) => ({
+      pubkey: pubkey.toBase58(),
+      owner: PublicKey.default.toBase58(),
+      lamports,
+      data: pubkey.toBuffer().toString('base64'),
+    })
+
+    test('serves the first load of a hook from the cache and refreshes it', async () => {
+      const { connection, getMultipleAccountsInfo } = fakeConnection()
+      const cache = memoryCache()
+      const loader = new AccountLoader(connection, cache)
+      const [key] = pubkeys(1)
+      await cache.set(
+        accountCacheKeys.account(connection.rpcEndpoint, key),
+        5,
+        [cachedAccount(key, 2)],
+      )
+
+      await expect(
+        loader.load(key, { staleWhileRefresh: true }),
+      ).resolves.toMatchObject({ lamports: 2 })
+      expect(loader.isServedFromCache(key)).toBe(true)
+      // the refetch of the invalidated query is served by the background refresh
+      await expect(loader.load(key)).resolves.toMatchObject({ lamports: 1 })
+      expect(loader.isServedFromCache(key)).toBe(false)
+
+      expect(getMultipleAccountsInfo).toHaveBeenCalledTimes(1)
+      expect(events).toEqual([{ type: 'refreshed', pubkeys: [key.toBase58()] }])
+    })
+
+    test('loads the account from the RPC for imperative reads', async () => {
+      const { connection, getMultipleAccountsInfo } = fakeConnection()
+      const cache = memoryCache()
+      const loader = new AccountLoader(connection, cache)
+      const [key] = pubkeys(1)
+      await cache.set(
+        accountCacheKeys.account(connection.rpcEndpoint, key),
+        5,
+        [cachedAccount(key, 2)],
+      )
+
+      await expect(loader.load(key)).resolves.toMatchObject({ lamports: 1 })
+      // the cache is older than what was already loaded
+      await expect(
+        loader.load(key, { staleWhileRefresh: true }),
+      ).resolves.toMatchObject({ lamports: 1 })
+
+      expect(getMultipleAccountsInfo).toHaveBeenCalledTimes(2)
+      expect(loader.isServedFromCache(key)).toBe(false)
+      expect(events).toEqual([])
+    })
+
+    test('falls back to the cache when the RPC fails', async () => {
+      const { connection, getMultipleAccountsInfo } = fakeConnection()
+      const cache = memoryCache()
+      const loader = new AccountLoader(connection, cache)
+      const [key] = pubkeys(1)
+      getMultipleAccountsInfo.mockRejectedValue(new Error('rpc error'))
+
+      await expect(loader.load(key)).rejects.toThrow('rpc error')
+
+      await cache.set(
+        accountCacheKeys.account(connection.rpcEndpoint, key),
+        5,
+        [cachedAccount(key, 2)],
+      )
+      await expect(loader.load(key)).resolves.toMatchObject({ lamports: 2 })
+      expect(events).toEqual([{ type: 'fallback' }])
+    })
+  })
+})
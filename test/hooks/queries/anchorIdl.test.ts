@@ -0,0 +1,51 @@
+import { deflateSync } from 'zlib'
+import { encodeIdlAccount, idlAddress } from '@coral-xyz/anchor/dist/cjs/idl'
+import { Connection, Keypair, PublicKey } from '@solana/web3.js'
+import { fetchAnchorIdl } from 'hooks/queries/anchorIdl'
+import queryClient from 'hooks/queries/queryClient'
+
+const idl = { version: '0.1.0', name: 'example', instructions: [] }
+
+const fakeConnection = (data: Buffer | null) => {
+  const getAccountInfo = jest.fn(async (_pubkey: PublicKey) =>
+    data ? { data } : null,
+  )
+  return {
+    connection: {
+      rpcEndpoint: `http://localhost/${Keypair.generate().publicKey}`,
+      getAccountInfo,
+    } as unknown as Connection,
+    getAccountInfo,
+  }
+}
+
+describe('fetchAnchorIdl', () => {
+  const programId = Keypair.generate().publicKey
+
+  // drops the cached queries and their gc timers
+  afterAll(() => queryClient.clear())
+
+  test('inflates the idl account of the program', async () => {
+    const account = Buffer.concat([
+      // account discriminator
+      Buffer.alloc(8),
+      encodeIdlAccount({
+        authority: Keypair.generate().publicKey,
+        data: deflateSync(Buffer.from(JSON.stringify(idl))),
+      }),
+    ])
+    const { connection, getAccountInfo } = fakeConnection(account)
+
+    await expect(fetchAnchorIdl(connection, programId)).resolves.toEqual(idl)
+    expect(getAccountInfo.mock.calls[0][0]).toEqual(await idlAddress(programId))
+  })
+
+  test('returns null without an idl account, or with another account', async () => {
+    await expect(
+      fetchAnchorIdl(fakeConnection(null).connection, programId),
+    ).resolves.toBeNull()
+    await expect(
+      fetchAnchorIdl(fakeConnection(Buffer.alloc(64, 1)).connection, programId),
+    ).resolves.toBeNull()
+  })
+})
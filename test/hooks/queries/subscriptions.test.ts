@@ -0,0 +1,76 @@
+import { Connection } from '@solana/web3.js'
+import { subscribeWithPollingFallback } from '@hooks/queries/subscriptions'
+
+const fakeConnection = () => {
+  let onSlot: () => void = () => undefined
+  const connection = {
+    onSlotChange: jest.fn((callback: () => void) => {
+      onSlot = callback
+      return 7
+    }),
+    removeSlotChangeListener: jest.fn(),
+  }
+  return {
+    connection: connection as unknown as Connection,
+    mock: connection,
+    notifySlot: () => onSlot(),
+  }
+}
+
+const fakeSubscription = () => ({
+  subscribe: jest.fn(() => [1, 2]),
+  unsubscribe: jest.fn(async () => undefined),
+  poll: jest.fn(async () => undefined),
+})
+
+describe('subscribeWithPollingFallback', () => {
+  beforeEach(() => jest.useFakeTimers())
+  afterEach(() => jest.useRealTimers())
+
+  test('polls only while no slot notification arrives', () => {
+    const { connection, notifySlot } = fakeConnection()
+    const subscription = fakeSubscription()
+    const unsubscribe = subscribeWithPollingFallback(connection, [
+      subscription,
+    ])
+    expect(subscription.subscribe).toHaveBeenCalledWith(connection)
+
+    // the websocket is alive
+    for (let i = 0; i < 6; i++) {
+      jest.advanceTimersByTime(5 * 1000)
+      notifySlot()
+    }
+    expect(subscription.poll).not.toHaveBeenCalled()
+
+    // no notification for more than 15 seconds
+    jest.advanceTimersByTime(20 * 1000)
+    expect(subscription.poll).toHaveBeenCalledTimes(1)
+    jest.advanceTimersByTime(10 * 1000)
+    expect(subscription.poll).toHaveBeenCalledTimes(2)
+
+    // the websocket is back
+    notifySlot()
+    jest.advanceTimersByTime(10 * 1000)
+    expect(subscription.poll).toHaveBeenCalledTimes(2)
+
+    unsubscribe()
+  })
+
+  test('removes the subscriptions and stops polling', () => {
+    const { connection, mock } = fakeConnection()
+    const subscriptions = [fakeSubscription(), fakeSubscription()]
+    subscriptions[1].subscribe.mockReturnValue([3])
+    const unsubscribe = subscribeWithPollingFallback(connection, subscriptions)
+
+    unsubscribe()
+    expect(mock.removeSlotChangeListener).toHaveBeenCalledWith(7)
+    expect(subscriptions[0].unsubscribe.mock.calls).toEqual([
+      [connection, 1],
+      [connection, 2],
+    ])
+    expect(subscriptions[1].unsubscribe.mock.calls).toEqual([[connection, 3]])
+
+    jest.advanceTimersByTime(60 * 1000)
+    subscriptions.forEach((x) => expect(x.poll).not.toHaveBeenCalled())
+  })
+})
@@ -0,0 +1,120 @@
+import { Connection, Keypair, PublicKey, SystemProgram } from '@solana/web3.js'
+import { InstructionData } from '@solana/spl-governance'
+import {
+  createTransferCheckedInstruction,
+  createTransferInstruction,
+  TOKEN_2022_PROGRAM_ID,
+} from '@solana/spl-token-new'
+import { WSOL_MINT } from '@components/instructions/tools'
+import { decodeBudgetTransfers } from 'hooks/queries/treasuryBudgets'
+
+const toInstructionData = (
+  x: ReturnType<typeof createTransferInstruction>,
+): InstructionData =>
+  ({
+    programId: x.programId,
+    accounts: x.keys,
+    data: Uint8Array.from(x.data),
+  }) as InstructionData
+
+const mint = Keypair.generate().publicKey
+const source = Keypair.generate().publicKey
+const destination = Keypair.generate().publicKey
+const owner = Keypair.generate().publicKey
+
+// a token account starts with its mint, a mint has its decimals at offset 44
+const tokenAccountData = () =>
+  Buffer.concat([mint.toBuffer(), Buffer.alloc(133)])
+const mintData = (decimals: number) => {
+  const data = Buffer.alloc(82)
+  data[44] = decimals
+  return data
+}
+
+const fakeConnection = () => {
+  const getMultipleAccountsInfo = jest.fn(async (keys: PublicKey[]) =>
+    keys.map((x) =>
+      x.equals(source)
+        ? { data: tokenAccountData() }
+        : x.equals(mint)
+        ? { data: mintData(6) }
+        : null,
+    ),
+  )
+  return {
+    connection: { getMultipleAccountsInfo } as unknown as Connection,
+    getMultipleAccountsInfo,
+  }
+}
+
+describe('decodeBudgetTransfers', () => {
+  test('decodes SOL, token and token 2022 transfers', async () => {
+    const { connection } = fakeConnection()
+
+    const transfers = await decodeBudgetTransfers(connection, [
+      toInstructionData(
+        SystemProgram.transfer({
+          fromPubkey: owner,
+          toPubkey: destination,
+          lamports: 1_500_000_000,
+        }),
+      ),
+      toInstructionData(
+        createTransferInstruction(source, destination, owner, 2_000_000),
+      ),
+      toInstructionData(
+        createTransferCheckedInstruction(
+          source,
+          mint,
+          destination,
+          owner,
+          300,
+          2,
+          [],
+          TOKEN_2022_PROGRAM_ID,
+        ),
+      ),
+    ])
+
+    expect(
+      transfers.map((x) => x && { mint: x.mint, amount: x.amount.toNumber() }),
+    ).toEqual([
+      { mint: WSOL_MINT, amount: 1.5 },
+      { mint: mint.toBase58(), amount: 2 },
+      { mint: mint.toBase58(), amount: 3 },
+    ])
+  })
+
+  test('reads the source accounts and mints in one call each', async () => {
+    const { connection, getMultipleAccountsInfo } = fakeConnection()
+    const transfer = toInstructionData(
+      createTransferInstruction(source, destination, owner, 1),
+    )
+
+    await decodeBudgetTransfers(connection, [transfer, transfer, transfer])
+
+    expect(getMultipleAccountsInfo).toHaveBeenCalledTimes(2)
+    expect(getMultipleAccountsInfo.mock.calls[0][0]).toEqual([source])
+    expect(getMultipleAccountsInfo.mock.calls[1][0]).toEqual([mint])
+  })
+
+  test('skips other instructions and transfers from closed accounts', async () => {
+    const { connection } = fakeConnection()
+
+    await expect(
+      decodeBudgetTransfers(connection, [
+        toInstructionData(
+          SystemProgram.assign({ accountPubkey: owner, programId: mint }),
+        ),
+        toInstructionData(
+          createTransferInstruction(
+            Keypair.generate().publicKey,
+            destination,
+            owner,
+            1,
+          ),
+        ),
+      ]),
+    ).resolves.toEqual([null, null])
+  })
+})
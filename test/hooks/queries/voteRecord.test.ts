@@ -0,0 +1,71 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js'
+import { ProgramAccount, VoteRecord } from '@solana/spl-governance'
+import { none, some } from 'fp-ts/Option'
+import { getVoteRecords } from '@models/proposal'
+import { getVoteRecordsOfProposals } from '@hooks/queries/voteRecord'
+
+jest.mock('@models/proposal', () => ({
+  ...jest.requireActual('@models/proposal'),
+  getVoteRecords: jest.fn(),
+}))
+
+const connection = {} as Connection
+const programId = Keypair.generate().publicKey
+const proposals = Array.from({ length: 25 }, () => Keypair.generate().publicKey)
+
+describe('getVoteRecordsOfProposals', () => {
+  let inFlight: number
+  let maxInFlight: number
+
+  // every proposal has one vote record, the failing ones have none
+  const mockVoteRecords = (failing: PublicKey[]) =>
+    jest.mocked(getVoteRecords).mockImplementation(async ({ proposalPk }) => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      inFlight--
+      return failing.some((x) => x.equals(proposalPk))
+        ? none
+        : some([{ pubkey: proposalPk } as ProgramAccount<VoteRecord>])
+    })
+
+  beforeEach(() => {
+    inFlight = 0
+    maxInFlight = 0
+  })
+
+  test('fetches a few proposals at a time', async () => {
+    mockVoteRecords([])
+
+    const { voteRecords, failedProposals } = await getVoteRecordsOfProposals(
+      connection,
+      programId,
+      proposals,
+    )
+
+    expect(voteRecords.map((x) => x.pubkey)).toEqual(proposals)
+    expect(failedProposals).toEqual([])
+    expect(maxInFlight).toBe(10)
+  })
+
+  test('returns the vote records of the other proposals when some fail', async () => {
+    mockVoteRecords([proposals[3], proposals[17]])
+
+    const { voteRecords, failedProposals } = await getVoteRecordsOfProposals(
+      connection,
+      programId,
+      proposals,
+    )
+
+    expect(voteRecords).toHaveLength(23)
+    expect(failedProposals).toEqual([proposals[3], proposals[17]])
+  })
+
+  test('fails when no proposal could be fetched', async () => {
+    mockVoteRecords(proposals)
+
+    await expect(
+      getVoteRecordsOfProposals(connection, programId, proposals),
+    ).rejects.toThrow('Could not fetch vote records')
+  })
+})
@@ -0,0 +1,113 @@
+import { Connection, Keypair } from '@solana/web3.js'
+import {
+  AccountCache,
+  AccountCacheEvent,
+  accountCacheKeys,
+  CachedDataSource,
+  GovernanceDataSource,
+  onAccountCacheEvent,
+} from '@models/dataSource'
+
+const connection = {
+  rpcEndpoint: 'http://localhost:8899',
+} as unknown as Connection
+
+const request = {
+  programId: Keypair.generate().publicKey.toBase58(),
+  accountTypes: [1],
+  filters: [],
+}
+
+const account = (lamports: number) => ({
+  pubkey: request.programId,
+  owner: request.programId,
+  lamports,
+  data: '',
+})
+
+const fakeSource = () => {
+  const getProgramAccounts = jest.fn(async () => ({
+    slot: 10,
+    accounts: [account(1)],
+  }))
+  return {
+    source: { getProgramAccounts } as GovernanceDataSource,
+    getProgramAccounts,
+  }
+}
+
+// an account cache backed by a map instead of IndexedDB
+const memoryCache = async () => {
+  const items = new Map<string, unknown>()
+  const cache = new AccountCache({
+    getItem: async (key: string) => items.get(key) ?? null,
+    setItem: async (key: string, value: unknown) => items.set(key, value),
+    clear: async () => items.clear(),
+  } as unknown as ConstructorParameters<typeof AccountCache>[0])
+  await cache.set(
+    accountCacheKeys.programAccounts(connection.rpcEndpoint, request),
+    5,
+    [account(2)],
+  )
+  return cache
+}
+
+describe('CachedDataSource', () => {
+  let events: AccountCacheEvent[]
+  let unsubscribe: () => void
+
+  beforeEach(() => {
+    events = []
+    unsubscribe = onAccountCacheEvent((x) => events.push(x))
+  })
+  afterEach(() => unsubscribe())
+
+  test('serves the first request of a hook from the cache and refreshes it', async () => {
+    const { source, getProgramAccounts } = fakeSource()
+    const dataSource = new CachedDataSource(source, await memoryCache())
+
+    await expect(
+      dataSource.getProgramAccounts(connection, request, {
+        staleWhileRefresh: true,
+      }),
+    ).resolves.toMatchObject({ slot: 5, accounts: [{ lamports: 2 }] })
+    // the refetch of the invalidated query is served by the background refresh
+    await expect(
+      dataSource.getProgramAccounts(connection, request),
+    ).resolves.toMatchObject({ slot: 10, accounts: [{ lamports: 1 }] })
+
+    expect(getProgramAccounts).toHaveBeenCalledTimes(1)
+    expect(events).toEqual([
+      { type: 'refreshed', pubkeys: [request.programId, request.programId] },
+    ])
+  })
+
+  test('reads the accounts from the source for actions', async () => {
+    const { source, getProgramAccounts } = fakeSource()
+    const dataSource = new CachedDataSource(source, await memoryCache())
+
+    await expect(
+      dataSource.getProgramAccounts(connection, request),
+    ).resolves.toMatchObject({ accounts: [{ lamports: 1 }] })
+    // already requested, the cache is not served anymore
+    await expect(
+      dataSource.getProgramAccounts(connection, request, {
+        staleWhileRefresh: true,
+      }),
+    ).resolves.toMatchObject({ accounts: [{ lamports: 1 }] })
+
+    expect(getProgramAccounts).toHaveBeenCalledTimes(2)
+    expect(events).toEqual([])
+  })
+
+  test('falls back to the cache when the source fails', async () => {
+    const { source, getProgramAccounts } = fakeSource()
+    const dataSource = new CachedDataSource(source, await memoryCache())
+    getProgramAccounts.mockRejectedValue(new Error('rpc error'))
+
+    await expect(
+      dataSource.getProgramAccounts(connection, request),
+    ).resolves.toMatchObject({ slot: 5, accounts: [{ lamports: 2 }] })
+    expect(events).toEqual([{ type: 'fallback' }])
+  })
+})
@@ -0,0 +1,72 @@
+import { Connection } from '@solana/web3.js'
+import { IndexerDataSource } from '@models/dataSource'
+
+const MAINNET_GENESIS_HASH = '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d'
+const DEVNET_GENESIS_HASH = 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG'
+
+const fakeConnection = (genesisHash: string) => {
+  const getProgramAccounts = jest.fn(async () => ({
+    context: { slot: 10 },
+    value: [],
+  }))
+  return {
+    connection: {
+      rpcEndpoint: 'http://localhost:8899',
+      getGenesisHash: async () => genesisHash,
+      getProgramAccounts,
+    } as unknown as Connection,
+    getProgramAccounts,
+  }
+}
+
+const request = {
+  programId: 'GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw',
+  accountTypes: [1],
+  filters: [],
+}
+
+describe('IndexerDataSource', () => {
+  const fetchMock = jest.fn()
+
+  beforeEach(() => {
+    global.fetch = fetchMock
+    fetchMock.mockReset()
+    fetchMock.mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () =>
+        url.endsWith('/health')
+          ? { cluster: 'mainnet', genesisHash: MAINNET_GENESIS_HASH }
+          : { slot: 20, accounts: [] },
+    }))
+  })
+
+  test('serves the connections to the cluster it ingests', async () => {
+    const { connection, getProgramAccounts } =
+      fakeConnection(MAINNET_GENESIS_HASH)
+
+    await expect(
+      new IndexerDataSource('http://indexer').getProgramAccounts(
+        connection,
+        request,
+      ),
+    ).resolves.toEqual({ slot: 20, accounts: [] })
+    expect(getProgramAccounts).not.toHaveBeenCalled()
+  })
+
+  test('reads the accounts of other clusters from the RPC', async () => {
+    const { connection, getProgramAccounts } =
+      fakeConnection(DEVNET_GENESIS_HASH)
+
+    await expect(
+      new IndexerDataSource('http://indexer').getProgramAccounts(
+        connection,
+        request,
+      ),
+    ).resolves.toEqual({ slot: 10, accounts: [] })
+    expect(getProgramAccounts).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'http://indexer/health',
+    ])
+  })
+})
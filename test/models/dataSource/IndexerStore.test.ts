@@ -0,0 +1,107 @@
+import { IndexerStore } from 'models/dataSource/IndexerStore'
+
+const PROGRAM = 'GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw'
+
+// account type, then the key the memcmp filters compare against
+const account = (pubkey: string, accountType: number, key: number) => ({
+  pubkey,
+  owner: PROGRAM,
+  lamports: 1,
+  data: Buffer.from([accountType, key, key, 0]),
+})
+
+const request = (accountTypes: number[], key?: number) => ({
+  programId: PROGRAM,
+  accountTypes,
+  filters:
+    key === undefined
+      ? []
+      : [{ offset: 1, bytes: Buffer.from([key, key]).toString('base64') }],
+})
+
+describe('IndexerStore', () => {
+  let store: IndexerStore
+
+  beforeEach(() => {
+    store = new IndexerStore(':memory:')
+    store.replaceProgram(PROGRAM, 100, [
+      account('a', 1, 7),
+      account('b', 1, 8),
+      account('c', 2, 7),
+    ])
+  })
+
+  afterEach(() => store.close())
+
+  test('serves programs once they are synced', () => {
+    expect(store.hasProgram(PROGRAM)).toBe(true)
+    expect(store.hasProgram('other')).toBe(false)
+  })
+
+  test('filters by account type and memcmp', () => {
+    expect(store.query(request([1])).accounts.map((x) => x.pubkey)).toEqual([
+      'a',
+      'b',
+    ])
+    expect(
+      store.query(request([1, 2], 7)).accounts.map((x) => x.pubkey),
+    ).toEqual(['a', 'c'])
+    expect(store.query(request([1], 7)).accounts[0].data).toEqual(
+      Buffer.from([1, 7, 7, 0]).toString('base64'),
+    )
+  })
+
+  test('applies account updates and removals', () => {
+    store.upsert(PROGRAM, 105, account('b', 1, 7))
+    store.remove(PROGRAM, 103, 'a')
+
+    const { slot, accounts } = store.query(request([1], 7))
+    expect(accounts.map((x) => x.pubkey)).toEqual(['b'])
+    expect(slot).toBe(105)
+  })
+
+  test('a full sync replaces the accounts of the program', () => {
+    store.replaceProgram(PROGRAM, 200, [account('d', 1, 7)])
+
+    expect(store.query(request([1, 2])).accounts.map((x) => x.pubkey)).toEqual([
+      'd',
+    ])
+    expect(store.stats()).toMatchObject([
+      { programId: PROGRAM, slot: 200, accounts: 1 },
+    ])
+  })
+
+  test('ignores writes older than the stored account', () => {
+    store.upsert(PROGRAM, 110, account('a', 1, 8))
+    store.upsert(PROGRAM, 105, account('a', 1, 7))
+    store.remove(PROGRAM, 108, 'a')
+
+    expect(store.query(request([1], 8)).accounts.map((x) => x.pubkey)).toEqual([
+      'a',
+      'b',
+    ])
+    store.remove(PROGRAM, 120, 'a')
+    store.upsert(PROGRAM, 115, account('a', 1, 8))
+    expect(store.query(request([1], 8)).accounts.map((x) => x.pubkey)).toEqual([
+      'b',
+    ])
+  })
+
+  test('a full sync keeps the updates received after its slot', () => {
+    store.upsert(PROGRAM, 210, account('b', 1, 7))
+    store.remove(PROGRAM, 220, 'c')
+    store.replaceProgram(PROGRAM, 200, [
+      account('a', 1, 7),
+      account('b', 1, 8),
+      account('c', 2, 7),
+    ])
+
+    expect(store.query(request([1, 2], 7))).toMatchObject({
+      slot: 220,
+      accounts: [{ pubkey: 'a' }, { pubkey: 'b' }],
+    })
+    expect(store.stats()).toMatchObject([
+      { programId: PROGRAM, slot: 220, accounts: 2 },
+    ])
+  })
+})
@@ -0,0 +1,84 @@
+import { generateKeyPairSync, sign } from 'crypto'
+import { PublicKey } from '@solana/web3.js'
+import {
+  DelegateProfileContent,
+  getDelegateProfileMessage,
+} from 'models/delegates/DelegateProfile'
+import {
+  DelegateProfileStore,
+  KvClient,
+  verifyDelegateProfile,
+} from 'models/delegates/DelegateProfileStore'
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519')
+// the raw key is the last 32 bytes of the DER encoding
+const wallet = new PublicKey(
+  publicKey.export({ format: 'der', type: 'spki' }).subarray(-32),
+).toBase58()
+
+const content: DelegateProfileContent = {
+  realm: 'DPiH3H3c7t47BMxqTxLsuPQpEC6Kne8GA9VXbxpnZxFE',
+  wallet,
+  statement: 'I vote for sustainable treasury spend',
+  links: ['https://forum.example.com/u/delegate'],
+  signedAt: 1_700_000_000,
+}
+const signature = sign(
+  null,
+  Buffer.from(getDelegateProfileMessage(content)),
+  privateKey,
+).toString('hex')
+
+test('verifyDelegateProfile accepts a profile signed by its wallet', () => {
+  expect(verifyDelegateProfile({ ...content, signature })).toBe(true)
+})
+
+test('verifyDelegateProfile rejects an altered profile', () => {
+  expect(
+    verifyDelegateProfile({
+      ...content,
+      statement: 'I vote for anything',
+      signature,
+    }),
+  ).toBe(false)
+  expect(
+    verifyDelegateProfile({
+      ...content,
+      wallet: 'DPiH3H3c7t47BMxqTxLsuPQpEC6Kne8GA9VXbxpnZxFE',
+      signature,
+    }),
+  ).toBe(false)
+})
+
+describe('DelegateProfileStore', () => {
+  const profile = { ...content, signature }
+
+  test('lists the profiles of the realm hash', async () => {
+    const command = jest.fn(async () => [JSON.stringify(profile)])
+    const store = new DelegateProfileStore({ command } as KvClient)
+
+    await expect(store.list(content.realm)).resolves.toEqual([profile])
+    expect(command).toHaveBeenCalledWith([
+      'HVALS',
+      `delegate-profiles:${content.realm}`,
+    ])
+  })
+
+  test('stores a profile unless the stored one is as recent', async () => {
+    const command = jest.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(0)
+    const store = new DelegateProfileStore({ command } as KvClient)
+
+    await expect(store.put(profile)).resolves.toBe(true)
+    await expect(store.put(profile)).resolves.toBe(false)
+    // compared and written by one script, concurrent posts can't interleave
+    expect(command.mock.calls[0][0]).toEqual([
+      'EVAL',
+      expect.stringContaining("redis.call('HSET'"),
+      1,
+      `delegate-profiles:${content.realm}`,
+      wallet,
+      content.signedAt,
+      JSON.stringify(profile),
+    ])
+  })
+})
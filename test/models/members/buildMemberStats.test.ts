@@ -0,0 +1,135 @@
+import {
+  GovernanceAccountType,
+  ProgramAccount,
+  Proposal,
+  TokenOwnerRecord,
+  Vote,
+  VoteKind,
+  VoteRecord,
+} from '@solana/spl-governance'
+import { Keypair, PublicKey } from '@solana/web3.js'
+import BN from 'bn.js'
+import {
+  buildMemberStats,
+  filterMemberStats,
+  memberStatsToCsv,
+} from 'models/members/buildMemberStats'
+
+const communityMint = Keypair.generate().publicKey
+const councilMint = Keypair.generate().publicKey
+const alice = Keypair.generate().publicKey
+const bob = Keypair.generate().publicKey
+
+const tor = (
+  owner: PublicKey,
+  mint: PublicKey,
+  amount: number,
+  delegate?: PublicKey,
+) =>
+  ({
+    pubkey: Keypair.generate().publicKey,
+    account: {
+      governingTokenOwner: owner,
+      governingTokenMint: mint,
+      governingTokenDepositAmount: new BN(amount),
+      governanceDelegate: delegate,
+    },
+  }) as ProgramAccount<TokenOwnerRecord>
+
+const proposal = (
+  author: ProgramAccount<TokenOwnerRecord>,
+  votingAt?: number,
+) =>
+  ({
+    pubkey: Keypair.generate().publicKey,
+    account: {
+      tokenOwnerRecord: author.pubkey,
+      governingTokenMint: author.account.governingTokenMint,
+      votingAt: votingAt === undefined ? null : new BN(votingAt),
+    },
+  }) as ProgramAccount<Proposal>
+
+const vote = (
+  owner: PublicKey,
+  votedOn: ProgramAccount<Proposal>,
+  voteType: VoteKind,
+) =>
+  ({
+    pubkey: Keypair.generate().publicKey,
+    account: {
+      accountType: GovernanceAccountType.VoteRecordV2,
+      governingTokenOwner: owner,
+      proposal: votedOn.pubkey,
+      vote: new Vote({
+        voteType,
+        approveChoices: undefined,
+        deny: undefined,
+        veto: undefined,
+      }),
+    },
+  }) as ProgramAccount<VoteRecord>
+
+const aliceCommunity = tor(alice, communityMint, 5_000_000, bob)
+const bobCouncil = tor(bob, councilMint, 1)
+const first = proposal(aliceCommunity, 1_000)
+const second = proposal(aliceCommunity, 2_000)
+const draft = proposal(aliceCommunity)
+const councilProposal = proposal(bobCouncil, 3_000)
+
+const stats = buildMemberStats({
+  proposals: [first, second, draft, councilProposal],
+  tokenOwnerRecords: [aliceCommunity, bobCouncil],
+  voteRecords: [
+    vote(alice, first, VoteKind.Approve),
+    vote(alice, second, VoteKind.Abstain),
+    vote(bob, councilProposal, VoteKind.Deny),
+  ],
+  communityMint,
+  councilMint,
+  communityDecimals: 6,
+  councilDecimals: 0,
+})
+const byWallet = (wallet: PublicKey) =>
+  stats.find((x) => x.walletAddress === wallet.toBase58())!
+
+test('buildMemberStats computes participation over the proposals of the member populations', () => {
+  const aliceStats = byWallet(alice)
+  expect(aliceStats.communityPower.toNumber()).toEqual(5)
+  expect(aliceStats.councilPower.toNumber()).toEqual(0)
+  // the draft never went to a vote
+  expect(aliceStats.eligibleProposals).toEqual(2)
+  expect(aliceStats.participationRate).toEqual(1)
+  expect(aliceStats.lastVoteAt).toEqual(2_000)
+  expect(aliceStats.yesVotes).toEqual(1)
+  expect(aliceStats.abstainVotes).toEqual(1)
+  expect(aliceStats.proposalsAuthored).toEqual(3)
+  expect(aliceStats.delegatedTo).toEqual([bob.toBase58()])
+
+  const bobStats = byWallet(bob)
+  expect(bobStats.councilPower.toNumber()).toEqual(1)
+  expect(bobStats.eligibleProposals).toEqual(1)
+  expect(bobStats.noVotes).toEqual(1)
+  expect(bobStats.delegatedFrom).toEqual([alice.toBase58()])
+})
+
+test('filterMemberStats keeps inactive and never voted members', () => {
+  const silent = { ...byWallet(alice), votesCast: 0, lastVoteAt: undefined }
+  const members = [...stats, silent]
+  const now = 2_000 + 10 * 24 * 60 * 60
+
+  // alice last voted just over 10 days ago, bob later
+  expect(
+    filterMemberStats(members, { inactiveDays: 10 }, now + 1).map(
+      (x) => x.votesCast,
+    ),
+  ).toEqual([2, 0])
+  expect(filterMemberStats(members, { neverVoted: true }, now)).toEqual([
+    silent,
+  ])
+})
+
+test('memberStatsToCsv writes a row per member', () => {
+  const rows = memberStatsToCsv(stats).trim().split('\n')
+  expect(rows).toHaveLength(3)
+  expect(rows[0]).toContain('participation_rate')
+})
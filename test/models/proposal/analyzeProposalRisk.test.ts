@@ -0,0 +1,258 @@
+import {
+  AccountMetaData,
+  BPF_UPGRADE_LOADER_ID,
+  InstructionData,
+} from '@solana/spl-governance'
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import {
+  AuthorityType,
+  createCloseAccountInstruction,
+  createSetAuthorityInstruction,
+  createTransferInstruction,
+  NATIVE_MINT,
+} from '@solana/spl-token-new'
+import BN from 'bn.js'
+import {
+  analyzeProposalRisk,
+  RiskAnalysisContext,
+} from 'models/proposal/analyzeProposalRisk'
+import { createSetUpgradeAuthority } from '@tools/sdk/bpfUpgradeableLoader/createSetUpgradeAuthority'
+
+const toInstructionData = (ix: TransactionInstruction) =>
+  new InstructionData({
+    programId: ix.programId,
+    accounts: ix.keys.map((x) => new AccountMetaData(x)),
+    data: ix.data,
+  })
+
+const governanceProgramId = PublicKey.unique()
+const governance = PublicKey.unique()
+const treasury = PublicKey.unique()
+const treasuryUsdc = PublicKey.unique()
+const usdcMint = PublicKey.unique()
+const outsider = PublicKey.unique()
+
+const context: RiskAnalysisContext = {
+  governanceProgramId,
+  realm: PublicKey.unique(),
+  realmConfig: PublicKey.unique(),
+  governance,
+  treasury,
+  daoAccounts: [treasuryUsdc],
+  holdings: [
+    {
+      address: treasury,
+      mint: NATIVE_MINT,
+      decimals: 9,
+      amount: new BN(100 * 10 ** 9),
+      price: 100,
+    },
+    {
+      address: treasuryUsdc,
+      mint: usdcMint,
+      decimals: 6,
+      amount: new BN(10_000 * 10 ** 6),
+      price: 1,
+    },
+  ],
+}
+
+const analyze = (
+  ixs: TransactionInstruction[],
+  overrides: Partial<RiskAnalysisContext> = {},
+) =>
+  analyzeProposalRisk(ixs.map(toInstructionData), { ...context, ...overrides })
+
+const rules = (ixs: TransactionInstruction[]) => analyze(ixs).map((x) => x.rule)
+
+describe('analyzeProposalRisk', () => {
+  test('small transfers from the treasury are fine', () => {
+    expect(
+      analyze([
+        SystemProgram.transfer({
+          fromPubkey: treasury,
+          toPubkey: outsider,
+          lamports: 10 ** 9,
+        }),
+        createTransferInstruction(
+          treasuryUsdc,
+          outsider,
+          treasury,
+          100 * 10 ** 6,
+        ),
+      ]),
+    ).toEqual([])
+  })
+
+  test('flags transfers above the share of the treasury value', () => {
+    // 5000$ of a 20k$ treasury
+    const ix = SystemProgram.transfer({
+      fromPubkey: treasury,
+      toPubkey: outsider,
+      lamports: 50 * 10 ** 9,
+    })
+    const findings = analyze([ix])
+    expect(findings).toHaveLength(1)
+    expect(findings[0]).toMatchObject({
+      rule: 'largeTransfer',
+      severity: 'warning',
+      instructionIndex: 0,
+    })
+    expect(analyze([ix], { largeTransferShare: 0.5 })).toEqual([])
+  })
+
+  test('falls back to the source balance without prices', () => {
+    const holdings = context.holdings!.map((x) => ({ ...x, price: undefined }))
+    const ix = createTransferInstruction(
+      treasuryUsdc,
+      outsider,
+      treasury,
+      2_000 * 10 ** 6,
+    )
+    expect(analyze([ix], { holdings }).map((x) => x.rule)).toEqual([
+      'largeTransfer',
+    ])
+  })
+
+  test('authority changes are dangerous when leaving the DAO', () => {
+    const mint = PublicKey.unique()
+    const [toDao, toOutsider, removed] = analyze([
+      createSetAuthorityInstruction(
+        mint,
+        treasury,
+        AuthorityType.MintTokens,
+        governance,
+      ),
+      createSetAuthorityInstruction(
+        mint,
+        treasury,
+        AuthorityType.FreezeAccount,
+        outsider,
+      ),
+      createSetAuthorityInstruction(
+        mint,
+        treasury,
+        AuthorityType.MintTokens,
+        null,
+      ),
+    ]).sort((a, b) => a.instructionIndex! - b.instructionIndex!)
+
+    expect(toDao).toMatchObject({
+      rule: 'authorityChange',
+      severity: 'warning',
+    })
+    expect(toOutsider).toMatchObject({
+      rule: 'authorityChange',
+      severity: 'danger',
+      accounts: [mint, outsider],
+    })
+    expect(removed).toMatchObject({
+      rule: 'authorityChange',
+      severity: 'danger',
+    })
+  })
+
+  test('program authority changes and upgrades', async () => {
+    const program = PublicKey.unique()
+    const setAuthority = await createSetUpgradeAuthority(
+      program,
+      treasury,
+      outsider,
+    )
+    const upgrade = new TransactionInstruction({
+      programId: BPF_UPGRADE_LOADER_ID,
+      keys: [PublicKey.unique(), program, PublicKey.unique(), treasury].map(
+        (pubkey) => ({ pubkey, isSigner: false, isWritable: true }),
+      ),
+      data: Buffer.from([3, 0, 0, 0]),
+    })
+    const findings = analyze([setAuthority, upgrade])
+    expect(findings.map((x) => [x.rule, x.severity])).toEqual([
+      ['authorityChange', 'danger'],
+      ['programUpgrade', 'warning'],
+    ])
+  })
+
+  test('close account destinations must belong to the DAO', () => {
+    expect(
+      rules([createCloseAccountInstruction(treasuryUsdc, treasury, treasury)]),
+    ).toEqual([])
+    expect(
+      rules([createCloseAccountInstruction(treasuryUsdc, outsider, treasury)]),
+    ).toEqual(['closeAccountOutsideDao'])
+  })
+
+  test('unknown programs writing to the treasury', () => {
+    const program = PublicKey.unique()
+    const ix = new TransactionInstruction({
+      programId: program,
+      keys: [{ pubkey: treasury, isSigner: true, isWritable: true }],
+      data: Buffer.from([]),
+    })
+    expect(rules([ix])).toEqual(['unknownProgram', 'untrustedTreasuryWrite'])
+    expect(
+      analyze([ix], {
+        knownProgramIds: [program],
+        trustedProgramIds: [program],
+      }),
+    ).toEqual([])
+  })
+
+  test('realm, governance and plugin config changes', () => {
+    const plugin = PublicKey.unique()
+    const governanceIx = (discriminator: number) =>
+      new TransactionInstruction({
+        programId: governanceProgramId,
+        keys: [{ pubkey: governance, isSigner: false, isWritable: true }],
+        data: Buffer.from([discriminator]),
+      })
+    const pluginIx = new TransactionInstruction({
+      programId: plugin,
+      keys: [
+        { pubkey: PublicKey.unique(), isSigner: false, isWritable: true },
+        { pubkey: governance, isSigner: true, isWritable: false },
+      ],
+      data: Buffer.from([1]),
+    })
+    const thirdPartyIx = new TransactionInstruction({
+      programId: PublicKey.unique(),
+      keys: [
+        { pubkey: context.realmConfig!, isSigner: false, isWritable: true },
+        { pubkey: governance, isSigner: true, isWritable: false },
+      ],
+      data: Buffer.from([]),
+    })
+
+    const findings = analyze(
+      [governanceIx(19), governanceIx(22), pluginIx, thirdPartyIx],
+      { pluginProgramIds: [plugin] },
+    )
+    expect(
+      findings.map((x) => [x.rule, x.severity, x.instructionIndex]),
+    ).toEqual([
+      ['realmConfigChange', 'danger', 3],
+      ['governanceConfigChange', 'warning', 0],
+      ['realmConfigChange', 'warning', 1],
+      ['pluginConfigChange', 'warning', 2],
+      ['unknownProgram', 'warning', 3],
+    ])
+  })
+
+  test('proposal wide findings', () => {
+    const transfer = SystemProgram.transfer({
+      fromPubkey: outsider,
+      toPubkey: outsider,
+      lamports: 1,
+    })
+    expect(rules([transfer])).toEqual(['possibleWrongGovernance'])
+    expect(
+      analyze([], { bufferAuthorities: [treasury, outsider] }).map(
+        (x) => x.rule,
+      ),
+    ).toEqual(['bufferAuthorityMismatch'])
+  })
+})
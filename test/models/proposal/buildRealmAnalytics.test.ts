@@ -0,0 +1,79 @@
+import {
+  Governance,
+  ProgramAccount,
+  Proposal,
+  ProposalState,
+  Realm,
+} from '@solana/spl-governance'
+import { Keypair } from '@solana/web3.js'
+import { BigNumber } from 'bignumber.js'
+import BN from 'bn.js'
+import {
+  buildRealmAnalytics,
+  getGiniCoefficient,
+  getNakamotoCoefficient,
+} from 'models/proposal/buildRealmAnalytics'
+
+const weights = (values: number[]) => values.map((x) => new BigNumber(x))
+
+test('getGiniCoefficient is 0 for an even distribution', () => {
+  expect(getGiniCoefficient(weights([5, 5, 5, 5]))).toEqual(0)
+  expect(getGiniCoefficient(weights([0, 0, 0, 100]))).toBeCloseTo(0.75, 6)
+  expect(getGiniCoefficient([])).toEqual(0)
+})
+
+test('getNakamotoCoefficient counts the voters needed for a majority', () => {
+  expect(getNakamotoCoefficient(weights([60, 20, 20]))).toEqual(1)
+  expect(getNakamotoCoefficient(weights([30, 30, 20, 20]))).toEqual(2)
+  expect(getNakamotoCoefficient(weights([25, 25, 25, 25]))).toEqual(3)
+})
+
+test('buildRealmAnalytics computes pass rates and voting durations per governance', () => {
+  const governance = {
+    pubkey: Keypair.generate().publicKey,
+    account: { config: { baseVotingTime: 3 * 24 * 60 * 60 } },
+  } as ProgramAccount<Governance>
+  const proposal = (
+    state: ProposalState,
+    votingAt?: number,
+    votingCompletedAt?: number,
+  ) =>
+    ({
+      pubkey: Keypair.generate().publicKey,
+      account: {
+        governance: governance.pubkey,
+        governingTokenMint: Keypair.generate().publicKey,
+        state,
+        votingAt: votingAt === undefined ? null : new BN(votingAt),
+        votingCompletedAt:
+          votingCompletedAt === undefined ? null : new BN(votingCompletedAt),
+      },
+    }) as ProgramAccount<Proposal>
+
+  const analytics = buildRealmAnalytics({
+    realm: {} as ProgramAccount<Realm>,
+    governances: [governance],
+    proposals: [
+      proposal(ProposalState.Completed, 0, 30 * 60),
+      // finalized a month after the voting ended
+      proposal(ProposalState.Succeeded, 0, 30 * 24 * 60 * 60),
+      proposal(ProposalState.Defeated, 0, 100),
+      proposal(ProposalState.Draft),
+    ],
+    voteRecords: [],
+    mints: {},
+  })
+
+  expect(analytics.outcomes).toEqual([
+    {
+      governance: governance.pubkey.toBase58(),
+      passed: 2,
+      defeated: 1,
+      passRate: 2 / 3,
+    },
+  ])
+  expect(analytics.votingDuration.map((x) => x.count)).toEqual([
+    1, 0, 0, 0, 1, 0,
+  ])
+  expect(analytics.turnout).toEqual([])
+})
@@ -0,0 +1,126 @@
+import { ProgramAccount, Proposal, Realm } from '@solana/spl-governance'
+import { Keypair } from '@solana/web3.js'
+import BN from 'bn.js'
+import { GroupableBallot, groupBallots } from 'models/proposal/groupBallots'
+
+const communityMint = Keypair.generate().publicKey
+const councilMint = Keypair.generate().publicKey
+const communityRecord = Keypair.generate().publicKey
+const councilRecord = Keypair.generate().publicKey
+
+const realm = {
+  pubkey: Keypair.generate().publicKey,
+  account: { communityMint },
+} as ProgramAccount<Realm>
+
+const ballot = (
+  name: string,
+  council = false,
+  voterWeight: BN | null = new BN(1),
+) => ({
+  name,
+  proposal: {
+    pubkey: Keypair.generate().publicKey,
+    account: { governingTokenMint: council ? councilMint : communityMint },
+  } as ProgramAccount<Proposal>,
+  tokenOwnerRecord: council ? councilRecord : communityRecord,
+  voterWeight,
+})
+
+const summarize = (
+  ballots: ReturnType<typeof ballot>[],
+  reuseVoterWeight: boolean,
+  ownVoteFlow = false,
+) => {
+  const { transactions, delegatorBallots, ownFlowBallots } = groupBallots(
+    realm,
+    ballots,
+    (role) => ({
+      ownVoteFlow: ownVoteFlow && role === 'council',
+      reuseVoterWeight,
+    }),
+    2,
+  )
+  const names = (x: (GroupableBallot & { name: string })[]) =>
+    x.map((b) => b.name)
+  return {
+    transactions: transactions.map((x) =>
+      x.type === 'votes'
+        ? `${x.role}: ${names(x.ballots).join(',')}`
+        : `create ${x.records
+            .map((r) =>
+              r.tokenOwnerRecord.equals(communityRecord)
+                ? 'community'
+                : 'council',
+            )
+            .join(',')}`,
+    ),
+    delegators: delegatorBallots.map((x) => `${x.role}: ${x.ballot.name}`),
+    ownFlow: names(ownFlowBallots),
+  }
+}
+
+describe('groupBallots', () => {
+  const ballots = [
+    ballot('a'),
+    ballot('b', true),
+    ballot('c'),
+    ballot('d'),
+    ballot('e', false, null),
+  ]
+
+  test('chunks the votes sharing a voter weight update after the token owner records', () => {
+    expect(summarize(ballots, true)).toEqual({
+      transactions: [
+        'create community,council',
+        'community: a,c',
+        'community: d',
+        'council: b',
+      ],
+      delegators: [
+        'community: a',
+        'community: c',
+        'community: d',
+        'community: e',
+        'council: b',
+      ],
+      ownFlow: [],
+    })
+  })
+
+  test('casts one vote per transaction without voter weight reuse', () => {
+    expect(summarize(ballots, false).transactions).toEqual([
+      'create community,council',
+      'community: a',
+      'community: c',
+      'community: d',
+      'council: b',
+    ])
+  })
+
+  test('leaves plugins with their own vote flow out of the batch', () => {
+    expect(summarize(ballots, true, true)).toEqual({
+      transactions: ['create community', 'community: a,c', 'community: d'],
+      delegators: [
+        'community: a',
+        'community: c',
+        'community: d',
+        'community: e',
+      ],
+      ownFlow: ['b'],
+    })
+  })
+
+  test('skips the token owner record without own votes', () => {
+    expect(
+      summarize(
+        [ballot('a', false, null), ballot('b', false, new BN(0))],
+        true,
+      ),
+    ).toEqual({
+      transactions: [],
+      delegators: ['community: a', 'community: b'],
+      ownFlow: [],
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import { VoteKind, VoteTipping } from '@solana/spl-governance'
+import BN from 'bn.js'
+import {
+  getMinimumYesVotes,
+  SimulatedVote,
+  simulateProposalVote,
+} from 'models/proposal/simulateProposalVote'
+
+const base = {
+  yesVotes: new BN(30),
+  noVotes: new BN(10),
+  castVotes: [
+    { wallet: 'alice', voteKind: VoteKind.Approve, weight: new BN(30) },
+    { wallet: 'bob', voteKind: VoteKind.Deny, weight: new BN(10) },
+  ],
+  maxVoteWeight: new BN(100),
+  thresholdPct: 60,
+} as const
+
+describe('getMinimumYesVotes', () => {
+  test('rounds up like the governance program', () => {
+    expect(getMinimumYesVotes(new BN(100), 60).toNumber()).toBe(60)
+    expect(getMinimumYesVotes(new BN(101), 60).toNumber()).toBe(61)
+  })
+})
+
+describe('simulateProposalVote', () => {
+  test('keeps the current tally without hypothetical votes', () => {
+    const result = simulateProposalVote({
+      ...base,
+      castVotes: [...base.castVotes],
+      hypotheticalVotes: [],
+      voteTipping: VoteTipping.Strict,
+    })
+    expect(result.yesVotes.toNumber()).toBe(30)
+    expect(result.tippedOutcome).toBeUndefined()
+    expect(result.finalOutcome).toBe('defeated')
+  })
+
+  test('replaces the vote of a wallet which already voted', () => {
+    const result = simulateProposalVote({
+      ...base,
+      castVotes: [...base.castVotes],
+      hypotheticalVotes: [
+        { wallet: 'bob', voteKind: VoteKind.Approve, weight: new BN(10) },
+      ],
+      voteTipping: VoteTipping.Disabled,
+    })
+    expect(result.yesVotes.toNumber()).toBe(40)
+    expect(result.noVotes.toNumber()).toBe(0)
+  })
+
+  test('tips early once the threshold is reached with more yes than no', () => {
+    const hypotheticalVotes: SimulatedVote[] = [
+      { wallet: 'carol', voteKind: VoteKind.Approve, weight: new BN(10) },
+    ]
+    const votes = {
+      ...base,
+      castVotes: [...base.castVotes],
+      thresholdPct: 40,
+      hypotheticalVotes,
+    }
+    expect(
+      simulateProposalVote({ ...votes, voteTipping: VoteTipping.Early })
+        .tippedOutcome,
+    ).toBe('succeeded')
+    // strict tipping needs the majority of the max vote weight
+    expect(
+      simulateProposalVote({ ...votes, voteTipping: VoteTipping.Strict })
+        .tippedOutcome,
+    ).toBeUndefined()
+    expect(
+      simulateProposalVote({ ...votes, voteTipping: VoteTipping.Disabled }),
+    ).toMatchObject({ tippedOutcome: undefined, finalOutcome: 'succeeded' })
+  })
+
+  test('is defeated once the threshold can not be reached', () => {
+    const result = simulateProposalVote({
+      ...base,
+      castVotes: [...base.castVotes],
+      hypotheticalVotes: [
+        { wallet: 'carol', voteKind: VoteKind.Deny, weight: new BN(31) },
+      ],
+      voteTipping: VoteTipping.Strict,
+    })
+    expect(result.tippedOutcome).toBe('defeated')
+  })
+
+  test('abstaining only withdraws the previous vote', () => {
+    const result = simulateProposalVote({
+      ...base,
+      castVotes: [...base.castVotes],
+      hypotheticalVotes: [
+        { wallet: 'alice', voteKind: VoteKind.Abstain, weight: new BN(30) },
+      ],
+      voteTipping: VoteTipping.Strict,
+    })
+    expect(result.yesVotes.toNumber()).toBe(0)
+    expect(result.noVotes.toNumber()).toBe(10)
+  })
+})
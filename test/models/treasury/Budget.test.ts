@@ -0,0 +1,69 @@
+import BigNumber from 'bignumber.js'
+import {
+  BudgetSpend,
+  findBudgetOverruns,
+  getBudgetStatus,
+} from 'models/treasury/Budget'
+
+const USDC = 'usdc'
+const now = new Date('2024-03-16T00:00:00Z')
+
+const spend = (date: string, amount: number, mint = USDC): BudgetSpend => ({
+  governance: 'ops',
+  proposal: `proposal-${date}`,
+  mint,
+  executedAt: new Date(date).getTime() / 1000,
+  amount: new BigNumber(amount),
+})
+
+test('getBudgetStatus tracks the month spend and the runway at the current burn', () => {
+  const status = getBudgetStatus(
+    { mint: USDC, monthlyAllowance: '1000' },
+    [
+      // before the burn rate window
+      spend('2023-12-20', 5000),
+      spend('2024-01-10', 600),
+      spend('2024-02-10', 900),
+      spend('2024-03-02', 300),
+      spend('2024-03-05', 300),
+      spend('2024-03-06', 100, 'sol'),
+    ],
+    new BigNumber(10_500),
+    now,
+  )
+
+  expect(status.spent.toNumber()).toEqual(600)
+  expect(status.remaining.toNumber()).toEqual(400)
+  // 2100 spent over the 75 days since January 1st
+  expect(status.monthlyBurn.toNumber()).toBeCloseTo(2100 / (75 / 30.4375), 6)
+  expect(status.runwayMonths).toBeCloseTo(12.32, 2)
+})
+
+test('getBudgetStatus has no runway without spend', () => {
+  const status = getBudgetStatus(
+    { mint: USDC, monthlyAllowance: '1000' },
+    [],
+    new BigNumber(100),
+    now,
+  )
+  expect(status.runwayMonths).toBeUndefined()
+  expect(status.remaining.toNumber()).toEqual(1000)
+})
+
+test('findBudgetOverruns sums the transfers of a proposal per mint', () => {
+  const overruns = findBudgetOverruns(
+    [
+      { mint: USDC, amount: new BigNumber(300) },
+      { mint: USDC, amount: new BigNumber(200) },
+      { mint: 'sol', amount: new BigNumber(5) },
+    ],
+    [
+      { mint: USDC, remaining: new BigNumber(400) },
+      { mint: 'sol', remaining: new BigNumber(10) },
+    ],
+  )
+
+  expect(overruns).toHaveLength(1)
+  expect(overruns[0].mint).toEqual(USDC)
+  expect(overruns[0].amount.toNumber()).toEqual(500)
+})
@@ -0,0 +1,161 @@
+import {
+  ConfirmedSignatureInfo,
+  ParsedTransactionWithMeta,
+  PublicKey,
+} from '@solana/web3.js'
+import BN from 'bn.js'
+import bs58 from 'bs58'
+import {
+  LEDGER_SOL_MINT,
+  ledgerToCsv,
+  mergeSignaturePages,
+  parseLedgerEntry,
+} from 'models/treasury/Ledger'
+
+const governanceProgramId = PublicKey.unique()
+const treasury = PublicKey.unique()
+const treasuryUsdc = PublicKey.unique()
+const recipient = PublicKey.unique()
+const recipientUsdc = PublicKey.unique()
+const usdcMint = PublicKey.unique().toBase58()
+const proposal = PublicKey.unique()
+
+const tokenBalance = (
+  accountIndex: number,
+  owner: PublicKey,
+  amount: number,
+) => ({
+  accountIndex,
+  mint: usdcMint,
+  owner: owner.toBase58(),
+  uiTokenAmount: {
+    amount: amount.toString(),
+    decimals: 6,
+    uiAmount: amount / 1e6,
+  },
+})
+
+const executeTransaction = {
+  slot: 100,
+  blockTime: 1_700_000_000,
+  meta: {
+    err: null,
+    fee: 5000,
+    preBalances: [10_000_000_000, 3_000_000_000, 0, 2_000_000, 2_000_000],
+    postBalances: [
+      9_999_995_000, 2_000_000_000, 1_000_000_000, 2_000_000, 2_000_000,
+    ],
+    preTokenBalances: [
+      tokenBalance(3, treasury, 5_000_000),
+      tokenBalance(4, recipient, 0),
+    ],
+    postTokenBalances: [
+      tokenBalance(3, treasury, 3_000_000),
+      tokenBalance(4, recipient, 2_000_000),
+    ],
+  },
+  transaction: {
+    signatures: ['sig'],
+    message: {
+      accountKeys: [
+        PublicKey.unique(),
+        treasury,
+        recipient,
+        treasuryUsdc,
+        recipientUsdc,
+      ].map((pubkey) => ({ pubkey, signer: false, writable: true })),
+      instructions: [
+        {
+          programId: governanceProgramId,
+          accounts: [PublicKey.unique(), proposal, PublicKey.unique()],
+          data: bs58.encode([16]),
+        },
+      ],
+      recentBlockhash: '',
+    },
+  },
+} as unknown as ParsedTransactionWithMeta
+
+const signature = (slot: number): ConfirmedSignatureInfo => ({
+  signature: `sig-${slot}`,
+  slot,
+  err: null,
+  memo: null,
+  blockTime: slot,
+})
+
+test('parseLedgerEntry nets the tracked balance changes', () => {
+  const entry = parseLedgerEntry(
+    'sig',
+    executeTransaction,
+    [treasury.toBase58()],
+    [governanceProgramId.toBase58()],
+  )
+
+  expect(entry.proposal).toEqual(proposal.toBase58())
+  expect(entry.fee).toEqual(0)
+  expect(
+    entry.changes.map((x) => [x.mint, x.account, x.amount.toNumber()]),
+  ).toEqual([
+    [LEDGER_SOL_MINT, treasury.toBase58(), -1_000_000_000],
+    [usdcMint, treasuryUsdc.toBase58(), -2_000_000],
+  ])
+})
+
+test('mergeSignaturePages leaves signatures past a full page for the next page', () => {
+  const first = mergeSignaturePages(
+    [
+      { address: 'a', signatures: [signature(10), signature(8)] },
+      { address: 'b', signatures: [signature(9), signature(5)] },
+      { address: 'c', signatures: [signature(7)] },
+    ],
+    {},
+    2,
+  )
+
+  expect(first.signatures.map((x) => x.slot)).toEqual([10, 9, 8])
+  expect(first.cursor).toEqual({ a: 'sig-8', b: 'sig-9', c: undefined })
+  expect(first.done).toBe(false)
+
+  const last = mergeSignaturePages(
+    [
+      { address: 'a', signatures: [] },
+      { address: 'b', signatures: [signature(5)] },
+      { address: 'c', signatures: [signature(7)] },
+    ],
+    first.cursor,
+    2,
+  )
+  expect(last.signatures.map((x) => x.slot)).toEqual([7, 5])
+  expect(last.done).toBe(true)
+})
+
+test('ledgerToCsv writes a row per change and fee', () => {
+  const csv = ledgerToCsv(
+    [
+      {
+        signature: 'sig',
+        slot: 1,
+        blockTime: 0,
+        failed: false,
+        fee: 5000,
+        proposal: 'proposal',
+        changes: [
+          {
+            mint: usdcMint,
+            account: 'account',
+            amount: new BN(-2_500_000),
+            decimals: 6,
+          },
+        ],
+      },
+    ],
+    { [usdcMint]: 'USDC' },
+  )
+
+  expect(csv.trim().split('\n')).toEqual([
+    'date,signature,proposal,type,account,mint,symbol,amount',
+    `,sig,proposal,outflow,account,${usdcMint},USDC,-2.5`,
+    `,sig,proposal,fee,,${LEDGER_SOL_MINT},SOL,-0.000005`,
+  ])
+})
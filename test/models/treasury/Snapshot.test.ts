@@ -0,0 +1,71 @@
+import {
+  buildPeriodReports,
+  compareSnapshots,
+  SnapshotBalance,
+  TreasurySnapshot,
+} from 'models/treasury/Snapshot'
+
+const balance = (
+  governance: string,
+  mint: string,
+  amount: number,
+  price: number | null,
+): SnapshotBalance => ({
+  governance,
+  wallet: `${governance}-${mint}`,
+  mint,
+  amount: amount.toString(),
+  price,
+})
+
+const snapshot = (
+  date: string,
+  balances: SnapshotBalance[],
+): TreasurySnapshot => ({
+  realm: 'realm',
+  takenAt: new Date(date).getTime() / 1000,
+  source: 'scheduled',
+  balances,
+})
+
+test('compareSnapshots splits the change in value into flows and price effect', () => {
+  const [report] = compareSnapshots(
+    snapshot('2024-01-01', [
+      balance('ops', 'SOL', 10, 100),
+      balance('ops', 'USDC', 1000, 1),
+    ]),
+    snapshot('2024-02-01', [
+      balance('ops', 'SOL', 8, 120),
+      balance('ops', 'USDC', 1500, null),
+      balance('ops', 'BONK', 100, 0.5),
+    ]),
+  )
+
+  expect(report.opening.toNumber()).toEqual(2000)
+  // 500 USDC at the carried over price and 100 BONK
+  expect(report.inflows.toNumber()).toEqual(550)
+  expect(report.outflows.toNumber()).toEqual(240)
+  expect(report.priceEffect.toNumber()).toEqual(200)
+  expect(report.closing.toNumber()).toEqual(2510)
+  expect(
+    report.opening
+      .plus(report.inflows)
+      .minus(report.outflows)
+      .plus(report.priceEffect)
+      .toNumber(),
+  ).toEqual(report.closing.toNumber())
+})
+
+test('buildPeriodReports opens each month on the previous close', () => {
+  const january = snapshot('2024-01-05', [balance('ops', 'SOL', 1, 100)])
+  const januaryClose = snapshot('2024-01-31', [balance('ops', 'SOL', 2, 100)])
+  const march = snapshot('2024-03-10', [balance('ops', 'SOL', 3, 100)])
+
+  const reports = buildPeriodReports([march, january, januaryClose])
+
+  expect(reports.map((x) => x.period)).toEqual(['2024-03', '2024-01'])
+  expect(reports[0].opening).toBe(januaryClose)
+  expect(reports[0].closing).toBe(march)
+  expect(reports[1].opening).toBe(january)
+  expect(reports[1].governances[0].inflows.toNumber()).toEqual(100)
+})
@@ -0,0 +1,123 @@
+import { generateKeyPairSync, sign } from 'crypto'
+import { NextApiRequest, NextApiResponse } from 'next'
+import { PublicKey } from '@solana/web3.js'
+import {
+  DelegateProfile,
+  DelegateProfileContent,
+  getDelegateProfileMessage,
+} from 'models/delegates/DelegateProfile'
+import {
+  DelegateProfileStore,
+  hasTokenOwnerRecord,
+} from 'models/delegates/DelegateProfileStore'
+import handler from 'pages/api/delegateProfiles.api'
+
+jest.mock('@sentry/nextjs', () => ({
+  withSentry: (handler: unknown) => handler,
+}))
+
+// profiles kept in a map instead of the KV store
+const profiles = new Map<string, DelegateProfile>()
+
+jest.mock('@models/delegates/DelegateProfileStore', () => ({
+  ...jest.requireActual('@models/delegates/DelegateProfileStore'),
+  hasTokenOwnerRecord: jest.fn(),
+  DelegateProfileStore: jest.fn(() => ({
+    list: async (realm: string) =>
+      [...profiles.values()].filter((x) => x.realm === realm),
+    put: async (profile: DelegateProfile) => {
+      const current = profiles.get(profile.wallet)
+      if (current && current.signedAt >= profile.signedAt) return false
+      profiles.set(profile.wallet, profile)
+      return true
+    },
+  })),
+}))
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519')
+const wallet = new PublicKey(
+  publicKey.export({ format: 'der', type: 'spki' }).subarray(-32),
+).toBase58()
+const realm = 'DPiH3H3c7t47BMxqTxLsuPQpEC6Kne8GA9VXbxpnZxFE'
+
+const signProfile = (content: DelegateProfileContent): DelegateProfile => ({
+  ...content,
+  signature: sign(
+    null,
+    Buffer.from(getDelegateProfileMessage(content)),
+    privateKey,
+  ).toString('hex'),
+})
+
+const profile = signProfile({
+  realm,
+  wallet,
+  statement: 'I vote for sustainable treasury spend',
+  links: [],
+  signedAt: 1_700_000_000,
+})
+
+const call = async (req: Partial<NextApiRequest>) => {
+  const res = {
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis(),
+    setHeader: jest.fn(),
+  }
+  await handler(req as NextApiRequest, res as unknown as NextApiResponse)
+  return {
+    status: res.status.mock.calls[0][0],
+    body: res.json.mock.calls[0][0],
+  }
+}
+
+describe('delegateProfiles api', () => {
+  const originalRpc = process.env.BACKEND_MAINNET_RPC
+
+  beforeEach(() => {
+    process.env.BACKEND_MAINNET_RPC = 'http://localhost:8899'
+    profiles.clear()
+    jest.mocked(hasTokenOwnerRecord).mockResolvedValue(true)
+  })
+  afterAll(() => {
+    process.env.BACKEND_MAINNET_RPC = originalRpc
+  })
+
+  test('publishes a profile signed by a member and lists it', async () => {
+    await expect(
+      call({ method: 'POST', body: { ...profile, extra: 'ignored' } }),
+    ).resolves.toEqual({ status: 200, body: profile })
+    await expect(call({ method: 'GET', query: { realm } })).resolves.toEqual({
+      status: 200,
+      body: [profile],
+    })
+    expect(DelegateProfileStore).toHaveBeenCalled()
+  })
+
+  test('rejects invalid and altered profiles', async () => {
+    await expect(
+      call({ method: 'POST', body: { ...profile, links: 'none' } }),
+    ).resolves.toMatchObject({ status: 400 })
+    await expect(
+      call({ method: 'POST', body: { ...profile, statement: 'Altered' } }),
+    ).resolves.toMatchObject({ status: 401 })
+  })
+
+  test('rejects wallets without a token owner record in the realm', async () => {
+    jest.mocked(hasTokenOwnerRecord).mockResolvedValue(false)
+
+    await expect(
+      call({ method: 'POST', body: profile }),
+    ).resolves.toMatchObject({ status: 403 })
+    expect(profiles.size).toBe(0)
+  })
+
+  test('keeps the newer profile of a wallet', async () => {
+    const newer = signProfile({ ...profile, signedAt: profile.signedAt + 1 })
+
+    await call({ method: 'POST', body: newer })
+    await expect(
+      call({ method: 'POST', body: profile }),
+    ).resolves.toMatchObject({ status: 409 })
+    expect(profiles.get(wallet)).toEqual(newer)
+  })
+})
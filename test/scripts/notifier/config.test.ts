@@ -0,0 +1,61 @@
+import { parseNotifierConfig } from 'scripts/notifier/config'
+
+const base = {
+  rpcUrl: 'http://localhost:8899',
+  realms: [{ realm: 'MNGO' }],
+}
+
+describe('parseNotifierConfig', () => {
+  afterEach(() => {
+    delete process.env.NOTIFIER_TEST_WEBHOOK
+  })
+
+  test('reads $NAME values from the environment', () => {
+    process.env.NOTIFIER_TEST_WEBHOOK = 'https://discord.test/hook'
+    const config = parseNotifierConfig({
+      ...base,
+      sinks: [
+        {
+          type: 'discord',
+          name: 'team',
+          webhookUrl: '$NOTIFIER_TEST_WEBHOOK',
+        },
+      ],
+    })
+    expect(config.sinks).toEqual([
+      {
+        type: 'discord',
+        name: 'team',
+        webhookUrl: 'https://discord.test/hook',
+      },
+    ])
+    expect(config.pollIntervalSeconds).toBe(5 * 60)
+  })
+
+  test('fails when a referenced variable is not set', () => {
+    expect(() =>
+      parseNotifierConfig({
+        ...base,
+        sinks: [
+          {
+            type: 'discord',
+            name: 'team',
+            webhookUrl: '$NOTIFIER_TEST_WEBHOOK',
+          },
+        ],
+      }),
+    ).toThrow('Environment variable NOTIFIER_TEST_WEBHOOK is not set')
+  })
+
+  test('rejects realms referencing unknown sinks', () => {
+    expect(() =>
+      parseNotifierConfig({
+        ...base,
+        realms: [{ realm: 'MNGO', sinks: ['team'] }],
+      }),
+    ).toThrow('Realm MNGO references unknown sink team')
+    expect(() => parseNotifierConfig([])).toThrow(
+      'Notifier config must be an object',
+    )
+  })
+})
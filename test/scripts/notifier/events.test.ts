@@ -0,0 +1,124 @@
+import {
+  Governance,
+  MintMaxVoteWeightSource,
+  ProgramAccount,
+  Proposal,
+  ProposalState,
+  Realm,
+  VoteType,
+} from '@solana/spl-governance'
+import { MintInfo } from '@solana/spl-token'
+import { Keypair } from '@solana/web3.js'
+import BN from 'bn.js'
+import { detectProposalEvents } from 'scripts/notifier/events'
+
+const DAY = 24 * 60 * 60
+const communityMint = Keypair.generate().publicKey
+
+const governance = {
+  pubkey: Keypair.generate().publicKey,
+  account: {
+    config: {
+      baseVotingTime: 3 * DAY,
+      votingCoolOffTime: 0,
+      communityVoteThreshold: { value: 60 },
+    },
+  },
+} as ProgramAccount<Governance>
+
+const realm = {
+  pubkey: Keypair.generate().publicKey,
+  account: {
+    config: {
+      communityMintMaxVoteWeightSource:
+        MintMaxVoteWeightSource.FULL_SUPPLY_FRACTION,
+    },
+  },
+} as ProgramAccount<Realm>
+
+const proposal = (
+  state: ProposalState,
+  votingAt: number,
+  { yes = 0, no = 0, instructionsCount = 0, closedAt = 0 } = {},
+) =>
+  ({
+    pubkey: Keypair.generate().publicKey,
+    account: {
+      name: 'Fund the grants program',
+      governance: governance.pubkey,
+      governingTokenMint: communityMint,
+      state,
+      voteType: VoteType.SINGLE_CHOICE,
+      votingAt: new BN(votingAt),
+      votingCompletedAt: null,
+      closedAt: closedAt ? new BN(closedAt) : null,
+      instructionsCount,
+      isVoteFinalized: () => false,
+      getYesVoteCount: () => new BN(yes),
+      getNoVoteCount: () => new BN(no),
+    },
+  }) as unknown as ProgramAccount<Proposal>
+
+const detect = (proposals: ProgramAccount<Proposal>[], now: number) =>
+  detectProposalEvents(
+    {
+      realm,
+      governances: { [governance.pubkey.toBase58()]: governance },
+      proposals,
+      mints: {
+        [communityMint.toBase58()]: {
+          supply: new BN(100),
+          decimals: 0,
+        } as MintInfo,
+      },
+    },
+    now,
+    DAY,
+  ).map(({ event, timestamp, vars }) => ({
+    event,
+    timestamp,
+    status: vars.status,
+  }))
+
+describe('detectProposalEvents', () => {
+  test('a proposal in its last day of voting is ending soon', () => {
+    expect(detect([proposal(ProposalState.Voting, 0)], 2.5 * DAY)).toEqual([
+      { event: 'opened', timestamp: 0, status: '' },
+      { event: 'endingSoon', timestamp: 2 * DAY, status: '' },
+    ])
+    expect(
+      detect([proposal(ProposalState.Voting, 0)], DAY).map((x) => x.event),
+    ).toEqual(['opened'])
+  })
+
+  test('computes the outcome of a vote which is over but not finalized', () => {
+    const [passed, noQuorum] = [
+      proposal(ProposalState.Voting, 0, { yes: 60, no: 10 }),
+      proposal(ProposalState.Voting, 0, { yes: 50 }),
+    ]
+    expect(detect([passed, noQuorum], 4 * DAY)).toEqual([
+      { event: 'opened', timestamp: 0, status: '' },
+      { event: 'succeeded', timestamp: 3 * DAY, status: 'Success' },
+      { event: 'opened', timestamp: 0, status: '' },
+      {
+        event: 'defeated',
+        timestamp: 3 * DAY,
+        status: 'Defeated - Quorum Not Reached',
+      },
+    ])
+  })
+
+  test('reports the execution of completed proposals with transactions', () => {
+    const executed = proposal(ProposalState.Completed, 0, {
+      yes: 70,
+      instructionsCount: 1,
+      closedAt: 4 * DAY,
+    })
+    const cancelled = proposal(ProposalState.Cancelled, 0)
+    expect(detect([executed, cancelled], 5 * DAY).map((x) => x.event)).toEqual([
+      'opened',
+      'succeeded',
+      'executed',
+    ])
+  })
+})
@@ -0,0 +1,139 @@
+import { Keypair } from '@solana/web3.js'
+import BigNumber from 'bignumber.js'
+import BN from 'bn.js'
+import { AssetAccount } from '@utils/uiTypes/assets'
+import {
+  groupPayouts,
+  parsePayoutsCsv,
+  PayoutRow,
+  SOL_PAYOUT_MINT,
+} from '@utils/batchPayouts'
+
+const governance = Keypair.generate().publicKey
+const treasury = Keypair.generate().publicKey
+const usdc = Keypair.generate().publicKey
+const recipient = Keypair.generate().publicKey
+
+const wallet = {
+  governance: { pubkey: governance },
+  extensions: {
+    transferAddress: treasury,
+    solAccount: { lamports: 2_000_000_000 },
+  },
+} as unknown as AssetAccount
+
+const tokenAccount = (owner: typeof treasury, amount: number) =>
+  ({
+    isToken: true,
+    extensions: {
+      mint: { publicKey: usdc, account: { decimals: 6 } },
+      token: { account: { owner, amount: new BN(amount) } },
+    },
+  }) as unknown as AssetAccount
+
+const row = (line: number, mint: string, amount: number) =>
+  ({
+    line,
+    recipient,
+    mint,
+    amount: new BigNumber(amount),
+  }) as PayoutRow
+
+describe('parsePayoutsCsv', () => {
+  test('skips the header and reports invalid lines', async () => {
+    const { rows, errors } = await parsePayoutsCsv(
+      [
+        'recipient,mint,amount',
+        `${recipient.toBase58()},sol,1.5`,
+        `${recipient.toBase58()},${usdc.toBase58()},20`,
+        `not-a-key,SOL,1`,
+        `${recipient.toBase58()},not-a-mint,1`,
+        `${recipient.toBase58()},SOL,-1`,
+        `${recipient.toBase58()},SOL`,
+        `${recipient.toBase58()},SOL,0.0000000001`,
+      ].join('\n'),
+    )
+    expect(
+      rows.map((x) => [
+        x.line,
+        x.recipient.toBase58(),
+        x.mint,
+        x.amount.toString(),
+      ]),
+    ).toEqual([
+      [2, recipient.toBase58(), SOL_PAYOUT_MINT, '1.5'],
+      [3, recipient.toBase58(), usdc.toBase58(), '20'],
+    ])
+    expect(errors).toEqual([
+      'Line 4: invalid recipient not-a-key',
+      'Line 5: invalid mint not-a-mint',
+      'Line 6: invalid amount -1',
+      'Line 7: expected recipient, mint and amount',
+      'Line 8: amount 0.0000000001 has more than 9 decimals',
+    ])
+  })
+})
+
+describe('groupPayouts', () => {
+  test('sums the rows per mint from the largest treasury account', () => {
+    const small = tokenAccount(treasury, 1_000_000)
+    const large = tokenAccount(governance, 50_000_000)
+    const other = tokenAccount(Keypair.generate().publicKey, 900_000_000)
+    const unknownMint = Keypair.generate().publicKey.toBase58()
+
+    const { groups, unmatched } = groupPayouts(
+      [
+        row(1, SOL_PAYOUT_MINT, 1),
+        row(2, usdc.toBase58(), 20),
+        row(3, usdc.toBase58(), 5),
+        row(4, unknownMint, 1),
+      ],
+      wallet,
+      [small, other, large],
+    )
+
+    expect(
+      groups.map((x) => ({
+        source: x.source,
+        mint: x.mint,
+        lines: x.rows.map((r) => r.line),
+        total: x.total.toString(),
+        balance: x.balance.toString(),
+      })),
+    ).toEqual([
+      {
+        source: wallet,
+        mint: SOL_PAYOUT_MINT,
+        lines: [1],
+        total: '1',
+        balance: '2',
+      },
+      {
+        source: large,
+        mint: usdc.toBase58(),
+        lines: [2, 3],
+        total: '25',
+        balance: '50',
+      },
+    ])
+    expect(unmatched.map((x) => x.line)).toEqual([4])
+  })
+
+  test('reports the amounts with more decimals than their mint', () => {
+    const { groups, errors } = groupPayouts(
+      [
+        row(1, usdc.toBase58(), 0.0000001),
+        row(2, usdc.toBase58(), 1.5),
+        row(3, usdc.toBase58(), 2.1234567),
+      ],
+      wallet,
+      [tokenAccount(treasury, 50_000_000)],
+    )
+
+    expect(groups.map((x) => x.rows.map((r) => r.line))).toEqual([[2]])
+    expect(errors).toEqual([
+      'Line 1: amount 0.0000001 has more than 6 decimals',
+      'Line 3: amount 2.1234567 has more than 6 decimals',
+    ])
+  })
+})
@@ -0,0 +1,89 @@
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js'
+import {
+  isOfflineSigner,
+  parseSignedTransactions,
+  serializeOfflineTransaction,
+  toQrChunks,
+} from '@utils/offlineSigning'
+
+const payer = Keypair.generate()
+
+const transfer = (lamports: number) => {
+  const transaction = new Transaction({
+    feePayer: payer.publicKey,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+  }).add(
+    SystemProgram.transfer({
+      fromPubkey: payer.publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports,
+    }),
+  )
+  transaction.sign(payer)
+  return serializeOfflineTransaction(transaction)
+}
+
+const signatures = (transactions: Transaction[]) =>
+  transactions.map((x) => x.signature?.toString('base64'))
+
+describe('toQrChunks', () => {
+  test('splits the base64 transaction in numbered chunks', () => {
+    const tx = transfer(1)
+    const chunks = toQrChunks(tx, 1, 3, 100)
+    expect(chunks.length).toBe(Math.ceil(tx.base64.length / 100))
+    expect(chunks[0]).toBe(
+      `realms-tx:2/3:1/${chunks.length}:${tx.base64.slice(0, 100)}`,
+    )
+    expect(chunks.map((x) => x.split(':')[3]).join('')).toBe(tx.base64)
+  })
+})
+
+describe('parseSignedTransactions', () => {
+  const txs = [transfer(1), transfer(2)]
+  const expected = txs.map(
+    (x) =>
+      Transaction.from(Buffer.from(x.base64, 'base64')).signature?.toString(
+        'base64',
+      ),
+  )
+
+  test('reads bundles, base58 and base64 lines', () => {
+    expect(parseSignedTransactions('  ')).toEqual([])
+    expect(
+      signatures(
+        parseSignedTransactions(JSON.stringify({ transactions: txs })),
+      ),
+    ).toEqual(expected)
+    expect(
+      signatures(parseSignedTransactions(txs.map((x) => x.base58).join('\n'))),
+    ).toEqual(expected)
+    expect(
+      signatures(parseSignedTransactions(txs.map((x) => x.base64).join('\n'))),
+    ).toEqual(expected)
+  })
+
+  test('reassembles QR chunks scanned in any order', () => {
+    const chunks = txs.flatMap((x, i) => toQrChunks(x, i, txs.length, 50))
+    expect(
+      signatures(parseSignedTransactions([...chunks].reverse().join('\n'))),
+    ).toEqual(expected)
+    expect(() => parseSignedTransactions(chunks.slice(1).join('\n'))).toThrow(
+      'Transaction 1 is missing chunks',
+    )
+  })
+
+  test('rejects lines which are not transactions', () => {
+    expect(() => parseSignedTransactions('not-a-transaction')).toThrow(
+      'Line 1 is not a serialized transaction',
+    )
+  })
+})
+
+describe('isOfflineSigner', () => {
+  test('only matches wallets flagged as offline signers', () => {
+    const { publicKey } = payer
+    expect(isOfflineSigner({ publicKey, OFFLINE_SIGNER: true })).toBe(true)
+    expect(isOfflineSigner({ publicKey })).toBe(false)
+    expect(isOfflineSigner(undefined)).toBe(false)
+  })
+})
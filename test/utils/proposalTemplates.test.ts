@@ -0,0 +1,103 @@
+import { Keypair } from '@solana/web3.js'
+import BN from 'bn.js'
+import { AssetAccount } from '@utils/uiTypes/assets'
+import { Instructions } from '@utils/uiTypes/proposalCreationTypes'
+import {
+  applyTemplateParams,
+  deserializeFormValues,
+  getInstructionFromTemplateKey,
+  getTemplateParams,
+  parseProposalTemplates,
+  PROPOSAL_TEMPLATE_VERSION,
+  ProposalTemplate,
+  serializeFormValues,
+} from '@utils/proposalTemplates'
+
+const template: ProposalTemplate = {
+  version: PROPOSAL_TEMPLATE_VERSION,
+  id: '1',
+  name: 'Monthly grant',
+  createdAt: 0,
+  title: 'Pay {{ recipient }} for {{month}}',
+  description: 'Grant for {{month}}',
+  voteByCouncil: false,
+  isMulti: false,
+  options: [],
+  instructions: [
+    {
+      type: 'Transfer',
+      form: { amount: '{{amount}}', destinationAccount: '{{recipient}}' },
+    },
+  ],
+}
+
+describe('serializeFormValues', () => {
+  test('round trips keys, numbers and asset accounts through JSON', () => {
+    const destination = Keypair.generate().publicKey
+    const assetAccount = {
+      pubkey: Keypair.generate().publicKey,
+      governance: {},
+      type: 0,
+    } as unknown as AssetAccount
+    const form = {
+      governedTokenAccount: assetAccount,
+      destination,
+      amount: new BN(42),
+      memo: 'rent',
+      validate: () => true,
+    }
+
+    const serialized = JSON.parse(JSON.stringify(serializeFormValues(form)))
+    expect(serialized).toEqual({
+      governedTokenAccount: { $assetAccount: assetAccount.pubkey.toBase58() },
+      destination: { $publicKey: destination.toBase58() },
+      amount: { $bn: '42' },
+      memo: 'rent',
+    })
+
+    const restored = deserializeFormValues(serialized, [assetAccount])
+    expect(restored.governedTokenAccount).toBe(assetAccount)
+    expect(restored.destination.equals(destination)).toBe(true)
+    expect(restored.amount.toNumber()).toBe(42)
+  })
+})
+
+describe('template params', () => {
+  test('lists the placeholders in order of appearance', () => {
+    expect(getTemplateParams(template)).toEqual([
+      'recipient',
+      'month',
+      'amount',
+    ])
+  })
+
+  test('fills placeholders and keeps the unknown ones', () => {
+    const filled = applyTemplateParams(template, {
+      recipient: 'alice',
+      amount: '10',
+    })
+    expect(filled.title).toBe('Pay alice for {{month}}')
+    expect(filled.instructions[0].form).toEqual({
+      amount: '10',
+      destinationAccount: 'alice',
+    })
+  })
+})
+
+describe('parseProposalTemplates', () => {
+  test('reads the instruction types of version 1 templates by enum value', () => {
+    const [parsed] = parseProposalTemplates(
+      JSON.stringify({
+        ...template,
+        version: 1,
+        instructions: [{ type: Instructions.Transfer, form: {} }],
+      }),
+    )
+    expect(parsed.version).toBe(PROPOSAL_TEMPLATE_VERSION)
+    expect(parsed.instructions[0].type).toBe('Transfer')
+    expect(getInstructionFromTemplateKey(parsed.instructions[0].type)).toBe(
+      Instructions.Transfer,
+    )
+    expect(getInstructionFromTemplateKey('NotAnInstruction')).toBeUndefined()
+  })
+})
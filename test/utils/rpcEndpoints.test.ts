@@ -0,0 +1,145 @@
+import { DEVNET_RPC } from '@constants/endpoints'
+import {
+  createFailoverFetch,
+  getEndpoints,
+  getEndpointStats,
+  rankEndpoints,
+  THIRD_PARTY_ENDPOINTS,
+} from '@utils/rpcEndpoints'
+import useRpcEndpointsStore, { RpcEndpoint } from 'stores/useRpcEndpointsStore'
+
+const endpoint = (url: string): RpcEndpoint => ({
+  url,
+  label: url,
+  cluster: 'devnet',
+})
+
+const healthy = (latency: number) => ({
+  checkedAt: 0,
+  latency,
+  slot: 100,
+  slotLag: 0,
+  supportsGpa: true,
+})
+
+describe('rankEndpoints', () => {
+  const endpoints = ['a', 'b', 'c', 'd'].map(endpoint)
+
+  test('orders healthy endpoints by latency, unchecked and unhealthy ones last', () => {
+    const ranked = rankEndpoints(endpoints, {
+      a: { checkedAt: 0, error: 'Timed out' },
+      c: healthy(300),
+      d: healthy(100),
+    })
+    expect(ranked.map((x) => x.url)).toEqual(['d', 'c', 'b', 'a'])
+  })
+
+  test('puts the preferred endpoint first while it is healthy', () => {
+    const health = {
+      a: healthy(300),
+      b: healthy(100),
+      c: { ...healthy(50), supportsGpa: false },
+      d: { ...healthy(50), slotLag: 500 },
+    }
+    expect(rankEndpoints(endpoints, health, 'a')[0].url).toBe('a')
+    expect(rankEndpoints(endpoints, health, 'c')[0].url).toBe('b')
+  })
+})
+
+describe('getEndpoints', () => {
+  test('leaves out the third party endpoints until they are added', () => {
+    const [thirdParty] = THIRD_PARTY_ENDPOINTS
+    useRpcEndpointsStore.setState({ customEndpoints: [] })
+    expect(getEndpoints(thirdParty.cluster)).not.toContainEqual(thirdParty)
+
+    useRpcEndpointsStore.setState({ customEndpoints: [thirdParty] })
+    expect(getEndpoints(thirdParty.cluster)).toContainEqual(thirdParty)
+  })
+})
+
+describe('createFailoverFetch', () => {
+  const fetchMock = jest.fn()
+
+  beforeEach(() => {
+    global.fetch = fetchMock
+    fetchMock.mockReset()
+    useRpcEndpointsStore.setState({
+      customEndpoints: [endpoint('http://backup')],
+      preferred: {},
+      health: {
+        [DEVNET_RPC]: healthy(50),
+        'http://backup': healthy(100),
+      },
+    })
+  })
+
+  test('fails over to the next endpoint and marks the failed one', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce({ status: 200 })
+
+    const response = await createFailoverFetch('devnet')(DEVNET_RPC, {
+      method: 'POST',
+    })
+
+    expect(response.status).toBe(200)
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      DEVNET_RPC,
+      'http://backup',
+    ])
+    expect(useRpcEndpointsStore.getState().health[DEVNET_RPC].error).toBe(
+      'Error: Network error',
+    )
+    expect(getEndpointStats()[DEVNET_RPC]).toMatchObject({
+      requests: 1,
+      failures: 1,
+    })
+  })
+
+  test('stays on the current endpoint until it fails', async () => {
+    fetchMock
+      .mockResolvedValueOnce({ status: 200 })
+      .mockResolvedValueOnce({ status: 200 })
+      .mockResolvedValueOnce({ status: 503 })
+      .mockResolvedValue({ status: 200 })
+    const failoverFetch = createFailoverFetch('devnet')
+
+    await failoverFetch(DEVNET_RPC, {})
+    // ranked first now, but the requests do not follow the latency
+    useRpcEndpointsStore.getState().setHealth('http://backup', healthy(10))
+    await failoverFetch(DEVNET_RPC, {})
+    await failoverFetch(DEVNET_RPC, {})
+    await failoverFetch(DEVNET_RPC, {})
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      DEVNET_RPC,
+      DEVNET_RPC,
+      DEVNET_RPC,
+      'http://backup',
+      'http://backup',
+    ])
+  })
+
+  test('moves to the endpoint the user prefers', async () => {
+    fetchMock.mockResolvedValue({ status: 200 })
+    const failoverFetch = createFailoverFetch('devnet')
+
+    await failoverFetch(DEVNET_RPC, {})
+    useRpcEndpointsStore.getState().setPreferred('devnet', 'http://backup')
+    await failoverFetch(DEVNET_RPC, {})
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      DEVNET_RPC,
+      'http://backup',
+    ])
+  })
+
+  test('returns the last rate limited response when every endpoint is', async () => {
+    fetchMock.mockResolvedValue({ status: 429 })
+
+    const response = await createFailoverFetch('devnet')(DEVNET_RPC, {})
+
+    expect(response.status).toBe(429)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
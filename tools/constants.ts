@@ -18,6 +18,9 @@ export const DEFAULT_NFT_VOTER_PLUGIN =
 export const DEFAULT_NFT_VOTER_PLUGIN_V2 =
   'GnftVc21v2BRchsRa9dGdrVmJPLZiRHe9j2offnFTZFg'
 
+export const MANGO_INSTRUCTION_FORWARDER =
+  'ixFPGCPYEp5GzhoahhHFVL8VVzkq1kc2eeFZh3qpYca'
+
 export const JUPITER_REFERRAL_PK = new PublicKey(
   'EV4qhLE2yPKdUPdQ74EWJUn21xT3eGQxG3DRR1g9NNFc',
 )
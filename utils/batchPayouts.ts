@@ -0,0 +1,282 @@
+import { parse } from 'csv-parse/sync'
+import BigNumber from 'bignumber.js'
+import BN from 'bn.js'
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  TOKEN_2022_PROGRAM_ID,
+} from '@solana/spl-token-new'
+import { serializeInstructionToBase64 } from '@solana/spl-governance'
+import { tryParseDomain, tryParseKey } from '@tools/validators/pubkey'
+import { AssetAccount } from '@utils/uiTypes/assets'
+import { getMultipleAccountInfoChunked, TOKEN_PROGRAM_ID } from '@utils/tokens'
+
+export const SOL_PAYOUT_MINT = 'SOL'
+
+export interface PayoutRow {
+  // 1 based csv line, used in error messages
+  line: number
+  recipient: PublicKey
+  // mint address or SOL for native transfers from the wallet
+  mint: string
+  amount: BigNumber
+}
+
+export interface PayoutGroup {
+  source: AssetAccount
+  mint: string
+  decimals: number
+  rows: PayoutRow[]
+  total: BigNumber
+  balance: BigNumber
+}
+
+const HEADER_REGEX = /^(recipient|wallet|address)$/i
+const SOL_DECIMALS = 9
+
+const hasTooManyDecimals = (amount: BigNumber, decimals: number) =>
+  (amount.decimalPlaces() ?? 0) > decimals
+
+const tooManyDecimalsError = (
+  { line, amount }: PayoutRow,
+  decimals: number,
+) => {
+  const value = amount.toFixed()
+  return `Line ${line}: amount ${value} has more than ${decimals} decimals`
+}
+
+/**
+ * Parses `recipient,mint,amount` lines, the header line is optional. Recipients can be addresses or .sol domains
+ */
+export async function parsePayoutsCsv(csv: string) {
+  const records: string[][] = parse(csv.trim(), {
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+  })
+  const rows: PayoutRow[] = []
+  const errors: string[] = []
+
+  for (const [i, record] of records.entries()) {
+    const line = i + 1
+    const [recipient, mint, amount] = record
+    if (i === 0 && HEADER_REGEX.test(recipient)) {
+      continue
+    }
+    if (record.length < 3) {
+      errors.push(`Line ${line}: expected recipient, mint and amount`)
+      continue
+    }
+    const recipientPk = recipient.endsWith('.sol')
+      ? await tryParseDomain(recipient)
+      : tryParseKey(recipient)
+    if (!recipientPk) {
+      errors.push(`Line ${line}: invalid recipient ${recipient}`)
+      continue
+    }
+    const isSol = mint.toUpperCase() === SOL_PAYOUT_MINT
+    if (!isSol && !tryParseKey(mint)) {
+      errors.push(`Line ${line}: invalid mint ${mint}`)
+      continue
+    }
+    const parsedAmount = new BigNumber(amount)
+    if (!parsedAmount.isFinite() || parsedAmount.lte(0)) {
+      errors.push(`Line ${line}: invalid amount ${amount}`)
+      continue
+    }
+    const parsedRow = {
+      line,
+      recipient: recipientPk,
+      mint: isSol ? SOL_PAYOUT_MINT : new PublicKey(mint).toBase58(),
+      amount: parsedAmount,
+    }
+    // the decimals of token mints are only known once the rows are grouped
+    if (isSol && hasTooManyDecimals(parsedAmount, SOL_DECIMALS)) {
+      errors.push(tooManyDecimalsError(parsedRow, SOL_DECIMALS))
+      continue
+    }
+    rows.push(parsedRow)
+  }
+
+  return { rows, errors }
+}
+
+const toUiAmount = (amount: BN, decimals: number) =>
+  new BigNumber(amount.toString()).shiftedBy(-decimals)
+
+/**
+ * Assigns every row to the wallet's treasury account holding its mint, picking the account with the
+ * largest balance when the wallet owns several accounts of the same mint. Rows with more decimals
+ * than their mint are reported in errors
+ */
+export function groupPayouts(
+  rows: PayoutRow[],
+  wallet: AssetAccount,
+  tokenAccounts: AssetAccount[],
+) {
+  const owner = wallet.extensions.transferAddress
+  const walletTokenAccounts = tokenAccounts.filter(
+    (x) =>
+      x.isToken &&
+      (x.extensions.token?.account.owner.equals(owner!) ||
+        x.extensions.token?.account.owner.equals(wallet.governance.pubkey)),
+  )
+  const groups = new Map<string, PayoutGroup>()
+  const unmatched: PayoutRow[] = []
+  const errors: string[] = []
+
+  for (const row of rows) {
+    const existing = groups.get(row.mint)
+    if (existing && hasTooManyDecimals(row.amount, existing.decimals)) {
+      errors.push(tooManyDecimalsError(row, existing.decimals))
+      continue
+    }
+    if (existing) {
+      existing.rows.push(row)
+      existing.total = existing.total.plus(row.amount)
+      continue
+    }
+
+    if (row.mint === SOL_PAYOUT_MINT) {
+      groups.set(row.mint, {
+        source: wallet,
+        mint: row.mint,
+        decimals: SOL_DECIMALS,
+        rows: [row],
+        total: row.amount,
+        balance: toUiAmount(
+          new BN(wallet.extensions.solAccount?.lamports ?? 0),
+          SOL_DECIMALS,
+        ),
+      })
+      continue
+    }
+
+    const source = walletTokenAccounts
+      .filter((x) => x.extensions.mint?.publicKey.toBase58() === row.mint)
+      .sort((a, b) =>
+        b.extensions.token!.account.amount.cmp(
+          a.extensions.token!.account.amount,
+        ),
+      )[0]
+    if (!source) {
+      unmatched.push(row)
+      continue
+    }
+    const decimals = source.extensions.mint!.account.decimals
+    if (hasTooManyDecimals(row.amount, decimals)) {
+      errors.push(tooManyDecimalsError(row, decimals))
+      continue
+    }
+    groups.set(row.mint, {
+      source,
+      mint: row.mint,
+      decimals,
+      rows: [row],
+      total: row.amount,
+      balance: toUiAmount(source.extensions.token!.account.amount, decimals),
+    })
+  }
+
+  return { groups: [...groups.values()], unmatched, errors }
+}
+
+// rows with more decimals than their mint are rejected by parsePayoutsCsv and groupPayouts
+const toNaturalAmount = (amount: BigNumber, decimals: number) => {
+  if (hasTooManyDecimals(amount, decimals)) {
+    throw new Error(`${amount.toFixed()} has more than ${decimals} decimals`)
+  }
+  return BigInt(amount.shiftedBy(decimals).toFixed())
+}
+
+/**
+ * Builds one transfer per row, plus the missing recipient token accounts as prerequisite instructions
+ * paid by the proposer
+ */
+export async function getBatchPayoutInstructions(
+  connection: Connection,
+  payer: PublicKey,
+  groups: PayoutGroup[],
+) {
+  const transfers: TransactionInstruction[] = []
+  const atas: {
+    address: PublicKey
+    owner: PublicKey
+    mint: PublicKey
+    programId: PublicKey
+  }[] = []
+
+  for (const group of groups) {
+    if (group.mint === SOL_PAYOUT_MINT) {
+      for (const row of group.rows) {
+        transfers.push(
+          SystemProgram.transfer({
+            fromPubkey: group.source.extensions.transferAddress!,
+            toPubkey: row.recipient,
+            lamports: toNaturalAmount(row.amount, SOL_DECIMALS),
+          }),
+        )
+      }
+      continue
+    }
+
+    const mint = new PublicKey(group.mint)
+    const token = group.source.extensions.token!
+    const programId = token.account.isToken2022
+      ? TOKEN_2022_PROGRAM_ID
+      : TOKEN_PROGRAM_ID
+    for (const row of group.rows) {
+      const ata = getAssociatedTokenAddressSync(
+        mint,
+        row.recipient,
+        true,
+        programId,
+      )
+      if (!atas.find((x) => x.address.equals(ata))) {
+        atas.push({ address: ata, owner: row.recipient, mint, programId })
+      }
+      transfers.push(
+        createTransferCheckedInstruction(
+          token.publicKey,
+          mint,
+          ata,
+          token.account.owner,
+          toNaturalAmount(row.amount, group.decimals),
+          group.decimals,
+          [],
+          programId,
+        ),
+      )
+    }
+  }
+
+  const ataInfos = await getMultipleAccountInfoChunked(
+    connection,
+    atas.map((x) => x.address),
+  )
+  const prerequisiteInstructions = atas
+    .filter((_x, i) => !ataInfos[i])
+    .map((x) =>
+      createAssociatedTokenAccountIdempotentInstruction(
+        payer,
+        x.address,
+        x.owner,
+        x.mint,
+        x.programId,
+      ),
+    )
+
+  return {
+    serializedInstructions: transfers.map((x) =>
+      serializeInstructionToBase64(x),
+    ),
+    prerequisiteInstructions,
+  }
+}
@@ -3,10 +3,6 @@ import { Connection } from '@solana/web3.js'
 import type { EndpointInfo } from '../@types/types'
 import { DEVNET_RPC, MAINNET_RPC } from '@constants/endpoints'
 
-export const BACKUP_CONNECTIONS = [
-  new Connection(`https://rpc.mngo.cloud/rlmk0lo5odee/`, 'recent'),
-]
-
 const ENDPOINTS: EndpointInfo[] = [
   {
     name: 'mainnet',
@@ -0,0 +1,15 @@
+/** Saves generated contents (json, csv...) as a file through a temporary link */
+export function downloadFile(
+  filename: string,
+  contents: string,
+  type = 'application/json',
+) {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
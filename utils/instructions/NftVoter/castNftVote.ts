@@ -28,6 +28,8 @@ export const getCastNftVoteInstruction = async (
   voterWeightPk: PublicKey,
   votingNfts: DasNftObject[],
   nftVoteRecordsFiltered: NftVoteRecord[],
+  // the delegate when voting with the nfts of a delegator
+  voterAuthorityPk = walletPk,
 ) => {
   console.log('getCastNftVoteInstruction')
   const clientProgramId = program.programId
@@ -72,8 +74,8 @@ export const getCastNftVoteInstruction = async (
           registrar,
           voterWeightRecord: voterWeightPk,
           voterTokenOwnerRecord: tokenOwnerRecord,
-          voterAuthority: walletPk,
-          payer: walletPk,
+          voterAuthority: voterAuthorityPk,
+          payer: voterAuthorityPk,
           systemProgram: SYSTEM_PROGRAM_ID,
         })
         .remainingAccounts(chunk)
@@ -88,8 +90,8 @@ export const getCastNftVoteInstruction = async (
       registrar,
       voterWeightRecord: voterWeightPk,
       voterTokenOwnerRecord: tokenOwnerRecord,
-      voterAuthority: walletPk,
-      payer: walletPk,
+      voterAuthority: voterAuthorityPk,
+      payer: voterAuthorityPk,
       systemProgram: SYSTEM_PROGRAM_ID,
     })
     .instruction()
@@ -106,6 +108,8 @@ export const getCastNftVoteInstructionV2 = async (
   voterWeightPk: PublicKey,
   votingNfts: DasNftObject[],
   nftVoteRecordsFiltered: NftVoteRecord[],
+  // the delegate when voting with the nfts of a delegator
+  voterAuthorityPk = walletPk,
 ) => {
   console.log('getCastNftVoteInstructionV2')
   const clientProgramId = program.programId
@@ -166,8 +170,8 @@ export const getCastNftVoteInstructionV2 = async (
         .accounts({
           registrar,
           voterWeightRecord: voterWeightPk,
-          voterAuthority: walletPk,
-          payer: walletPk,
+          voterAuthority: voterAuthorityPk,
+          payer: voterAuthorityPk,
           systemProgram: SYSTEM_PROGRAM_ID,
         })
         .remainingAccounts(chunk)
@@ -217,7 +221,7 @@ export const getCastNftVoteInstructionV2 = async (
         .accounts({
           registrar,
           voterWeightRecord: voterWeightPk,
-          payer: walletPk,
+          payer: voterAuthorityPk,
           compressionProgram: ACCOUNT_COMPACTION_PROGRAM_ID,
           systemProgram: SYSTEM_PROGRAM_ID,
         })
@@ -245,8 +249,8 @@ export const getCastNftVoteInstructionV2 = async (
           registrar,
           voterWeightRecord: voterWeightPk,
           voterTokenOwnerRecord: tokenOwnerRecord,
-          voterAuthority: walletPk,
-          payer: walletPk,
+          voterAuthority: voterAuthorityPk,
+          payer: voterAuthorityPk,
           systemProgram: SYSTEM_PROGRAM_ID,
         })
         .remainingAccounts(chunk)
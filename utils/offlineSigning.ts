@@ -0,0 +1,242 @@
+import {
+  Connection,
+  Keypair,
+  NonceAccount,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import { SignerWalletAdapter } from '@solana/wallet-adapter-base'
+import bs58 from 'bs58'
+import useOfflineSigningStore from 'stores/useOfflineSigningStore'
+
+export const OFFLINE_BUNDLE_VERSION = 1
+
+// small enough for a QR code scanned from a screen
+export const QR_CHUNK_SIZE = 400
+const QR_CHUNK_PREFIX = 'realms-tx'
+
+export interface OfflineTransaction {
+  base64: string
+  base58: string
+}
+
+export interface OfflineTransactionBundle {
+  version: number
+  signer: string
+  createdAt: number
+  // durable nonce accounts used by the transactions, in order
+  nonceAccounts: string[]
+  transactions: OfflineTransaction[]
+}
+
+export interface OfflineTransactionInstructions {
+  instructions: TransactionInstruction[]
+  // ephemeral signers, they sign before the export
+  signers?: Keypair[]
+}
+
+export interface OfflineSigner {
+  publicKey: PublicKey
+  OFFLINE_SIGNER: true
+}
+
+/** Offline signers stand in for the connected wallet, see useOfflineSignerWallet */
+export const isOfflineSigner = <
+  T extends Pick<SignerWalletAdapter, 'publicKey'>,
+>(
+  wallet: T | null | undefined,
+): wallet is T & OfflineSigner =>
+  !!wallet && 'OFFLINE_SIGNER' in wallet && wallet.OFFLINE_SIGNER === true
+
+/**
+ * Builds unsigned legacy transactions paid by the offline signer. With durable nonce accounts every
+ * transaction advances its own nonce so it stays valid until it is broadcast, otherwise the latest
+ * blockhash is used and the signed transactions have to be broadcast within about a minute
+ */
+export async function buildOfflineTransactions(
+  connection: Connection,
+  feePayer: PublicKey,
+  transactions: OfflineTransactionInstructions[],
+  nonceAccounts: PublicKey[] = [],
+) {
+  if (nonceAccounts.length && nonceAccounts.length < transactions.length) {
+    throw new Error(
+      `${transactions.length} transactions need as many durable nonce accounts, ${nonceAccounts.length} available`,
+    )
+  }
+  const nonces = nonceAccounts.length
+    ? await Promise.all(
+        nonceAccounts.slice(0, transactions.length).map(async (pk) => {
+          const info = await connection.getAccountInfo(pk)
+          if (!info) {
+            throw new Error(`Nonce account ${pk.toBase58()} not found`)
+          }
+          return {
+            pubkey: pk,
+            account: NonceAccount.fromAccountData(info.data),
+          }
+        }),
+      )
+    : []
+  const { blockhash } = nonces.length
+    ? { blockhash: '' }
+    : await connection.getLatestBlockhash('confirmed')
+
+  return transactions.map(({ instructions, signers = [] }, i) => {
+    const nonce = nonces[i]
+    const transaction = new Transaction({ feePayer })
+    if (nonce) {
+      transaction.add(
+        SystemProgram.nonceAdvance({
+          noncePubkey: nonce.pubkey,
+          authorizedPubkey: nonce.account.authorizedPubkey,
+        }),
+      )
+    }
+    transaction.add(...instructions)
+    transaction.recentBlockhash = nonce ? nonce.account.nonce : blockhash
+    if (signers.length) {
+      transaction.partialSign(...signers)
+    }
+    return transaction
+  })
+}
+
+export function serializeOfflineTransaction(
+  transaction: Transaction,
+): OfflineTransaction {
+  const serialized = transaction.serialize({
+    requireAllSignatures: false,
+    verifySignatures: false,
+  })
+  return {
+    base64: serialized.toString('base64'),
+    base58: bs58.encode(serialized),
+  }
+}
+
+/**
+ * Builds the transactions with the configured nonce accounts and queues them in the export modal
+ * instead of sending them
+ */
+export async function exportOfflineTransactions(
+  connection: Connection,
+  feePayer: PublicKey,
+  transactions: OfflineTransactionInstructions[],
+) {
+  const { nonceAccounts, bundle, addToBundle } =
+    useOfflineSigningStore.getState()
+  // nonces of the transactions already waiting for export can't be reused
+  const availableNonceAccounts = nonceAccounts.filter(
+    (x) => !bundle?.nonceAccounts.includes(x),
+  )
+  if (nonceAccounts.length && !availableNonceAccounts.length) {
+    throw new Error('All durable nonce accounts are used by the export')
+  }
+  const built = await buildOfflineTransactions(
+    connection,
+    feePayer,
+    transactions,
+    availableNonceAccounts.map((x) => new PublicKey(x)),
+  )
+  addToBundle({
+    version: OFFLINE_BUNDLE_VERSION,
+    signer: feePayer.toBase58(),
+    createdAt: Date.now(),
+    nonceAccounts: availableNonceAccounts.slice(0, built.length),
+    transactions: built.map(serializeOfflineTransaction),
+  })
+}
+
+/** Splits a transaction in `realms-tx:<tx>/<txs>:<part>/<parts>:<base64>` chunks */
+export function toQrChunks(
+  transaction: OfflineTransaction,
+  index: number,
+  count: number,
+  chunkSize = QR_CHUNK_SIZE,
+) {
+  const parts = Math.ceil(transaction.base64.length / chunkSize)
+  return [...Array(parts).keys()].map(
+    (part) =>
+      `${QR_CHUNK_PREFIX}:${index + 1}/${count}:${
+        part + 1
+      }/${parts}:${transaction.base64.slice(
+        part * chunkSize,
+        (part + 1) * chunkSize,
+      )}`,
+  )
+}
+
+function fromQrChunks(lines: string[]) {
+  const transactions: string[][] = []
+  for (const line of lines) {
+    const [, tx, part, data] = line.split(':')
+    const [txIndex] = tx.split('/').map(Number)
+    const [partIndex, parts] = part.split('/').map(Number)
+    if (!txIndex || !partIndex || !parts || data === undefined) {
+      throw new Error(`Invalid chunk ${line}`)
+    }
+    transactions[txIndex - 1] ??= Array(parts)
+    transactions[txIndex - 1][partIndex - 1] = data
+  }
+  return transactions.map((chunks, i) => {
+    if (!chunks || [...chunks].some((x) => x === undefined)) {
+      throw new Error(`Transaction ${i + 1} is missing chunks`)
+    }
+    return chunks.join('')
+  })
+}
+
+const BASE58_REGEX = /^[1-9A-HJ-NP-Za-km-z]+$/
+
+/**
+ * Accepts an exported bundle, chunked QR payloads or one base64 / base58 transaction per line
+ */
+export function parseSignedTransactions(input: string): Transaction[] {
+  const trimmed = input.trim()
+  if (!trimmed) {
+    return []
+  }
+  if (trimmed.startsWith('{')) {
+    const bundle: OfflineTransactionBundle = JSON.parse(trimmed)
+    if (!Array.isArray(bundle.transactions)) {
+      throw new Error('Invalid transaction bundle')
+    }
+    return bundle.transactions.map((x) =>
+      Transaction.from(Buffer.from(x.base64, 'base64')),
+    )
+  }
+  const lines = trimmed
+    .split(/\s+/)
+    .map((x) => x.trim())
+    .filter(Boolean)
+  if (lines[0].startsWith(`${QR_CHUNK_PREFIX}:`)) {
+    return fromQrChunks(lines).map((x) =>
+      Transaction.from(Buffer.from(x, 'base64')),
+    )
+  }
+  return lines.map((line, i) => {
+    try {
+      return Transaction.from(
+        BASE58_REGEX.test(line)
+          ? bs58.decode(line)
+          : Buffer.from(line, 'base64'),
+      )
+    } catch (e) {
+      throw new Error(`Line ${i + 1} is not a serialized transaction`)
+    }
+  })
+}
+
+/** Returns the signers that are missing, and whether the present signatures are valid */
+export function verifySignedTransaction(transaction: Transaction) {
+  const missingSigners = transaction.signatures
+    .filter((x) => !x.signature)
+    .map((x) => x.publicKey)
+  return {
+    missingSigners,
+    valid: !missingSigners.length && transaction.verifySignatures(),
+  }
+}
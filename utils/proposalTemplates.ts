@@ -0,0 +1,211 @@
+import { PublicKey } from '@solana/web3.js'
+import BN from 'bn.js'
+import { AssetAccount } from '@utils/uiTypes/assets'
+import { Instructions } from '@utils/uiTypes/proposalCreationTypes'
+
+// 2: instruction types are stored by name instead of by enum value
+export const PROPOSAL_TEMPLATE_VERSION = 2
+
+export interface ProposalTemplateInstruction {
+  // name of the Instructions member, its value changes when members are added or reordered
+  type: string
+  // instruction form values, see serializeFormValues. Hold up times are part of the form
+  form?: Record<string, any>
+}
+
+export interface ProposalTemplate {
+  version: number
+  id: string
+  name: string
+  createdAt: number
+  // title, description, options and string form values may contain {{param}} placeholders
+  title: string
+  description: string
+  voteByCouncil: boolean
+  isMulti: boolean
+  options: string[]
+  // governance the instructions were created under, used to keep them together on instantiation
+  governance?: string
+  instructions: ProposalTemplateInstruction[]
+}
+
+// markers for values that don't survive JSON, asset accounts are looked up again by address
+type SerializedValue =
+  | { $assetAccount: string }
+  | { $publicKey: string }
+  | { $bn: string }
+
+export const getInstructionTemplateKey = (type: Instructions) =>
+  Instructions[type]
+
+export const getInstructionFromTemplateKey = (
+  key: string,
+): Instructions | undefined => {
+  const type = Instructions[key as keyof typeof Instructions]
+  return typeof type === 'number' ? type : undefined
+}
+
+// version 1 templates were written with the enum values of the current Instructions
+const migrateInstructionType = (type: unknown) =>
+  typeof type === 'number' ? Instructions[type] : String(type)
+
+/** Upgrades templates saved by earlier versions of the app, see PROPOSAL_TEMPLATE_VERSION */
+export const migrateProposalTemplate = (
+  template: ProposalTemplate,
+): ProposalTemplate => ({
+  ...template,
+  version: PROPOSAL_TEMPLATE_VERSION,
+  instructions: template.instructions.map((x) => ({
+    ...x,
+    type: migrateInstructionType(x.type),
+  })),
+})
+
+const PARAM_REGEX = /{{\s*([\w.-]+)\s*}}/g
+
+const isAssetAccount = (value: any): value is AssetAccount =>
+  value?.pubkey instanceof PublicKey &&
+  value?.governance !== undefined &&
+  value?.type !== undefined
+
+const isPlainObject = (value: any) =>
+  value !== null &&
+  typeof value === 'object' &&
+  Object.getPrototypeOf(value) === Object.prototype
+
+export function serializeFormValues(value: any): any {
+  if (isAssetAccount(value)) {
+    return { $assetAccount: value.pubkey.toBase58() }
+  }
+  if (value instanceof PublicKey) {
+    return { $publicKey: value.toBase58() }
+  }
+  if (BN.isBN(value)) {
+    return { $bn: value.toString() }
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeFormValues)
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => typeof v !== 'function')
+        .map(([k, v]) => [k, serializeFormValues(v)]),
+    )
+  }
+  // drops class instances we don't know how to restore, e.g. parsed mint infos
+  return typeof value === 'object' && value !== null ? undefined : value
+}
+
+export function deserializeFormValues(
+  value: any,
+  assetAccounts: AssetAccount[],
+): any {
+  if (Array.isArray(value)) {
+    return value.map((x) => deserializeFormValues(x, assetAccounts))
+  }
+  if (!isPlainObject(value)) {
+    return value
+  }
+  const marker = value as SerializedValue
+  if ('$assetAccount' in marker) {
+    return assetAccounts.find(
+      (x) => x.pubkey.toBase58() === marker.$assetAccount,
+    )
+  }
+  if ('$publicKey' in marker) {
+    return new PublicKey(marker.$publicKey)
+  }
+  if ('$bn' in marker) {
+    return new BN(marker.$bn)
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [
+      k,
+      deserializeFormValues(v, assetAccounts),
+    ]),
+  )
+}
+
+const collectParams = (value: any, params: Set<string>) => {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(PARAM_REGEX)) {
+      params.add(match[1])
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((x) => collectParams(x, params))
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach((x) => collectParams(x, params))
+  }
+}
+
+/** Names of the {{param}} placeholders used anywhere in the template, in order of appearance */
+export function getTemplateParams(template: ProposalTemplate) {
+  const params = new Set<string>()
+  collectParams(
+    [
+      template.title,
+      template.description,
+      template.options,
+      template.instructions.map((x) => x.form),
+    ],
+    params,
+  )
+  return [...params]
+}
+
+const fillParams = (value: any, params: Record<string, string>): any => {
+  if (typeof value === 'string') {
+    return value.replace(PARAM_REGEX, (placeholder, name) =>
+      name in params ? params[name] : placeholder,
+    )
+  }
+  if (Array.isArray(value)) {
+    return value.map((x) => fillParams(x, params))
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, fillParams(v, params)]),
+    )
+  }
+  return value
+}
+
+export const applyTemplateParams = (
+  template: ProposalTemplate,
+  params: Record<string, string>,
+): ProposalTemplate => fillParams(template, params)
+
+export function parseProposalTemplates(json: string): ProposalTemplate[] {
+  const parsed = JSON.parse(json)
+  const templates: any[] = Array.isArray(parsed) ? parsed : [parsed]
+  return templates.map((x, i) => {
+    if (typeof x?.name !== 'string' || !Array.isArray(x?.instructions)) {
+      throw new Error(`Template ${i + 1} is missing a name or instructions`)
+    }
+    if ((x.version ?? 0) > PROPOSAL_TEMPLATE_VERSION) {
+      throw new Error(
+        `Template ${x.name} was exported by a newer version of the app`,
+      )
+    }
+    return migrateProposalTemplate({
+      version: x.version ?? 0,
+      id: typeof x.id === 'string' ? x.id : `${Date.now()}-${i}`,
+      name: x.name,
+      createdAt: x.createdAt ?? Date.now(),
+      title: x.title ?? '',
+      description: x.description ?? '',
+      voteByCouncil: !!x.voteByCouncil,
+      isMulti: !!x.isMulti,
+      options: x.options ?? [],
+      governance: x.governance,
+      instructions: x.instructions.map((ix: any) => ({
+        type: ix.type,
+        form: ix.form,
+      })),
+    })
+  })
+}
+
+export const exportProposalTemplates = (templates: ProposalTemplate[]) =>
+  JSON.stringify(templates.length === 1 ? templates[0] : templates, null, 2)
@@ -0,0 +1,258 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import type { EndpointTypes } from '@models/types'
+import { DEVNET_RPC, MAINNET_RPC } from '@constants/endpoints'
+import { DEFAULT_GOVERNANCE_PROGRAM_ID } from '@components/instructions/tools'
+import useRpcEndpointsStore, {
+  EndpointHealth,
+  RpcEndpoint,
+} from '../stores/useRpcEndpointsStore'
+
+// endpoints further behind are only used when no other endpoint responds
+const MAX_SLOT_LAG = 50
+const HEALTH_CHECK_TIMEOUT = 10 * 1000
+
+const DEFAULT_ENDPOINTS: RpcEndpoint[] = [
+  { url: MAINNET_RPC, label: 'Realms', cluster: 'mainnet' },
+  { url: DEVNET_RPC, label: 'Realms', cluster: 'devnet' },
+  {
+    url: 'http://127.0.0.1:8899',
+    label: 'Local validator',
+    cluster: 'localnet',
+  },
+]
+
+/**
+ * Endpoints run by third parties, only read from once the user adds them: their slots can be far from
+ * the ones of the deployment. Signed transactions are rebroadcast to them either way.
+ */
+export const THIRD_PARTY_ENDPOINTS: RpcEndpoint[] = [
+  {
+    url: 'https://rpc.mngo.cloud/rlmk0lo5odee/',
+    label: 'Mango',
+    cluster: 'mainnet',
+  },
+]
+
+export const isDefaultEndpoint = (url: string) =>
+  DEFAULT_ENDPOINTS.some((x) => x.url === url)
+
+export const getEndpoints = (cluster: EndpointTypes) =>
+  [
+    ...DEFAULT_ENDPOINTS,
+    ...useRpcEndpointsStore.getState().customEndpoints,
+  ].filter((x) => x.cluster === cluster)
+
+export const isHealthyEndpoint = (health: EndpointHealth | undefined) =>
+  !!health &&
+  !health.error &&
+  health.supportsGpa !== false &&
+  (health.slotLag ?? 0) <= MAX_SLOT_LAG
+
+/**
+ * Orders endpoints for requests: healthy endpoints first, then the ones not checked yet and
+ * the unhealthy ones last. The preferred endpoint leads its group, the rest go by latency.
+ */
+export const rankEndpoints = (
+  endpoints: RpcEndpoint[],
+  health: Record<string, EndpointHealth>,
+  preferred?: string,
+) => {
+  const score = ({ url }: RpcEndpoint) => [
+    isHealthyEndpoint(health[url]) ? 0 : health[url] ? 2 : 1,
+    url === preferred ? 0 : 1,
+    health[url]?.latency ?? Infinity,
+  ]
+  return [...endpoints].sort((a, b) => {
+    const [scoreA, scoreB] = [score(a), score(b)]
+    const i = scoreA.findIndex((x, i) => x !== scoreB[i])
+    return i === -1 ? 0 : scoreA[i] - scoreB[i]
+  })
+}
+
+export const getRankedEndpoints = (cluster: EndpointTypes) => {
+  const { health, preferred } = useRpcEndpointsStore.getState()
+  return rankEndpoints(getEndpoints(cluster), health, preferred[cluster])
+}
+
+export type EndpointStats = {
+  requests: number
+  // network errors, rate limits and server errors
+  failures: number
+  totalLatency: number
+}
+
+// keyed by url, kept out of the store to not rerender on every request
+const stats: Record<string, EndpointStats> = {}
+
+export const getEndpointStats = (): Record<string, EndpointStats> =>
+  Object.fromEntries(Object.entries(stats).map(([k, v]) => [k, { ...v }]))
+
+const recordRequest = (url: string, latency: number, failed: boolean) => {
+  const endpointStats = (stats[url] ??= {
+    requests: 0,
+    failures: 0,
+    totalLatency: 0,
+  })
+  endpointStats.requests++
+  endpointStats.totalLatency += latency
+  if (failed) endpointStats.failures++
+}
+
+// responses another endpoint may answer better
+const isRetryable = (response: Response) =>
+  response.status === 429 || response.status >= 500
+
+/**
+ * fetch for the Connection of the cluster: sends the requests to the preferred endpoint, or the best ranked one,
+ * instead of the url of the connection. Requests stay on that endpoint and only fail over to the next ranked one
+ * when it does not respond, reads going back and forth between endpoints could see different slots.
+ */
+export const createFailoverFetch = (cluster: EndpointTypes): typeof fetch => {
+  // picked again when the user changes the preferred endpoint
+  let current: { url: string; preferred: string | undefined } | undefined
+
+  return async (input, init) => {
+    const ranked = getRankedEndpoints(cluster)
+    if (!ranked.length) return fetch(input, init)
+
+    const preferred = useRpcEndpointsStore.getState().preferred[cluster]
+    const currentUrl =
+      current &&
+      current.preferred === preferred &&
+      ranked.some((x) => x.url === current?.url)
+        ? current.url
+        : ranked[0].url
+    const endpoints = [
+      currentUrl,
+      ...ranked.map((x) => x.url).filter((x) => x !== currentUrl),
+    ]
+
+    let lastResponse: Response | undefined
+    let lastError: unknown
+    for (const url of endpoints) {
+      const startedAt = Date.now()
+      let error: string
+      try {
+        const response = await fetch(url, init)
+        recordRequest(url, Date.now() - startedAt, isRetryable(response))
+        if (!isRetryable(response)) {
+          current = { url, preferred }
+          return response
+        }
+        lastResponse = response
+        error = `Status ${response.status}`
+      } catch (e) {
+        recordRequest(url, Date.now() - startedAt, true)
+        lastError = e
+        error = `${e}`
+      }
+      // ranked last until the next health check
+      const { health, setHealth } = useRpcEndpointsStore.getState()
+      setHealth(url, { ...health[url], checkedAt: Date.now(), error })
+    }
+    current = undefined
+    // web3.js retries rate limited responses itself
+    if (lastResponse) return lastResponse
+    throw lastError
+  }
+}
+
+class TimeoutError extends Error {
+  constructor() {
+    super('Timed out')
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>) =>
+  Promise.race([
+    promise,
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new TimeoutError()), HEALTH_CHECK_TIMEOUT),
+    ),
+  ])
+
+// keyed by url, getProgramAccounts support does not change between health checks
+const gpaSupport = new Map<string, boolean>()
+
+const checkGpaSupport = async (connection: Connection) => {
+  const url = connection.rpcEndpoint
+  if (!gpaSupport.has(url)) {
+    try {
+      // filtered by realm, matches no account, providers without getProgramAccounts reject it anyway
+      await withTimeout(
+        connection.getProgramAccounts(
+          new PublicKey(DEFAULT_GOVERNANCE_PROGRAM_ID),
+          {
+            dataSlice: { offset: 0, length: 0 },
+            filters: [
+              { memcmp: { offset: 1, bytes: PublicKey.default.toBase58() } },
+            ],
+          },
+        ),
+      )
+      gpaSupport.set(url, true)
+    } catch (e) {
+      // probed again on the next health check
+      if (e instanceof TimeoutError) return undefined
+      gpaSupport.set(url, false)
+    }
+  }
+  return gpaSupport.get(url)
+}
+
+export const checkEndpointHealth = async (
+  url: string,
+): Promise<EndpointHealth> => {
+  // not the failover connection, each endpoint has to answer for itself
+  const connection = new Connection(url, 'confirmed')
+  try {
+    const startedAt = Date.now()
+    const slot = await withTimeout(connection.getSlot())
+    const latency = Date.now() - startedAt
+    const supportsGpa = await checkGpaSupport(connection)
+    return { checkedAt: Date.now(), latency, slot, supportsGpa }
+  } catch (e) {
+    return { checkedAt: Date.now(), error: `${e}` }
+  }
+}
+
+export const checkClusterHealth = async (cluster: EndpointTypes) => {
+  const endpoints = getEndpoints(cluster)
+  const results = await Promise.all(
+    endpoints.map((x) => checkEndpointHealth(x.url)),
+  )
+  const maxSlot = Math.max(0, ...results.map((x) => x.slot ?? 0))
+  endpoints.forEach((x, i) => {
+    const { slot } = results[i]
+    useRpcEndpointsStore.getState().setHealth(x.url, {
+      ...results[i],
+      slotLag: slot === undefined ? undefined : maxSlot - slot,
+    })
+  })
+}
+
+const backupConnections = new Map<string, Connection>()
+
+/**
+ * Connections transactions are rebroadcast to: the healthy endpoints of the cluster besides the one of the
+ * connection, and the third party endpoints
+ */
+export const getBackupConnections = (connection: Connection) => {
+  const cluster = DEFAULT_ENDPOINTS.find(
+    (x) => x.url === connection.rpcEndpoint,
+  )?.cluster
+  if (!cluster) return []
+
+  const { health } = useRpcEndpointsStore.getState()
+  const urls = getRankedEndpoints(cluster)
+    .filter((x) => !health[x.url] || isHealthyEndpoint(health[x.url]))
+    .concat(THIRD_PARTY_ENDPOINTS.filter((x) => x.cluster === cluster))
+    .map((x) => x.url)
+    .filter((x) => x !== connection.rpcEndpoint)
+  return [...new Set(urls)].map((url) => {
+    if (!backupConnections.has(url)) {
+      backupConnections.set(url, new Connection(url, 'recent'))
+    }
+    return backupConnections.get(url)!
+  })
+}
@@ -12,6 +12,7 @@ import { WalletSigner } from '@solana/spl-governance'
 import { invalidateInstructionAccounts } from '@hooks/queries/queryClient'
 import { createComputeBudgetIx } from '@blockworks-foundation/mango-v4'
 import { getFeeEstimate } from '@tools/feeEstimate'
+import { exportOfflineTransactions, isOfflineSigner } from './offlineSigning'
 
 class TransactionError extends Error {
   public txid: string
@@ -45,6 +46,11 @@ export async function sendTransaction({
   successMessage?: string
   timeout?: number
 }) {
+  if (isOfflineSigner(wallet)) {
+    return exportOfflineTransactions(connection, wallet.publicKey, [
+      { instructions: transaction.instructions, signers },
+    ])
+  }
   const signedTransaction = await signTransaction({
     transaction,
     wallet,
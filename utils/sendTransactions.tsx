@@ -3,6 +3,9 @@ import {
   TransactionInstruction,
   Keypair,
   ComputeBudgetProgram,
+  Connection,
+  Transaction,
+  VersionedTransaction,
 } from '@solana/web3.js'
 import {
   closeTransactionProcessUi,
@@ -20,8 +23,10 @@ import {
 import { getFeeEstimate } from '@tools/feeEstimate'
 import { TransactionInstructionWithSigners } from '@blockworks-foundation/mangolana/lib/globalTypes'
 import { createComputeBudgetIx } from '@blockworks-foundation/mango-v4'
-import { BACKUP_CONNECTIONS } from './connection'
+import { getBackupConnections } from './rpcEndpoints'
 import { ComputeBudgetService } from './services/computeBudget'
+import { exportOfflineTransactions, isOfflineSigner } from './offlineSigning'
+import { sendAndConfirmSignedTransaction } from './modifiedMangolana'
 
 export type WalletSigner = Pick<
   SignerWalletAdapter,
@@ -78,6 +83,17 @@ export const sendTransactionsV3 = async ({
     }
   }
 
+  if (isOfflineSigner(wallet)) {
+    return exportOfflineTransactions(
+      connection,
+      wallet.publicKey,
+      transactionInstructionsWithFee.map((tx) => ({
+        instructions: tx.instructionsSet.map((x) => x.transactionInstruction),
+        signers: tx.instructionsSet.flatMap((x) => x.signers ?? []),
+      })),
+    )
+  }
+
   const callbacksWithUiComponent = {
     afterBatchSign: (signedTxnsCount) => {
       if (callbacks?.afterBatchSign) {
@@ -145,11 +161,56 @@ export const sendTransactionsV3 = async ({
     callbacks: callbacksWithUiComponent,
     config: cfg,
     confirmLevel: 'confirmed',
-    backupConnections: BACKUP_CONNECTIONS, //TODO base this on connection confirmation level
+    backupConnections: getBackupConnections(connection), //TODO base this on connection confirmation level
     //lookupTableAccounts,
   })
 }
 
+/**
+ * Broadcasts transactions signed outside of the app, e.g. on an air gapped machine, one after another
+ * with the same progress and retry ui as sendTransactionsV3
+ */
+export const sendSignedTransactionsV3 = async ({
+  connection,
+  transactions,
+}: {
+  connection: Connection
+  transactions: Transaction[]
+}) => {
+  showTransactionsProcessUi(transactions.length)
+  for (const [i, transaction] of transactions.entries()) {
+    try {
+      await sendAndConfirmSignedTransaction({
+        connection,
+        signedTransaction: VersionedTransaction.deserialize(
+          transaction.serialize(),
+        ),
+        confirmLevel: 'confirmed',
+        timeoutStrategy: {
+          block: await connection.getLatestBlockhash('confirmed'),
+        },
+        config: { logFlowInfo: true },
+      })
+      incrementProcessedTransactions()
+    } catch (e) {
+      showTransactionError(
+        () =>
+          sendSignedTransactionsV3({
+            connection,
+            transactions: transactions.slice(i),
+          }),
+        getErrorMsg(e),
+        e.txid,
+      )
+      return
+    }
+  }
+  closeTransactionProcessUi()
+  transactions.forEach((tx) =>
+    tx.instructions.forEach((x) => invalidateInstructionAccounts(x)),
+  )
+}
+
 const getErrorMsg = (e) => {
   if (e.error) {
     return e.error
@@ -15,6 +15,7 @@ import {
 } from '@helium/voter-stake-registry-sdk'
 import { getUnusedPositionsForProposal } from 'HeliumVotePlugin/utils/getUnusedPositionsForProposal'
 import { getUsedPositionsForProposal } from 'HeliumVotePlugin/utils/getUsedPositionsForProposal'
+import { getPositions } from 'HeliumVotePlugin/utils/getPositions'
 import { getAssociatedTokenAddress } from '@blockworks-foundation/mango-v4'
 import queryClient from '@hooks/queries/queryClient'
 import asFindable from '@utils/queries/asFindable'
@@ -79,7 +80,11 @@ export class VotingClient {
   client: Client<any> | undefined
   realm: ProgramAccount<Realm> | undefined
   walletPk: PublicKey | null | undefined
+  // signs for the voter, the delegate when voting on behalf of a delegator
+  voterAuthorityPk: PublicKey | null | undefined
   heliumVsrVotingPositions: PositionWithMeta[]
+  // positions of another wallet than the one of the store, fetched when voting
+  private fetchHeliumVsrPositions = false
   oracles: PublicKey[]
   instructions: TransactionInstruction[]
   clientType: VotingClientType
@@ -94,6 +99,7 @@ export class VotingClient {
     this.client = client
     this.realm = realm
     this.walletPk = walletPk
+    this.voterAuthorityPk = walletPk
     this.heliumVsrVotingPositions = []
     this.oracles = []
     this.instructions = []
@@ -111,13 +117,38 @@ export class VotingClient {
   }
 
   // Take this exact voting client, but set a different voter wallet - useful for combining delegate and delegator votes
-  public for(wallet: PublicKey): VotingClient {
-    return new VotingClient({
+  public for(wallet: PublicKey, voterAuthority?: PublicKey): VotingClient {
+    const votingClient = new VotingClient({
       client: this.client,
       realm: this.realm,
       walletPk: wallet,
       voterWeightPluginDetails: this.voterWeightPluginDetails,
     })
+    votingClient.voterAuthorityPk = voterAuthority ?? wallet
+    if (this.walletPk && wallet.equals(this.walletPk)) {
+      votingClient.heliumVsrVotingPositions = this.heliumVsrVotingPositions
+    } else {
+      votingClient.fetchHeliumVsrPositions = true
+    }
+    return votingClient
+  }
+
+  private async getHeliumVsrVotingPositions(
+    client: HeliumVsrClient,
+    realm: ProgramAccount<Realm>,
+    walletPk: PublicKey,
+  ) {
+    if (!this.fetchHeliumVsrPositions) return this.heliumVsrVotingPositions
+    const { positions } = await getPositions({
+      realmPk: realm.pubkey,
+      walletPk,
+      communityMintPk: realm.account.communityMint,
+      client,
+      connection: client.program.provider.connection,
+    })
+    this._setCurrentHeliumVsrPositions(positions)
+    this.fetchHeliumVsrPositions = false
+    return positions
   }
 
   private get voterWeightPk() {
@@ -206,7 +237,11 @@ export class VotingClient {
       const unusedPositions = await getUnusedPositionsForProposal({
         connection: this.client.program.provider.connection,
         client: this.client,
-        positions: this.heliumVsrVotingPositions,
+        positions: await this.getHeliumVsrVotingPositions(
+          this.client,
+          realm,
+          walletPk,
+        ),
         proposalPk: proposal.pubkey,
       })
 
@@ -277,6 +312,7 @@ export class VotingClient {
           this.voterWeightPk,
           votingNfts,
           nftVoteRecordsFiltered,
+          this.voterAuthorityPk ?? walletPk,
         )
         instructions.push(...castNftVoteIxs)
       } else {
@@ -290,6 +326,7 @@ export class VotingClient {
             this.voterWeightPk,
             votingNfts,
             nftVoteRecordsFiltered,
+            this.voterAuthorityPk ?? walletPk,
           )
         createNftActionTicketIxs?.push(...castNftVoteTicketIxs)
         instructions.push(...castNftVoteIxs)
@@ -400,12 +400,17 @@ export enum Instructions {
   SymmetryDeposit,
   SymmetryWithdraw,
   CreateMeteoraPool,
+  BatchPayouts,
 }
 
 export interface ComponentInstructionData {
   governedAccount?: ProgramAccount<Governance> | undefined
   getInstruction?: () => Promise<UiInstruction>
   type: any
+  // current form values, reported by instructions that support proposal templates
+  form?: Record<string, any>
+  // serialized form values of a template waiting to be applied to the instruction form
+  templateForm?: Record<string, any>
 }
 export interface InstructionsContext {
   instructionsData: ComponentInstructionData[]